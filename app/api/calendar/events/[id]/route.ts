@@ -1,6 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth, clerkClient } from '@clerk/nextjs/server'
 import { supabaseAdmin } from '@/lib/supabase-server'
+import {
+  CALENDAR_EVENT_SELECT,
+  instantsFor,
+  normalizeCalendarEvent,
+  participantIdsOf,
+  participantStatesOf,
+  type ParticipantState,
+  type RawCalendarEventRow,
+} from '@/lib/calendar-events'
+import {
+  addDays,
+  continueRule,
+  daysBetween,
+  formatRRule,
+  isDateString,
+  parseRRule,
+  truncateRule,
+} from '@/lib/recurrence'
+import { isTimeString, isValidTimeZone } from '@/lib/time-zones'
+import { notifyEventInvite } from '@/lib/notifications'
+import type { RecurrenceScope } from '@/lib/types'
 
 /** Helper to get or create profile ID from Clerk userId */
 async function getOrCreateProfileId(userId: string): Promise<string | null> {
@@ -37,6 +58,167 @@ async function getOrCreateProfileId(userId: string): Promise<string | null> {
   return newProfile.id
 }
 
+const RECURRENCE_SCOPES: RecurrenceScope[] = ['this', 'following', 'all']
+
+interface EventTimeFields {
+  event_date: string
+  start_time: string
+  end_time: string
+  time_zone: string
+}
+
+/**
+ * `fields` plus the starts_at/ends_at they imply on top of `base`, or null
+ * when start and end would be the same time.
+ */
+function withInstants(
+  base: EventTimeFields,
+  fields: Record<string, unknown>
+): Record<string, unknown> | null {
+  const merged = { ...base, ...fields } as EventTimeFields
+  if (merged.start_time.slice(0, 5) === merged.end_time.slice(0, 5)) return null
+  return { ...fields, ...instantsFor(merged) }
+}
+
+/**
+ * Make the event's participants exactly the given profiles (plus the creator).
+ * With `optionalIds`, also sets who is optional. New participants take their
+ * response and optional flag from `inherited` (the series an override or
+ * split comes from) when present; anyone else new is notified of the
+ * invite. Returns false if a write failed.
+ */
+async function syncParticipants(
+  eventId: string,
+  creatorId: string,
+  participantIds: string[],
+  options: { optionalIds?: string[]; inherited?: Map<string, ParticipantState> } = {}
+): Promise<boolean> {
+  const allParticipantIds = new Set<string>([creatorId, ...participantIds])
+  const optionalIds = options.optionalIds
+    ? new Set(options.optionalIds.filter((uid) => uid !== creatorId))
+    : null
+
+  const { data: currentParticipants } = await supabaseAdmin
+    .from('event_participants')
+    .select('user_id, optional')
+    .eq('event_id', eventId)
+
+  const currentIds = new Set(
+    (currentParticipants ?? []).map((p) => p.user_id)
+  )
+
+  const toAdd = [...allParticipantIds].filter((uid) => !currentIds.has(uid))
+  const toRemove = [...currentIds].filter((uid) => !allParticipantIds.has(uid))
+
+  if (toRemove.length > 0) {
+    const { error: deleteError } = await supabaseAdmin
+      .from('event_participants')
+      .delete()
+      .eq('event_id', eventId)
+      .in('user_id', toRemove)
+
+    if (deleteError) {
+      console.error('Failed to remove event participants:', deleteError)
+      return false
+    }
+  }
+
+  if (toAdd.length > 0) {
+    const now = new Date().toISOString()
+    const { error: insertError } = await supabaseAdmin
+      .from('event_participants')
+      .insert(
+        toAdd.map((uid) => {
+          const inherited = options.inherited?.get(uid)
+          return {
+            event_id: eventId,
+            user_id: uid,
+            response: uid === creatorId ? 'accepted' : inherited?.response ?? 'needs-action',
+            response_comment: inherited?.response_comment ?? null,
+            responded_at: uid === creatorId ? now : inherited?.responded_at ?? null,
+            optional: optionalIds ? optionalIds.has(uid) : inherited?.optional ?? false,
+          }
+        })
+      )
+
+    if (insertError) {
+      console.error('Failed to add event participants:', insertError)
+      return false
+    }
+
+    // People carried over from the series were already invited
+    await notifyEventInvite(
+      eventId,
+      creatorId,
+      toAdd.filter((uid) => !options.inherited?.has(uid))
+    )
+  }
+
+  if (optionalIds) {
+    const kept = (currentParticipants ?? []).filter((p) => allParticipantIds.has(p.user_id))
+    for (const optional of [true, false]) {
+      const changed = kept
+        .filter((p) => p.optional !== optional && optionalIds.has(p.user_id) === optional)
+        .map((p) => p.user_id)
+      if (changed.length === 0) continue
+
+      const { error: updateError } = await supabaseAdmin
+        .from('event_participants')
+        .update({ optional })
+        .eq('event_id', eventId)
+        .in('user_id', changed)
+
+      if (updateError) {
+        console.error('Failed to update optional participants:', updateError)
+        return false
+      }
+    }
+  }
+
+  return true
+}
+
+/**
+ * Insert a new event row based on a series, with `fields` applied on top.
+ * Used for per-occurrence overrides and for the second half of a split series.
+ */
+async function insertFromSeries(
+  series: RawCalendarEventRow,
+  fields: Record<string, unknown>
+): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('calendar_events')
+    .insert({
+      title: series.title,
+      description: series.description,
+      event_date: series.event_date,
+      start_time: series.start_time,
+      end_time: series.end_time,
+      time_zone: series.time_zone,
+      color: series.color,
+      created_by: series.created_by,
+      call_id: series.call_id,
+      ...withInstants(series, fields),
+    })
+    .select('id')
+    .single()
+
+  if (error || !data) {
+    console.error('Failed to create event from series:', error)
+    return null
+  }
+  return data.id
+}
+
+async function fetchEventRow(id: string): Promise<RawCalendarEventRow | null> {
+  const { data } = await supabaseAdmin
+    .from('calendar_events')
+    .select(CALENDAR_EVENT_SELECT)
+    .eq('id', id)
+    .single()
+  return (data as RawCalendarEventRow | null) ?? null
+}
+
 export async function GET(
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -63,40 +245,8 @@ export async function GET(
       )
     }
 
-    const { data: event, error } = await supabaseAdmin
-      .from('calendar_events')
-      .select(
-        `
-        id,
-        title,
-        description,
-        event_date,
-        start_time,
-        end_time,
-        color,
-        created_by,
-        created_at,
-        call_id,
-        calls:call_id (
-          id,
-          daily_room_url,
-          status
-        ),
-        event_participants (
-          id,
-          user_id,
-          profiles:user_id (
-            id,
-            name,
-            avatar_url
-          )
-        )
-      `
-      )
-      .eq('id', id)
-      .single()
-
-    if (error || !event) {
+    const event = await fetchEventRow(id)
+    if (!event) {
       return NextResponse.json(
         { error: 'Event not found' },
         { status: 404 }
@@ -105,8 +255,7 @@ export async function GET(
 
     // User must be creator or participant to view
     const isCreator = event.created_by === profileId
-    const participantRows = (event.event_participants ?? []) as { user_id: string }[]
-    const isParticipant = participantRows.some((p) => p.user_id === profileId)
+    const isParticipant = participantIdsOf(event).includes(profileId)
 
     if (!isCreator && !isParticipant) {
       return NextResponse.json(
@@ -115,44 +264,7 @@ export async function GET(
       )
     }
 
-    const participants = (event.event_participants ?? []).map(
-      (p: { profiles?: unknown }) => {
-        const profile = Array.isArray(p.profiles) ? p.profiles[0] : p.profiles
-        return profile
-          ? {
-              id: (profile as { id: string }).id,
-              name: (profile as { name: string }).name,
-              avatar_url:
-                (profile as { avatar_url: string | null }).avatar_url ?? null,
-            }
-          : null
-      }
-    ).filter(Boolean)
-
-    const call = Array.isArray(event.calls) ? event.calls[0] : event.calls
-
-    const normalized = {
-      id: event.id,
-      title: event.title,
-      description: event.description ?? null,
-      event_date: event.event_date,
-      start_time: event.start_time,
-      end_time: event.end_time,
-      color: event.color ?? null,
-      created_by: event.created_by ?? null,
-      created_at: event.created_at,
-      call_id: event.call_id ?? null,
-      call: call
-        ? {
-            id: (call as { id: string }).id,
-            daily_room_url: (call as { daily_room_url: string }).daily_room_url,
-            status: (call as { status: string }).status,
-          }
-        : null,
-      participants,
-    }
-
-    return NextResponse.json(normalized)
+    return NextResponse.json(normalizeCalendarEvent(event))
   } catch (err) {
     console.error('GET /api/calendar/events/[id] error:', err)
     return NextResponse.json(
@@ -162,6 +274,10 @@ export async function GET(
   }
 }
 
+// PATCH /api/calendar/events/[id] - Update an event. For a recurring series,
+// `scope` with `occurrenceDate` limits the change to one occurrence ("this"),
+// that occurrence onwards ("following", which splits the series) or the whole
+// series ("all", the default)
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -188,13 +304,9 @@ export async function PATCH(
       )
     }
 
-    const { data: existingEvent, error: fetchError } = await supabaseAdmin
-      .from('calendar_events')
-      .select('created_by')
-      .eq('id', id)
-      .single()
+    const existingEvent = await fetchEventRow(id)
 
-    if (fetchError || !existingEvent) {
+    if (!existingEvent) {
       return NextResponse.json(
         { error: 'Event not found' },
         { status: 404 }
@@ -217,7 +329,12 @@ export async function PATCH(
       endTime,
       color,
       participantIds,
+      optionalParticipantIds,
+      recurrenceRule,
+      timeZone,
+      scope = 'all',
     } = body
+    let { occurrenceDate } = body
 
     const updatePayload: Record<string, unknown> = {}
 
@@ -239,7 +356,7 @@ export async function PATCH(
     }
 
     if (eventDate !== undefined) {
-      if (typeof eventDate !== 'string') {
+      if (!isDateString(eventDate)) {
         return NextResponse.json(
           { error: 'eventDate must be YYYY-MM-DD' },
           { status: 400 }
@@ -249,7 +366,7 @@ export async function PATCH(
     }
 
     if (startTime !== undefined) {
-      if (typeof startTime !== 'string') {
+      if (!isTimeString(startTime)) {
         return NextResponse.json(
           { error: 'startTime must be HH:mm' },
           { status: 400 }
@@ -259,7 +376,7 @@ export async function PATCH(
     }
 
     if (endTime !== undefined) {
-      if (typeof endTime !== 'string') {
+      if (!isTimeString(endTime)) {
         return NextResponse.json(
           { error: 'endTime must be HH:mm' },
           { status: 400 }
@@ -268,83 +385,285 @@ export async function PATCH(
       updatePayload.end_time = endTime
     }
 
+    if (timeZone !== undefined) {
+      if (!isValidTimeZone(timeZone)) {
+        return NextResponse.json(
+          { error: 'timeZone must be an IANA time zone' },
+          { status: 400 }
+        )
+      }
+      updatePayload.time_zone = timeZone
+    }
+
     if (color !== undefined) {
       updatePayload.color =
         color && typeof color === 'string' ? color.trim() : null
     }
 
-    if (Object.keys(updatePayload).length > 0) {
-      const { error: updateError } = await supabaseAdmin
-        .from('calendar_events')
-        .update(updatePayload)
-        .eq('id', id)
+    if (recurrenceRule !== undefined) {
+      if (recurrenceRule === null || recurrenceRule === '') {
+        updatePayload.recurrence_rule = null
+      } else {
+        const rule = typeof recurrenceRule === 'string' ? parseRRule(recurrenceRule) : null
+        if (!rule) {
+          return NextResponse.json(
+            { error: 'recurrenceRule must be a supported RRULE (DAILY, WEEKLY or MONTHLY)' },
+            { status: 400 }
+          )
+        }
+        updatePayload.recurrence_rule = formatRRule(rule)
+      }
+    }
 
-      if (updateError) {
-        console.error('Failed to update calendar event:', updateError)
+    if (!RECURRENCE_SCOPES.includes(scope)) {
+      return NextResponse.json(
+        { error: 'scope must be this, following or all' },
+        { status: 400 }
+      )
+    }
+    if (occurrenceDate !== undefined && !isDateString(occurrenceDate)) {
+      return NextResponse.json(
+        { error: 'occurrenceDate must be YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    const participantIdsArr: string[] | undefined =
+      participantIds === undefined
+        ? undefined
+        : Array.isArray(participantIds)
+          ? participantIds.filter((pid): pid is string => typeof pid === 'string')
+          : []
+    const optionalIdsArr: string[] | undefined = Array.isArray(optionalParticipantIds)
+      ? optionalParticipantIds.filter((pid): pid is string => typeof pid === 'string')
+      : undefined
+
+    // Editing an override with a wider scope edits its series from that occurrence
+    let event = existingEvent
+    if (event.recurrence_parent_id && scope !== 'this') {
+      const parent = await fetchEventRow(event.recurrence_parent_id)
+      if (!parent) {
         return NextResponse.json(
-          { error: 'Failed to update event' },
-          { status: 500 }
+          { error: 'Event not found' },
+          { status: 404 }
         )
       }
+      occurrenceDate = event.recurrence_id
+      event = parent
     }
 
-    // Handle participant list changes
-    if (participantIds !== undefined) {
-      const participantIdsArr = Array.isArray(participantIds)
-        ? participantIds.filter((pid): pid is string => typeof pid === 'string')
-        : []
+    if (event.recurrence_parent_id && updatePayload.recurrence_rule) {
+      return NextResponse.json(
+        { error: 'A single occurrence cannot have its own recurrence' },
+        { status: 400 }
+      )
+    }
+
+    if (!withInstants(event, updatePayload)) {
+      return NextResponse.json(
+        { error: 'endTime must differ from startTime' },
+        { status: 400 }
+      )
+    }
 
-      const allParticipantIds = new Set<string>([profileId, ...participantIdsArr])
+    const rule = event.recurrence_rule ? parseRRule(event.recurrence_rule) : null
 
-      const { data: currentParticipants } = await supabaseAdmin
-        .from('event_participants')
-        .select('user_id')
-        .eq('event_id', id)
+    if (rule && scope !== 'all') {
+      if (!occurrenceDate) {
+        return NextResponse.json(
+          { error: 'occurrenceDate is required to edit part of a series' },
+          { status: 400 }
+        )
+      }
 
-      const currentIds = new Set(
-        (currentParticipants ?? []).map((p) => p.user_id)
-      )
+      const participants = participantIdsArr ?? participantIdsOf(event)
+      // Invitees keep their answers on the occurrences split off the series
+      const participantOptions = { optionalIds: optionalIdsArr, inherited: participantStatesOf(event) }
 
-      const toAdd = [...allParticipantIds].filter((uid) => !currentIds.has(uid))
-      const toRemove = [...currentIds].filter((uid) => !allParticipantIds.has(uid))
+      if (scope === 'this') {
+        if (updatePayload.recurrence_rule !== undefined) {
+          return NextResponse.json(
+            { error: 'A single occurrence cannot have its own recurrence' },
+            { status: 400 }
+          )
+        }
 
-      if (toRemove.length > 0) {
-        const { error: deleteError } = await supabaseAdmin
-          .from('event_participants')
-          .delete()
-          .eq('event_id', id)
-          .in('user_id', toRemove)
+        const { data: existingOverride } = await supabaseAdmin
+          .from('calendar_events')
+          .select('id, event_date, start_time, end_time, time_zone')
+          .eq('recurrence_parent_id', event.id)
+          .eq('recurrence_id', occurrenceDate)
+          .maybeSingle()
 
-        if (deleteError) {
-          console.error('Failed to remove event participants:', deleteError)
+        const occurrenceFields = withInstants(
+          existingOverride ?? { ...event, event_date: occurrenceDate },
+          updatePayload
+        )
+        if (!occurrenceFields) {
+          return NextResponse.json(
+            { error: 'endTime must differ from startTime' },
+            { status: 400 }
+          )
+        }
+
+        let overrideId = existingOverride?.id as string | undefined
+        if (overrideId) {
+          const { error: updateError } = await supabaseAdmin
+            .from('calendar_events')
+            .update(occurrenceFields)
+            .eq('id', overrideId)
+
+          if (updateError) {
+            console.error('Failed to update event occurrence:', updateError)
+            return NextResponse.json(
+              { error: 'Failed to update event' },
+              { status: 500 }
+            )
+          }
+        } else {
+          overrideId =
+            (await insertFromSeries(event, {
+              event_date: occurrenceDate,
+              ...updatePayload,
+              recurrence_parent_id: event.id,
+              recurrence_id: occurrenceDate,
+            })) ?? undefined
+          if (!overrideId) {
+            return NextResponse.json(
+              { error: 'Failed to update event' },
+              { status: 500 }
+            )
+          }
+        }
+
+        if (!(await syncParticipants(overrideId, profileId, participants, participantOptions))) {
           return NextResponse.json(
             { error: 'Failed to update participants' },
             { status: 500 }
           )
         }
-      }
 
-      if (toAdd.length > 0) {
-        const participantRows = toAdd.map((uid) => ({
-          event_id: id,
-          user_id: uid,
-        }))
+        return NextResponse.json({ success: true, id: overrideId })
+      }
 
-        const { error: insertError } = await supabaseAdmin
-          .from('event_participants')
-          .insert(participantRows)
+      // "following" from the first occurrence is the same as "all"
+      if (occurrenceDate > event.event_date) {
+        const head = truncateRule(rule, event.event_date, occurrenceDate)
+        const tailRule =
+          updatePayload.recurrence_rule !== undefined
+            ? (updatePayload.recurrence_rule as string | null)
+            : formatRRule(continueRule(rule, event.event_date, occurrenceDate))
+        const excluded = event.excluded_dates ?? []
+
+        const tailId = await insertFromSeries(event, {
+          event_date: occurrenceDate,
+          ...updatePayload,
+          recurrence_rule: tailRule,
+          excluded_dates: tailRule ? excluded.filter((d) => d >= occurrenceDate) : [],
+        })
+        if (!tailId) {
+          return NextResponse.json(
+            { error: 'Failed to update event' },
+            { status: 500 }
+          )
+        }
 
-        if (insertError) {
-          console.error('Failed to add event participants:', insertError)
+        if (!(await syncParticipants(tailId, profileId, participants, participantOptions))) {
           return NextResponse.json(
             { error: 'Failed to update participants' },
             { status: 500 }
           )
         }
+
+        // Later overrides follow the new series, or go away if it no longer repeats
+        const laterOverrides = tailRule
+          ? supabaseAdmin
+              .from('calendar_events')
+              .update({ recurrence_parent_id: tailId })
+          : supabaseAdmin.from('calendar_events').delete()
+        const { error: overridesError } = await laterOverrides
+          .eq('recurrence_parent_id', event.id)
+          .gte('recurrence_id', occurrenceDate)
+
+        if (overridesError) {
+          console.error('Failed to move event occurrences:', overridesError)
+        }
+
+        // End the original series the day before, or drop it if nothing is left
+        const { error: headError } = head
+          ? await supabaseAdmin
+              .from('calendar_events')
+              .update({
+                recurrence_rule: formatRRule(head),
+                excluded_dates: excluded.filter((d) => d < occurrenceDate),
+              })
+              .eq('id', event.id)
+          : await supabaseAdmin.from('calendar_events').delete().eq('id', event.id)
+
+        if (headError) {
+          console.error('Failed to end recurring event:', headError)
+          return NextResponse.json(
+            { error: 'Failed to update event' },
+            { status: 500 }
+          )
+        }
+
+        return NextResponse.json({ success: true, id: tailId })
       }
     }
 
-    return NextResponse.json({ success: true })
+    // Moving one occurrence of the whole series moves the series by the same amount
+    if (rule && occurrenceDate && typeof updatePayload.event_date === 'string') {
+      updatePayload.event_date = addDays(
+        event.event_date,
+        daysBetween(occurrenceDate, updatePayload.event_date)
+      )
+    }
+
+    // A series that stops repeating keeps only its first occurrence
+    if (rule && updatePayload.recurrence_rule === null) {
+      updatePayload.excluded_dates = []
+      await supabaseAdmin
+        .from('calendar_events')
+        .delete()
+        .eq('recurrence_parent_id', event.id)
+    }
+
+    const eventFields = withInstants(event, updatePayload)
+    if (!eventFields) {
+      return NextResponse.json(
+        { error: 'endTime must differ from startTime' },
+        { status: 400 }
+      )
+    }
+
+    if (Object.keys(updatePayload).length > 0) {
+      const { error: updateError } = await supabaseAdmin
+        .from('calendar_events')
+        .update(eventFields)
+        .eq('id', event.id)
+
+      if (updateError) {
+        console.error('Failed to update calendar event:', updateError)
+        return NextResponse.json(
+          { error: 'Failed to update event' },
+          { status: 500 }
+        )
+      }
+    }
+
+    // Handle participant list changes
+    if (participantIdsArr !== undefined || optionalIdsArr !== undefined) {
+      const participants = participantIdsArr ?? participantIdsOf(event)
+      if (!(await syncParticipants(event.id, profileId, participants, { optionalIds: optionalIdsArr }))) {
+        return NextResponse.json(
+          { error: 'Failed to update participants' },
+          { status: 500 }
+        )
+      }
+    }
+
+    return NextResponse.json({ success: true, id: event.id })
   } catch (err) {
     console.error('PATCH /api/calendar/events/[id] error:', err)
     return NextResponse.json(
@@ -354,8 +673,11 @@ export async function PATCH(
   }
 }
 
+// DELETE /api/calendar/events/[id]?scope=&occurrenceDate= - Delete an event.
+// For a recurring series, "this" cancels one occurrence, "following" ends the
+// series before the occurrence and "all" (the default) deletes the series
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
@@ -372,6 +694,23 @@ export async function DELETE(
       )
     }
 
+    const { searchParams } = new URL(request.url)
+    const scope = (searchParams.get('scope') ?? 'all') as RecurrenceScope
+    let occurrenceDate = searchParams.get('occurrenceDate')
+
+    if (!RECURRENCE_SCOPES.includes(scope)) {
+      return NextResponse.json(
+        { error: 'scope must be this, following or all' },
+        { status: 400 }
+      )
+    }
+    if (occurrenceDate !== null && !isDateString(occurrenceDate)) {
+      return NextResponse.json(
+        { error: 'occurrenceDate must be YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
     const profileId = await getOrCreateProfileId(userId)
     if (!profileId) {
       return NextResponse.json(
@@ -380,30 +719,113 @@ export async function DELETE(
       )
     }
 
-    const { data: event, error: fetchError } = await supabaseAdmin
+    const { data: existingEvent, error: fetchError } = await supabaseAdmin
       .from('calendar_events')
-      .select('created_by')
+      .select('id, created_by, event_date, recurrence_rule, excluded_dates, recurrence_parent_id, recurrence_id')
       .eq('id', id)
       .single()
 
-    if (fetchError || !event) {
+    if (fetchError || !existingEvent) {
       return NextResponse.json(
         { error: 'Event not found' },
         { status: 404 }
       )
     }
 
-    if (event.created_by !== profileId) {
+    if (existingEvent.created_by !== profileId) {
       return NextResponse.json(
         { error: 'Only the event creator can delete this event' },
         { status: 403 }
       )
     }
 
+    let event = existingEvent
+    if (event.recurrence_parent_id) {
+      const { data: parent } = await supabaseAdmin
+        .from('calendar_events')
+        .select('id, created_by, event_date, recurrence_rule, excluded_dates, recurrence_parent_id, recurrence_id')
+        .eq('id', event.recurrence_parent_id)
+        .single()
+
+      if (!parent) {
+        return NextResponse.json(
+          { error: 'Event not found' },
+          { status: 404 }
+        )
+      }
+      // Deleting an override applies to its series from the occurrence it replaces
+      occurrenceDate = event.recurrence_id
+      event = parent
+    }
+
+    const rule = event.recurrence_rule ? parseRRule(event.recurrence_rule) : null
+    const excluded: string[] = event.excluded_dates ?? []
+
+    if (rule && scope === 'this') {
+      if (!occurrenceDate) {
+        return NextResponse.json(
+          { error: 'occurrenceDate is required to delete one occurrence' },
+          { status: 400 }
+        )
+      }
+
+      const { error: excludeError } = await supabaseAdmin
+        .from('calendar_events')
+        .update({ excluded_dates: [...new Set([...excluded, occurrenceDate])] })
+        .eq('id', event.id)
+
+      if (excludeError) {
+        console.error('Failed to cancel event occurrence:', excludeError)
+        return NextResponse.json(
+          { error: 'Failed to delete event' },
+          { status: 500 }
+        )
+      }
+
+      await supabaseAdmin
+        .from('calendar_events')
+        .delete()
+        .eq('recurrence_parent_id', event.id)
+        .eq('recurrence_id', occurrenceDate)
+
+      return NextResponse.json({ success: true })
+    }
+
+    if (rule && scope === 'following' && occurrenceDate) {
+      const head = truncateRule(rule, event.event_date, occurrenceDate)
+      // With no earlier occurrences left this deletes the whole series below
+      if (head) {
+        const { error: updateError } = await supabaseAdmin
+          .from('calendar_events')
+          .update({
+            recurrence_rule: formatRRule(head),
+            excluded_dates: excluded.filter((d) => d < occurrenceDate),
+          })
+          .eq('id', event.id)
+
+        if (updateError) {
+          console.error('Failed to end recurring event:', updateError)
+          return NextResponse.json(
+            { error: 'Failed to delete event' },
+            { status: 500 }
+          )
+        }
+
+        await supabaseAdmin
+          .from('calendar_events')
+          .delete()
+          .eq('recurrence_parent_id', event.id)
+          .gte('recurrence_id', occurrenceDate)
+
+        return NextResponse.json({ success: true })
+      }
+    }
+
+    // Overrides go with their series (ON DELETE CASCADE)
     const { error: deleteError } = await supabaseAdmin
       .from('calendar_events')
       .delete()
-      .eq('id', id)
+      .eq('id', event.id)
 
     if (deleteError) {
       console.error('Failed to delete calendar event:', deleteError)
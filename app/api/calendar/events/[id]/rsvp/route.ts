@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { notifyRsvp } from '@/lib/notifications'
+import type { RsvpResponse } from '@/lib/types'
+
+const RSVP_RESPONSES: RsvpResponse[] = ['needs-action', 'accepted', 'tentative', 'declined']
+
+const MAX_COMMENT_LENGTH = 500
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+// PATCH /api/calendar/events/[id]/rsvp - Answer an invitation. Answering a
+// recurring series also answers its rescheduled occurrences; answering one
+// of those only changes that occurrence
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Event ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { response, comment } = body as { response?: unknown; comment?: unknown }
+
+    if (!RSVP_RESPONSES.includes(response as RsvpResponse)) {
+      return NextResponse.json(
+        { error: `response must be one of: ${RSVP_RESPONSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if (comment !== undefined && comment !== null && typeof comment !== 'string') {
+      return NextResponse.json(
+        { error: 'comment must be a string or null' },
+        { status: 400 }
+      )
+    }
+    if (typeof comment === 'string' && comment.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json(
+        { error: `comment must be at most ${MAX_COMMENT_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const { data: event } = await supabaseAdmin
+      .from('calendar_events')
+      .select('id, recurrence_rule')
+      .eq('id', id)
+      .maybeSingle()
+
+    // Only invitees can answer; others can't tell the event exists
+    const { data: participant } = event
+      ? await supabaseAdmin
+          .from('event_participants')
+          .select('id')
+          .eq('event_id', event.id)
+          .eq('user_id', profileId)
+          .maybeSingle()
+      : { data: null }
+
+    if (!event || !participant) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 }
+      )
+    }
+
+    const eventIds = [event.id]
+    if (event.recurrence_rule) {
+      const { data: overrides } = await supabaseAdmin
+        .from('calendar_events')
+        .select('id')
+        .eq('recurrence_parent_id', event.id)
+      eventIds.push(...(overrides ?? []).map((o) => o.id))
+    }
+
+    const updatePayload: Record<string, unknown> = {
+      response,
+      responded_at: response === 'needs-action' ? null : new Date().toISOString(),
+    }
+    if (comment !== undefined) {
+      updatePayload.response_comment = typeof comment === 'string' && comment.trim() ? comment.trim() : null
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('event_participants')
+      .update(updatePayload)
+      .in('event_id', eventIds)
+      .eq('user_id', profileId)
+
+    if (updateError) {
+      console.error('Failed to update RSVP:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update response' },
+        { status: 500 }
+      )
+    }
+
+    await notifyRsvp(
+      event.id,
+      profileId,
+      response as RsvpResponse,
+      typeof comment === 'string' && comment.trim() ? comment.trim() : null
+    )
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('PATCH /api/calendar/events/[id]/rsvp error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
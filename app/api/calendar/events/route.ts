@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from 'next/server'
 import { auth, clerkClient } from '@clerk/nextjs/server'
 import { supabaseAdmin } from '@/lib/supabase-server'
 import { createDailyRoom, createMeetingToken } from '@/lib/daily'
+import { dateRangeInstants, eventEndsAt, fetchCalendarEventsInRange, instantsFor } from '@/lib/calendar-events'
+import { STALE_CALL_GRACE_MINUTES } from '@/lib/calls'
+import { formatRRule, isDateString, parseRRule } from '@/lib/recurrence'
+import { DEFAULT_TIME_ZONE, isTimeString, isValidTimeZone } from '@/lib/time-zones'
+import { notifyEventInvite } from '@/lib/notifications'
 
 /** Helper to get or create profile ID from Clerk userId */
 async function getOrCreateProfileId(userId: string): Promise<string | null> {
@@ -48,6 +53,8 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const startDate = searchParams.get('startDate')
     const endDate = searchParams.get('endDate')
+    // The viewer's zone: the dates are whole days there
+    const timeZone = searchParams.get('timeZone') ?? DEFAULT_TIME_ZONE
 
     if (!startDate || !endDate) {
       return NextResponse.json(
@@ -55,6 +62,18 @@ export async function GET(request: NextRequest) {
         { status: 400 }
       )
     }
+    if (!isDateString(startDate) || !isDateString(endDate) || startDate > endDate) {
+      return NextResponse.json(
+        { error: 'startDate and endDate must be YYYY-MM-DD with startDate <= endDate' },
+        { status: 400 }
+      )
+    }
+    if (!isValidTimeZone(timeZone)) {
+      return NextResponse.json(
+        { error: 'timeZone must be an IANA time zone' },
+        { status: 400 }
+      )
+    }
 
     const profileId = await getOrCreateProfileId(userId)
     if (!profileId) {
@@ -64,55 +83,12 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Get event IDs where user is a participant
-    const { data: participantRows } = await supabaseAdmin
-      .from('event_participants')
-      .select('event_id')
-      .eq('user_id', profileId)
-
-    const participantEventIds = (participantRows ?? []).map((r) => r.event_id)
-    const orConditions = [`created_by.eq.${profileId}`]
-    if (participantEventIds.length > 0) {
-      orConditions.push(`id.in.(${participantEventIds.join(',')})`)
-    }
-
-    const { data: events, error } = await supabaseAdmin
-      .from('calendar_events')
-      .select(
-        `
-        id,
-        title,
-        description,
-        event_date,
-        start_time,
-        end_time,
-        color,
-        created_by,
-        created_at,
-        call_id,
-        calls:call_id (
-          id,
-          daily_room_url,
-          status
-        ),
-        event_participants (
-          id,
-          user_id,
-          profiles:user_id (
-            id,
-            name,
-            avatar_url
-          )
-        )
-      `
-      )
-      .gte('event_date', startDate)
-      .lte('event_date', endDate)
-      .or(orConditions.join(','))
-      .order('event_date', { ascending: true })
-      .order('start_time', { ascending: true })
-
-    if (error) {
+    let events
+    try {
+      // Recurring series are expanded into their occurrences within the window
+      const window = dateRangeInstants(startDate, endDate, timeZone)
+      events = await fetchCalendarEventsInRange(profileId, window.start, window.end)
+    } catch (error) {
       console.error('Failed to fetch calendar events:', error)
       return NextResponse.json(
         { error: 'Failed to fetch events' },
@@ -120,41 +96,7 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Normalize participants shape (Supabase returns nested arrays for relations)
-    const normalized = (events ?? []).map((e) => {
-      const call = Array.isArray(e.calls) ? e.calls[0] : e.calls
-      return {
-        id: e.id,
-        title: e.title,
-        description: e.description ?? null,
-        event_date: e.event_date,
-        start_time: e.start_time,
-        end_time: e.end_time,
-        color: e.color ?? null,
-        created_by: e.created_by ?? null,
-        created_at: e.created_at,
-        call_id: e.call_id ?? null,
-        call: call
-          ? {
-              id: (call as { id: string }).id,
-              daily_room_url: (call as { daily_room_url: string }).daily_room_url,
-              status: (call as { status: string }).status,
-            }
-          : null,
-        participants: (e.event_participants ?? []).map((p: { profiles?: unknown }) => {
-          const profile = Array.isArray(p.profiles) ? p.profiles[0] : p.profiles
-          return profile
-            ? {
-                id: (profile as { id: string }).id,
-                name: (profile as { name: string }).name,
-                avatar_url: (profile as { avatar_url: string | null }).avatar_url ?? null,
-              }
-            : null
-        }).filter(Boolean),
-      }
-    })
-
-    return NextResponse.json(normalized)
+    return NextResponse.json(events)
   } catch (err) {
     console.error('GET /api/calendar/events error:', err)
     return NextResponse.json(
@@ -188,7 +130,10 @@ export async function POST(request: NextRequest) {
       endTime,
       color,
       participantIds = [],
+      optionalParticipantIds = [],
       attachCall = false,
+      recurrenceRule = null,
+      timeZone,
     } = body
 
     if (!title || typeof title !== 'string' || !title.trim()) {
@@ -197,24 +142,60 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       )
     }
-    if (!eventDate || typeof eventDate !== 'string') {
+    if (!isDateString(eventDate)) {
       return NextResponse.json(
         { error: 'eventDate is required (YYYY-MM-DD)' },
         { status: 400 }
       )
     }
-    if (!startTime || typeof startTime !== 'string') {
+    if (!isTimeString(startTime)) {
       return NextResponse.json(
         { error: 'startTime is required (HH:mm)' },
         { status: 400 }
       )
     }
-    if (!endTime || typeof endTime !== 'string') {
+    if (!isTimeString(endTime)) {
       return NextResponse.json(
         { error: 'endTime is required (HH:mm)' },
         { status: 400 }
       )
     }
+    // An end at or before the start ends the next day; equal times are empty
+    if (endTime.slice(0, 5) === startTime.slice(0, 5)) {
+      return NextResponse.json(
+        { error: 'endTime must differ from startTime' },
+        { status: 400 }
+      )
+    }
+    if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+      return NextResponse.json(
+        { error: 'timeZone must be an IANA time zone' },
+        { status: 400 }
+      )
+    }
+
+    let eventTimeZone: string = timeZone ?? DEFAULT_TIME_ZONE
+    if (timeZone === undefined) {
+      const { data: profile } = await supabaseAdmin
+        .from('profiles')
+        .select('time_zone')
+        .eq('id', profileId)
+        .single()
+      if (isValidTimeZone(profile?.time_zone)) eventTimeZone = profile.time_zone
+    }
+
+    // Store rules in canonical form so later splits and edits can rewrite them
+    let normalizedRule: string | null = null
+    if (recurrenceRule !== null && recurrenceRule !== '') {
+      const rule = typeof recurrenceRule === 'string' ? parseRRule(recurrenceRule) : null
+      if (!rule) {
+        return NextResponse.json(
+          { error: 'recurrenceRule must be a supported RRULE (DAILY, WEEKLY or MONTHLY)' },
+          { status: 400 }
+        )
+      }
+      normalizedRule = formatRRule(rule)
+    }
 
     const participantIdsArr = Array.isArray(participantIds)
       ? participantIds.filter((id): id is string => typeof id === 'string')
@@ -222,6 +203,11 @@ export async function POST(request: NextRequest) {
 
     // Ensure creator is always in participants (if using profile IDs)
     const allParticipantIds = new Set<string>([profileId, ...participantIdsArr])
+    const optionalIds = new Set<string>(
+      Array.isArray(optionalParticipantIds)
+        ? optionalParticipantIds.filter((id): id is string => typeof id === 'string' && id !== profileId)
+        : []
+    )
 
     const insertPayload = {
       title: title.trim(),
@@ -229,8 +215,16 @@ export async function POST(request: NextRequest) {
       event_date: eventDate,
       start_time: startTime,
       end_time: endTime,
+      time_zone: eventTimeZone,
+      ...instantsFor({
+        event_date: eventDate,
+        start_time: startTime,
+        end_time: endTime,
+        time_zone: eventTimeZone,
+      }),
       color: color && typeof color === 'string' ? color.trim() : null,
       created_by: profileId,
+      recurrence_rule: normalizedRule,
     }
 
     const { data: newEvent, error: insertError } = await supabaseAdmin
@@ -254,10 +248,14 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Add participants (creator + selected participants)
+    // Add participants (creator + selected participants); the creator is going
+    const now = new Date().toISOString()
     const participantRows = Array.from(allParticipantIds).map((uid) => ({
       event_id: newEvent.id,
       user_id: uid,
+      response: uid === profileId ? 'accepted' : 'needs-action',
+      responded_at: uid === profileId ? now : null,
+      optional: optionalIds.has(uid),
     }))
 
     if (participantRows.length > 0) {
@@ -275,14 +273,25 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    await notifyEventInvite(newEvent.id, profileId, [...allParticipantIds])
+
     // Create a video call if attachCall is true
     let callId: string | undefined
     let callUrl: string | undefined
 
     if (attachCall) {
       try {
-        // Create Daily room
-        const dailyRoom = await createDailyRoom()
+        // Create Daily room, kept open until the event is over (a series
+        // with no end keeps it open) rather than Daily's default day
+        const eventEnd = eventEndsAt(insertPayload)
+        const dayFromNow = Math.floor(Date.now() / 1000) + 24 * 60 * 60
+        const dailyRoom = await createDailyRoom({
+          properties: {
+            exp: eventEnd
+              ? Math.max(Math.floor(eventEnd.getTime() / 1000) + STALE_CALL_GRACE_MINUTES * 60, dayFromNow)
+              : undefined,
+          },
+        })
 
         // Insert call record into database
         const { data: newCall, error: callInsertError } = await supabaseAdmin
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import {
+  fetchCalendarEventRows,
+  participantContactsOf,
+  type RawCalendarEventRow,
+} from '@/lib/calendar-events'
+import { buildICalendar, type ICalEventInput } from '@/lib/ical'
+import { addDays } from '@/lib/recurrence'
+
+// How far back single events are included; series are always included whole
+const FEED_HISTORY_DAYS = 180
+
+function toICalEvent(
+  row: RawCalendarEventRow,
+  seriesById: Map<string, RawCalendarEventRow>
+): ICalEventInput {
+  const call = (Array.isArray(row.calls) ? row.calls[0] : row.calls) as
+    | { daily_room_url: string }
+    | null
+    | undefined
+  const contacts = participantContactsOf(row)
+  const organizer = contacts.find((c) => c.id === row.created_by)
+  // Overrides share their series' UID and point at the occurrence they replace
+  const series = row.recurrence_parent_id ? seriesById.get(row.recurrence_parent_id) : undefined
+
+  return {
+    uid: `${row.recurrence_parent_id ?? row.id}@devcollab`,
+    summary: row.title,
+    description: row.description,
+    date: row.event_date,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    timeZone: row.time_zone,
+    location: call?.daily_room_url ?? null,
+    rrule: row.recurrence_rule,
+    exdates: row.recurrence_rule ? row.excluded_dates ?? [] : [],
+    recurrenceId: row.recurrence_id,
+    recurrenceStartTime: series?.start_time,
+    created: row.created_at,
+    organizer: organizer ? { email: organizer.email, name: organizer.name } : null,
+    attendees: contacts.map((c) => ({
+      email: c.email,
+      name: c.name,
+      response: c.response,
+      optional: c.optional,
+    })),
+  }
+}
+
+// GET /api/calendar/feed.ics?token= - The token owner's events as an
+// iCalendar feed for subscribing from other calendar clients. Authenticated
+// by the secret token alone, since those clients have no session.
+export async function GET(request: NextRequest) {
+  try {
+    const token = new URL(request.url).searchParams.get('token')
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: feed } = await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .select('profile:profiles (id, name)')
+      .eq('token', token)
+      .maybeSingle()
+    const profile = feed?.profile as unknown as { id: string; name: string } | null
+
+    // Don't distinguish unknown tokens from reset ones
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Feed not found' },
+        { status: 404 }
+      )
+    }
+
+    const since = addDays(new Date().toISOString().slice(0, 10), -FEED_HISTORY_DAYS)
+    const rows = await fetchCalendarEventRows(profile.id, since)
+    const seriesById = new Map(rows.filter((r) => r.recurrence_rule).map((r) => [r.id, r]))
+
+    const body = buildICalendar(
+      rows.map((row) => toICalEvent(row, seriesById)),
+      `DevCollab - ${profile.name}`
+    )
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="devcollab.ics"',
+        // The URL is a credential; keep it out of shared caches
+        'Cache-Control': 'private, max-age=300',
+      },
+    })
+  } catch (err) {
+    console.error('GET /api/calendar/feed.ics error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
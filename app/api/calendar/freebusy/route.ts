@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { fetchFreeBusy } from '@/lib/calendar-events'
+
+const MAX_USERS = 20
+const MAX_WINDOW_DAYS = 31
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+// GET /api/calendar/freebusy?userIds=&start=&end=&excludeEventId= - Busy
+// blocks of each user between two instants (ISO 8601). Blocks carry no event
+// details, so anyone signed in can check anyone's availability
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const userIds = [
+      ...new Set((searchParams.get('userIds') ?? '').split(',').map((id) => id.trim()).filter(Boolean)),
+    ]
+    const start = new Date(searchParams.get('start') ?? '')
+    const end = new Date(searchParams.get('end') ?? '')
+    const excludeEventId = searchParams.get('excludeEventId')
+
+    if (userIds.length === 0 || userIds.length > MAX_USERS) {
+      return NextResponse.json(
+        { error: `userIds must list 1 to ${MAX_USERS} profile IDs` },
+        { status: 400 }
+      )
+    }
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end <= start) {
+      return NextResponse.json(
+        { error: 'start and end must be ISO 8601 instants with start before end' },
+        { status: 400 }
+      )
+    }
+    if (end.getTime() - start.getTime() > MAX_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json(
+        { error: `The range can be at most ${MAX_WINDOW_DAYS} days` },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    try {
+      return NextResponse.json(await fetchFreeBusy(userIds, start, end, excludeEventId))
+    } catch (error) {
+      console.error('Failed to fetch free/busy:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch availability' },
+        { status: 500 }
+      )
+    }
+  } catch (err) {
+    console.error('GET /api/calendar/freebusy error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,326 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { parseICalendar, type ICalDateTime, type ParsedICalEvent } from '@/lib/ical'
+import { instantsFor } from '@/lib/calendar-events'
+import { notifyEventInvite } from '@/lib/notifications'
+import { addDays, formatRRule, parseRRule } from '@/lib/recurrence'
+import { DEFAULT_TIME_ZONE, isValidTimeZone, toZonedParts, zonedTimeToUtc } from '@/lib/time-zones'
+import type { RsvpResponse } from '@/lib/types'
+
+const MAX_IMPORT_BYTES = 1024 * 1024
+const MAX_IMPORT_EVENTS = 500
+
+async function getProfile(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id, time_zone')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data ?? null
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number)
+  return h * 60 + m
+}
+
+function fromMinutes(minutes: number): string {
+  const clamped = Math.min(minutes % (24 * 60), 23 * 60 + 59)
+  return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`
+}
+
+/**
+ * The zone an event's times are in: its TZID, UTC for "Z" times, or the
+ * importer's zone for floating times and all-day events.
+ */
+function eventTimeZone(value: ICalDateTime, fallback: string): string {
+  if (value.tzid && isValidTimeZone(value.tzid)) return value.tzid
+  if (value.utc) return 'UTC'
+  return fallback
+}
+
+/** A parsed date-time as wall-clock date and time in `timeZone` */
+function localIn(value: ICalDateTime, timeZone: string, fallback: string): { date: string; time: string } {
+  const time = value.time ?? '00:00'
+  const zone = eventTimeZone(value, fallback)
+  if (zone === timeZone) return { date: value.date, time }
+  const parts = toZonedParts(zonedTimeToUtc(value.date, time, zone), timeZone)
+  return { date: parts.date, time: parts.time }
+}
+
+/**
+ * Map an iCalendar event onto the date/start/end model in its own zone. An
+ * event may run past midnight into the next day; all-day events and longer
+ * ones end at the end of their first day.
+ */
+function eventTimes(
+  event: ParsedICalEvent,
+  fallbackZone: string
+): { eventDate: string; startTime: string; endTime: string; timeZone: string } {
+  const timeZone = eventTimeZone(event.start, fallbackZone)
+  const eventDate = event.start.date
+  const startTime = event.start.time ?? '00:00'
+  const start = toMinutes(startTime)
+  const endOfDay = 23 * 60 + 59
+
+  let end: number
+  if (!event.start.time) {
+    end = endOfDay
+  } else if (event.end) {
+    const local = localIn(event.end, timeZone, fallbackZone)
+    const sameDay = local.date === eventDate
+    const endsNextMorning = local.date === addDays(eventDate, 1) && toMinutes(local.time) < start
+    end = sameDay || endsNextMorning ? toMinutes(local.time) : endOfDay
+  } else if (event.durationMinutes !== null) {
+    // Durations of up to a day can wrap past midnight
+    end = event.durationMinutes > 0 && event.durationMinutes < 24 * 60
+      ? (start + event.durationMinutes) % (24 * 60)
+      : endOfDay
+  } else {
+    end = start + 60
+  }
+
+  // Equal start and end would be an empty event
+  const endTime = fromMinutes(end === start ? start + 30 : end)
+  return { eventDate, startTime, endTime, timeZone }
+}
+
+// POST /api/calendar/import - Import the events of an uploaded .ics file
+// (multipart field "file", or a text/calendar body) as the caller's events.
+// Attendees are matched to profiles by email and added as participants;
+// events already imported (same UID) are skipped.
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const profile = await getProfile(userId)
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+    const profileId: string = profile.id
+    // Floating times and all-day events are read in the importer's zone
+    const fallbackZone = isValidTimeZone(profile.time_zone) ? profile.time_zone : DEFAULT_TIME_ZONE
+
+    let text: string
+    const contentType = request.headers.get('content-type') ?? ''
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file')
+      if (!file || !(file instanceof File)) {
+        return NextResponse.json(
+          { error: 'No file provided' },
+          { status: 400 }
+        )
+      }
+      if (file.size > MAX_IMPORT_BYTES) {
+        return NextResponse.json(
+          { error: 'Calendar file must be 1 MB or smaller' },
+          { status: 400 }
+        )
+      }
+      text = await file.text()
+    } else {
+      text = await request.text()
+      if (text.length > MAX_IMPORT_BYTES) {
+        return NextResponse.json(
+          { error: 'Calendar file must be 1 MB or smaller' },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (!text.includes('BEGIN:VCALENDAR')) {
+      return NextResponse.json(
+        { error: 'File is not an iCalendar (.ics) file' },
+        { status: 400 }
+      )
+    }
+
+    const parsed = parseICalendar(text).filter((e) => e.status !== 'CANCELLED')
+    if (parsed.length > MAX_IMPORT_EVENTS) {
+      return NextResponse.json(
+        { error: `A calendar file can contain at most ${MAX_IMPORT_EVENTS} events` },
+        { status: 400 }
+      )
+    }
+
+    const masters = parsed.filter((e) => !e.recurrenceId)
+    const overrides = parsed.filter((e) => e.recurrenceId && e.uid)
+
+    // Skip events imported before
+    const uids = masters.flatMap((e) => (e.uid ? [e.uid] : []))
+    const existingUids = new Set<string>()
+    if (uids.length > 0) {
+      const { data: existing } = await supabaseAdmin
+        .from('calendar_events')
+        .select('ical_uid')
+        .eq('created_by', profileId)
+        .is('recurrence_parent_id', null)
+        .in('ical_uid', uids)
+      for (const row of existing ?? []) existingUids.add(row.ical_uid)
+    }
+    const seenUids = new Set<string>()
+    const newMasters = masters.filter((e) => {
+      if (!e.uid) return true
+      if (existingUids.has(e.uid) || seenUids.has(e.uid)) return false
+      seenUids.add(e.uid)
+      return true
+    })
+
+    // Match attendees to profiles by email
+    const emails = [...new Set(parsed.flatMap((e) => e.attendees.map((a) => a.email)))]
+    const profileIdByEmail = new Map<string, string>()
+    if (emails.length > 0) {
+      const { data: matched } = await supabaseAdmin
+        .from('profiles')
+        .select('id, email')
+        .in('email', emails)
+      for (const p of matched ?? []) profileIdByEmail.set(p.email.toLowerCase(), p.id)
+    }
+    const unmatchedAttendees = emails.filter((email) => !profileIdByEmail.has(email))
+
+    let unsupportedRecurrence = 0
+    const toRow = (event: ParsedICalEvent) => {
+      const { eventDate, startTime, endTime, timeZone } = eventTimes(event, fallbackZone)
+      const times = {
+        event_date: eventDate,
+        start_time: startTime,
+        end_time: endTime,
+        time_zone: timeZone,
+      }
+      return {
+        title: event.summary || 'Untitled event',
+        description: event.description,
+        ...times,
+        ...instantsFor(times),
+        created_by: profileId,
+      }
+    }
+
+    const masterRows = newMasters.map((event) => {
+      let recurrenceRule: string | null = null
+      if (event.rrule) {
+        const rule = parseRRule(event.rrule)
+        // Rules we can't represent import as their first occurrence
+        if (rule) recurrenceRule = formatRRule(rule)
+        else unsupportedRecurrence++
+      }
+      return {
+        ...toRow(event),
+        ical_uid: event.uid,
+        recurrence_rule: recurrenceRule,
+        excluded_dates: recurrenceRule ? event.exdates : [],
+      }
+    })
+
+    const participantRows: {
+      event_id: string
+      user_id: string
+      response: RsvpResponse
+      optional: boolean
+    }[] = []
+    // The importer is going. Attendees are invited and answer for
+    // themselves; the answers in the file are not theirs to vouch for.
+    const addParticipants = (eventId: string, event: ParsedICalEvent) => {
+      const added = new Set([profileId])
+      participantRows.push({ event_id: eventId, user_id: profileId, response: 'accepted', optional: false })
+      for (const attendee of event.attendees) {
+        const id = profileIdByEmail.get(attendee.email)
+        if (!id || added.has(id)) continue
+        added.add(id)
+        participantRows.push({
+          event_id: eventId,
+          user_id: id,
+          response: 'needs-action',
+          optional: attendee.optional ?? false,
+        })
+      }
+    }
+
+    const seriesIdByUid = new Map<string, string>()
+    const insertedMasterIds: string[] = []
+    if (masterRows.length > 0) {
+      const { data: inserted, error: insertError } = await supabaseAdmin
+        .from('calendar_events')
+        .insert(masterRows)
+        .select('id, ical_uid, recurrence_rule')
+
+      if (insertError || !inserted) {
+        console.error('Failed to import calendar events:', insertError)
+        return NextResponse.json(
+          { error: 'Failed to import events' },
+          { status: 500 }
+        )
+      }
+
+      // Rows come back in insert order
+      inserted.forEach((row, i) => {
+        addParticipants(row.id, newMasters[i])
+        insertedMasterIds.push(row.id)
+        if (row.ical_uid && row.recurrence_rule) seriesIdByUid.set(row.ical_uid, row.id)
+      })
+    }
+
+    // Modified occurrences of series imported in this file
+    const overrideEvents = overrides.filter((e) => seriesIdByUid.has(e.uid!))
+    if (overrideEvents.length > 0) {
+      const { data: inserted, error: overrideError } = await supabaseAdmin
+        .from('calendar_events')
+        .insert(
+          overrideEvents.map((event) => ({
+            ...toRow(event),
+            recurrence_parent_id: seriesIdByUid.get(event.uid!),
+            recurrence_id: event.recurrenceId,
+          }))
+        )
+        .select('id')
+
+      if (overrideError || !inserted) {
+        console.error('Failed to import event occurrences:', overrideError)
+      } else {
+        inserted.forEach((row, i) => addParticipants(row.id, overrideEvents[i]))
+      }
+    }
+
+    if (participantRows.length > 0) {
+      const { error: participantsError } = await supabaseAdmin
+        .from('event_participants')
+        .insert(participantRows)
+
+      if (participantsError) {
+        console.error('Failed to add imported event participants:', participantsError)
+        return NextResponse.json(
+          { error: 'Events imported but failed to add some participants' },
+          { status: 500 }
+        )
+      }
+    }
+
+    // One invite per imported event; occurrences of a series don't repeat it
+    for (const eventId of insertedMasterIds) {
+      const invitees = participantRows.filter((r) => r.event_id === eventId).map((r) => r.user_id)
+      await notifyEventInvite(eventId, profileId, invitees)
+    }
+
+    return NextResponse.json({
+      success: true,
+      imported: masterRows.length,
+      skipped: masters.length - newMasters.length,
+      unsupportedRecurrence,
+      unmatchedAttendees,
+    })
+  } catch (err) {
+    console.error('POST /api/calendar/import error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
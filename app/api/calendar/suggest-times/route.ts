@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { fetchFreeBusy } from '@/lib/calendar-events'
+import { suggestTimes } from '@/lib/free-busy'
+
+const MAX_USERS = 20
+const MAX_WINDOW_DAYS = 14
+const MAX_DURATION_MINUTES = 8 * 60
+const DEFAULT_LIMIT = 5
+const MAX_LIMIT = 20
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+// GET /api/calendar/suggest-times?userIds=&start=&end=&duration=&limit=&excludeEventId=
+// - Rank open slots of `duration` minutes between two instants for the
+// caller and the given users, preferring everyone free within working hours
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const userIds = (searchParams.get('userIds') ?? '').split(',').map((id) => id.trim()).filter(Boolean)
+    const start = new Date(searchParams.get('start') ?? '')
+    const end = new Date(searchParams.get('end') ?? '')
+    const duration = Number(searchParams.get('duration'))
+    const limit = Number(searchParams.get('limit') ?? DEFAULT_LIMIT)
+    const excludeEventId = searchParams.get('excludeEventId')
+
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end <= start) {
+      return NextResponse.json(
+        { error: 'start and end must be ISO 8601 instants with start before end' },
+        { status: 400 }
+      )
+    }
+    if (end.getTime() - start.getTime() > MAX_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json(
+        { error: `The range can be at most ${MAX_WINDOW_DAYS} days` },
+        { status: 400 }
+      )
+    }
+    if (!Number.isInteger(duration) || duration < 5 || duration > MAX_DURATION_MINUTES) {
+      return NextResponse.json(
+        { error: `duration must be 5 to ${MAX_DURATION_MINUTES} minutes` },
+        { status: 400 }
+      )
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be 1 to ${MAX_LIMIT}` },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    // The organizer has to make it too
+    const attendeeIds = [...new Set([profileId, ...userIds])]
+    if (attendeeIds.length > MAX_USERS) {
+      return NextResponse.json(
+        { error: `userIds can list at most ${MAX_USERS - 1} other profiles` },
+        { status: 400 }
+      )
+    }
+
+    // Past slots can't be booked
+    const windowStart = new Date(Math.max(start.getTime(), Date.now()))
+    if (windowStart >= end) return NextResponse.json([])
+
+    try {
+      const entries = await fetchFreeBusy(attendeeIds, windowStart, end, excludeEventId)
+      return NextResponse.json(suggestTimes(entries, windowStart, end, duration, limit))
+    } catch (error) {
+      console.error('Failed to suggest times:', error)
+      return NextResponse.json(
+        { error: 'Failed to suggest times' },
+        { status: 500 }
+      )
+    }
+  } catch (err) {
+    console.error('GET /api/calendar/suggest-times error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { answerCallRing } from '@/lib/calls'
+import type { AnswerCallInput } from '@/lib/types'
+
+const ANSWERS: AnswerCallInput['response'][] = ['accepted', 'declined']
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+/**
+ * POST /api/calls/[id]/answer - Answer a call that is ringing the current user
+ *
+ * Request body (AnswerCallInput):
+ * - response: 'accepted' | 'declined'. Rings nobody answers are marked
+ *   missed by the server once they time out
+ *
+ * Response:
+ * - answered: boolean - false when the call was no longer ringing (answered
+ *   elsewhere, timed out or ended)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Call ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { response } = body as Partial<AnswerCallInput>
+    if (!response || !ANSWERS.includes(response)) {
+      return NextResponse.json(
+        { error: 'Invalid response. Must be "accepted" or "declined"' },
+        { status: 400 }
+      )
+    }
+
+    const answered = await answerCallRing(id, profileId, response)
+    return NextResponse.json({ success: true, answered })
+  } catch (err) {
+    console.error('POST /api/calls/[id]/answer error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getCallAccess } from '@/lib/calls'
+import type { CallInvitee, CallRingStatus, MessageSender } from '@/lib/types'
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+/**
+ * GET /api/calls/[id]/invites - Who the call rang and how each answered
+ *
+ * Response:
+ * - invitees: CallInvitee[]
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Call ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const access = await getCallAccess(id, profileId)
+    if (!access?.canView) {
+      return NextResponse.json({ error: 'Call not found' }, { status: 404 })
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('call_participants')
+      .select('ring_status, user:user_id (id, name, avatar_url)')
+      .eq('call_id', id)
+      .not('ring_status', 'is', null)
+
+    if (error) {
+      console.error('Failed to fetch call invites:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch call invites' },
+        { status: 500 }
+      )
+    }
+
+    const invitees: CallInvitee[] = []
+    for (const row of data ?? []) {
+      const user = (Array.isArray(row.user) ? row.user[0] : row.user) as MessageSender | null
+      if (user) invitees.push({ user, ring_status: row.ring_status as CallRingStatus })
+    }
+
+    return NextResponse.json({ invitees })
+  } catch (err) {
+    console.error('GET /api/calls/[id]/invites error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
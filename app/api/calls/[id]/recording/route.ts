@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getCallAccess } from '@/lib/calls'
+import { startDailyRecording, stopDailyRecording } from '@/lib/daily'
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+/**
+ * POST /api/calls/[id]/recording - Start or stop recording the call
+ *
+ * Request body:
+ * - action: 'start' | 'stop'
+ *
+ * Only the call starter can record. The call_recordings row is written by the
+ * Daily webhook once Daily reports the recording started.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Call ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { action } = body as { action?: unknown }
+    if (action !== 'start' && action !== 'stop') {
+      return NextResponse.json(
+        { error: 'Invalid action. Must be "start" or "stop"' },
+        { status: 400 }
+      )
+    }
+
+    const access = await getCallAccess(id, profileId)
+    if (!access?.canView) {
+      return NextResponse.json({ error: 'Call not found' }, { status: 404 })
+    }
+
+    if (!access.isStarter) {
+      return NextResponse.json(
+        { error: 'Only the call starter can record the call' },
+        { status: 403 }
+      )
+    }
+
+    if (access.call.status === 'ended') {
+      return NextResponse.json(
+        { error: 'This call has already ended' },
+        { status: 410 }
+      )
+    }
+
+    try {
+      if (action === 'start') {
+        await startDailyRecording(access.call.daily_room_name)
+      } else {
+        await stopDailyRecording(access.call.daily_room_name)
+      }
+    } catch (error) {
+      console.error(`Failed to ${action} recording:`, error)
+      return NextResponse.json(
+        { error: `Failed to ${action} recording` },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('POST /api/calls/[id]/recording error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
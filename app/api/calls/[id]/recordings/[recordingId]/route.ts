@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getCallAccess } from '@/lib/calls'
+import { getRecordingAccessLink } from '@/lib/daily'
+import type { CallRecordingLink } from '@/lib/types'
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+/**
+ * GET /api/calls/[id]/recordings/[recordingId] - Get a short-lived link for
+ * playing or downloading a finished recording
+ *
+ * Response (CallRecordingLink):
+ * - url: string - Link to the recording file
+ * - expires_at: string - When the link stops working
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; recordingId: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, recordingId } = await params
+    if (!id || !recordingId) {
+      return NextResponse.json(
+        { error: 'Call ID and recording ID are required' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const access = await getCallAccess(id, profileId)
+    if (!access?.canView) {
+      return NextResponse.json({ error: 'Call not found' }, { status: 404 })
+    }
+
+    const { data: recording } = await supabaseAdmin
+      .from('call_recordings')
+      .select('daily_recording_id, status')
+      .eq('id', recordingId)
+      .eq('call_id', id)
+      .maybeSingle()
+
+    if (!recording) {
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 })
+    }
+
+    if (recording.status !== 'ready') {
+      return NextResponse.json(
+        { error: 'This recording is not ready yet' },
+        { status: 409 }
+      )
+    }
+
+    let link
+    try {
+      link = await getRecordingAccessLink(recording.daily_recording_id)
+    } catch (error) {
+      console.error('Failed to get recording link:', error)
+      return NextResponse.json(
+        { error: 'Failed to get recording link' },
+        { status: 500 }
+      )
+    }
+
+    const response: CallRecordingLink = {
+      url: link.download_link,
+      expires_at: new Date(link.expires * 1000).toISOString(),
+    }
+    return NextResponse.json(response)
+  } catch (err) {
+    console.error('GET /api/calls/[id]/recordings/[recordingId] error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
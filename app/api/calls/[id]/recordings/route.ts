@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getCallAccess } from '@/lib/calls'
+import type { CallRecording } from '@/lib/types'
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+/**
+ * GET /api/calls/[id]/recordings - List the call's recordings, oldest first
+ *
+ * Response:
+ * - recordings: CallRecording[]
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Call ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const access = await getCallAccess(id, profileId)
+    if (!access?.canView) {
+      return NextResponse.json({ error: 'Call not found' }, { status: 404 })
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('call_recordings')
+      .select('id, call_id, status, started_at, duration_seconds, error')
+      .eq('call_id', id)
+      .order('started_at', { ascending: true })
+
+    if (error) {
+      console.error('Failed to fetch recordings:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch recordings' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ recordings: (data ?? []) as CallRecording[] })
+  } catch (err) {
+    console.error('GET /api/calls/[id]/recordings error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth, clerkClient } from '@clerk/nextjs/server'
 import { supabaseAdmin } from '@/lib/supabase-server'
+import { answerCallRing, markMissedRings } from '@/lib/calls'
 import { createMeetingToken, deleteDailyRoom } from '@/lib/daily'
 import type { Call } from '@/lib/types'
 
@@ -59,6 +60,7 @@ async function getProfileById(
  * - call: Call - Full call details
  * - token: string - Meeting token for the current user
  * - roomUrl: string - Daily room URL
+ * - isStarter: boolean - Whether the current user started the call
  */
 export async function GET(
   _request: NextRequest,
@@ -197,6 +199,14 @@ export async function GET(
       )
     }
 
+    // Joining answers the ring, however the invitee got here
+    try {
+      await answerCallRing(id, profileId, 'accepted')
+    } catch (error) {
+      console.error('Failed to record call answer:', error)
+      // Non-critical, continue
+    }
+
     // Add user as participant if not already
     if (!isParticipant) {
       const { error: addError } = await supabaseAdmin
@@ -263,6 +273,7 @@ export async function GET(
       call: normalizedCall,
       token,
       roomUrl: call.daily_room_url,
+      isStarter,
     })
   } catch (err) {
     console.error('GET /api/calls/[id] error:', err)
@@ -374,6 +385,13 @@ export async function PATCH(
         // Non-critical, continue
       }
 
+      try {
+        await markMissedRings({ callId: id })
+      } catch (error) {
+        console.error('Failed to record missed rings:', error)
+        // Non-critical, continue
+      }
+
       // Optionally delete the Daily room to clean up resources
       try {
         await deleteDailyRoom(call.daily_room_name)
@@ -421,6 +439,12 @@ export async function PATCH(
           // Non-critical
         }
 
+        try {
+          await markMissedRings({ callId: id })
+        } catch (error) {
+          console.error('Failed to record missed rings:', error)
+        }
+
         // Clean up Daily room
         try {
           await deleteDailyRoom(call.daily_room_name)
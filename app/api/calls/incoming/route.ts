@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { CALL_RING_TIMEOUT_MS } from '@/lib/call-ringing'
+import { markMissedRings } from '@/lib/calls'
+import type { IncomingCall, MessageSender } from '@/lib/types'
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+/**
+ * GET /api/calls/incoming - Active calls still ringing the current user,
+ * oldest first. Rings that have timed out are marked missed first, so
+ * clients only need to re-fetch when a ring's time is up.
+ *
+ * Response:
+ * - calls: IncomingCall[]
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const now = new Date()
+    await markMissedRings({ now, userId: profileId })
+
+    const ringStart = new Date(now.getTime() - CALL_RING_TIMEOUT_MS).toISOString()
+    const { data, error } = await supabaseAdmin
+      .from('calls')
+      .select(
+        `
+        id,
+        title,
+        started_at,
+        starter:started_by (id, name, avatar_url),
+        call_participants!inner (user_id, ring_status)
+      `
+      )
+      .eq('status', 'active')
+      .eq('call_participants.user_id', profileId)
+      .eq('call_participants.ring_status', 'ringing')
+      .gte('started_at', ringStart)
+      .order('started_at', { ascending: true })
+
+    if (error) {
+      console.error('Failed to fetch incoming calls:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch incoming calls' },
+        { status: 500 }
+      )
+    }
+
+    const calls: IncomingCall[] = (data ?? []).map((call) => ({
+      call_id: call.id,
+      title: call.title,
+      caller: ((Array.isArray(call.starter) ? call.starter[0] : call.starter) ?? null) as MessageSender | null,
+      started_at: call.started_at,
+      ring_remaining_ms: Math.max(Date.parse(call.started_at) + CALL_RING_TIMEOUT_MS - now.getTime(), 0),
+    }))
+
+    return NextResponse.json({ calls })
+  } catch (err) {
+    console.error('GET /api/calls/incoming error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { auth, clerkClient } from '@clerk/nextjs/server'
 import { supabaseAdmin } from '@/lib/supabase-server'
 import { createDailyRoom, createMeetingToken } from '@/lib/daily'
+import { notifyIncomingCall } from '@/lib/notifications'
 import type { CreateCallInput, CreateCallResponse, Call } from '@/lib/types'
 
 /** Helper to get or create profile ID from Clerk userId */
@@ -137,10 +138,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Add all participants to the call
+    // Add all participants to the call; invitees ring until they answer
     const participantRows = Array.from(allParticipantIds).map((uid) => ({
       call_id: newCall.id,
       user_id: uid,
+      ring_status: uid === profileId ? null : 'ringing',
     }))
 
     if (participantRows.length > 0) {
@@ -154,6 +156,8 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    await notifyIncomingCall(newCall.id, profileId, [...allParticipantIds], title?.trim() || null)
+
     // Update calendar event with call reference if provided
     if (calendarEventId) {
       const { error: updateError } = await supabaseAdmin
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getChannelAccess } from '@/lib/channels'
+import { markConversationRead } from '@/lib/read-markers'
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+// POST /api/channels/[id]/join - Join a public channel; private channels require an invite
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Channel ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const access = await getChannelAccess(id, profileId)
+    // Private channels are indistinguishable from missing ones for non-members
+    if (!access || (access.channel.is_private && !access.role)) {
+      return NextResponse.json(
+        { error: 'Channel not found' },
+        { status: 404 }
+      )
+    }
+
+    if (access.channel.archived_at) {
+      return NextResponse.json(
+        { error: 'Channel is archived' },
+        { status: 403 }
+      )
+    }
+
+    if (!access.role) {
+      const { error: joinError } = await supabaseAdmin
+        .from('channel_members')
+        .upsert(
+          { channel_id: id, user_id: profileId, role: 'member' },
+          { onConflict: 'channel_id,user_id', ignoreDuplicates: true }
+        )
+
+      if (joinError) {
+        console.error('Failed to join channel:', joinError)
+        return NextResponse.json(
+          { error: 'Failed to join channel' },
+          { status: 500 }
+        )
+      }
+
+      // Existing history isn't unread for someone who just joined
+      await markConversationRead(profileId, { channelId: id })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('POST /api/channels/[id]/join error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
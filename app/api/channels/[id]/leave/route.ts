@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getChannelAccess } from '@/lib/channels'
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+// POST /api/channels/[id]/leave - Leave a channel
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Channel ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const access = await getChannelAccess(id, profileId)
+    if (!access || !access.role) {
+      return NextResponse.json(
+        { error: 'You are not a member of this channel' },
+        { status: 404 }
+      )
+    }
+
+    const { error: leaveError } = await supabaseAdmin
+      .from('channel_members')
+      .delete()
+      .eq('channel_id', id)
+      .eq('user_id', profileId)
+
+    if (leaveError) {
+      console.error('Failed to leave channel:', leaveError)
+      return NextResponse.json(
+        { error: 'Failed to leave channel' },
+        { status: 500 }
+      )
+    }
+
+    // When the last owner leaves, hand ownership to the longest-standing member
+    if (access.role === 'owner') {
+      const { data: remaining } = await supabaseAdmin
+        .from('channel_members')
+        .select('id, role')
+        .eq('channel_id', id)
+        .order('joined_at', { ascending: true })
+
+      if (remaining?.length && !remaining.some((m) => m.role === 'owner')) {
+        await supabaseAdmin
+          .from('channel_members')
+          .update({ role: 'owner' })
+          .eq('id', remaining[0].id)
+      }
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('POST /api/channels/[id]/leave error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
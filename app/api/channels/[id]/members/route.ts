@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { canReadChannel, getChannelAccess } from '@/lib/channels'
+import type { ChannelMember, ChannelRole } from '@/lib/types'
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+// GET /api/channels/[id]/members - List a channel's members
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Channel ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    const access = await getChannelAccess(id, profileId)
+    if (!access || !canReadChannel(access)) {
+      return NextResponse.json(
+        { error: 'Channel not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('channel_members')
+      .select(`
+        role,
+        profile:profiles (
+          id,
+          name,
+          avatar_url
+        )
+      `)
+      .eq('channel_id', id)
+      .order('joined_at', { ascending: true })
+
+    if (error) {
+      console.error('Failed to fetch channel members:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch channel members' },
+        { status: 500 }
+      )
+    }
+
+    const members: ChannelMember[] = (data ?? []).flatMap((row) => {
+      const profile = (Array.isArray(row.profile) ? row.profile[0] : row.profile) as
+        | { id: string; name: string; avatar_url: string | null }
+        | null
+      return profile ? [{ ...profile, role: row.role as ChannelRole }] : []
+    })
+
+    return NextResponse.json(members)
+  } catch (err) {
+    console.error('GET /api/channels/[id]/members error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/channels/[id]/members - Invite people to a channel (members only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Channel ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const { userIds } = body
+
+    if (
+      !Array.isArray(userIds) ||
+      userIds.length === 0 ||
+      userIds.some((uid: unknown) => typeof uid !== 'string')
+    ) {
+      return NextResponse.json(
+        { error: 'userIds must be a non-empty array of profile IDs' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const access = await getChannelAccess(id, profileId)
+    if (!access || !canReadChannel(access)) {
+      return NextResponse.json(
+        { error: 'Channel not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!access.role) {
+      return NextResponse.json(
+        { error: 'Only channel members can invite people' },
+        { status: 403 }
+      )
+    }
+
+    if (access.channel.archived_at) {
+      return NextResponse.json(
+        { error: 'Channel is archived' },
+        { status: 403 }
+      )
+    }
+
+    const { data: profiles, error: profilesError } = await supabaseAdmin
+      .from('profiles')
+      .select('id')
+      .in('id', userIds)
+
+    if (profilesError) {
+      console.error('Failed to verify invited users:', profilesError)
+      return NextResponse.json(
+        { error: 'Failed to invite members' },
+        { status: 500 }
+      )
+    }
+
+    if ((profiles ?? []).length !== new Set(userIds).size) {
+      return NextResponse.json(
+        { error: 'One or more users not found' },
+        { status: 404 }
+      )
+    }
+
+    const { error: inviteError } = await supabaseAdmin
+      .from('channel_members')
+      .upsert(
+        (profiles ?? []).map((p) => ({ channel_id: id, user_id: p.id, role: 'member' })),
+        { onConflict: 'channel_id,user_id', ignoreDuplicates: true }
+      )
+
+    if (inviteError) {
+      console.error('Failed to invite channel members:', inviteError)
+      return NextResponse.json(
+        { error: 'Failed to invite members' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('POST /api/channels/[id]/members error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import {
+  CHANNEL_NAME_MAX_LENGTH,
+  canReadChannel,
+  getChannelAccess,
+  normalizeChannelName,
+} from '@/lib/channels'
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+// PATCH /api/channels/[id] - Rename, update the description, or archive/unarchive (owners only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Channel ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const updates: Record<string, unknown> = {}
+
+    if (body.name !== undefined) {
+      const name = normalizeChannelName(body.name)
+      if (!name) {
+        return NextResponse.json(
+          {
+            error: `name may only contain letters, numbers, hyphens and underscores (max ${CHANNEL_NAME_MAX_LENGTH} characters)`,
+          },
+          { status: 400 }
+        )
+      }
+      updates.name = name
+    }
+
+    if (body.description !== undefined) {
+      if (body.description !== null && typeof body.description !== 'string') {
+        return NextResponse.json(
+          { error: 'description must be a string' },
+          { status: 400 }
+        )
+      }
+      updates.description = body.description?.trim() || null
+    }
+
+    if (body.archived !== undefined) {
+      if (typeof body.archived !== 'boolean') {
+        return NextResponse.json(
+          { error: 'archived must be a boolean' },
+          { status: 400 }
+        )
+      }
+      updates.archived_at = body.archived ? new Date().toISOString() : null
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { error: 'Nothing to update' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const access = await getChannelAccess(id, profileId)
+    if (!access || !canReadChannel(access)) {
+      return NextResponse.json(
+        { error: 'Channel not found' },
+        { status: 404 }
+      )
+    }
+
+    if (access.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only channel owners can update this channel' },
+        { status: 403 }
+      )
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('channels')
+      .update(updates)
+      .eq('id', id)
+
+    if (updateError) {
+      if (updateError.code === '23505') {
+        return NextResponse.json(
+          { error: 'A channel with that name already exists' },
+          { status: 409 }
+        )
+      }
+      console.error('Failed to update channel:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update channel' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('PATCH /api/channels/[id] error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/channels/[id] - Delete a channel and its messages (owners only)
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Channel ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const access = await getChannelAccess(id, profileId)
+    if (!access || !canReadChannel(access)) {
+      return NextResponse.json(
+        { error: 'Channel not found' },
+        { status: 404 }
+      )
+    }
+
+    if (access.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only channel owners can delete this channel' },
+        { status: 403 }
+      )
+    }
+
+    const { error: deleteError } = await supabaseAdmin
+      .from('channels')
+      .delete()
+      .eq('id', id)
+
+    if (deleteError) {
+      console.error('Failed to delete channel:', deleteError)
+      return NextResponse.json(
+        { error: 'Failed to delete channel' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('DELETE /api/channels/[id] error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,19 +1,226 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
 import { supabaseAdmin } from '@/lib/supabase-server'
+import { CHANNEL_NAME_MAX_LENGTH, normalizeChannelName } from '@/lib/channels'
+import { fetchUnreadCounts, type UnreadCounts } from '@/lib/read-markers'
+import type { ApiChannel, ChannelRole } from '@/lib/types'
 
-export async function GET() {
-  const { data, error } = await supabaseAdmin
-    .from('channels')
-    .select('id, name, description')
-    .order('name', { ascending: true })
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+interface ChannelRow {
+  id: string
+  name: string
+  description: string | null
+  is_private: boolean
+  archived_at: string | null
+  channel_members: { user_id: string; role: string }[]
+}
+
+function toApiChannel(row: ChannelRow, profileId: string, counts?: UnreadCounts): ApiChannel {
+  const members = Array.isArray(row.channel_members) ? row.channel_members : []
+  const own = members.find((m) => m.user_id === profileId)
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    isPrivate: row.is_private,
+    isArchived: row.archived_at !== null,
+    role: (own?.role as ChannelRole | undefined) ?? null,
+    memberCount: members.length,
+    unreadCount: counts?.unreadCount ?? 0,
+    mentionCount: counts?.mentionCount ?? 0,
+  }
+}
+
+const CHANNEL_SELECT = 'id, name, description, is_private, archived_at, channel_members ( user_id, role )'
+
+/**
+ * GET /api/channels - Channels the caller has joined (for the sidebar).
+ * With `?scope=browse`, every public channel plus private channels the caller
+ * belongs to, so they can discover and join channels. Archived channels are
+ * left out of both lists.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      // User may not have a profile yet (e.g. first visit) - return empty list
+      return NextResponse.json([])
+    }
+
+    const scope = new URL(request.url).searchParams.get('scope') ?? 'joined'
+    if (scope !== 'joined' && scope !== 'browse') {
+      return NextResponse.json(
+        { error: 'scope must be joined or browse' },
+        { status: 400 }
+      )
+    }
+
+    const { data: memberships, error: memberError } = await supabaseAdmin
+      .from('channel_members')
+      .select('channel_id')
+      .eq('user_id', profileId)
+
+    if (memberError) {
+      console.error('Failed to fetch channel memberships:', memberError)
+      return NextResponse.json(
+        { error: 'Failed to fetch channels' },
+        { status: 500 }
+      )
+    }
+
+    const joinedIds = (memberships ?? []).map((m) => m.channel_id)
+
+    let query = supabaseAdmin
+      .from('channels')
+      .select(CHANNEL_SELECT)
+      .is('archived_at', null)
+      .order('name', { ascending: true })
+
+    if (scope === 'joined') {
+      if (joinedIds.length === 0) return NextResponse.json([])
+      query = query.in('id', joinedIds)
+    } else {
+      query = joinedIds.length
+        ? query.or(`is_private.eq.false,id.in.(${joinedIds.join(',')})`)
+        : query.eq('is_private', false)
+    }
+
+    const [{ data, error }, unread] = await Promise.all([query, fetchUnreadCounts(profileId)])
+
+    if (error) {
+      console.error('Failed to fetch channels:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch channels' },
+        { status: 500 }
+      )
+    }
 
-  if (error) {
-    console.error('Failed to fetch channels:', error)
     return NextResponse.json(
-      { error: 'Failed to fetch channels' },
+      ((data ?? []) as ChannelRow[]).map((row) => toApiChannel(row, profileId, unread.get(row.id)))
+    )
+  } catch (err) {
+    console.error('GET /api/channels error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
       { status: 500 }
     )
   }
+}
+
+// POST /api/channels - Create a channel; the creator becomes its owner
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { description, isPrivate, memberIds } = body
+
+    const name = normalizeChannelName(body.name)
+    if (!name) {
+      return NextResponse.json(
+        {
+          error: `name is required and may only contain letters, numbers, hyphens and underscores (max ${CHANNEL_NAME_MAX_LENGTH} characters)`,
+        },
+        { status: 400 }
+      )
+    }
+
+    if (description !== undefined && description !== null && typeof description !== 'string') {
+      return NextResponse.json(
+        { error: 'description must be a string' },
+        { status: 400 }
+      )
+    }
+
+    if (
+      memberIds !== undefined &&
+      (!Array.isArray(memberIds) || memberIds.some((id: unknown) => typeof id !== 'string'))
+    ) {
+      return NextResponse.json(
+        { error: 'memberIds must be an array of profile IDs' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const { data: channel, error: createError } = await supabaseAdmin
+      .from('channels')
+      .insert({
+        name,
+        description: description?.trim() || null,
+        is_private: isPrivate === true,
+        created_by: profileId,
+      })
+      .select('id')
+      .single()
 
-  return NextResponse.json(data ?? [])
+    if (createError || !channel) {
+      if (createError?.code === '23505') {
+        return NextResponse.json(
+          { error: 'A channel with that name already exists' },
+          { status: 409 }
+        )
+      }
+      console.error('Failed to create channel:', createError)
+      return NextResponse.json(
+        { error: 'Failed to create channel' },
+        { status: 500 }
+      )
+    }
+
+    const invited = [...new Set<string>(memberIds ?? [])].filter((id) => id !== profileId)
+    const { error: membersError } = await supabaseAdmin
+      .from('channel_members')
+      .insert([
+        { channel_id: channel.id, user_id: profileId, role: 'owner' },
+        ...invited.map((id) => ({ channel_id: channel.id, user_id: id, role: 'member' })),
+      ])
+
+    if (membersError) {
+      console.error('Failed to add channel members:', membersError)
+      // Clean up the created channel
+      await supabaseAdmin.from('channels').delete().eq('id', channel.id)
+      return NextResponse.json(
+        { error: 'Failed to add channel members' },
+        { status: 500 }
+      )
+    }
+
+    const { data: created } = await supabaseAdmin
+      .from('channels')
+      .select(CHANNEL_SELECT)
+      .eq('id', channel.id)
+      .single()
+
+    return NextResponse.json(toApiChannel(created as ChannelRow, profileId))
+  } catch (err) {
+    console.error('POST /api/channels error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
 }
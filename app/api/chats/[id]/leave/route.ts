@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getChatAccess, postChatSystemMessage } from '@/lib/chats'
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+// POST /api/chats/[id]/leave - Leave a group chat
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Chat ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const access = await getChatAccess(id, profileId)
+    if (!access || !access.isParticipant) {
+      return NextResponse.json(
+        { error: 'You are not in this chat' },
+        { status: 404 }
+      )
+    }
+
+    if (!access.chat.is_group) {
+      return NextResponse.json(
+        { error: 'You can only leave group chats' },
+        { status: 400 }
+      )
+    }
+
+    const { error: leaveError } = await supabaseAdmin
+      .from('chat_participants')
+      .delete()
+      .eq('chat_id', id)
+      .eq('user_id', profileId)
+
+    if (leaveError) {
+      console.error('Failed to leave chat:', leaveError)
+      return NextResponse.json(
+        { error: 'Failed to leave chat' },
+        { status: 500 }
+      )
+    }
+
+    // The last person out deletes the chat along with its messages
+    const { count } = await supabaseAdmin
+      .from('chat_participants')
+      .select('id', { count: 'exact', head: true })
+      .eq('chat_id', id)
+
+    if (count === 0) {
+      await supabaseAdmin.from('chats').delete().eq('id', id)
+    } else {
+      await postChatSystemMessage(id, profileId, { type: 'left' })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('POST /api/chats/[id]/leave error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getChatAccess, postChatSystemMessage } from '@/lib/chats'
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+// DELETE /api/chats/[id]/members/[userId] - Remove someone from a group chat (participants only)
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, userId: memberId } = await params
+    if (!id || !memberId) {
+      return NextResponse.json(
+        { error: 'Chat ID and user ID are required' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    if (memberId === profileId) {
+      return NextResponse.json(
+        { error: 'Leave the chat to remove yourself' },
+        { status: 400 }
+      )
+    }
+
+    const access = await getChatAccess(id, profileId)
+    if (!access || !access.isParticipant) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!access.chat.is_group) {
+      return NextResponse.json(
+        { error: 'People can only be removed from group chats' },
+        { status: 400 }
+      )
+    }
+
+    const { data: removed, error: removeError } = await supabaseAdmin
+      .from('chat_participants')
+      .delete()
+      .eq('chat_id', id)
+      .eq('user_id', memberId)
+      .select('id')
+
+    if (removeError) {
+      console.error('Failed to remove chat member:', removeError)
+      return NextResponse.json(
+        { error: 'Failed to remove member' },
+        { status: 500 }
+      )
+    }
+
+    if (!removed?.length) {
+      return NextResponse.json(
+        { error: 'That person is not in this chat' },
+        { status: 404 }
+      )
+    }
+
+    await postChatSystemMessage(id, profileId, { type: 'removed', user_ids: [memberId] })
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('DELETE /api/chats/[id]/members/[userId] error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getChatAccess, postChatSystemMessage } from '@/lib/chats'
+import { notifyAddedToChat } from '@/lib/notifications'
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+// POST /api/chats/[id]/members - Add people to a group chat (participants only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Chat ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const { userIds } = body
+
+    if (
+      !Array.isArray(userIds) ||
+      userIds.length === 0 ||
+      userIds.some((uid: unknown) => typeof uid !== 'string')
+    ) {
+      return NextResponse.json(
+        { error: 'userIds must be a non-empty array of profile IDs' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const access = await getChatAccess(id, profileId)
+    if (!access || !access.isParticipant) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!access.chat.is_group) {
+      return NextResponse.json(
+        { error: 'People can only be added to group chats' },
+        { status: 400 }
+      )
+    }
+
+    const [{ data: profiles, error: profilesError }, { data: participants, error: participantsError }] =
+      await Promise.all([
+        supabaseAdmin.from('profiles').select('id').in('id', userIds),
+        supabaseAdmin.from('chat_participants').select('user_id').eq('chat_id', id),
+      ])
+
+    if (profilesError || participantsError) {
+      console.error('Failed to verify chat members:', profilesError ?? participantsError)
+      return NextResponse.json(
+        { error: 'Failed to add members' },
+        { status: 500 }
+      )
+    }
+
+    if ((profiles ?? []).length !== new Set(userIds).size) {
+      return NextResponse.json(
+        { error: 'One or more users not found' },
+        { status: 404 }
+      )
+    }
+
+    // Adding someone who is already in the chat is a no-op
+    const existing = new Set((participants ?? []).map((p) => p.user_id as string))
+    const addedIds = (profiles ?? []).map((p) => p.id as string).filter((pid) => !existing.has(pid))
+    if (addedIds.length === 0) {
+      return NextResponse.json({ success: true })
+    }
+
+    const { error: addError } = await supabaseAdmin
+      .from('chat_participants')
+      .upsert(
+        addedIds.map((pid) => ({ chat_id: id, user_id: pid })),
+        { onConflict: 'chat_id,user_id', ignoreDuplicates: true }
+      )
+
+    if (addError) {
+      console.error('Failed to add chat members:', addError)
+      return NextResponse.json(
+        { error: 'Failed to add members' },
+        { status: 500 }
+      )
+    }
+
+    await postChatSystemMessage(id, profileId, { type: 'added', user_ids: addedIds })
+    await notifyAddedToChat(id, profileId, addedIds)
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('POST /api/chats/[id]/members error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import {
+  CHAT_NAME_MAX_LENGTH,
+  getChatAccess,
+  normalizeChatName,
+  postChatSystemMessage,
+} from '@/lib/chats'
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+// PATCH /api/chats/[id] - Rename a group chat (participants only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Chat ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const name = normalizeChatName(body.name)
+    if (!name) {
+      return NextResponse.json(
+        { error: `name is required (max ${CHAT_NAME_MAX_LENGTH} characters)` },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const access = await getChatAccess(id, profileId)
+    if (!access || !access.isParticipant) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!access.chat.is_group) {
+      return NextResponse.json(
+        { error: 'Only group chats can be renamed' },
+        { status: 400 }
+      )
+    }
+
+    if (access.chat.name === name) {
+      return NextResponse.json({ success: true })
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('chats')
+      .update({ name })
+      .eq('id', id)
+
+    if (updateError) {
+      console.error('Failed to rename chat:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to rename chat' },
+        { status: 500 }
+      )
+    }
+
+    await postChatSystemMessage(id, profileId, { type: 'renamed', name })
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('PATCH /api/chats/[id] error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
 import { supabaseAdmin } from '@/lib/supabase-server'
+import { fetchUnreadCounts } from '@/lib/read-markers'
+import { CHAT_NAME_MAX_LENGTH, normalizeChatName, postChatSystemMessage } from '@/lib/chats'
+import { notifyAddedToChat } from '@/lib/notifications'
 
 export async function GET() {
   const { userId } = await auth()
@@ -41,19 +44,23 @@ export async function GET() {
   const chatIds = participations.map((p) => p.chat_id)
 
   // Fetch chats and their participants (many-to-many through chat_participants)
-  const { data: chats, error: chatsError } = await supabaseAdmin
-    .from('chats')
-    .select(`
-      id,
-      name,
-      is_group,
-      profiles (
+  const [{ data: chats, error: chatsError }, unread] = await Promise.all([
+    supabaseAdmin
+      .from('chats')
+      .select(`
         id,
         name,
-        avatar_url
-      )
-    `)
-    .in('id', chatIds)
+        is_group,
+        profiles (
+          id,
+          name,
+          avatar_url,
+          last_seen_at
+        )
+      `)
+      .in('id', chatIds),
+    fetchUnreadCounts(profile.id),
+  ])
 
   if (chatsError) {
     console.error('Failed to fetch chats:', chatsError)
@@ -67,10 +74,11 @@ export async function GET() {
   const normalized = (chats ?? []).map((chat) => {
     const rawProfiles = chat.profiles
     const participants = Array.isArray(rawProfiles)
-      ? rawProfiles.map((p: { id: string; name: string; avatar_url: string | null }) => ({
+      ? rawProfiles.map((p: { id: string; name: string; avatar_url: string | null; last_seen_at: string | null }) => ({
           id: p.id,
           name: p.name,
           avatar_url: p.avatar_url,
+          last_seen_at: p.last_seen_at,
         }))
       : []
 
@@ -79,13 +87,111 @@ export async function GET() {
       name: chat.name,
       isGroup: chat.is_group ?? false,
       participants,
+      unreadCount: unread.get(chat.id)?.unreadCount ?? 0,
+      mentionCount: unread.get(chat.id)?.mentionCount ?? 0,
     }
   })
 
   return NextResponse.json(normalized)
 }
 
-// POST /api/chats - Create or get existing DM
+// Create a group chat with the caller and userIds, named `name`
+async function createGroupChat(
+  currentProfile: { id: string; name: string },
+  userIds: unknown,
+  rawName: unknown
+) {
+  if (!Array.isArray(userIds) || userIds.some((uid: unknown) => typeof uid !== 'string')) {
+    return NextResponse.json(
+      { error: 'userIds must be an array of profile IDs' },
+      { status: 400 }
+    )
+  }
+
+  const name = normalizeChatName(rawName)
+  if (!name) {
+    return NextResponse.json(
+      { error: `name is required (max ${CHAT_NAME_MAX_LENGTH} characters)` },
+      { status: 400 }
+    )
+  }
+
+  const otherIds = [...new Set(userIds as string[])].filter((id) => id !== currentProfile.id)
+  if (otherIds.length < 2) {
+    return NextResponse.json(
+      { error: 'A group chat needs at least two other people' },
+      { status: 400 }
+    )
+  }
+
+  const { data: others, error: othersError } = await supabaseAdmin
+    .from('profiles')
+    .select('id, name, avatar_url')
+    .in('id', otherIds)
+
+  if (othersError) {
+    console.error('Failed to verify group chat participants:', othersError)
+    return NextResponse.json(
+      { error: 'Failed to create chat' },
+      { status: 500 }
+    )
+  }
+
+  if ((others ?? []).length !== otherIds.length) {
+    return NextResponse.json(
+      { error: 'One or more users not found' },
+      { status: 404 }
+    )
+  }
+
+  const { data: newChat, error: createError } = await supabaseAdmin
+    .from('chats')
+    .insert({ name, is_group: true })
+    .select('id, name')
+    .single()
+
+  if (createError || !newChat) {
+    console.error('Failed to create chat:', createError)
+    return NextResponse.json(
+      { error: 'Failed to create chat' },
+      { status: 500 }
+    )
+  }
+
+  const { error: participantsError } = await supabaseAdmin
+    .from('chat_participants')
+    .insert([currentProfile.id, ...otherIds].map((id) => ({ chat_id: newChat.id, user_id: id })))
+
+  if (participantsError) {
+    console.error('Failed to add participants:', participantsError)
+    // Clean up the created chat
+    await supabaseAdmin.from('chats').delete().eq('id', newChat.id)
+    return NextResponse.json(
+      { error: 'Failed to create chat participants' },
+      { status: 500 }
+    )
+  }
+
+  await postChatSystemMessage(newChat.id, currentProfile.id, { type: 'created', name, user_ids: otherIds })
+  await notifyAddedToChat(newChat.id, currentProfile.id, otherIds)
+
+  return NextResponse.json({
+    id: newChat.id,
+    name: newChat.name,
+    isGroup: true,
+    participants: [
+      {
+        id: currentProfile.id,
+        name: currentProfile.name,
+        avatar_url: null,
+      },
+      ...(others ?? []),
+    ],
+    isExisting: false,
+  })
+}
+
+// POST /api/chats - Create or get existing DM, or create a group chat from userIds and name
 export async function POST(request: NextRequest) {
   const { userId } = await auth()
   if (!userId) {
@@ -93,16 +199,9 @@ export async function POST(request: NextRequest) {
   }
 
   // Parse request body
-  let targetUserId: string
+  let body: { targetUserId?: unknown; userIds?: unknown; name?: unknown }
   try {
-    const body = await request.json()
-    targetUserId = body.targetUserId
-    if (!targetUserId) {
-      return NextResponse.json(
-        { error: 'targetUserId is required' },
-        { status: 400 }
-      )
-    }
+    body = await request.json()
   } catch {
     return NextResponse.json(
       { error: 'Invalid request body' },
@@ -110,6 +209,15 @@ export async function POST(request: NextRequest) {
     )
   }
 
+  const isGroup = body.userIds !== undefined
+  const targetUserId = body.targetUserId
+  if (!isGroup && (!targetUserId || typeof targetUserId !== 'string')) {
+    return NextResponse.json(
+      { error: 'targetUserId is required' },
+      { status: 400 }
+    )
+  }
+
   // Get current user's profile
   const { data: currentProfile, error: profileError } = await supabaseAdmin
     .from('profiles')
@@ -124,6 +232,10 @@ export async function POST(request: NextRequest) {
     )
   }
 
+  if (isGroup) {
+    return createGroupChat(currentProfile, body.userIds, body.name)
+  }
+
   // Prevent creating DM with yourself
   if (currentProfile.id === targetUserId) {
     return NextResponse.json(
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sendDueEventReminders } from '@/lib/notifications'
+
+// GET /api/cron/event-reminders - Send event reminders that have come due.
+// Meant to be called every minute by a scheduler (e.g. Vercel Cron) with
+// `Authorization: Bearer $CRON_SECRET`
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const sent = await sendDueEventReminders()
+    return NextResponse.json({ success: true, sent })
+  } catch (err) {
+    console.error('GET /api/cron/event-reminders error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { reapStaleCalls } from '@/lib/calls'
+
+// GET /api/cron/stale-calls - End abandoned calls and delete calls' Daily
+// rooms that are expired or whose call ended, returning a report of the run.
+// Meant to be called every few minutes by a scheduler (e.g. Vercel Cron) with
+// `Authorization: Bearer $CRON_SECRET`
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const report = await reapStaleCalls()
+    if (report.errors.length > 0) {
+      console.error('Stale call reaper errors:', report.errors)
+    }
+    return NextResponse.json({ success: true, report })
+  } catch (err) {
+    console.error('GET /api/cron/stale-calls error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,57 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
 import { supabaseAdmin } from '@/lib/supabase-server'
+import { canReadChannel, getChannelAccess } from '@/lib/channels'
+import { isOwnUpload } from '@/lib/attachments'
 
+// Signed URLs only need to outlive the redirect
+const SIGNED_URL_TTL_SECONDS = 60
+
+type Disposition = 'inline' | 'attachment'
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+/**
+ * Whether the profile can read the conversation that owns the message: any
+ * readable channel (public, or private with membership) or a chat they
+ * participate in.
+ */
+async function canReadMessage(messageId: string, profileId: string): Promise<boolean> {
+  const { data: message } = await supabaseAdmin
+    .from('messages')
+    .select('channel_id, chat_id')
+    .eq('id', messageId)
+    .single()
+
+  if (!message) return false
+
+  if (message.channel_id) {
+    const access = await getChannelAccess(message.channel_id, profileId)
+    return Boolean(access && canReadChannel(access))
+  }
+
+  if (message.chat_id) {
+    const { data: participant } = await supabaseAdmin
+      .from('chat_participants')
+      .select('chat_id')
+      .eq('chat_id', message.chat_id)
+      .eq('user_id', profileId)
+      .maybeSingle()
+    return Boolean(participant)
+  }
+
+  return false
+}
+
+// GET /api/files/download?path=&disposition=inline|attachment - Redirect to a
+// short-lived signed URL for an attachment the caller is allowed to read
 export async function GET(request: NextRequest) {
   try {
     const { userId } = await auth()
@@ -11,6 +61,7 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url)
     const storagePath = searchParams.get('path') ?? searchParams.get('storagePath')
+    const dispositionParam = searchParams.get('disposition') ?? 'attachment'
 
     if (!storagePath || typeof storagePath !== 'string') {
       return NextResponse.json(
@@ -24,11 +75,88 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid path' }, { status: 400 })
     }
 
-    const { data } = supabaseAdmin.storage
+    if (dispositionParam !== 'inline' && dispositionParam !== 'attachment') {
+      return NextResponse.json(
+        { error: 'disposition must be inline or attachment' },
+        { status: 400 }
+      )
+    }
+    const disposition: Disposition = dispositionParam
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const { data: attachmentRows, error: attachmentsError } = await supabaseAdmin
+      .from('file_attachments')
+      .select('id, name, message_id')
+      .eq('storage_path', storagePath)
+
+    if (attachmentsError) {
+      console.error('Failed to fetch file attachments:', attachmentsError)
+      return NextResponse.json(
+        { error: 'Failed to fetch file' },
+        { status: 500 }
+      )
+    }
+
+    // The same path can be attached to more than one message; the caller must
+    // be able to read every one of them. Uploads are stored under the
+    // uploader's Clerk ID; until they are sent with a message only the
+    // uploader may fetch them
+    const attachments = attachmentRows ?? []
+    const attachment = attachments[0]
+    const sent = attachments.filter((a) => a.message_id)
+    const allowed = sent.length > 0
+      ? (await Promise.all(sent.map((a) => canReadMessage(a.message_id, profileId)))).every(Boolean)
+      : isOwnUpload(storagePath, userId)
+
+    // Don't reveal whether a file exists to someone who can't read it
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    const fileName = attachment?.name ?? storagePath.split('/').pop() ?? 'download'
+    const { data: signed, error: signError } = await supabaseAdmin.storage
       .from('attachments')
-      .getPublicUrl(storagePath)
+      .createSignedUrl(storagePath, SIGNED_URL_TTL_SECONDS, {
+        // Storage sets Content-Disposition: attachment with this filename; omit for inline
+        download: disposition === 'attachment' ? fileName : false,
+      })
+
+    if (signError || !signed?.signedUrl) {
+      console.error('Failed to sign download URL:', signError)
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    const { error: auditError } = await supabaseAdmin
+      .from('file_downloads')
+      .insert({
+        file_attachment_id: attachment?.id ?? null,
+        user_id: profileId,
+        storage_path: storagePath,
+        disposition,
+      })
+
+    // The audit trail is best-effort; never block the download on it
+    if (auditError) {
+      console.error('Failed to record file download:', auditError)
+    }
 
-    return NextResponse.redirect(data.publicUrl)
+    const response = NextResponse.redirect(signed.signedUrl)
+    // Each request must be re-checked and re-signed
+    response.headers.set('Cache-Control', 'private, no-store')
+    return response
   } catch (err) {
     console.error('GET /api/files/download error:', err)
     return NextResponse.json(
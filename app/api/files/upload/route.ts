@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
 import { supabaseAdmin } from '@/lib/supabase-server'
-
-const MAX_FILE_SIZE = 50 * 1024 * 1024 // 50MB
+import { MAX_ATTACHMENT_SIZE } from '@/lib/attachments'
 
 const MIME_TO_TYPE: Record<string, 'image' | 'doc' | 'pdf' | 'pptx' | 'xlsx'> = {
   'image/jpeg': 'image',
@@ -52,10 +51,10 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (file.size > MAX_FILE_SIZE) {
+    if (file.size > MAX_ATTACHMENT_SIZE) {
       return NextResponse.json(
         {
-          error: `File too large. Maximum size is ${formatFileSize(MAX_FILE_SIZE)}.`,
+          error: `File too large. Maximum size is ${formatFileSize(MAX_ATTACHMENT_SIZE)}.`,
         },
         { status: 400 }
       )
@@ -0,0 +1,121 @@
+import { randomBytes } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+
+function generateFeedToken(): string {
+  return randomBytes(24).toString('base64url')
+}
+
+function feedUrl(request: NextRequest, token: string): string {
+  return `${new URL(request.url).origin}/api/calendar/feed.ics?token=${token}`
+}
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+// GET /api/me/calendar-feed - The caller's private iCalendar subscription URL,
+// creating its token on first use
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const { data: existing } = await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .select('token')
+      .eq('user_id', profileId)
+      .maybeSingle()
+
+    if (existing) {
+      return NextResponse.json({ url: feedUrl(request, existing.token) })
+    }
+
+    const token = generateFeedToken()
+    const { error: insertError } = await supabaseAdmin
+      .from('calendar_feed_tokens')
+      // Another tab may have created it first; that one wins
+      .upsert({ user_id: profileId, token }, { onConflict: 'user_id', ignoreDuplicates: true })
+
+    if (insertError) {
+      console.error('Failed to create calendar feed token:', insertError)
+      return NextResponse.json(
+        { error: 'Failed to create calendar feed' },
+        { status: 500 }
+      )
+    }
+
+    const { data: created } = await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .select('token')
+      .eq('user_id', profileId)
+      .single()
+
+    return NextResponse.json({ url: feedUrl(request, created?.token ?? token) })
+  } catch (err) {
+    console.error('GET /api/me/calendar-feed error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/me/calendar-feed - Replace the feed token, cutting off every
+// client subscribed with the old URL
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const token = generateFeedToken()
+    const { error: updateError } = await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .upsert(
+        { user_id: profileId, token, created_at: new Date().toISOString() },
+        { onConflict: 'user_id' }
+      )
+
+    if (updateError) {
+      console.error('Failed to reset calendar feed token:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to reset calendar feed' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ url: feedUrl(request, token) })
+  } catch (err) {
+    console.error('POST /api/me/calendar-feed error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
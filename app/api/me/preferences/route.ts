@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { isValidTimeZone } from '@/lib/time-zones'
+import { MAX_REMINDER_MINUTES } from '@/lib/notifications'
+
+const MAX_REMINDER_OFFSETS = 5
+
+function isReminderOffsets(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.length <= MAX_REMINDER_OFFSETS &&
+    value.every((m) => Number.isInteger(m) && m >= 0 && m <= MAX_REMINDER_MINUTES)
+  )
+}
+
+// PATCH /api/me/preferences - Set the caller's calendar time zones and event
+// reminder offsets. Fields left out are unchanged; a null zone clears it (the
+// preferred zone then follows the browser) and no offsets turn reminders off.
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { timeZone, secondaryTimeZone, reminderOffsets } = body as {
+      timeZone?: unknown
+      secondaryTimeZone?: unknown
+      reminderOffsets?: unknown
+    }
+
+    const updatePayload: Record<string, string | number[] | null> = {}
+
+    if (timeZone !== undefined) {
+      if (timeZone !== null && !isValidTimeZone(timeZone)) {
+        return NextResponse.json(
+          { error: 'timeZone must be an IANA time zone or null' },
+          { status: 400 }
+        )
+      }
+      updatePayload.time_zone = timeZone
+    }
+
+    if (secondaryTimeZone !== undefined) {
+      if (secondaryTimeZone !== null && !isValidTimeZone(secondaryTimeZone)) {
+        return NextResponse.json(
+          { error: 'secondaryTimeZone must be an IANA time zone or null' },
+          { status: 400 }
+        )
+      }
+      updatePayload.secondary_time_zone = secondaryTimeZone
+    }
+
+    if (reminderOffsets !== undefined) {
+      if (!isReminderOffsets(reminderOffsets)) {
+        return NextResponse.json(
+          { error: `reminderOffsets must be up to ${MAX_REMINDER_OFFSETS} whole minutes between 0 and ${MAX_REMINDER_MINUTES}` },
+          { status: 400 }
+        )
+      }
+      updatePayload.reminder_offsets = [...new Set(reminderOffsets)].sort((a, b) => a - b)
+    }
+
+    if (Object.keys(updatePayload).length === 0) {
+      return NextResponse.json(
+        { error: 'Nothing to update' },
+        { status: 400 }
+      )
+    }
+
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('profiles')
+      .update(updatePayload)
+      .eq('clerk_user_id', userId)
+      .select('id')
+      .maybeSingle()
+
+    if (updateError) {
+      console.error('Failed to update preferences:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update preferences' },
+        { status: 500 }
+      )
+    }
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('PATCH /api/me/preferences error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
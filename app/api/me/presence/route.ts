@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { isPresenceStatus } from '@/lib/presence'
+
+// POST /api/me/presence - Presence heartbeat: store the caller's automatic
+// status and bump last_seen_at. Sent with navigator.sendBeacon when the last
+// tab closes, so it only accepts POST.
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { status } = body as { status?: unknown }
+
+    if (!isPresenceStatus(status)) {
+      return NextResponse.json(
+        { error: 'status must be online, away or offline' },
+        { status: 400 }
+      )
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('profiles')
+      .update({ status, last_seen_at: new Date().toISOString() })
+      .eq('clerk_user_id', userId)
+
+    if (updateError) {
+      console.error('Failed to update presence:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update presence' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('POST /api/me/presence error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,16 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
 import { supabaseAdmin } from '@/lib/supabase-server'
+import {
+  STATUS_MESSAGE_MAX_LENGTH,
+  isPresenceStatus,
+  isStatusExpired,
+  resolvePresenceStatus,
+  resolveStatusMessage,
+} from '@/lib/presence'
+
+const PROFILE_SELECT =
+  'id, name, avatar_url, status, last_seen_at, manual_status, status_message, status_expires_at, time_zone, secondary_time_zone, reminder_offsets'
 
 export async function GET() {
   const { userId } = await auth()
@@ -10,13 +20,118 @@ export async function GET() {
 
   const { data: profile, error } = await supabaseAdmin
     .from('profiles')
-    .select('id')
+    .select(PROFILE_SELECT)
     .eq('clerk_user_id', userId)
     .single()
 
   if (error || !profile) {
-    return NextResponse.json({ id: null })
+    return NextResponse.json({ id: null, name: null, avatar_url: null })
   }
 
-  return NextResponse.json({ id: profile.id })
+  const manualActive = !isStatusExpired(profile.status_expires_at)
+  return NextResponse.json({
+    id: profile.id,
+    name: profile.name,
+    avatar_url: profile.avatar_url,
+    status: resolvePresenceStatus(profile),
+    status_message: resolveStatusMessage(profile),
+    last_seen_at: profile.last_seen_at,
+    manual_status: manualActive && isPresenceStatus(profile.manual_status) ? profile.manual_status : null,
+    status_expires_at: manualActive ? profile.status_expires_at : null,
+    time_zone: profile.time_zone ?? null,
+    secondary_time_zone: profile.secondary_time_zone ?? null,
+    reminder_offsets: profile.reminder_offsets ?? [],
+  })
+}
+
+// PATCH /api/me - Set or clear the caller's manual status and status message
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { manualStatus, statusMessage, expiresAt } = body as {
+      manualStatus?: unknown
+      statusMessage?: unknown
+      expiresAt?: unknown
+    }
+
+    if (manualStatus != null && !isPresenceStatus(manualStatus)) {
+      return NextResponse.json(
+        { error: 'manualStatus must be online, away, offline or null' },
+        { status: 400 }
+      )
+    }
+
+    if (statusMessage != null && typeof statusMessage !== 'string') {
+      return NextResponse.json(
+        { error: 'statusMessage must be a string or null' },
+        { status: 400 }
+      )
+    }
+    const message = typeof statusMessage === 'string' ? statusMessage.trim() : ''
+    if (message.length > STATUS_MESSAGE_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `statusMessage must be at most ${STATUS_MESSAGE_MAX_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    let expiry: string | null = null
+    if (expiresAt != null) {
+      const parsed = typeof expiresAt === 'string' ? new Date(expiresAt) : null
+      if (!parsed || isNaN(parsed.getTime())) {
+        return NextResponse.json(
+          { error: 'expiresAt must be an ISO timestamp or null' },
+          { status: 400 }
+        )
+      }
+      if (parsed.getTime() <= Date.now()) {
+        return NextResponse.json(
+          { error: 'expiresAt must be in the future' },
+          { status: 400 }
+        )
+      }
+      expiry = parsed.toISOString()
+    }
+
+    const hasStatus = manualStatus != null || message.length > 0
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('profiles')
+      .update({
+        manual_status: manualStatus ?? null,
+        status_message: message || null,
+        // An expiry without anything to expire is meaningless
+        status_expires_at: hasStatus ? expiry : null,
+      })
+      .eq('clerk_user_id', userId)
+      .select('id')
+      .maybeSingle()
+
+    if (updateError) {
+      console.error('Failed to update status:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update status' },
+        { status: 500 }
+      )
+    }
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('PATCH /api/me error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
 }
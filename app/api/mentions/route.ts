@@ -0,0 +1,242 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { getReadableChannelIds } from '@/lib/channels'
+import { decodeMessageCursor, encodeMessageCursor } from '@/lib/message-cursor'
+import type {
+  ApiMentionPage,
+  MentionBroadcast,
+  MentionedMessage,
+  MessageMention,
+  MessageSender,
+} from '@/lib/types'
+
+const DEFAULT_PAGE_SIZE = 30
+const MAX_PAGE_SIZE = 50
+
+const MENTION_SELECT = `
+  id,
+  content,
+  created_at,
+  parent_message_id,
+  channel_id,
+  chat_id,
+  mentions,
+  mention_broadcast,
+  sender:profiles (
+    id,
+    name,
+    avatar_url
+  )
+`
+
+interface MentionRow {
+  id: string
+  content: string
+  created_at: string
+  parent_message_id: string | null
+  channel_id: string | null
+  chat_id: string | null
+  mentions: MessageMention[] | null
+  mention_broadcast: MentionBroadcast | null
+  sender: unknown
+}
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+function normalizeSender(raw: unknown): MessageSender | null {
+  const sender = (Array.isArray(raw) ? raw[0] : raw) as MessageSender | null | undefined
+  return sender ?? null
+}
+
+/** Thread parents of any replies among the rows, keyed by parent ID. */
+async function fetchAnchors(
+  rows: MentionRow[]
+): Promise<Map<string, { id: string; created_at: string }>> {
+  const anchors = new Map<string, { id: string; created_at: string }>()
+  const parentIds = [...new Set(rows.map((r) => r.parent_message_id).filter((id): id is string => !!id))]
+  if (parentIds.length === 0) return anchors
+
+  const { data } = await supabaseAdmin
+    .from('messages')
+    .select('id, created_at')
+    .in('id', parentIds)
+
+  for (const parent of data ?? []) {
+    anchors.set(parent.id, parent)
+  }
+  return anchors
+}
+
+// GET /api/mentions?before=&limit= - Messages that mention the caller, by name
+// anywhere they can read or by @channel / @here in channels they've joined,
+// newest first
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const before = searchParams.get('before')
+    const limitParam = searchParams.get('limit')
+
+    const cursor = before ? decodeMessageCursor(before) : null
+    if (before && !cursor) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 })
+    }
+
+    let limit = DEFAULT_PAGE_SIZE
+    if (limitParam !== null) {
+      const parsed = Number(limitParam)
+      if (!Number.isInteger(parsed) || parsed < 1) {
+        return NextResponse.json(
+          { error: 'limit must be a positive integer' },
+          { status: 400 }
+        )
+      }
+      limit = Math.min(parsed, MAX_PAGE_SIZE)
+    }
+
+    const readableChannelIds = await getReadableChannelIds(profileId)
+    const [
+      { data: channels, error: channelsError },
+      { data: memberships, error: membershipsError },
+      { data: participations, error: partError },
+    ] = await Promise.all([
+      supabaseAdmin.from('channels').select('id, name').in('id', readableChannelIds),
+      supabaseAdmin.from('channel_members').select('channel_id').eq('user_id', profileId),
+      supabaseAdmin.from('chat_participants').select('chat_id').eq('user_id', profileId),
+    ])
+
+    if (channelsError || membershipsError || partError) {
+      console.error('Failed to resolve conversations for mentions:', channelsError ?? membershipsError ?? partError)
+      return NextResponse.json(
+        { error: 'Failed to fetch mentions' },
+        { status: 500 }
+      )
+    }
+
+    const channelIds = (channels ?? []).map((c) => c.id as string)
+    const memberChannelIds = (memberships ?? []).map((m) => m.channel_id as string)
+    const chatIds = (participations ?? []).map((p) => p.chat_id as string)
+
+    const scope: string[] = []
+    if (channelIds.length > 0) scope.push(`channel_id.in.(${channelIds.join(',')})`)
+    if (chatIds.length > 0) scope.push(`chat_id.in.(${chatIds.join(',')})`)
+    if (scope.length === 0) {
+      const empty: ApiMentionPage = { messages: [], nextCursor: null }
+      return NextResponse.json(empty)
+    }
+
+    const page = () => {
+      let query = supabaseAdmin
+        .from('messages')
+        .select(MENTION_SELECT)
+        .neq('sender_id', profileId)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        // Fetch one extra row to know whether another page exists
+        .limit(limit + 1)
+      if (cursor) {
+        query = query.or(
+          `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`
+        )
+      }
+      return query
+    }
+
+    // Direct mentions and broadcasts use different indexes, so they're fetched separately and merged
+    const [direct, broadcast] = await Promise.all([
+      page().contains('mentions', [{ id: profileId }]).or(scope.join(',')),
+      memberChannelIds.length > 0
+        ? page().not('mention_broadcast', 'is', null).in('channel_id', memberChannelIds)
+        : Promise.resolve({ data: [], error: null }),
+    ])
+
+    if (direct.error || broadcast.error) {
+      console.error('Failed to fetch mentions:', direct.error ?? broadcast.error)
+      return NextResponse.json(
+        { error: 'Failed to fetch mentions' },
+        { status: 500 }
+      )
+    }
+
+    const merged = new Map<string, MentionRow>()
+    for (const row of [...(direct.data ?? []), ...(broadcast.data ?? [])] as unknown as MentionRow[]) {
+      merged.set(row.id, row)
+    }
+    const rows = [...merged.values()].sort(
+      (a, b) => b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id)
+    )
+    const pageRows = rows.slice(0, limit)
+
+    const pageChatIds = [...new Set(pageRows.map((r) => r.chat_id).filter((id): id is string => !!id))]
+    const [anchors, { data: chats }] = await Promise.all([
+      fetchAnchors(pageRows),
+      pageChatIds.length
+        ? supabaseAdmin.from('chats').select('id, name, profiles ( id, name )').in('id', pageChatIds)
+        : Promise.resolve({ data: [] }),
+    ])
+
+    const locationNames = new Map<string, string>()
+    for (const ch of channels ?? []) {
+      locationNames.set(ch.id, `#${ch.name}`)
+    }
+    for (const chat of chats ?? []) {
+      const members = (Array.isArray(chat.profiles) ? chat.profiles : []) as { id: string; name: string }[]
+      const other = members.find((m) => m.id !== profileId)
+      locationNames.set(chat.id, chat.name ?? other?.name ?? 'Direct Message')
+    }
+
+    const messages: MentionedMessage[] = pageRows.map((m) => {
+      const anchor = anchors.get(m.parent_message_id ?? m.id) ?? { id: m.id, created_at: m.created_at }
+      return {
+        id: m.id,
+        content: m.content,
+        created_at: m.created_at,
+        sender: normalizeSender(m.sender),
+        parent_message_id: m.parent_message_id,
+        anchor_id: anchor.id,
+        anchor_created_at: anchor.created_at,
+        location: {
+          channel_id: m.channel_id,
+          chat_id: m.chat_id,
+          name: locationNames.get((m.channel_id ?? m.chat_id) as string) ?? 'Unknown',
+        },
+        mentions: m.mentions ?? [],
+        mention_broadcast: m.mention_broadcast,
+      }
+    })
+
+    const last = pageRows[pageRows.length - 1]
+    const result: ApiMentionPage = {
+      messages,
+      nextCursor: rows.length > limit && last ? encodeMessageCursor(last) : null,
+    }
+
+    return NextResponse.json(result)
+  } catch (err) {
+    console.error('GET /api/mentions error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { fetchReactionSummaries } from '@/lib/messages'
+import { isValidEmoji } from '@/lib/reactions'
+import { canReadChannel, getChannelAccess } from '@/lib/channels'
+import { getChatAccess } from '@/lib/chats'
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+/** Load a message the profile can read: in a readable channel or a chat they are in. */
+async function getReadableMessage(messageId: string, profileId: string) {
+  const { data: message } = await supabaseAdmin
+    .from('messages')
+    .select('id, channel_id, chat_id')
+    .eq('id', messageId)
+    .single()
+
+  if (!message) return null
+
+  if (message.channel_id) {
+    const access = await getChannelAccess(message.channel_id, profileId)
+    if (!access || !canReadChannel(access)) return null
+  }
+
+  if (message.chat_id) {
+    const access = await getChatAccess(message.chat_id, profileId)
+    if (!access || !access.isParticipant) return null
+  }
+
+  return message
+}
+
+/** Add the caller's reaction. Adding the same emoji twice is a no-op. */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Message ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const { emoji } = body
+
+    if (!isValidEmoji(emoji)) {
+      return NextResponse.json(
+        { error: 'emoji is required' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const message = await getReadableMessage(id, profileId)
+    if (!message) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      )
+    }
+
+    const { error: insertError } = await supabaseAdmin
+      .from('message_reactions')
+      .upsert(
+        {
+          message_id: message.id,
+          user_id: profileId,
+          emoji,
+          channel_id: message.channel_id,
+          chat_id: message.chat_id,
+        },
+        { onConflict: 'message_id,user_id,emoji', ignoreDuplicates: true }
+      )
+
+    if (insertError) {
+      console.error('Failed to add reaction:', insertError)
+      return NextResponse.json(
+        { error: 'Failed to add reaction' },
+        { status: 500 }
+      )
+    }
+
+    const reactions = await fetchReactionSummaries([id], profileId)
+    return NextResponse.json({ success: true, reactions: reactions.get(id) ?? [] })
+  } catch (err) {
+    console.error('POST /api/messages/[id]/reactions error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/** Remove the caller's reaction, given as `?emoji=`. */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Message ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const emoji = searchParams.get('emoji')
+
+    if (!isValidEmoji(emoji)) {
+      return NextResponse.json(
+        { error: 'emoji query param is required' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const message = await getReadableMessage(id, profileId)
+    if (!message) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      )
+    }
+
+    const { error: deleteError } = await supabaseAdmin
+      .from('message_reactions')
+      .delete()
+      .eq('message_id', id)
+      .eq('user_id', profileId)
+      .eq('emoji', emoji)
+
+    if (deleteError) {
+      console.error('Failed to remove reaction:', deleteError)
+      return NextResponse.json(
+        { error: 'Failed to remove reaction' },
+        { status: 500 }
+      )
+    }
+
+    const reactions = await fetchReactionSummaries([id], profileId)
+    return NextResponse.json({ success: true, reactions: reactions.get(id) ?? [] })
+  } catch (err) {
+    console.error('DELETE /api/messages/[id]/reactions error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
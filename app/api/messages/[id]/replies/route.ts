@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import {
+  MESSAGE_SELECT,
+  fetchReactionSummaries,
+  fetchThreadSummaries,
+  normalizeMessage,
+} from '@/lib/messages'
+import { canReadChannel, getChannelAccess } from '@/lib/channels'
+import { getChatAccess } from '@/lib/chats'
+import type { ApiThread } from '@/lib/types'
+
+/** Return a thread: the parent message with its summary, plus all replies oldest-first. */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Message ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data: parent, error: parentError } = await supabaseAdmin
+      .from('messages')
+      .select(`${MESSAGE_SELECT}, channel_id, chat_id`)
+      .eq('id', id)
+      .single()
+
+    if (parentError || !parent) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: viewer } = await supabaseAdmin
+      .from('profiles')
+      .select('id')
+      .eq('clerk_user_id', userId)
+      .single()
+
+    if (parent.channel_id) {
+      const access = await getChannelAccess(parent.channel_id, viewer?.id ?? null)
+      if (!access || !canReadChannel(access)) {
+        return NextResponse.json(
+          { error: 'Message not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    if (parent.chat_id) {
+      const access = await getChatAccess(parent.chat_id, viewer?.id ?? null)
+      if (!access || !access.isParticipant) {
+        return NextResponse.json(
+          { error: 'Message not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    if (parent.parent_message_id) {
+      return NextResponse.json(
+        { error: 'Message is a thread reply, not a thread parent' },
+        { status: 400 }
+      )
+    }
+
+    const { data: replies, error: repliesError } = await supabaseAdmin
+      .from('messages')
+      .select(MESSAGE_SELECT)
+      .eq('parent_message_id', id)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+
+    if (repliesError) {
+      console.error('Failed to fetch thread replies:', repliesError)
+      return NextResponse.json(
+        { error: 'Failed to fetch replies' },
+        { status: 500 }
+      )
+    }
+
+    const replyRows = replies ?? []
+    const [threads, reactions] = await Promise.all([
+      fetchThreadSummaries([id]),
+      fetchReactionSummaries([id, ...replyRows.map((r) => r.id)], viewer?.id ?? null),
+    ])
+    const thread: ApiThread = {
+      parent: normalizeMessage(parent, { thread: threads.get(id), reactions: reactions.get(id) }),
+      replies: replyRows.map((r) => normalizeMessage(r, { reactions: reactions.get(r.id) })),
+    }
+
+    return NextResponse.json(thread)
+  } catch (err) {
+    console.error('GET /api/messages/[id]/replies error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
 import { supabaseAdmin } from '@/lib/supabase-server'
+import { resolveMessageMentions } from '@/lib/messages'
+import { canReadChannel, getChannelAccess } from '@/lib/channels'
+import { getChatAccess } from '@/lib/chats'
+import { notifyNewMessage } from '@/lib/notifications'
+import { refreshMessageUnfurls } from '@/lib/unfurl'
+import type { MessageMention } from '@/lib/types'
 
 async function getProfileId(clerkUserId: string) {
   const { data } = await supabaseAdmin
@@ -30,7 +36,7 @@ export async function PATCH(
     }
 
     const body = await request.json()
-    const { content } = body
+    const { content, mentionIds } = body
 
     if (!content || typeof content !== 'string') {
       return NextResponse.json(
@@ -49,7 +55,7 @@ export async function PATCH(
 
     const { data: message, error: fetchError } = await supabaseAdmin
       .from('messages')
-      .select('sender_id')
+      .select('sender_id, channel_id, chat_id, mentions, system_event')
       .eq('id', id)
       .single()
 
@@ -60,6 +66,36 @@ export async function PATCH(
       )
     }
 
+    // Same rules as posting: people who left a conversation can't edit what
+    // they wrote there, and archived channels are read-only
+    let isPrivateChannel = false
+    if (message.channel_id) {
+      const access = await getChannelAccess(message.channel_id, profileId)
+      if (!access || !canReadChannel(access)) {
+        return NextResponse.json(
+          { error: 'Message not found' },
+          { status: 404 }
+        )
+      }
+      if (access.channel.archived_at) {
+        return NextResponse.json(
+          { error: 'Channel is archived' },
+          { status: 403 }
+        )
+      }
+      isPrivateChannel = access.channel.is_private
+    }
+
+    if (message.chat_id) {
+      const access = await getChatAccess(message.chat_id, profileId)
+      if (!access || !access.isParticipant) {
+        return NextResponse.json(
+          { error: 'Message not found' },
+          { status: 404 }
+        )
+      }
+    }
+
     if (message.sender_id !== profileId) {
       return NextResponse.json(
         { error: 'You can only edit your own messages' },
@@ -67,9 +103,26 @@ export async function PATCH(
       )
     }
 
+    if (message.system_event) {
+      return NextResponse.json(
+        { error: 'System messages cannot be edited' },
+        { status: 400 }
+      )
+    }
+
+    // Mentions the message already had stay resolvable, as do newly picked ones
+    const { mentions, mention_broadcast } = await resolveMessageMentions(
+      content.trim(),
+      { channelId: message.channel_id, chatId: message.chat_id, isPrivate: isPrivateChannel },
+      [
+        ...((message.mentions ?? []) as MessageMention[]).map((m) => m.id),
+        ...(Array.isArray(mentionIds) ? mentionIds.filter((mid): mid is string => typeof mid === 'string') : []),
+      ]
+    )
+
     const { error: updateError } = await supabaseAdmin
       .from('messages')
-      .update({ content: content.trim() })
+      .update({ content: content.trim(), mentions, mention_broadcast })
       .eq('id', id)
 
     if (updateError) {
@@ -80,7 +133,26 @@ export async function PATCH(
       )
     }
 
-    return NextResponse.json({ success: true })
+    // People mentioned by the edit are notified; chat participants already were
+    if (message.channel_id) {
+      await notifyNewMessage({
+        id,
+        sender_id: profileId,
+        content: content.trim(),
+        channel_id: message.channel_id,
+        chat_id: null,
+        mentions,
+        mention_broadcast,
+      })
+    }
+
+    after(() =>
+      refreshMessageUnfurls(id, content.trim()).catch((err) =>
+        console.error('Failed to unfurl message links:', err)
+      )
+    )
+
+    return NextResponse.json({ success: true, mentions, mention_broadcast })
   } catch (err) {
     console.error('PATCH /api/messages/[id] error:', err)
     return NextResponse.json(
@@ -118,7 +190,7 @@ export async function DELETE(
 
     const { data: message, error: fetchError } = await supabaseAdmin
       .from('messages')
-      .select('sender_id')
+      .select('sender_id, system_event')
       .eq('id', id)
       .single()
 
@@ -136,6 +208,13 @@ export async function DELETE(
       )
     }
 
+    if (message.system_event) {
+      return NextResponse.json(
+        { error: 'System messages cannot be deleted' },
+        { status: 400 }
+      )
+    }
+
     const { error: deleteError } = await supabaseAdmin
       .from('messages')
       .delete()
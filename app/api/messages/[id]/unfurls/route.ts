@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import type { MessageUnfurl } from '@/lib/types'
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+/**
+ * Dismiss one of the message's link previews. Only its author can; the link
+ * is remembered so editing the message doesn't unfurl it again.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Message ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const { url } = body
+
+    if (!url || typeof url !== 'string') {
+      return NextResponse.json(
+        { error: 'url is required' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const { data: message, error: fetchError } = await supabaseAdmin
+      .from('messages')
+      .select('sender_id, unfurls, dismissed_unfurls')
+      .eq('id', id)
+      .single()
+
+    if (fetchError || !message) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      )
+    }
+
+    if (message.sender_id !== profileId) {
+      return NextResponse.json(
+        { error: 'You can only dismiss previews on your own messages' },
+        { status: 403 }
+      )
+    }
+
+    const dismissed = (message.dismissed_unfurls ?? []) as string[]
+    const { error: updateError } = await supabaseAdmin
+      .from('messages')
+      .update({
+        unfurls: ((message.unfurls ?? []) as MessageUnfurl[]).filter((u) => u.url !== url),
+        dismissed_unfurls: dismissed.includes(url) ? dismissed : [...dismissed, url],
+      })
+      .eq('id', id)
+
+    if (updateError) {
+      console.error('Failed to dismiss unfurl:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to dismiss preview' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('DELETE /api/messages/[id]/unfurls error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
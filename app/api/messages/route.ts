@@ -1,12 +1,33 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { auth, clerkClient } from '@clerk/nextjs/server'
 import { supabaseAdmin } from '@/lib/supabase-server'
-import type { FileAttachment } from '@/lib/types'
+import {
+  DEFAULT_MESSAGE_PAGE_SIZE,
+  MAX_MESSAGE_PAGE_SIZE,
+  decodeMessageCursor,
+  encodeMessageCursor,
+} from '@/lib/message-cursor'
+import {
+  MESSAGE_SELECT,
+  fetchReactionSummaries,
+  fetchThreadSummaries,
+  normalizeMessage,
+  resolveMessageMentions,
+} from '@/lib/messages'
+import { canReadChannel, getChannelAccess } from '@/lib/channels'
+import { getChatAccess } from '@/lib/chats'
+import { MAX_MESSAGE_ATTACHMENTS, isOwnUpload, isValidAttachment } from '@/lib/attachments'
+import { notifyNewMessage } from '@/lib/notifications'
+import { refreshMessageUnfurls } from '@/lib/unfurl'
+import type { ApiMessagePage } from '@/lib/types'
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const channelId = searchParams.get('channelId')
   const chatId = searchParams.get('chatId')
+  const before = searchParams.get('before')
+  const after = searchParams.get('after')
+  const limitParam = searchParams.get('limit')
 
   if (!channelId && !chatId) {
     return NextResponse.json(
@@ -22,28 +43,71 @@ export async function GET(request: NextRequest) {
     )
   }
 
+  if (before && after) {
+    return NextResponse.json(
+      { error: 'Provide either before or after, not both' },
+      { status: 400 }
+    )
+  }
+
+  const cursorParam = before ?? after
+  const cursor = cursorParam ? decodeMessageCursor(cursorParam) : null
+  if (cursorParam && !cursor) {
+    return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 })
+  }
+
+  let limit = DEFAULT_MESSAGE_PAGE_SIZE
+  if (limitParam !== null) {
+    const parsed = Number(limitParam)
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      return NextResponse.json(
+        { error: 'limit must be a positive integer' },
+        { status: 400 }
+      )
+    }
+    limit = Math.min(parsed, MAX_MESSAGE_PAGE_SIZE)
+  }
+
+  // Resolve the viewer for private channel access and reacted_by_me
+  const { userId } = await auth()
+  const { data: viewer } = userId
+    ? await supabaseAdmin.from('profiles').select('id').eq('clerk_user_id', userId).single()
+    : { data: null }
+
+  if (channelId) {
+    const access = await getChannelAccess(channelId, viewer?.id ?? null)
+    // Private channels are indistinguishable from missing ones for non-members
+    if (!access || !canReadChannel(access)) {
+      return NextResponse.json(
+        { error: 'Channel not found' },
+        { status: 404 }
+      )
+    }
+  }
+
+  if (chatId) {
+    const access = await getChatAccess(chatId, viewer?.id ?? null)
+    if (!access || !access.isParticipant) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      )
+    }
+  }
+
+  // Without `after` we page backwards from the newest message, so the query
+  // runs newest-first and the page is reversed before returning
+  const ascending = Boolean(after)
+
   let query = supabaseAdmin
     .from('messages')
-    .select(
-      `
-      id,
-      content,
-      created_at,
-      sender:profiles (
-        id,
-        name,
-        avatar_url
-      ),
-      file_attachments (
-        id,
-        name,
-        type,
-        size,
-        storage_path
-      )
-    `
-    )
-    .order('created_at', { ascending: true })
+    .select(MESSAGE_SELECT)
+    // Thread replies are served by GET /api/messages/[id]/replies
+    .is('parent_message_id', null)
+    .order('created_at', { ascending })
+    .order('id', { ascending })
+    // Fetch one extra row to know whether another page exists
+    .limit(limit + 1)
 
   if (channelId) {
     query = query.eq('channel_id', channelId)
@@ -51,6 +115,14 @@ export async function GET(request: NextRequest) {
     query = query.eq('chat_id', chatId)
   }
 
+  if (cursor) {
+    // Keyset condition on (created_at, id) so ties on created_at are not skipped
+    const op = ascending ? 'gt' : 'lt'
+    query = query.or(
+      `created_at.${op}."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.${op}.${cursor.id})`
+    )
+  }
+
   const { data, error } = await query
 
   if (error) {
@@ -61,29 +133,28 @@ export async function GET(request: NextRequest) {
     )
   }
 
-  // Normalize sender shape (Supabase returns array for single relation)
-  // file_attachments is one-to-many; take first for file_attachment
-  const messages = (data ?? []).map((m) => {
-    const attachments = m.file_attachments as Array<{ id: string; name: string; type: string; size: string; storage_path: string }> | null
-    const firstAttachment = attachments?.[0]
-    return {
-      id: m.id,
-      content: m.content,
-      created_at: m.created_at,
-      sender: Array.isArray(m.sender) ? m.sender[0] : m.sender,
-      file_attachment: firstAttachment
-        ? {
-            id: firstAttachment.id,
-            name: firstAttachment.name,
-            type: firstAttachment.type as FileAttachment['type'],
-            size: firstAttachment.size,
-            storage_path: firstAttachment.storage_path,
-          }
-        : null,
-    }
-  })
-
-  return NextResponse.json(messages)
+  const rows = data ?? []
+  const hasMore = rows.length > limit
+  const pageRows = rows.slice(0, limit)
+  if (!ascending) pageRows.reverse()
+
+  const pageIds = pageRows.map((m) => m.id)
+  const [threads, reactions] = await Promise.all([
+    fetchThreadSummaries(pageIds),
+    fetchReactionSummaries(pageIds, viewer?.id ?? null),
+  ])
+  const messages = pageRows.map((m) =>
+    normalizeMessage(m, { thread: threads.get(m.id), reactions: reactions.get(m.id) })
+  )
+
+  // The cursor continues from the edge of the page in the requested direction
+  const edge = ascending ? messages[messages.length - 1] : messages[0]
+  const page: ApiMessagePage = {
+    messages,
+    nextCursor: hasMore && edge ? encodeMessageCursor(edge) : null,
+  }
+
+  return NextResponse.json(page)
 }
 
 export async function POST(request: NextRequest) {
@@ -94,9 +165,40 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { content, channelId, chatId, attachment } = body
+    const { content, channelId, chatId, attachments, attachment, parentMessageId, mentionIds } = body
+
+    // `attachment` is the single-file form older clients still send
+    const rawAttachments: unknown[] = Array.isArray(attachments)
+      ? attachments
+      : attachment
+        ? [attachment]
+        : []
 
-    if (!content || typeof content !== 'string') {
+    if (rawAttachments.length > MAX_MESSAGE_ATTACHMENTS) {
+      return NextResponse.json(
+        { error: `A message can have at most ${MAX_MESSAGE_ATTACHMENTS} attachments` },
+        { status: 400 }
+      )
+    }
+
+    const validAttachments = rawAttachments.filter(isValidAttachment)
+    if (validAttachments.length !== rawAttachments.length) {
+      return NextResponse.json(
+        { error: 'Each attachment needs storagePath, name, type and size' },
+        { status: 400 }
+      )
+    }
+
+    // Only files the sender uploaded can be attached; anyone else's path would
+    // grant the conversation access to a file the sender may not be able to read
+    if (validAttachments.some((a) => !isOwnUpload(a.storagePath, userId))) {
+      return NextResponse.json(
+        { error: 'Attachments must be files you uploaded' },
+        { status: 403 }
+      )
+    }
+
+    if (typeof content !== 'string' || (!content.trim() && validAttachments.length === 0)) {
       return NextResponse.json(
         { error: 'content is required' },
         { status: 400 }
@@ -117,6 +219,43 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (parentMessageId !== undefined && parentMessageId !== null) {
+      if (typeof parentMessageId !== 'string') {
+        return NextResponse.json(
+          { error: 'parentMessageId must be a string' },
+          { status: 400 }
+        )
+      }
+
+      const { data: parent, error: parentError } = await supabaseAdmin
+        .from('messages')
+        .select('id, channel_id, chat_id, parent_message_id')
+        .eq('id', parentMessageId)
+        .single()
+
+      if (parentError || !parent) {
+        return NextResponse.json(
+          { error: 'Parent message not found' },
+          { status: 404 }
+        )
+      }
+
+      // Threads are one level deep and must stay in the parent's channel/chat
+      if (parent.parent_message_id) {
+        return NextResponse.json(
+          { error: 'Cannot reply to a thread reply' },
+          { status: 400 }
+        )
+      }
+
+      if ((channelId ?? null) !== parent.channel_id || (chatId ?? null) !== parent.chat_id) {
+        return NextResponse.json(
+          { error: 'Parent message belongs to a different conversation' },
+          { status: 400 }
+        )
+      }
+    }
+
     // Find or create profile
     const { data: existingProfile } = await supabaseAdmin
       .from('profiles')
@@ -158,9 +297,47 @@ export async function POST(request: NextRequest) {
       profileId = newProfile.id
     }
 
+    let isPrivateChannel = false
+    if (channelId) {
+      const access = await getChannelAccess(channelId, profileId)
+      if (!access || !canReadChannel(access)) {
+        return NextResponse.json(
+          { error: 'Channel not found' },
+          { status: 404 }
+        )
+      }
+      if (access.channel.archived_at) {
+        return NextResponse.json(
+          { error: 'Channel is archived' },
+          { status: 403 }
+        )
+      }
+      isPrivateChannel = access.channel.is_private
+    }
+
+    // People removed from a group chat can no longer post in it
+    if (chatId) {
+      const access = await getChatAccess(chatId, profileId)
+      if (!access || !access.isParticipant) {
+        return NextResponse.json(
+          { error: 'Chat not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    // mentionIds are the profiles picked from autocomplete; the text decides who is mentioned
+    const { mentions, mention_broadcast } = await resolveMessageMentions(
+      content.trim(),
+      { channelId: channelId ?? null, chatId: chatId ?? null, isPrivate: isPrivateChannel },
+      Array.isArray(mentionIds) ? mentionIds.filter((id): id is string => typeof id === 'string') : []
+    )
+
     const insertPayload: Record<string, unknown> = {
       sender_id: profileId,
       content: content.trim(),
+      mentions,
+      mention_broadcast,
     }
 
     if (channelId) {
@@ -169,6 +346,10 @@ export async function POST(request: NextRequest) {
       insertPayload.chat_id = chatId
     }
 
+    if (parentMessageId) {
+      insertPayload.parent_message_id = parentMessageId
+    }
+
     const { data: insertedMessage, error: insertMsgError } = await supabaseAdmin
       .from('messages')
       .insert(insertPayload)
@@ -183,32 +364,58 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const allowedTypes = ['image', 'doc', 'pdf', 'pptx', 'xlsx'] as const
-    if (attachment && insertedMessage?.id) {
-      const { storagePath, name, type, size } = attachment
-      const isValidType = typeof type === 'string' && allowedTypes.includes(type as (typeof allowedTypes)[number])
-      if (storagePath && name && isValidType && size != null) {
-        const { error: attachError } = await supabaseAdmin
-          .from('file_attachments')
-          .insert({
+    if (validAttachments.length > 0) {
+      const { error: attachError } = await supabaseAdmin
+        .from('file_attachments')
+        .insert(
+          validAttachments.map((a, position) => ({
             message_id: insertedMessage.id,
-            name,
-            type,
-            size: String(size),
-            storage_path: storagePath,
-          })
-
-        if (attachError) {
-          console.error('Failed to insert file attachment:', attachError)
-          return NextResponse.json(
-            { error: 'Failed to attach file' },
-            { status: 500 }
-          )
-        }
+            name: a.name,
+            type: a.type,
+            size: String(a.size),
+            storage_path: a.storagePath,
+            position,
+          }))
+        )
+
+      if (attachError) {
+        console.error('Failed to insert file attachments:', attachError)
+        return NextResponse.json(
+          { error: 'Failed to attach files' },
+          { status: 500 }
+        )
       }
     }
 
-    return NextResponse.json({ success: true })
+    await notifyNewMessage({
+      id: insertedMessage.id,
+      sender_id: profileId,
+      content: content.trim(),
+      channel_id: channelId ?? null,
+      chat_id: chatId ?? null,
+      mentions,
+      mention_broadcast,
+    })
+
+    // Link previews are fetched after responding so slow sites don't delay the send
+    after(() =>
+      refreshMessageUnfurls(insertedMessage.id, content.trim()).catch((err) =>
+        console.error('Failed to unfurl message links:', err)
+      )
+    )
+
+    // Return the stored message so clients can swap it in for their optimistic copy
+    const { data: stored } = await supabaseAdmin
+      .from('messages')
+      .select(MESSAGE_SELECT)
+      .eq('id', insertedMessage.id)
+      .single()
+
+    return NextResponse.json({
+      success: true,
+      id: insertedMessage.id,
+      message: stored ? normalizeMessage(stored) : null,
+    })
   } catch (err) {
     console.error('POST /api/messages error:', err)
     return NextResponse.json(
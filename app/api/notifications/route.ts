@@ -0,0 +1,277 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { decodeMessageCursor, encodeMessageCursor } from '@/lib/message-cursor'
+import type {
+  ApiNotification,
+  ApiNotificationPage,
+  MessageSender,
+  NotificationType,
+} from '@/lib/types'
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 50
+// Most notifications one PATCH can name
+const MAX_MARK_IDS = 100
+
+const NOTIFICATION_SELECT = `
+  id,
+  type,
+  title,
+  body,
+  channel_id,
+  chat_id,
+  event_id,
+  call_id,
+  read_at,
+  created_at,
+  actor:actor_id (
+    id,
+    name,
+    avatar_url
+  ),
+  message:message_id (
+    id,
+    created_at,
+    parent_message_id
+  )
+`
+
+interface NotificationRow {
+  id: string
+  type: NotificationType
+  title: string
+  body: string | null
+  channel_id: string | null
+  chat_id: string | null
+  event_id: string | null
+  call_id: string | null
+  read_at: string | null
+  created_at: string
+  actor: MessageSender | null
+  message: { id: string; created_at: string; parent_message_id: string | null } | null
+}
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+/** Thread parents of any replies among the rows, keyed by parent ID. */
+async function fetchAnchors(
+  rows: NotificationRow[]
+): Promise<Map<string, { id: string; created_at: string }>> {
+  const anchors = new Map<string, { id: string; created_at: string }>()
+  const parentIds = [
+    ...new Set(rows.map((r) => r.message?.parent_message_id).filter((id): id is string => !!id)),
+  ]
+  if (parentIds.length === 0) return anchors
+
+  const { data } = await supabaseAdmin
+    .from('messages')
+    .select('id, created_at')
+    .in('id', parentIds)
+
+  for (const parent of data ?? []) {
+    anchors.set(parent.id, parent)
+  }
+  return anchors
+}
+
+// GET /api/notifications?before=&limit=&unread= - The caller's notifications,
+// newest first, with their unread total
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const before = searchParams.get('before')
+    const limitParam = searchParams.get('limit')
+    const unreadOnly = searchParams.get('unread') === 'true'
+
+    const cursor = before ? decodeMessageCursor(before) : null
+    if (before && !cursor) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 })
+    }
+
+    let limit = DEFAULT_PAGE_SIZE
+    if (limitParam !== null) {
+      const parsed = Number(limitParam)
+      if (!Number.isInteger(parsed) || parsed < 1) {
+        return NextResponse.json(
+          { error: 'limit must be a positive integer' },
+          { status: 400 }
+        )
+      }
+      limit = Math.min(parsed, MAX_PAGE_SIZE)
+    }
+
+    let query = supabaseAdmin
+      .from('notifications')
+      .select(NOTIFICATION_SELECT)
+      .eq('user_id', profileId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      // Fetch one extra row to know whether another page exists
+      .limit(limit + 1)
+
+    if (unreadOnly) query = query.is('read_at', null)
+    if (cursor) {
+      query = query.or(
+        `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`
+      )
+    }
+
+    const [{ data, error }, { count, error: countError }] = await Promise.all([
+      query,
+      supabaseAdmin
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', profileId)
+        .is('read_at', null),
+    ])
+
+    if (error || countError) {
+      console.error('Failed to fetch notifications:', error ?? countError)
+      return NextResponse.json(
+        { error: 'Failed to fetch notifications' },
+        { status: 500 }
+      )
+    }
+
+    const rows = (data ?? []) as unknown as NotificationRow[]
+    const pageRows = rows.slice(0, limit)
+    const anchors = await fetchAnchors(pageRows)
+
+    const notifications: ApiNotification[] = pageRows.map((n) => {
+      const anchor = n.message
+        ? anchors.get(n.message.parent_message_id ?? n.message.id) ?? n.message
+        : null
+      return {
+        id: n.id,
+        type: n.type,
+        title: n.title,
+        body: n.body,
+        actor: n.actor,
+        channel_id: n.channel_id,
+        chat_id: n.chat_id,
+        event_id: n.event_id,
+        call_id: n.call_id,
+        focus:
+          n.message && anchor
+            ? {
+                messageId: n.message.id,
+                anchorId: anchor.id,
+                anchorCreatedAt: anchor.created_at,
+                parentMessageId: n.message.parent_message_id,
+              }
+            : null,
+        read_at: n.read_at,
+        created_at: n.created_at,
+      }
+    })
+
+    const last = pageRows[pageRows.length - 1]
+    const page: ApiNotificationPage = {
+      notifications,
+      nextCursor: rows.length > limit && last ? encodeMessageCursor(last) : null,
+      unreadCount: count ?? 0,
+    }
+
+    return NextResponse.json(page)
+  } catch (err) {
+    console.error('GET /api/notifications error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/notifications - Mark the caller's notifications read: the
+// listed `ids`, or `all` of them. `read: false` marks them unread again
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { ids, all, read = true } = body as { ids?: unknown; all?: unknown; read?: unknown }
+
+    if (typeof read !== 'boolean') {
+      return NextResponse.json(
+        { error: 'read must be a boolean' },
+        { status: 400 }
+      )
+    }
+
+    if (all !== true) {
+      if (
+        !Array.isArray(ids) ||
+        ids.length === 0 ||
+        ids.length > MAX_MARK_IDS ||
+        !ids.every((id) => typeof id === 'string')
+      ) {
+        return NextResponse.json(
+          { error: `Provide all: true or 1-${MAX_MARK_IDS} notification ids` },
+          { status: 400 }
+        )
+      }
+    }
+
+    let query = supabaseAdmin
+      .from('notifications')
+      .update({ read_at: read ? new Date().toISOString() : null })
+      .eq('user_id', profileId)
+
+    if (all === true) {
+      // Only touch the ones that change, so read times are kept
+      query = read ? query.is('read_at', null) : query.not('read_at', 'is', null)
+    } else {
+      query = query.in('id', ids as string[])
+    }
+
+    const { error } = await query
+
+    if (error) {
+      console.error('Failed to update notifications:', error)
+      return NextResponse.json(
+        { error: 'Failed to update notifications' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('PATCH /api/notifications error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
 import { supabaseAdmin } from '@/lib/supabase-server'
+import { resolvePresenceStatus, resolveStatusMessage } from '@/lib/presence'
 
-/** List profiles for participant selection (e.g. calendar events). Supports optional search. */
+/** List profiles for participant selection (e.g. calendar events) with their presence. Supports optional search. */
 export async function GET(request: NextRequest) {
   try {
     const { userId } = await auth()
@@ -15,7 +16,7 @@ export async function GET(request: NextRequest) {
 
     let query = supabaseAdmin
       .from('profiles')
-      .select('id, name, avatar_url')
+      .select('id, name, avatar_url, status, last_seen_at, manual_status, status_message, status_expires_at')
       .order('name', { ascending: true })
 
     if (q) {
@@ -36,6 +37,9 @@ export async function GET(request: NextRequest) {
       id: p.id,
       name: p.name ?? 'Unknown',
       avatar_url: p.avatar_url ?? null,
+      status: resolvePresenceStatus(p),
+      status_message: resolveStatusMessage(p),
+      last_seen_at: p.last_seen_at ?? null,
     }))
 
     return NextResponse.json(normalized)
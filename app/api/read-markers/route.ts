@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { canReadChannel, getChannelAccess } from '@/lib/channels'
+import { advanceReadMarker } from '@/lib/read-markers'
+import type { ReadMarkerState, ReadReceipt } from '@/lib/types'
+
+async function getProfileId(clerkUserId: string) {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .single()
+  return data?.id ?? null
+}
+
+/** Whether the profile can read the channel or chat. */
+async function canAccessConversation(
+  profileId: string,
+  channelId: string | null,
+  chatId: string | null
+): Promise<boolean> {
+  if (channelId) {
+    const access = await getChannelAccess(channelId, profileId)
+    return access !== null && canReadChannel(access)
+  }
+
+  const { data: participant } = await supabaseAdmin
+    .from('chat_participants')
+    .select('id')
+    .eq('chat_id', chatId)
+    .eq('user_id', profileId)
+    .maybeSingle()
+  return participant !== null
+}
+
+// GET /api/read-markers?channelId= | ?chatId= - The caller's read position, plus other participants' in chats
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const channelId = searchParams.get('channelId')
+    const chatId = searchParams.get('chatId')
+
+    if (!channelId === !chatId) {
+      return NextResponse.json(
+        { error: 'Provide either channelId or chatId' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      const empty: ReadMarkerState = { lastReadMessageId: null, lastReadAt: null, receipts: [] }
+      return NextResponse.json(empty)
+    }
+
+    if (!(await canAccessConversation(profileId, channelId, chatId))) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
+    let query = supabaseAdmin
+      .from('read_markers')
+      .select('user_id, last_read_message_id, last_read_at')
+      .eq(channelId ? 'channel_id' : 'chat_id', (channelId ?? chatId) as string)
+
+    // Channels can be large; receipts are only shown in chats
+    if (channelId) query = query.eq('user_id', profileId)
+
+    const { data: markers, error } = await query
+
+    if (error) {
+      console.error('Failed to fetch read markers:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch read markers' },
+        { status: 500 }
+      )
+    }
+
+    const own = (markers ?? []).find((m) => m.user_id === profileId)
+    const receipts: ReadReceipt[] = (markers ?? []).filter((m) => m.user_id !== profileId)
+
+    const state: ReadMarkerState = {
+      lastReadMessageId: own?.last_read_message_id ?? null,
+      lastReadAt: own?.last_read_at ?? null,
+      receipts,
+    }
+    return NextResponse.json(state)
+  } catch (err) {
+    console.error('GET /api/read-markers error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/read-markers - Mark a channel or chat as read up to messageId
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { channelId, chatId, messageId } = body
+
+    if (!channelId === !chatId) {
+      return NextResponse.json(
+        { error: 'Provide either channelId or chatId' },
+        { status: 400 }
+      )
+    }
+
+    if (!messageId || typeof messageId !== 'string') {
+      return NextResponse.json(
+        { error: 'messageId is required' },
+        { status: 400 }
+      )
+    }
+
+    const profileId = await getProfileId(userId)
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 403 }
+      )
+    }
+
+    const { data: message, error: fetchError } = await supabaseAdmin
+      .from('messages')
+      .select('id, created_at, channel_id, chat_id')
+      .eq('id', messageId)
+      .single()
+
+    if (fetchError || !message) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      )
+    }
+
+    if ((channelId ?? null) !== message.channel_id || (chatId ?? null) !== message.chat_id) {
+      return NextResponse.json(
+        { error: 'Message belongs to a different conversation' },
+        { status: 400 }
+      )
+    }
+
+    if (!(await canAccessConversation(profileId, channelId ?? null, chatId ?? null))) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
+    const ok = await advanceReadMarker(profileId, channelId ? { channelId } : { chatId }, message)
+    if (!ok) {
+      return NextResponse.json(
+        { error: 'Failed to update read marker' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('POST /api/read-markers error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,378 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { isEmptySearchQuery, parseSearchQuery } from '@/lib/search-query'
+import { getReadableChannelIds } from '@/lib/channels'
+import type {
+  EventSearchResult,
+  FileAttachment,
+  FileSearchResult,
+  MessageSearchResult,
+  MessageSender,
+  SearchLocation,
+  SearchResults,
+} from '@/lib/types'
+
+const RESULTS_PER_GROUP = 20
+
+interface MessageScope {
+  channelIds: string[]
+  chatIds: string[]
+}
+
+interface SearchMessageRow {
+  id: string
+  content: string
+  created_at: string
+  parent_message_id: string | null
+  channel_id: string | null
+  chat_id: string | null
+  sender: unknown
+}
+
+/** Strip characters that would break a PostgREST filter expression. */
+function sanitizeFilterValue(value: string): string {
+  return value.replace(/[,()*%\\"]/g, '').trim()
+}
+
+function normalizeSender(raw: unknown): MessageSender | null {
+  const sender = (Array.isArray(raw) ? raw[0] : raw) as MessageSender | null | undefined
+  return sender ?? null
+}
+
+/** PostgREST `or` expression restricting messages to the given channels/chats. */
+function scopeFilter(scope: MessageScope): string | null {
+  const parts: string[] = []
+  if (scope.channelIds.length > 0) parts.push(`channel_id.in.(${scope.channelIds.join(',')})`)
+  if (scope.chatIds.length > 0) parts.push(`chat_id.in.(${scope.chatIds.join(',')})`)
+  return parts.length > 0 ? parts.join(',') : null
+}
+
+/**
+ * Full-text search across messages, file attachment names and calendar event
+ * titles, limited to channels and chats the caller can access. See
+ * lib/search-query.ts for the supported `q` filter syntax.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = parseSearchQuery(searchParams.get('q') ?? '')
+
+    if (isEmptySearchQuery(query)) {
+      return NextResponse.json(
+        { error: 'q is required' },
+        { status: 400 }
+      )
+    }
+
+    const empty: SearchResults = { messages: [], files: [], events: [] }
+
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('id')
+      .eq('clerk_user_id', userId)
+      .single()
+
+    if (!profile) {
+      return NextResponse.json(empty)
+    }
+
+    // Accessible conversations: readable channels, plus chats the caller participates in
+    const readableChannelIds = await getReadableChannelIds(profile.id)
+    const [{ data: channels, error: channelsError }, { data: participations, error: partError }] =
+      await Promise.all([
+        supabaseAdmin.from('channels').select('id, name').in('id', readableChannelIds),
+        supabaseAdmin.from('chat_participants').select('chat_id').eq('user_id', profile.id),
+      ])
+
+    if (channelsError || partError) {
+      console.error('Failed to resolve searchable conversations:', channelsError ?? partError)
+      return NextResponse.json(
+        { error: 'Failed to search' },
+        { status: 500 }
+      )
+    }
+
+    const chatIds = (participations ?? []).map((p) => p.chat_id as string)
+    const { data: chats } = chatIds.length
+      ? await supabaseAdmin
+          .from('chats')
+          .select('id, name, is_group, profiles ( id, name )')
+          .in('id', chatIds)
+      : { data: [] }
+
+    const locationNames = new Map<string, string>()
+    for (const ch of channels ?? []) {
+      locationNames.set(ch.id, `#${ch.name}`)
+    }
+    for (const chat of chats ?? []) {
+      const members = (Array.isArray(chat.profiles) ? chat.profiles : []) as { id: string; name: string }[]
+      const other = members.find((m) => m.id !== profile.id)
+      locationNames.set(chat.id, chat.name ?? other?.name ?? 'Direct Message')
+    }
+
+    const location = (row: { channel_id: string | null; chat_id: string | null }): SearchLocation => ({
+      channel_id: row.channel_id,
+      chat_id: row.chat_id,
+      name: locationNames.get((row.channel_id ?? row.chat_id) as string) ?? 'Unknown',
+    })
+
+    // Narrow the scope with in:
+    let scope: MessageScope = {
+      channelIds: (channels ?? []).map((c) => c.id),
+      chatIds,
+    }
+
+    if (query.in) {
+      const target = query.in.toLowerCase()
+      const bare = target.replace(/^[#@]/, '')
+      const channel = target.startsWith('@')
+        ? undefined
+        : (channels ?? []).find((c) => c.name.toLowerCase() === bare)
+      const matchingChats = target.startsWith('#')
+        ? []
+        : (chats ?? []).filter((chat) => {
+            if (target.startsWith('@')) {
+              // @person targets the DM with that person
+              const members = (Array.isArray(chat.profiles) ? chat.profiles : []) as { id: string; name: string }[]
+              return !chat.is_group && members.some((m) => m.id !== profile.id && m.name.toLowerCase().includes(bare))
+            }
+            return (chat.name ?? '').toLowerCase() === bare
+          })
+
+      scope = channel
+        ? { channelIds: [channel.id], chatIds: [] }
+        : { channelIds: [], chatIds: matchingChats.map((c) => c.id) }
+    }
+
+    // Resolve from: to sender profile IDs
+    let senderIds: string[] | null = null
+    if (query.from) {
+      const term = sanitizeFilterValue(query.from)
+      const { data: senders } = term
+        ? await supabaseAdmin
+            .from('profiles')
+            .select('id')
+            .or(`name.ilike.%${term}%,email.ilike.%${term}%`)
+            .limit(50)
+        : { data: [] }
+      senderIds = (senders ?? []).map((s) => s.id)
+    }
+
+    const scopeExpr = scopeFilter(scope)
+    const canMatchMessages = scopeExpr !== null && (senderIds === null || senderIds.length > 0)
+
+    // Messages
+    let messages: MessageSearchResult[] = []
+    if (canMatchMessages) {
+      let messageQuery = supabaseAdmin
+        .from('messages')
+        .select(
+          `
+          id,
+          content,
+          created_at,
+          parent_message_id,
+          channel_id,
+          chat_id,
+          sender:profiles (
+            id,
+            name,
+            avatar_url
+          )${query.hasFile ? ', file_attachments!inner ( id )' : ''}
+        `
+        )
+        .or(scopeExpr)
+        .order('created_at', { ascending: false })
+        .limit(RESULTS_PER_GROUP)
+
+      if (query.text) {
+        messageQuery = messageQuery.textSearch('search_vector', query.text, {
+          type: 'websearch',
+          config: 'english',
+        })
+      }
+      if (senderIds) messageQuery = messageQuery.in('sender_id', senderIds)
+      if (query.startDate) messageQuery = messageQuery.gte('created_at', query.startDate)
+      if (query.endDate) messageQuery = messageQuery.lt('created_at', query.endDate)
+
+      const { data: messageRows, error: messagesError } = await messageQuery
+
+      if (messagesError) {
+        console.error('Failed to search messages:', messagesError)
+        return NextResponse.json(
+          { error: 'Failed to search' },
+          { status: 500 }
+        )
+      }
+
+      const rows = (messageRows ?? []) as unknown as SearchMessageRow[]
+      const anchors = await fetchAnchors(rows)
+      messages = rows.map((m) => {
+        const anchor = anchors.get(m.parent_message_id ?? m.id) ?? { id: m.id, created_at: m.created_at }
+        return {
+          id: m.id,
+          content: m.content,
+          created_at: m.created_at,
+          sender: normalizeSender(m.sender),
+          parent_message_id: m.parent_message_id,
+          anchor_id: anchor.id,
+          anchor_created_at: anchor.created_at,
+          location: location(m),
+        }
+      })
+    }
+
+    // File attachments (matched by name)
+    let files: FileSearchResult[] = []
+    if (canMatchMessages) {
+      let fileQuery = supabaseAdmin
+        .from('file_attachments')
+        .select(
+          `
+          id,
+          name,
+          type,
+          size,
+          messages!inner (
+            id,
+            created_at,
+            parent_message_id,
+            channel_id,
+            chat_id,
+            sender_id,
+            sender:profiles (
+              id,
+              name,
+              avatar_url
+            )
+          )
+        `
+        )
+        .or(scopeExpr, { referencedTable: 'messages' })
+        .limit(RESULTS_PER_GROUP)
+
+      if (query.text) {
+        fileQuery = fileQuery.textSearch('search_vector', query.text, {
+          type: 'websearch',
+          config: 'simple',
+        })
+      }
+      if (senderIds) fileQuery = fileQuery.in('messages.sender_id', senderIds)
+      if (query.startDate) fileQuery = fileQuery.gte('messages.created_at', query.startDate)
+      if (query.endDate) fileQuery = fileQuery.lt('messages.created_at', query.endDate)
+
+      const { data: fileRows, error: filesError } = await fileQuery
+
+      if (filesError) {
+        console.error('Failed to search files:', filesError)
+        return NextResponse.json(
+          { error: 'Failed to search' },
+          { status: 500 }
+        )
+      }
+
+      const rows = (fileRows ?? []).map((f) => ({
+        ...f,
+        message: (Array.isArray(f.messages) ? f.messages[0] : f.messages) as unknown as SearchMessageRow,
+      }))
+      const anchors = await fetchAnchors(rows.map((r) => r.message))
+      files = rows
+        .map((f) => {
+          const m = f.message
+          const anchor = anchors.get(m.parent_message_id ?? m.id) ?? { id: m.id, created_at: m.created_at }
+          return {
+            id: f.id,
+            name: f.name,
+            type: f.type as FileAttachment['type'],
+            size: f.size,
+            message_id: m.id,
+            created_at: m.created_at,
+            sender: normalizeSender(m.sender),
+            parent_message_id: m.parent_message_id,
+            anchor_id: anchor.id,
+            anchor_created_at: anchor.created_at,
+            location: location(m),
+          }
+        })
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    }
+
+    // Calendar events (not tied to a conversation, so in: and has:file exclude them)
+    let events: EventSearchResult[] = []
+    if (!query.in && !query.hasFile && (senderIds === null || senderIds.length > 0)) {
+      const { data: participantRows } = await supabaseAdmin
+        .from('event_participants')
+        .select('event_id')
+        .eq('user_id', profile.id)
+
+      const participantEventIds = (participantRows ?? []).map((r) => r.event_id)
+      const orConditions = [`created_by.eq.${profile.id}`]
+      if (participantEventIds.length > 0) {
+        orConditions.push(`id.in.(${participantEventIds.join(',')})`)
+      }
+
+      let eventQuery = supabaseAdmin
+        .from('calendar_events')
+        .select('id, title, event_date, start_time, end_time')
+        .or(orConditions.join(','))
+        .order('event_date', { ascending: false })
+        .limit(RESULTS_PER_GROUP)
+
+      if (query.text) {
+        eventQuery = eventQuery.textSearch('search_vector', query.text, {
+          type: 'websearch',
+          config: 'english',
+        })
+      }
+      if (senderIds) eventQuery = eventQuery.in('created_by', senderIds)
+      if (query.startDate) eventQuery = eventQuery.gte('event_date', query.startDate)
+      if (query.endDate) eventQuery = eventQuery.lt('event_date', query.endDate)
+
+      const { data: eventRows, error: eventsError } = await eventQuery
+
+      if (eventsError) {
+        console.error('Failed to search events:', eventsError)
+        return NextResponse.json(
+          { error: 'Failed to search' },
+          { status: 500 }
+        )
+      }
+
+      events = eventRows ?? []
+    }
+
+    const results: SearchResults = { messages, files, events }
+    return NextResponse.json(results)
+  } catch (err) {
+    console.error('GET /api/search error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/** Thread parents of any replies among the rows, keyed by parent ID. */
+async function fetchAnchors(
+  rows: { parent_message_id: string | null }[]
+): Promise<Map<string, { id: string; created_at: string }>> {
+  const anchors = new Map<string, { id: string; created_at: string }>()
+  const parentIds = [...new Set(rows.map((r) => r.parent_message_id).filter((id): id is string => !!id))]
+  if (parentIds.length === 0) return anchors
+
+  const { data } = await supabaseAdmin
+    .from('messages')
+    .select('id, created_at')
+    .in('id', parentIds)
+
+  for (const parent of data ?? []) {
+    anchors.set(parent.id, parent)
+  }
+  return anchors
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { normalizeUnfurlUrl, unfurlUrl } from '@/lib/unfurl'
+
+// GET /api/unfurl?url= - OpenGraph/oEmbed preview for a public http(s) link
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const url = request.nextUrl.searchParams.get('url')
+    if (!url) {
+      return NextResponse.json(
+        { error: 'url is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!normalizeUnfurlUrl(url)) {
+      return NextResponse.json(
+        { error: 'Only public http(s) links can be previewed' },
+        { status: 400 }
+      )
+    }
+
+    const unfurl = await unfurlUrl(url)
+    if (!unfurl) {
+      return NextResponse.json(
+        { error: 'No preview available' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(unfurl)
+  } catch (err) {
+    console.error('GET /api/unfurl error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
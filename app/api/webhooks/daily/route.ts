@@ -0,0 +1,231 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { answerCallRing, endCall } from '@/lib/calls'
+import { deleteDailyRoom, verifyDailyWebhookSignature } from '@/lib/daily'
+
+interface DailyWebhookEvent {
+  id?: string
+  type?: string
+  event_ts?: number
+  payload?: Record<string, unknown>
+}
+
+/** The call held in the given Daily room, or null for rooms we didn't create */
+async function getCallIdForRoom(roomName: unknown): Promise<string | null> {
+  if (typeof roomName !== 'string' || !roomName) return null
+  const { data } = await supabaseAdmin
+    .from('calls')
+    .select('id')
+    .eq('daily_room_name', roomName)
+    .maybeSingle()
+  return data?.id ?? null
+}
+
+// Daily user IDs come from our meeting tokens, which use profile IDs
+const PROFILE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function toIso(unixSeconds: unknown): string {
+  return typeof unixSeconds === 'number'
+    ? new Date(unixSeconds * 1000).toISOString()
+    : new Date().toISOString()
+}
+
+async function handleParticipantJoined(payload: Record<string, unknown>, eventTs: unknown) {
+  const callId = await getCallIdForRoom(payload.room)
+  const userId = payload.user_id
+  if (!callId || typeof userId !== 'string' || !PROFILE_ID_PATTERN.test(userId)) return
+
+  const joinedAt = toIso(payload.joined_at ?? eventTs)
+
+  // A join delivered after a later leave of the same person is stale
+  const { data: existing } = await supabaseAdmin
+    .from('call_participants')
+    .select('left_at')
+    .eq('call_id', callId)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (existing?.left_at && Date.parse(existing.left_at) > Date.parse(joinedAt)) return
+
+  const { error } = await supabaseAdmin
+    .from('call_participants')
+    .upsert(
+      { call_id: callId, user_id: userId, joined_at: joinedAt, left_at: null },
+      { onConflict: 'call_id,user_id' }
+    )
+  if (error) throw error
+
+  // Joining answers the ring, even from a device that never showed it
+  await answerCallRing(callId, userId, 'accepted')
+}
+
+async function handleParticipantLeft(payload: Record<string, unknown>, eventTs: unknown) {
+  const callId = await getCallIdForRoom(payload.room)
+  const userId = payload.user_id
+  if (!callId || typeof userId !== 'string' || !PROFILE_ID_PATTERN.test(userId)) return
+
+  const leftAt =
+    typeof payload.joined_at === 'number' && typeof payload.duration === 'number'
+      ? toIso(payload.joined_at + payload.duration)
+      : toIso(eventTs)
+
+  // Only close the session this leave belongs to, not a newer one
+  const { error } = await supabaseAdmin
+    .from('call_participants')
+    .update({ left_at: leftAt })
+    .eq('call_id', callId)
+    .eq('user_id', userId)
+    .is('left_at', null)
+    .lte('joined_at', leftAt)
+  if (error) throw error
+}
+
+async function handleMeetingEnded(payload: Record<string, unknown>, eventTs: unknown) {
+  const callId = await getCallIdForRoom(payload.room)
+  if (!callId) return
+
+  const ended = await endCall(callId, toIso(payload.end_ts ?? eventTs))
+  if (!ended) return
+
+  // Everyone is gone, so clean up the room the same way ending the call does
+  try {
+    await deleteDailyRoom(payload.room as string)
+  } catch (error) {
+    console.error('Failed to delete Daily room:', error)
+  }
+}
+
+async function handleRecordingStarted(payload: Record<string, unknown>) {
+  const callId = await getCallIdForRoom(payload.room_name)
+  if (!callId || typeof payload.recording_id !== 'string') return
+
+  // Events can arrive out of order; never move a finished recording back
+  const { error } = await supabaseAdmin
+    .from('call_recordings')
+    .upsert(
+      {
+        call_id: callId,
+        daily_recording_id: payload.recording_id,
+        status: 'recording',
+        started_at: toIso(payload.start_ts),
+      },
+      { onConflict: 'daily_recording_id', ignoreDuplicates: true }
+    )
+  if (error) throw error
+}
+
+async function handleRecordingReady(payload: Record<string, unknown>) {
+  const callId = await getCallIdForRoom(payload.room_name)
+  if (!callId || typeof payload.recording_id !== 'string') return
+
+  const { error } = await supabaseAdmin
+    .from('call_recordings')
+    .upsert(
+      {
+        call_id: callId,
+        daily_recording_id: payload.recording_id,
+        status: 'ready',
+        started_at: toIso(payload.start_ts),
+        duration_seconds: typeof payload.duration === 'number' ? Math.round(payload.duration) : null,
+        error: null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'daily_recording_id' }
+    )
+  if (error) throw error
+}
+
+async function handleRecordingError(payload: Record<string, unknown>) {
+  const callId = await getCallIdForRoom(payload.room_name)
+  if (!callId) return
+
+  const message = typeof payload.error_msg === 'string' ? payload.error_msg : 'Recording failed'
+  // Daily doesn't always say which recording failed; fail whatever is in progress
+  let query = supabaseAdmin
+    .from('call_recordings')
+    .update({ status: 'error', error: message, updated_at: new Date().toISOString() })
+    .eq('call_id', callId)
+    .eq('status', 'recording')
+  if (typeof payload.recording_id === 'string') {
+    query = query.eq('daily_recording_id', payload.recording_id)
+  }
+  const { error } = await query
+  if (error) throw error
+}
+
+async function applyEvent(event: DailyWebhookEvent) {
+  const payload = event.payload ?? {}
+  switch (event.type) {
+    case 'participant.joined':
+      return handleParticipantJoined(payload, event.event_ts)
+    case 'participant.left':
+      return handleParticipantLeft(payload, event.event_ts)
+    case 'meeting.ended':
+      return handleMeetingEnded(payload, event.event_ts)
+    case 'recording.started':
+      return handleRecordingStarted(payload)
+    case 'recording.ready-to-download':
+      return handleRecordingReady(payload)
+    case 'recording.error':
+      return handleRecordingError(payload)
+  }
+}
+
+// POST /api/webhooks/daily - Receive Daily webhook events and reconcile
+// calls, call_participants and call_recordings with what Daily saw, so calls
+// end even when a client never reports leaving. Requests are signed with
+// DAILY_WEBHOOK_SECRET and must be recent (see verifyDailyWebhookSignature).
+// Daily retries deliveries, so each event ID is claimed in
+// daily_webhook_events before it is applied and repeats are skipped; a
+// failed event releases its claim so the retry can apply it.
+export async function POST(request: NextRequest) {
+  const rawBody = await request.text()
+  const verified = verifyDailyWebhookSignature(
+    rawBody,
+    request.headers.get('x-webhook-timestamp'),
+    request.headers.get('x-webhook-signature')
+  )
+  if (!verified) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+  }
+
+  let event: DailyWebhookEvent
+  try {
+    event = JSON.parse(rawBody)
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+  }
+
+  try {
+    if (event.id) {
+      const { error: claimError } = await supabaseAdmin
+        .from('daily_webhook_events')
+        .insert({ id: event.id, type: event.type ?? 'unknown' })
+      // Another delivery of the same event already claimed it
+      if (claimError?.code === '23505') {
+        return NextResponse.json({ success: true, duplicate: true })
+      }
+      if (claimError) throw claimError
+    }
+
+    try {
+      await applyEvent(event)
+    } catch (err) {
+      if (event.id) {
+        const { error: releaseError } = await supabaseAdmin
+          .from('daily_webhook_events')
+          .delete()
+          .eq('id', event.id)
+        if (releaseError) console.error('Failed to release Daily webhook event:', releaseError)
+      }
+      throw err
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('POST /api/webhooks/daily error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
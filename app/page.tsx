@@ -3,23 +3,33 @@
 import { useState, useEffect, useCallback } from "react"
 import { useAuth } from "@clerk/nextjs"
 import { toast } from "sonner"
-import { AppSidebar, type View } from "@/components/app-sidebar"
+import { AppSidebar, type NewChannelInput, type NewGroupChatInput, type View } from "@/components/app-sidebar"
 import { TopHeader } from "@/components/top-header"
 import { ChannelView } from "@/components/channel-view"
 import { ChatView } from "@/components/chat-view"
 import { CalendarView } from "@/components/calendar-view"
+import { MentionsView } from "@/components/mentions-view"
 import { CallView } from "@/components/call-view"
+import { IncomingCallDialog } from "@/components/incoming-call-dialog"
+import { useUnreadCounts } from "@/hooks/use-unread-counts"
+import { usePresence } from "@/hooks/use-presence"
+import { useChatMembershipEvents } from "@/hooks/use-chat-membership-events"
+import type { CurrentUserProfile, ManualStatusInput, TimeZonePreferences } from "@/lib/types"
 
 interface Channel {
   id: string
   name: string
   description: string | null
+  isPrivate: boolean
+  unreadCount: number
+  mentionCount: number
 }
 
 interface ChatParticipant {
   id: string
   name: string
   avatar_url: string | null
+  last_seen_at?: string | null
 }
 
 interface Chat {
@@ -27,6 +37,8 @@ interface Chat {
   name: string
   isGroup: boolean
   participants: ChatParticipant[]
+  unreadCount: number
+  mentionCount: number
 }
 
 export default function Page() {
@@ -34,7 +46,14 @@ export default function Page() {
   const [activeView, setActiveView] = useState<View>({ type: "channel", id: "" })
   const [channels, setChannels] = useState<Channel[]>([])
   const [chats, setChats] = useState<Chat[]>([])
-  const [currentUserProfileId, setCurrentUserProfileId] = useState<string | null>(null)
+  const [currentUser, setCurrentUser] = useState<CurrentUserProfile | null>(null)
+  const currentUserProfileId = currentUser?.id ?? null
+  // Kept apart from currentUser so saving them doesn't reset presence
+  const [timeZonePreferences, setTimeZonePreferences] = useState<TimeZonePreferences>({
+    timeZone: null,
+    secondaryTimeZone: null,
+  })
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>([])
 
   const refreshChats = useCallback(async () => {
     try {
@@ -65,13 +84,110 @@ export default function Page() {
     [refreshChats]
   )
 
-  useEffect(() => {
-    fetch("/api/channels")
-      .then((r) => r.json())
-      .then((data) => setChannels(Array.isArray(data) ? data : []))
-      .catch(() => setChannels([]))
+  const onCreateGroupChat = useCallback(
+    async (input: NewGroupChatInput) => {
+      const res = await fetch("/api/chats", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      })
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}))
+        toast.error(err.error ?? "Failed to create group chat")
+        throw new Error(err.error ?? "Failed to create group chat")
+      }
+      const chat = await res.json()
+      await refreshChats()
+      setActiveView({ type: "chat", id: chat.id })
+    },
+    [refreshChats]
+  )
+
+  const onLeaveChat = useCallback(
+    async (chatId: string) => {
+      const res = await fetch(`/api/chats/${chatId}/leave`, { method: "POST" })
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}))
+        toast.error(err.error ?? "Failed to leave chat")
+        throw new Error(err.error ?? "Failed to leave chat")
+      }
+      await refreshChats()
+      // An empty channel view falls back to the first channel
+      setActiveView((current) =>
+        current.type === "chat" && current.id === chatId ? { type: "channel", id: "" } : current
+      )
+    },
+    [refreshChats]
+  )
+
+  const refreshChannels = useCallback(async () => {
+    try {
+      const r = await fetch("/api/channels")
+      const data = await r.json()
+      const list: Channel[] = Array.isArray(data) ? data : []
+      setChannels(list)
+      return list
+    } catch {
+      setChannels([])
+      return []
+    }
   }, [])
 
+  const onCreateChannel = useCallback(
+    async (input: NewChannelInput) => {
+      const res = await fetch("/api/channels", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      })
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}))
+        toast.error(err.error ?? "Failed to create channel")
+        throw new Error(err.error ?? "Failed to create channel")
+      }
+      const channel = await res.json()
+      await refreshChannels()
+      setActiveView({ type: "channel", id: channel.id })
+    },
+    [refreshChannels]
+  )
+
+  const onJoinChannel = useCallback(
+    async (channelId: string) => {
+      const res = await fetch(`/api/channels/${channelId}/join`, { method: "POST" })
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}))
+        toast.error(err.error ?? "Failed to join channel")
+        throw new Error(err.error ?? "Failed to join channel")
+      }
+      await refreshChannels()
+      setActiveView({ type: "channel", id: channelId })
+    },
+    [refreshChannels]
+  )
+
+  const onLeaveChannel = useCallback(
+    async (channelId: string) => {
+      const res = await fetch(`/api/channels/${channelId}/leave`, { method: "POST" })
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}))
+        toast.error(err.error ?? "Failed to leave channel")
+        throw new Error(err.error ?? "Failed to leave channel")
+      }
+      const remaining = await refreshChannels()
+      setActiveView((current) =>
+        current.type === "channel" && current.id === channelId
+          ? { type: "channel", id: remaining[0]?.id ?? "" }
+          : current
+      )
+    },
+    [refreshChannels]
+  )
+
+  useEffect(() => {
+    refreshChannels()
+  }, [refreshChannels])
+
   useEffect(() => {
     refreshChats()
   }, [refreshChats])
@@ -79,10 +195,92 @@ export default function Page() {
   useEffect(() => {
     fetch("/api/me")
       .then((r) => r.json())
-      .then((data) => setCurrentUserProfileId(data?.id ?? null))
-      .catch(() => setCurrentUserProfileId(null))
+      .then((data) => {
+        setCurrentUser(data?.id ? (data as CurrentUserProfile) : null)
+        if (data?.id) {
+          setTimeZonePreferences({
+            timeZone: data.time_zone ?? null,
+            secondaryTimeZone: data.secondary_time_zone ?? null,
+          })
+          setReminderOffsets(Array.isArray(data.reminder_offsets) ? data.reminder_offsets : [])
+        }
+      })
+      .catch(() => setCurrentUser(null))
+  }, [])
+
+  const { presence, myPresence, manualStatus, setManualStatus } = usePresence(currentUser)
+
+  const onSetManualStatus = useCallback(
+    async (input: ManualStatusInput) => {
+      try {
+        await setManualStatus(input)
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : "Failed to update status")
+        throw err
+      }
+    },
+    [setManualStatus]
+  )
+
+  const onChangeTimeZonePreferences = useCallback(async (input: TimeZonePreferences) => {
+    try {
+      const res = await fetch("/api/me/preferences", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error ?? "Failed to update time zones")
+      }
+      setTimeZonePreferences(input)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update time zones")
+      throw err
+    }
   }, [])
 
+  const onChangeReminderOffsets = useCallback(async (offsets: number[]) => {
+    try {
+      const res = await fetch("/api/me/preferences", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reminderOffsets: offsets }),
+      })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error ?? "Failed to update reminders")
+      }
+      setReminderOffsets(offsets)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update reminders")
+      throw err
+    }
+  }, [])
+
+  // Renames and membership changes in group chats, including being added or removed
+  useChatMembershipEvents({
+    chatIds: chats.map((c) => c.id),
+    currentUserProfileId,
+    onChange: (chatId, event) => {
+      refreshChats()
+      if (event.type === "removed" && currentUserProfileId && event.user_ids?.includes(currentUserProfileId)) {
+        const chat = chats.find((c) => c.id === chatId)
+        toast(`You were removed from ${chat?.name ?? "a group chat"}`)
+        setActiveView((current) =>
+          current.type === "chat" && current.id === chatId ? { type: "channel", id: "" } : current
+        )
+      }
+    },
+  })
+
+  const unreadCounts = useUnreadCounts({
+    channels,
+    chats,
+    activeId: activeView.type === "channel" || activeView.type === "chat" ? activeView.id : null,
+    currentUserProfileId,
+  })
+
   useEffect(() => {
     if (channels.length > 0 && activeView.type === "channel" && !activeView.id) {
       setActiveView({ type: "channel", id: channels[0].id })
@@ -105,25 +303,63 @@ export default function Page() {
         channels={channels}
         chats={chats}
         onStartDM={onStartDM}
+        onCreateGroupChat={onCreateGroupChat}
+        onLeaveChat={onLeaveChat}
+        onCreateChannel={onCreateChannel}
+        onJoinChannel={onJoinChannel}
+        onLeaveChannel={onLeaveChannel}
+        unreadCounts={unreadCounts}
         currentUserProfileId={currentUserProfileId}
+        presence={presence}
+        myPresence={myPresence}
+        manualStatus={manualStatus}
+        onSetManualStatus={onSetManualStatus}
       />
       <div className="flex flex-1 flex-col overflow-hidden">
-        <TopHeader activeView={activeView} channels={channels} chats={chats} currentUserProfileId={currentUserProfileId} />
+        <TopHeader
+          activeView={activeView}
+          channels={channels}
+          chats={chats}
+          currentUserProfileId={currentUserProfileId}
+          onNavigate={setActiveView}
+        />
         <main className="flex flex-1 overflow-hidden">
           {activeView.type === "channel" && activeView.id && (
-            <ChannelView channelId={activeView.id} currentUserProfileId={currentUserProfileId} />
+            <ChannelView channelId={activeView.id} currentUser={currentUser} focus={activeView.focus} />
           )}
           {activeView.type === "chat" && activeView.id && (
             <ChatView
               chatId={activeView.id}
               chat={chats.find((c) => c.id === activeView.id)}
               currentUserProfileId={currentUserProfileId}
+              focus={activeView.focus}
+              presence={presence}
+              onChatChanged={refreshChats}
+            />
+          )}
+          {activeView.type === "mentions" && (
+            <MentionsView currentUserProfileId={currentUserProfileId} onNavigate={setActiveView} />
+          )}
+          {activeView.type === "calendar" && (
+            <CalendarView
+              currentUserProfileId={currentUserProfileId}
+              onNavigate={setActiveView}
+              presence={presence}
+              timeZonePreferences={timeZonePreferences}
+              onChangeTimeZonePreferences={onChangeTimeZonePreferences}
+              reminderOffsets={reminderOffsets}
+              onChangeReminderOffsets={onChangeReminderOffsets}
             />
           )}
-          {activeView.type === "calendar" && <CalendarView currentUserProfileId={currentUserProfileId} onNavigate={setActiveView} />}
-          {activeView.type === "call" && <CallView callId={activeView.callId} />}
+          {activeView.type === "call" && (
+            <CallView key={activeView.callId} callId={activeView.callId} presence={presence} />
+          )}
         </main>
       </div>
+      <IncomingCallDialog
+        currentUserProfileId={currentUserProfileId}
+        onAccept={(callId) => setActiveView({ type: "call", callId })}
+      />
     </div>
   )
 }
@@ -1,21 +1,52 @@
 "use client"
 
 import { useState, useEffect, useCallback } from "react"
-import { Hash, Calendar, Video, Users, ChevronDown, Circle, LogOut, Plus, Loader2 } from "lucide-react"
+import {
+  AtSign,
+  Hash,
+  Calendar,
+  Check,
+  Video,
+  Users,
+  ChevronDown,
+  Circle,
+  LogOut,
+  Plus,
+  Loader2,
+  Lock,
+  MoreHorizontal,
+  Search,
+  SmilePlus,
+  X,
+} from "lucide-react"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
 import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import {
   Command,
   CommandEmpty,
@@ -25,10 +56,20 @@ import {
 } from "@/components/ui/command"
 import { useClerk, useUser } from "@clerk/nextjs"
 import { cn } from "@/lib/utils"
+import { STATUS_MESSAGE_MAX_LENGTH } from "@/lib/presence"
+import type {
+  ApiChannel,
+  ManualStatusInput,
+  MessageFocus,
+  PresenceStatus,
+  UserPresence,
+} from "@/lib/types"
+import type { UnreadCount } from "@/hooks/use-unread-counts"
 
 export type View =
-  | { type: "channel"; id: string }
-  | { type: "chat"; id: string }
+  | { type: "channel"; id: string; focus?: MessageFocus }
+  | { type: "chat"; id: string; focus?: MessageFocus }
+  | { type: "mentions" }
   | { type: "calendar" }
   | { type: "call"; callId?: string }
 
@@ -36,6 +77,18 @@ interface Channel {
   id: string
   name: string
   description?: string | null
+  isPrivate?: boolean
+}
+
+export interface NewChannelInput {
+  name: string
+  description: string
+  isPrivate: boolean
+}
+
+export interface NewGroupChatInput {
+  name: string
+  userIds: string[]
 }
 
 interface ChatParticipant {
@@ -63,7 +116,20 @@ interface AppSidebarProps {
   channels: Channel[]
   chats: Chat[]
   onStartDM?: (targetUserId: string) => Promise<void>
+  onCreateGroupChat?: (input: NewGroupChatInput) => Promise<void>
+  onLeaveChat?: (chatId: string) => Promise<void>
+  onCreateChannel?: (input: NewChannelInput) => Promise<void>
+  onJoinChannel?: (channelId: string) => Promise<void>
+  onLeaveChannel?: (channelId: string) => Promise<void>
+  /** Unread and mention counts keyed by channel/chat ID */
+  unreadCounts?: Record<string, UnreadCount>
   currentUserProfileId?: string | null
+  /** Live presence keyed by profile ID, from usePresence */
+  presence?: Record<string, UserPresence>
+  /** The user's own status as others see it */
+  myPresence?: UserPresence
+  manualStatus?: ManualStatusInput
+  onSetManualStatus?: (input: ManualStatusInput) => Promise<void>
 }
 
 const statusColor: Record<string, string> = {
@@ -72,6 +138,33 @@ const statusColor: Record<string, string> = {
   offline: "text-sidebar-foreground/30",
 }
 
+const statusLabel: Record<PresenceStatus, string> = {
+  online: "Online",
+  away: "Away",
+  offline: "Appear offline",
+}
+
+// Minutes until the manual status clears; "today" clears at local midnight
+const STATUS_EXPIRY_OPTIONS = [
+  { value: "never", label: "Don't clear" },
+  { value: "30", label: "30 minutes" },
+  { value: "60", label: "1 hour" },
+  { value: "240", label: "4 hours" },
+  { value: "today", label: "Today" },
+] as const
+
+type StatusExpiry = (typeof STATUS_EXPIRY_OPTIONS)[number]["value"]
+
+function statusExpiryToDate(expiry: StatusExpiry): string | null {
+  if (expiry === "never") return null
+  if (expiry === "today") {
+    const midnight = new Date()
+    midnight.setHours(24, 0, 0, 0)
+    return midnight.toISOString()
+  }
+  return new Date(Date.now() + Number(expiry) * 60 * 1000).toISOString()
+}
+
 function getInitials(name: string): string {
   return name
     .split(" ")
@@ -81,18 +174,45 @@ function getInitials(name: string): string {
     .slice(0, 2)
 }
 
+function UnreadBadge({ count }: { count: number }) {
+  if (count <= 0) return null
+  return (
+    <span className="ml-auto flex h-4 min-w-4 shrink-0 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold leading-none text-white">
+      {count > 99 ? "99+" : count}
+    </span>
+  )
+}
+
 interface NewDMDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   onStartDM: (targetUserId: string) => Promise<void>
+  /** Enables picking several people and naming a group chat */
+  onCreateGroupChat?: (input: NewGroupChatInput) => Promise<void>
   currentUserProfileId?: string | null
+  presence: Record<string, UserPresence>
 }
 
-function NewDMDialog({ open, onOpenChange, onStartDM, currentUserProfileId }: NewDMDialogProps) {
+// Besides the creator
+const MIN_GROUP_CHAT_PEOPLE = 2
+
+function NewDMDialog({
+  open,
+  onOpenChange,
+  onStartDM,
+  onCreateGroupChat,
+  currentUserProfileId,
+  presence,
+}: NewDMDialogProps) {
   const [search, setSearch] = useState("")
   const [profiles, setProfiles] = useState<Profile[]>([])
   const [loading, setLoading] = useState(false)
   const [starting, setStarting] = useState<string | null>(null)
+  // Group mode: pick several people, then name the chat
+  const [groupMode, setGroupMode] = useState(false)
+  const [selected, setSelected] = useState<Profile[]>([])
+  const [groupName, setGroupName] = useState("")
+  const [creating, setCreating] = useState(false)
 
   const fetchProfiles = useCallback(async (q?: string) => {
     const url = q
@@ -108,6 +228,9 @@ function NewDMDialog({ open, onOpenChange, onStartDM, currentUserProfileId }: Ne
   useEffect(() => {
     if (open) {
       setSearch("")
+      setGroupMode(false)
+      setSelected([])
+      setGroupName("")
       fetchProfiles()
     }
   }, [open, fetchProfiles])
@@ -135,13 +258,70 @@ function NewDMDialog({ open, onOpenChange, onStartDM, currentUserProfileId }: Ne
     }
   }
 
+  function toggleSelected(profile: Profile) {
+    setSelected((prev) =>
+      prev.some((p) => p.id === profile.id) ? prev.filter((p) => p.id !== profile.id) : [...prev, profile]
+    )
+  }
+
+  async function handleCreateGroup() {
+    if (!onCreateGroupChat || !groupName.trim() || selected.length < MIN_GROUP_CHAT_PEOPLE) return
+    setCreating(true)
+    try {
+      await onCreateGroupChat({ name: groupName.trim(), userIds: selected.map((p) => p.id) })
+      onOpenChange(false)
+    } catch {
+      // The caller reports the error; keep the selection so it can be retried
+    } finally {
+      setCreating(false)
+    }
+  }
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="gap-0 p-0 sm:max-w-md">
         <DialogHeader className="px-6 pt-6 pb-4">
-          <DialogTitle>New direct message</DialogTitle>
+          <DialogTitle>{groupMode ? "New group chat" : "New direct message"}</DialogTitle>
+          {groupMode && (
+            <DialogDescription>
+              Pick at least {MIN_GROUP_CHAT_PEOPLE} people and give the group a name.
+            </DialogDescription>
+          )}
         </DialogHeader>
         <div className="flex flex-col border-t px-6 pb-6">
+          {groupMode && (
+            <div className="flex flex-col gap-2 pt-4">
+              <Label htmlFor="group-chat-name">Name</Label>
+              <Input
+                id="group-chat-name"
+                placeholder="e.g. Launch crew"
+                value={groupName}
+                onChange={(e) => setGroupName(e.target.value)}
+                maxLength={80}
+                autoFocus
+              />
+              {selected.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {selected.map((p) => (
+                    <span
+                      key={p.id}
+                      className="flex items-center gap-1 rounded-full bg-secondary py-0.5 pl-2 pr-1 text-xs text-secondary-foreground"
+                    >
+                      {p.name}
+                      <button
+                        type="button"
+                        onClick={() => toggleSelected(p)}
+                        className="rounded-full p-0.5 hover:bg-muted"
+                        aria-label={`Remove ${p.name}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
           <div className="flex items-center gap-2 border-b px-1 pb-2">
             <Input
               placeholder="Search by name or email…"
@@ -162,37 +342,406 @@ function NewDMDialog({ open, onOpenChange, onStartDM, currentUserProfileId }: Ne
                 )}
               </CommandEmpty>
               <CommandGroup>
-                {filteredProfiles.map((p) => (
-                  <CommandItem
-                    key={p.id}
-                    value={p.id}
-                    onSelect={() => handleSelectUser(p.id)}
-                    disabled={!!starting}
-                  >
-                    <Avatar className="h-6 w-6 shrink-0">
-                      <AvatarFallback className="bg-sidebar-accent text-sidebar-accent-foreground text-[10px]">
-                        {getInitials(p.name)}
-                      </AvatarFallback>
-                    </Avatar>
-                    <span className="ml-2 truncate">{p.name}</span>
-                    {starting === p.id && (
-                      <Loader2 className="ml-auto h-4 w-4 animate-spin text-muted-foreground" />
-                    )}
-                  </CommandItem>
-                ))}
+                {filteredProfiles.map((p) => {
+                  const isSelected = selected.some((s) => s.id === p.id)
+                  return (
+                    <CommandItem
+                      key={p.id}
+                      value={p.id}
+                      onSelect={() => (groupMode ? toggleSelected(p) : handleSelectUser(p.id))}
+                      disabled={!!starting || creating}
+                    >
+                      <div className="relative shrink-0">
+                        <Avatar className="h-6 w-6">
+                          <AvatarFallback className="bg-sidebar-accent text-sidebar-accent-foreground text-[10px]">
+                            {getInitials(p.name)}
+                          </AvatarFallback>
+                        </Avatar>
+                        <Circle
+                          className={cn(
+                            "absolute -bottom-0.5 -right-0.5 h-2.5 w-2.5 fill-current",
+                            statusColor[presence[p.id]?.status ?? "offline"]
+                          )}
+                        />
+                      </div>
+                      <span className="ml-2 truncate">{p.name}</span>
+                      {presence[p.id]?.statusMessage && (
+                        <span className="ml-1 truncate text-xs text-muted-foreground">{presence[p.id]?.statusMessage}</span>
+                      )}
+                      {starting === p.id && (
+                        <Loader2 className="ml-auto h-4 w-4 animate-spin text-muted-foreground" />
+                      )}
+                      {groupMode && isSelected && <Check className="ml-auto h-4 w-4 text-primary" />}
+                    </CommandItem>
+                  )
+                })}
               </CommandGroup>
             </CommandList>
           </Command>
+          {onCreateGroupChat &&
+            (groupMode ? (
+              <div className="mt-4 flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setGroupMode(false)} disabled={creating}>
+                  Back
+                </Button>
+                <Button
+                  onClick={handleCreateGroup}
+                  disabled={creating || !groupName.trim() || selected.length < MIN_GROUP_CHAT_PEOPLE}
+                >
+                  {creating ? "Creating..." : "Create group"}
+                </Button>
+              </div>
+            ) : (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mt-3 self-start text-xs"
+                onClick={() => setGroupMode(true)}
+                disabled={!!starting}
+              >
+                <Users className="mr-1.5 h-3.5 w-3.5" />
+                Create a group chat instead
+              </Button>
+            ))}
         </div>
       </DialogContent>
     </Dialog>
   )
 }
 
-export function AppSidebar({ activeView, onNavigate, channels, chats, onStartDM, currentUserProfileId }: AppSidebarProps) {
+interface BrowseChannelsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onJoinChannel: (channelId: string) => Promise<void>
+  onOpenChannel: (channelId: string) => void
+}
+
+function BrowseChannelsDialog({ open, onOpenChange, onJoinChannel, onOpenChannel }: BrowseChannelsDialogProps) {
+  const [search, setSearch] = useState("")
+  const [channels, setChannels] = useState<ApiChannel[]>([])
+  const [loading, setLoading] = useState(false)
+  const [joining, setJoining] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setSearch("")
+    setLoading(true)
+    fetch("/api/channels?scope=browse")
+      .then((r) => r.json())
+      .then((data) => setChannels(Array.isArray(data) ? data : []))
+      .catch(() => setChannels([]))
+      .finally(() => setLoading(false))
+  }, [open])
+
+  const term = search.trim().toLowerCase()
+  const filteredChannels = term
+    ? channels.filter(
+        (ch) => ch.name.includes(term) || (ch.description ?? "").toLowerCase().includes(term)
+      )
+    : channels
+
+  async function handleJoin(channelId: string) {
+    setJoining(channelId)
+    try {
+      await onJoinChannel(channelId)
+      onOpenChange(false)
+    } finally {
+      setJoining(null)
+    }
+  }
+
+  function handleOpen(channelId: string) {
+    onOpenChannel(channelId)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="gap-0 p-0 sm:max-w-md">
+        <DialogHeader className="px-6 pt-6 pb-4">
+          <DialogTitle>Browse channels</DialogTitle>
+        </DialogHeader>
+        <div className="flex flex-col border-t px-6 pb-6">
+          <div className="flex items-center gap-2 border-b px-1 pb-2">
+            <Search className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <Input
+              placeholder="Search channels…"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="h-10 border-0 bg-transparent px-0 shadow-none focus-visible:ring-0"
+            />
+          </div>
+          <div className="mt-2 max-h-[320px] overflow-y-auto rounded-lg border">
+            {loading ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : filteredChannels.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">No channels found.</p>
+            ) : (
+              filteredChannels.map((ch) => (
+                <div key={ch.id} className="flex items-center gap-3 border-b px-3 py-2 last:border-b-0">
+                  {ch.isPrivate ? (
+                    <Lock className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  ) : (
+                    <Hash className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  )}
+                  <div className="flex min-w-0 flex-1 flex-col">
+                    <span className="truncate text-sm font-medium">{ch.name}</span>
+                    <span className="truncate text-xs text-muted-foreground">
+                      {ch.memberCount === 1 ? "1 member" : `${ch.memberCount} members`}
+                      {ch.description ? ` · ${ch.description}` : ""}
+                    </span>
+                  </div>
+                  {ch.role ? (
+                    <Button size="sm" variant="outline" onClick={() => handleOpen(ch.id)}>
+                      Open
+                    </Button>
+                  ) : (
+                    <Button size="sm" onClick={() => handleJoin(ch.id)} disabled={!!joining}>
+                      {joining === ch.id ? <Loader2 className="h-4 w-4 animate-spin" /> : "Join"}
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface CreateChannelDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onCreateChannel: (input: NewChannelInput) => Promise<void>
+}
+
+function CreateChannelDialog({ open, onOpenChange, onCreateChannel }: CreateChannelDialogProps) {
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+  const [isPrivate, setIsPrivate] = useState(false)
+  const [creating, setCreating] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setName("")
+      setDescription("")
+      setIsPrivate(false)
+    }
+  }, [open])
+
+  async function handleCreate() {
+    if (!name.trim()) return
+    setCreating(true)
+    try {
+      await onCreateChannel({ name: name.trim(), description: description.trim(), isPrivate })
+      onOpenChange(false)
+    } catch {
+      // The caller reports the error; keep the dialog open so the name can be fixed
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Create a channel</DialogTitle>
+          <DialogDescription>
+            Channels are where your team communicates. Names are lowercase, without spaces.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="flex flex-col gap-4"
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleCreate()
+          }}
+        >
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="channel-name">Name</Label>
+            <Input
+              id="channel-name"
+              placeholder="e.g. project-launch"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={80}
+              autoFocus
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="channel-description">Description (optional)</Label>
+            <Input
+              id="channel-description"
+              placeholder="What is this channel about?"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex flex-col gap-0.5">
+              <Label htmlFor="channel-private">Make private</Label>
+              <span className="text-xs text-muted-foreground">
+                Only invited members can find and read a private channel.
+              </span>
+            </div>
+            <Switch id="channel-private" checked={isPrivate} onCheckedChange={setIsPrivate} />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={creating}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={creating || !name.trim()}>
+              {creating ? "Creating..." : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface StatusDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  manualStatus: ManualStatusInput
+  onSetManualStatus: (input: ManualStatusInput) => Promise<void>
+}
+
+function StatusDialog({ open, onOpenChange, manualStatus, onSetManualStatus }: StatusDialogProps) {
+  const [message, setMessage] = useState("")
+  const [status, setStatus] = useState<PresenceStatus | "auto">("auto")
+  const [expiry, setExpiry] = useState<StatusExpiry>("never")
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setMessage(manualStatus.statusMessage ?? "")
+      setStatus(manualStatus.manualStatus ?? "auto")
+      setExpiry("never")
+    }
+  }, [open, manualStatus])
+
+  async function handleSave() {
+    const statusMessage = message.trim() || null
+    const manual = status === "auto" ? null : status
+    setSaving(true)
+    try {
+      await onSetManualStatus({
+        manualStatus: manual,
+        statusMessage,
+        expiresAt: manual || statusMessage ? statusExpiryToDate(expiry) : null,
+      })
+      onOpenChange(false)
+    } catch {
+      // The caller reports the error; keep the dialog open to retry
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Set a status</DialogTitle>
+          <DialogDescription>
+            Let your team know what you&apos;re up to. Automatic switches to away when you&apos;re idle.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="flex flex-col gap-4"
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleSave()
+          }}
+        >
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="status-message">Status message</Label>
+            <Input
+              id="status-message"
+              placeholder="e.g. In a meeting"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              maxLength={STATUS_MESSAGE_MAX_LENGTH}
+              autoFocus
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="flex flex-col gap-2">
+              <Label>Show me as</Label>
+              <Select value={status} onValueChange={(v) => setStatus(v as PresenceStatus | "auto")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Automatic</SelectItem>
+                  {(Object.keys(statusLabel) as PresenceStatus[]).map((s) => (
+                    <SelectItem key={s} value={s}>
+                      {statusLabel[s]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label>Clear after</Label>
+              <Select value={expiry} onValueChange={(v) => setExpiry(v as StatusExpiry)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STATUS_EXPIRY_OPTIONS.map((o) => (
+                    <SelectItem key={o.value} value={o.value}>
+                      {o.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function AppSidebar({
+  activeView,
+  onNavigate,
+  channels,
+  chats,
+  onStartDM,
+  onCreateGroupChat,
+  onLeaveChat,
+  onCreateChannel,
+  onJoinChannel,
+  onLeaveChannel,
+  unreadCounts = {},
+  currentUserProfileId,
+  presence = {},
+  myPresence,
+  manualStatus,
+  onSetManualStatus,
+}: AppSidebarProps) {
   const { user } = useUser()
   const { signOut } = useClerk()
+  const [statusDialogOpen, setStatusDialogOpen] = useState(false)
+  const myStatus = myPresence?.status ?? "online"
   const [newDMOpen, setNewDMOpen] = useState(false)
+  const [browseChannelsOpen, setBrowseChannelsOpen] = useState(false)
+  const [createChannelOpen, setCreateChannelOpen] = useState(false)
 
   return (
     <aside className="flex h-full w-64 shrink-0 flex-col bg-sidebar text-sidebar-foreground">
@@ -210,32 +759,100 @@ export function AppSidebar({ activeView, onNavigate, channels, chats, onStartDM,
       <div className="flex flex-1 flex-col overflow-y-auto px-2 py-3">
         {/* Channels */}
         <div className="mb-1">
-          <div className="flex items-center gap-1 px-2 py-1.5">
-            <ChevronDown className="h-3 w-3 text-sidebar-foreground/50" />
-            <span className="text-[11px] font-semibold uppercase tracking-wider text-sidebar-foreground/50">
-              Channels
-            </span>
+          <div className="flex items-center justify-between gap-1 px-2 py-1.5">
+            <div className="flex items-center gap-1">
+              <ChevronDown className="h-3 w-3 text-sidebar-foreground/50" />
+              <span className="text-[11px] font-semibold uppercase tracking-wider text-sidebar-foreground/50">
+                Channels
+              </span>
+            </div>
+            {(onJoinChannel || onCreateChannel) && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button
+                    type="button"
+                    className="rounded p-0.5 text-sidebar-foreground/50 hover:bg-sidebar-accent/50 hover:text-sidebar-accent-foreground"
+                    aria-label="Add channels"
+                  >
+                    <Plus className="h-3.5 w-3.5" />
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  {onJoinChannel && (
+                    <DropdownMenuItem onClick={() => setBrowseChannelsOpen(true)}>
+                      <Search className="mr-2 h-4 w-4" />
+                      Browse channels
+                    </DropdownMenuItem>
+                  )}
+                  {onCreateChannel && (
+                    <DropdownMenuItem onClick={() => setCreateChannelOpen(true)}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Create channel
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
           </div>
           <nav className="flex flex-col gap-0.5">
             {channels.map((ch) => {
               const isActive = activeView.type === "channel" && activeView.id === ch.id
+              const unread = unreadCounts[ch.id]
+              const hasUnread = !isActive && (unread?.unreadCount ?? 0) > 0
               return (
-                <button
-                  key={ch.id}
-                  type="button"
-                  onClick={() => onNavigate({ type: "channel", id: ch.id })}
-                  className={cn(
-                    "flex items-center gap-2 rounded-md px-2 py-1.5 text-sm transition-colors",
-                    isActive
-                      ? "bg-sidebar-accent text-sidebar-accent-foreground"
-                      : "text-sidebar-foreground hover:bg-sidebar-accent/50 hover:text-sidebar-accent-foreground"
+                <div key={ch.id} className="group relative">
+                  <button
+                    type="button"
+                    onClick={() => onNavigate({ type: "channel", id: ch.id })}
+                    className={cn(
+                      "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-sm transition-colors",
+                      isActive
+                        ? "bg-sidebar-accent text-sidebar-accent-foreground"
+                        : "text-sidebar-foreground hover:bg-sidebar-accent/50 hover:text-sidebar-accent-foreground"
+                    )}
+                  >
+                    {ch.isPrivate ? (
+                      <Lock className="h-4 w-4 shrink-0 opacity-60" />
+                    ) : (
+                      <Hash className="h-4 w-4 shrink-0 opacity-60" />
+                    )}
+                    <span className={cn("truncate", hasUnread && "font-semibold text-sidebar-accent-foreground")}>
+                      {ch.name}
+                    </span>
+                    {/* Channels only badge mentions; other unread messages just bold the name */}
+                    {!isActive && <UnreadBadge count={unread?.mentionCount ?? 0} />}
+                  </button>
+                  {onLeaveChannel && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <button
+                          type="button"
+                          className="absolute right-1 top-1/2 -translate-y-1/2 rounded p-0.5 text-sidebar-foreground/50 opacity-0 hover:text-sidebar-accent-foreground group-hover:opacity-100 data-[state=open]:opacity-100"
+                          aria-label={`Options for ${ch.name}`}
+                        >
+                          <MoreHorizontal className="h-3.5 w-3.5" />
+                        </button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="start">
+                        <DropdownMenuItem onClick={() => onLeaveChannel(ch.id).catch(() => {})}>
+                          <LogOut className="mr-2 h-4 w-4" />
+                          Leave channel
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   )}
-                >
-                  <Hash className="h-4 w-4 shrink-0 opacity-60" />
-                  <span className="truncate">{ch.name}</span>
-                </button>
+                </div>
               )
             })}
+            {channels.length === 0 && onJoinChannel && (
+              <button
+                type="button"
+                onClick={() => setBrowseChannelsOpen(true)}
+                className="rounded-md px-2 py-1.5 text-left text-sm text-sidebar-foreground/60 hover:bg-sidebar-accent/50 hover:text-sidebar-accent-foreground"
+              >
+                Browse channels
+              </button>
+            )}
           </nav>
         </div>
 
@@ -267,37 +884,61 @@ export function AppSidebar({ activeView, onNavigate, channels, chats, onStartDM,
                 : undefined
               const displayName =
                 chat.name ?? (otherParticipant?.name ?? "Direct Message")
+              const unreadCount = isActive ? 0 : unreadCounts[chat.id]?.unreadCount ?? 0
               return (
-                <button
-                  key={chat.id}
-                  type="button"
-                  onClick={() => onNavigate({ type: "chat", id: chat.id })}
-                  className={cn(
-                    "flex items-center gap-2 rounded-md px-2 py-1.5 text-sm transition-colors",
-                    isActive
-                      ? "bg-sidebar-accent text-sidebar-accent-foreground"
-                      : "text-sidebar-foreground hover:bg-sidebar-accent/50 hover:text-sidebar-accent-foreground"
-                  )}
-                >
-                  {chat.isGroup ? (
-                    <Users className="h-4 w-4 shrink-0 opacity-60" />
-                  ) : (
-                    <div className="relative">
-                      <Avatar className="h-5 w-5 text-[9px]">
-                        <AvatarFallback className="bg-sidebar-accent text-sidebar-accent-foreground text-[9px]">
-                          {otherParticipant ? getInitials(otherParticipant.name) : "??"}
-                        </AvatarFallback>
-                      </Avatar>
-                      <Circle
-                        className={cn(
-                          "absolute -bottom-0.5 -right-0.5 h-2.5 w-2.5 fill-current",
-                          statusColor.offline
-                        )}
-                      />
-                    </div>
+                <div key={chat.id} className="group relative">
+                  <button
+                    type="button"
+                    onClick={() => onNavigate({ type: "chat", id: chat.id })}
+                    className={cn(
+                      "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-sm transition-colors",
+                      isActive
+                        ? "bg-sidebar-accent text-sidebar-accent-foreground"
+                        : "text-sidebar-foreground hover:bg-sidebar-accent/50 hover:text-sidebar-accent-foreground"
+                    )}
+                  >
+                    {chat.isGroup ? (
+                      <Users className="h-4 w-4 shrink-0 opacity-60" />
+                    ) : (
+                      <div className="relative">
+                        <Avatar className="h-5 w-5 text-[9px]">
+                          <AvatarFallback className="bg-sidebar-accent text-sidebar-accent-foreground text-[9px]">
+                            {otherParticipant ? getInitials(otherParticipant.name) : "??"}
+                          </AvatarFallback>
+                        </Avatar>
+                        <Circle
+                          className={cn(
+                            "absolute -bottom-0.5 -right-0.5 h-2.5 w-2.5 fill-current",
+                            statusColor[(otherParticipant && presence[otherParticipant.id]?.status) || "offline"]
+                          )}
+                        />
+                      </div>
+                    )}
+                    <span className={cn("truncate", unreadCount > 0 && "font-semibold text-sidebar-accent-foreground")}>
+                      {displayName}
+                    </span>
+                    <UnreadBadge count={unreadCount} />
+                  </button>
+                  {chat.isGroup && onLeaveChat && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <button
+                          type="button"
+                          className="absolute right-1 top-1/2 -translate-y-1/2 rounded p-0.5 text-sidebar-foreground/50 opacity-0 hover:text-sidebar-accent-foreground group-hover:opacity-100 data-[state=open]:opacity-100"
+                          aria-label={`Options for ${displayName}`}
+                        >
+                          <MoreHorizontal className="h-3.5 w-3.5" />
+                        </button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="start">
+                        <DropdownMenuItem onClick={() => onLeaveChat(chat.id).catch(() => {})}>
+                          <LogOut className="mr-2 h-4 w-4" />
+                          Leave group
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   )}
-                  <span className="truncate">{displayName}</span>
-                </button>
+                </div>
               )
             })}
           </nav>
@@ -312,6 +953,19 @@ export function AppSidebar({ activeView, onNavigate, channels, chats, onStartDM,
             </span>
           </div>
           <nav className="flex flex-col gap-0.5">
+            <button
+              type="button"
+              onClick={() => onNavigate({ type: "mentions" })}
+              className={cn(
+                "flex items-center gap-2 rounded-md px-2 py-1.5 text-sm transition-colors",
+                activeView.type === "mentions"
+                  ? "bg-sidebar-accent text-sidebar-accent-foreground"
+                  : "text-sidebar-foreground hover:bg-sidebar-accent/50 hover:text-sidebar-accent-foreground"
+              )}
+            >
+              <AtSign className="h-4 w-4 shrink-0 opacity-60" />
+              <span>Mentions</span>
+            </button>
             <button
               type="button"
               onClick={() => onNavigate({ type: "calendar" })}
@@ -356,15 +1010,48 @@ export function AppSidebar({ activeView, onNavigate, channels, chats, onStartDM,
                   {user ? getInitials((`${user.firstName ?? ""} ${user.lastName ?? ""}`.trim() || user.username || "U")) : "U"}
                 </AvatarFallback>
               </Avatar>
-              <Circle className={cn("absolute -bottom-0.5 -right-0.5 h-3 w-3 fill-current", statusColor.online)} />
+              <Circle className={cn("absolute -bottom-0.5 -right-0.5 h-3 w-3 fill-current", statusColor[myStatus])} />
             </div>
             <div className="flex min-w-0 flex-col gap-0.5">
               <span className="text-sm font-medium text-sidebar-accent-foreground truncate">{user?.fullName ?? "User"}</span>
-              <span className="text-[11px] text-sidebar-foreground/60 truncate">{user?.primaryEmailAddress?.emailAddress ?? ""}</span>
+              <span className="text-[11px] text-sidebar-foreground/60 truncate">
+                {myPresence?.statusMessage ?? user?.primaryEmailAddress?.emailAddress ?? ""}
+              </span>
             </div>
           </button>
         </DropdownMenuTrigger>
         <DropdownMenuContent align="start" side="top" className="w-56">
+          {onSetManualStatus && manualStatus && (
+            <>
+              <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Status</DropdownMenuLabel>
+              {(Object.keys(statusLabel) as PresenceStatus[]).map((s) => (
+                <DropdownMenuItem
+                  key={s}
+                  onClick={() =>
+                    onSetManualStatus({ ...manualStatus, manualStatus: s }).catch(() => {})
+                  }
+                >
+                  <Circle className={cn("mr-2 h-3 w-3 fill-current", statusColor[s])} />
+                  {statusLabel[s]}
+                  {manualStatus.manualStatus === s && <span className="ml-auto text-xs text-muted-foreground">Set</span>}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuItem onClick={() => setStatusDialogOpen(true)}>
+                <SmilePlus className="mr-2 h-4 w-4" />
+                {manualStatus.statusMessage ? "Edit status…" : "Set a status…"}
+              </DropdownMenuItem>
+              {(manualStatus.manualStatus || manualStatus.statusMessage) && (
+                <DropdownMenuItem
+                  onClick={() =>
+                    onSetManualStatus({ manualStatus: null, statusMessage: null, expiresAt: null }).catch(() => {})
+                  }
+                >
+                  Clear status
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuSeparator />
+            </>
+          )}
           <DropdownMenuItem onClick={() => signOut({ redirectUrl: "/sign-in" })}>
             <LogOut className="mr-2 h-4 w-4" />
             Sign out
@@ -373,12 +1060,37 @@ export function AppSidebar({ activeView, onNavigate, channels, chats, onStartDM,
       </DropdownMenu>
       </div>
 
+      {onJoinChannel && (
+        <BrowseChannelsDialog
+          open={browseChannelsOpen}
+          onOpenChange={setBrowseChannelsOpen}
+          onJoinChannel={onJoinChannel}
+          onOpenChannel={(id) => onNavigate({ type: "channel", id })}
+        />
+      )}
+      {onCreateChannel && (
+        <CreateChannelDialog
+          open={createChannelOpen}
+          onOpenChange={setCreateChannelOpen}
+          onCreateChannel={onCreateChannel}
+        />
+      )}
       {onStartDM && (
         <NewDMDialog
           open={newDMOpen}
           onOpenChange={setNewDMOpen}
           onStartDM={onStartDM}
+          onCreateGroupChat={onCreateGroupChat}
           currentUserProfileId={currentUserProfileId}
+          presence={presence}
+        />
+      )}
+      {onSetManualStatus && manualStatus && (
+        <StatusDialog
+          open={statusDialogOpen}
+          onOpenChange={setStatusDialogOpen}
+          manualStatus={manualStatus}
+          onSetManualStatus={onSetManualStatus}
         />
       )}
     </aside>
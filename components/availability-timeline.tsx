@@ -0,0 +1,251 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2, Sparkles } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { addDays, isDateString } from "@/lib/recurrence"
+import { isWithinWorkingHours } from "@/lib/free-busy"
+import { eventInstants, isTimeString, toZonedParts, zonedTimeToUtc } from "@/lib/time-zones"
+import type { FreeBusyEntry, SuggestedTime } from "@/lib/types"
+
+const SLOT_MINUTES = 30
+// Days ahead of the picked date that suggestions look at
+const SUGGEST_DAYS = 7
+const AXIS_HOURS = [0, 6, 12, 18]
+
+interface Attendee {
+  id: string
+  name: string
+}
+
+interface AvailabilityTimelineProps {
+  attendees: Attendee[]
+  /** The proposed time, as entered in the event form */
+  date: string
+  startTime: string
+  endTime: string
+  timeZone: string
+  /** Event being rescheduled, so it doesn't show as a conflict with itself */
+  excludeEventId?: string | null
+  onPickSlot: (slot: { date: string; startTime: string; endTime: string }) => void
+}
+
+function durationMinutes(startTime: string, endTime: string): number {
+  const [sh, sm] = startTime.split(":").map(Number)
+  const [eh, em] = endTime.split(":").map(Number)
+  const minutes = eh * 60 + em - (sh * 60 + sm)
+  // An end before the start is on the next day
+  return minutes > 0 ? minutes : minutes + 24 * 60
+}
+
+/**
+ * Attendee availability for the event form: one row per attendee over the
+ * event's day, with busy blocks, their off-hours and the proposed time, plus
+ * suggested slots where everyone is free.
+ */
+export function AvailabilityTimeline({
+  attendees,
+  date,
+  startTime,
+  endTime,
+  timeZone,
+  excludeEventId,
+  onPickSlot,
+}: AvailabilityTimelineProps) {
+  const [entries, setEntries] = useState<FreeBusyEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [suggestions, setSuggestions] = useState<SuggestedTime[] | null>(null)
+  const [isSuggesting, setIsSuggesting] = useState(false)
+  const validDate = isDateString(date)
+  const dayStart = validDate ? zonedTimeToUtc(date, "00:00", timeZone).getTime() : 0
+  const dayEnd = validDate ? zonedTimeToUtc(addDays(date, 1), "00:00", timeZone).getTime() : 0
+  const attendeeKey = attendees.map((a) => a.id).join(",")
+
+  useEffect(() => {
+    if (!validDate || !attendeeKey) {
+      setEntries([])
+      return
+    }
+    let cancelled = false
+    setLoading(true)
+    const params = new URLSearchParams({
+      userIds: attendeeKey,
+      start: new Date(dayStart).toISOString(),
+      end: new Date(dayEnd).toISOString(),
+    })
+    if (excludeEventId) params.set("excludeEventId", excludeEventId)
+
+    fetch(`/api/calendar/freebusy?${params}`)
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data) => {
+        if (!cancelled) setEntries(Array.isArray(data) ? data : [])
+      })
+      .catch(() => {
+        if (!cancelled) setEntries([])
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [attendeeKey, validDate, dayStart, dayEnd, excludeEventId])
+
+  // Suggestions are for the attendees and length they were asked for
+  useEffect(() => {
+    setSuggestions(null)
+  }, [attendeeKey, startTime, endTime])
+
+  async function suggest() {
+    if (!validDate || !isTimeString(startTime) || !isTimeString(endTime) || startTime === endTime) return
+    setIsSuggesting(true)
+    try {
+      const params = new URLSearchParams({
+        userIds: attendeeKey,
+        start: new Date(dayStart).toISOString(),
+        end: zonedTimeToUtc(addDays(date, SUGGEST_DAYS), "00:00", timeZone).toISOString(),
+        duration: String(durationMinutes(startTime, endTime)),
+      })
+      if (excludeEventId) params.set("excludeEventId", excludeEventId)
+      const res = await fetch(`/api/calendar/suggest-times?${params}`)
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error ?? "Failed to suggest times")
+        return
+      }
+      setSuggestions(Array.isArray(data) ? data : [])
+    } catch {
+      toast.error("Failed to suggest times")
+    } finally {
+      setIsSuggesting(false)
+    }
+  }
+
+  if (!validDate || attendees.length === 0) return null
+
+  const span = dayEnd - dayStart
+  const position = (instant: number) => Math.min(Math.max((instant - dayStart) / span, 0), 1) * 100
+  const proposed =
+    isTimeString(startTime) && isTimeString(endTime) && startTime !== endTime
+      ? eventInstants(date, startTime, endTime, timeZone)
+      : null
+  const proposedStart = proposed ? new Date(proposed.starts_at).getTime() : 0
+  const proposedEnd = proposed ? new Date(proposed.ends_at).getTime() : 0
+  const slotCount = Math.round(span / (SLOT_MINUTES * 60 * 1000))
+
+  return (
+    <div className="flex flex-col gap-2 rounded-lg border border-border p-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1.5 text-sm font-medium text-card-foreground">
+          Availability
+          {loading && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+        </span>
+        <Button type="button" variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={suggest} disabled={isSuggesting || !proposed}>
+          {isSuggesting ? <Loader2 className="h-3 w-3 animate-spin" /> : <Sparkles className="h-3 w-3" />}
+          Suggest times
+        </Button>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <div className="relative ml-20 h-3 text-[9px] text-muted-foreground">
+          {AXIS_HOURS.map((h) => (
+            <span key={h} className="absolute -translate-x-1/2" style={{ left: `${(h / 24) * 100}%` }}>
+              {h === 0 ? "12a" : h === 12 ? "12p" : h > 12 ? `${h - 12}p` : `${h}a`}
+            </span>
+          ))}
+        </div>
+        {attendees.map((attendee) => {
+          const entry = entries.find((e) => e.user_id === attendee.id)
+          const conflict =
+            !!proposed &&
+            !!entry?.busy.some((b) => new Date(b.start).getTime() < proposedEnd && new Date(b.end).getTime() > proposedStart)
+          return (
+            <div key={attendee.id} className="flex items-center gap-2">
+              <span
+                className={cn("w-[72px] shrink-0 truncate text-right text-[11px]", conflict ? "text-destructive" : "text-muted-foreground")}
+                title={conflict ? `${attendee.name} is busy then` : attendee.name}
+              >
+                {attendee.name}
+              </span>
+              <div className="relative h-4 flex-1 overflow-hidden rounded-sm bg-emerald-500/10">
+                {/* Outside the attendee's working hours, in their own zone */}
+                {entry &&
+                  Array.from({ length: slotCount }, (_, i) => {
+                    const from = dayStart + i * SLOT_MINUTES * 60 * 1000
+                    const to = from + SLOT_MINUTES * 60 * 1000
+                    if (isWithinWorkingHours(new Date(from), new Date(to), entry.time_zone)) return null
+                    return (
+                      <div
+                        key={i}
+                        className="absolute inset-y-0 bg-muted"
+                        style={{ left: `${position(from)}%`, width: `${position(to) - position(from)}%` }}
+                      />
+                    )
+                  })}
+                {entry?.busy.map((b) => (
+                  <div
+                    key={b.start}
+                    className="absolute inset-y-0 bg-destructive/60"
+                    style={{
+                      left: `${position(new Date(b.start).getTime())}%`,
+                      width: `${position(new Date(b.end).getTime()) - position(new Date(b.start).getTime())}%`,
+                    }}
+                    title={`Busy ${toZonedParts(b.start, timeZone).time} - ${toZonedParts(b.end, timeZone).time}`}
+                  />
+                ))}
+                {proposed && (
+                  <div
+                    className="absolute inset-y-0 border-x-2 border-primary bg-primary/20"
+                    style={{ left: `${position(proposedStart)}%`, width: `${position(proposedEnd) - position(proposedStart)}%` }}
+                  />
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {suggestions && (
+        <div className="flex flex-col gap-1">
+          {suggestions.length === 0 && (
+            <p className="text-xs text-muted-foreground">No open slots in the next {SUGGEST_DAYS} days.</p>
+          )}
+          {suggestions.map((s) => {
+            const start = toZonedParts(s.start, timeZone)
+            const end = toZonedParts(s.end, timeZone)
+            const day = new Date(`${start.date}T00:00:00Z`).toLocaleDateString(undefined, {
+              weekday: "short",
+              month: "numeric",
+              day: "numeric",
+              timeZone: "UTC",
+            })
+            const note =
+              s.busy_ids.length > 0
+                ? `${s.busy_ids.length} busy`
+                : s.outside_hours_ids.length > 0
+                  ? `${s.outside_hours_ids.length} outside working hours`
+                  : "Everyone free"
+            return (
+              <button
+                key={s.start}
+                type="button"
+                className="flex items-center justify-between rounded-md px-2 py-1 text-left text-xs hover:bg-muted"
+                onClick={() => onPickSlot({ date: start.date, startTime: start.time, endTime: end.time })}
+              >
+                <span className="text-card-foreground">
+                  {day} · {start.time} - {end.time}
+                </span>
+                <span className={cn("text-[11px]", s.busy_ids.length > 0 ? "text-destructive" : "text-muted-foreground")}>
+                  {note}
+                </span>
+              </button>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+"use client"
+
+import { Repeat, Video } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import type { EventSegment } from "@/lib/calendar-layout"
+import type { RsvpResponse } from "@/lib/types"
+
+export interface AgendaViewEvent {
+  id: string
+  title: string
+  description?: string | null
+  color: string | null
+  call_id?: string | null
+  series_id?: string | null
+  occurrence_date?: string | null
+  participants?: { id: string; response: RsvpResponse }[]
+}
+
+interface CalendarAgendaViewProps<T extends AgendaViewEvent> {
+  dates: string[]
+  today: string
+  segments: Map<string, EventSegment<T>[]>
+  currentUserProfileId?: string | null
+  onOpenEvent: (event: T) => void
+  /** Load the next stretch of days */
+  onLoadMore: () => void
+}
+
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`
+}
+
+function formatDayHeading(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  })
+}
+
+/** Upcoming events as a list grouped by day, skipping empty days */
+export function CalendarAgendaView<T extends AgendaViewEvent>({
+  dates,
+  today,
+  segments,
+  currentUserProfileId,
+  onOpenEvent,
+  onLoadMore,
+}: CalendarAgendaViewProps<T>) {
+  const days = dates
+    .map((date) => ({ date, segments: [...(segments.get(date) ?? [])].sort((a, b) => a.top - b.top) }))
+    .filter((d) => d.segments.length > 0)
+
+  return (
+    <div className="flex flex-1 flex-col overflow-auto">
+      {days.length === 0 && (
+        <p className="px-6 py-10 text-center text-sm text-muted-foreground">No meetings in this period.</p>
+      )}
+      {days.map(({ date, segments: daySegments }) => (
+        <section key={date} className="border-b border-border">
+          <h3
+            className={cn(
+              "sticky top-0 bg-card px-4 py-2 text-xs font-semibold text-muted-foreground",
+              date === today && "text-primary"
+            )}
+          >
+            {date === today ? "Today · " : ""}
+            {formatDayHeading(date)}
+          </h3>
+          {daySegments.map(({ event: ev, top, bottom, continuesBefore, continuesAfter }) => {
+            const declinedByMe = ev.participants?.find((p) => p.id === currentUserProfileId)?.response === "declined"
+            const allDay = continuesBefore && continuesAfter
+            return (
+              <button
+                key={`${ev.id}:${ev.occurrence_date ?? ""}`}
+                type="button"
+                className={cn(
+                  "flex w-full items-start gap-3 px-4 py-2 text-left hover:bg-muted/50",
+                  declinedByMe && "opacity-40"
+                )}
+                onClick={() => onOpenEvent(ev)}
+              >
+                <span className="w-24 shrink-0 pt-0.5 text-xs text-muted-foreground">
+                  {allDay
+                    ? "All day"
+                    : `${continuesBefore ? "…" : formatMinutes(top)} - ${continuesAfter ? "…" : formatMinutes(bottom)}`}
+                </span>
+                <span className={cn("mt-1.5 h-2 w-2 shrink-0 rounded-full", ev.color || "bg-primary")} />
+                <span className="flex min-w-0 flex-col">
+                  <span className={cn("flex items-center gap-1 text-sm text-card-foreground", declinedByMe && "line-through")}>
+                    {ev.call_id && <Video className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />}
+                    {ev.series_id && <Repeat className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />}
+                    <span className="truncate">{ev.title}</span>
+                  </span>
+                  {ev.description && <span className="truncate text-xs text-muted-foreground">{ev.description}</span>}
+                </span>
+              </button>
+            )
+          })}
+        </section>
+      ))}
+      <div className="flex justify-center p-4">
+        <Button variant="outline" size="sm" className="bg-transparent" onClick={onLoadMore}>
+          Show more
+        </Button>
+      </div>
+    </div>
+  )
+}
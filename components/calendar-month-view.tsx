@@ -0,0 +1,116 @@
+"use client"
+
+import { Repeat, Video } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { EventSegment } from "@/lib/calendar-layout"
+import type { RsvpResponse } from "@/lib/types"
+
+// Events listed per day before collapsing into "+N more"
+const MAX_EVENTS_PER_DAY = 3
+
+const WEEKDAY_NAMES = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"]
+
+export interface MonthViewEvent {
+  id: string
+  title: string
+  color: string | null
+  call_id?: string | null
+  series_id?: string | null
+  occurrence_date?: string | null
+  participants?: { id: string; response: RsvpResponse }[]
+}
+
+interface CalendarMonthViewProps<T extends MonthViewEvent> {
+  /** Whole weeks covering the month, Monday first */
+  dates: string[]
+  /** YYYY-MM of the month shown; other dates are dimmed */
+  month: string
+  today: string
+  segments: Map<string, EventSegment<T>[]>
+  currentUserProfileId?: string | null
+  onOpenEvent: (event: T) => void
+  onSelectDate: (date: string) => void
+}
+
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`
+}
+
+/** Month grid: each day lists its first events by start time, linking to the day view */
+export function CalendarMonthView<T extends MonthViewEvent>({
+  dates,
+  month,
+  today,
+  segments,
+  currentUserProfileId,
+  onOpenEvent,
+  onSelectDate,
+}: CalendarMonthViewProps<T>) {
+  return (
+    <div className="flex flex-1 flex-col overflow-auto">
+      <div className="grid shrink-0 grid-cols-7 border-b border-border bg-card">
+        {WEEKDAY_NAMES.map((name) => (
+          <div key={name} className="py-2 text-center text-[11px] uppercase text-muted-foreground">
+            {name}
+          </div>
+        ))}
+      </div>
+      <div className="grid flex-1 auto-rows-fr grid-cols-7">
+        {dates.map((date) => {
+          const daySegments = [...(segments.get(date) ?? [])].sort((a, b) => a.top - b.top)
+          const hidden = daySegments.length - MAX_EVENTS_PER_DAY
+          return (
+            <div
+              key={date}
+              className={cn(
+                "flex min-h-24 flex-col gap-0.5 border-b border-r border-border p-1 [&:nth-child(7n)]:border-r-0",
+                !date.startsWith(month) && "bg-muted/30"
+              )}
+            >
+              <button
+                type="button"
+                className={cn(
+                  "flex h-6 w-6 items-center justify-center self-end rounded-full text-xs hover:bg-muted",
+                  date === today && "bg-primary text-primary-foreground hover:bg-primary/90",
+                  !date.startsWith(month) && date !== today && "text-muted-foreground"
+                )}
+                onClick={() => onSelectDate(date)}
+              >
+                {Number(date.slice(8, 10))}
+              </button>
+              {daySegments.slice(0, hidden > 0 ? MAX_EVENTS_PER_DAY - 1 : MAX_EVENTS_PER_DAY).map(({ event: ev, top, continuesBefore }) => {
+                const declinedByMe = ev.participants?.find((p) => p.id === currentUserProfileId)?.response === "declined"
+                return (
+                  <button
+                    key={`${ev.id}:${ev.occurrence_date ?? ""}`}
+                    type="button"
+                    className={cn(
+                      "flex items-center gap-1 rounded px-1 py-0.5 text-left text-[11px] hover:bg-muted",
+                      declinedByMe && "opacity-40 line-through"
+                    )}
+                    onClick={() => onOpenEvent(ev)}
+                  >
+                    <span className={cn("h-2 w-2 shrink-0 rounded-full", ev.color || "bg-primary")} />
+                    {!continuesBefore && <span className="shrink-0 text-muted-foreground">{formatMinutes(top)}</span>}
+                    {ev.call_id && <Video className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                    {ev.series_id && <Repeat className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                    <span className="truncate text-card-foreground">{ev.title}</span>
+                  </button>
+                )
+              })}
+              {hidden > 0 && (
+                <button
+                  type="button"
+                  className="rounded px-1 text-left text-[11px] text-muted-foreground hover:bg-muted"
+                  onClick={() => onSelectDate(date)}
+                >
+                  +{hidden + 1} more
+                </button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
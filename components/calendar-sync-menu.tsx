@@ -0,0 +1,187 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { CalendarSync, Copy, Download, Link, Loader2, RefreshCw, Upload } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+interface CalendarSyncMenuProps {
+  /** Called after an import adds events, to refresh the calendar */
+  onImported?: () => void
+}
+
+async function requestFeedUrl(method: "GET" | "POST"): Promise<string> {
+  const res = await fetch("/api/me/calendar-feed", { method })
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok || !data.url) throw new Error(data.error ?? "Failed to load calendar feed")
+  return data.url
+}
+
+/**
+ * Calendar header menu for using the calendar from other clients: subscribe
+ * to the private .ics feed, download it once, or import an .ics file.
+ */
+export function CalendarSyncMenu({ onImported }: CalendarSyncMenuProps) {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null)
+  const [subscribeOpen, setSubscribeOpen] = useState(false)
+  const [isResetting, setIsResetting] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  async function openSubscribe() {
+    setSubscribeOpen(true)
+    if (feedUrl) return
+    try {
+      setFeedUrl(await requestFeedUrl("GET"))
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load calendar feed")
+      setSubscribeOpen(false)
+    }
+  }
+
+  async function download() {
+    try {
+      const url = feedUrl ?? (await requestFeedUrl("GET"))
+      setFeedUrl(url)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = "devcollab.ics"
+      link.click()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to export calendar")
+    }
+  }
+
+  async function copyUrl() {
+    if (!feedUrl) return
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      toast.success("Feed URL copied")
+    } catch {
+      toast.error("Failed to copy feed URL")
+    }
+  }
+
+  async function resetUrl() {
+    setIsResetting(true)
+    try {
+      setFeedUrl(await requestFeedUrl("POST"))
+      toast.success("Feed URL reset. Update it in your other calendar apps.")
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to reset calendar feed")
+    } finally {
+      setIsResetting(false)
+    }
+  }
+
+  async function importFile(file: File) {
+    setIsImporting(true)
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      const res = await fetch("/api/calendar/import", { method: "POST", body: formData })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error ?? "Failed to import calendar")
+        return
+      }
+      const notes: string[] = []
+      if (data.skipped > 0) notes.push(`${data.skipped} already imported`)
+      if (data.unsupportedRecurrence > 0) {
+        notes.push(`${data.unsupportedRecurrence} with unsupported repeats imported once`)
+      }
+      if (data.unmatchedAttendees?.length > 0) {
+        notes.push(`${data.unmatchedAttendees.length} attendees not on DevCollab`)
+      }
+      toast.success(`Imported ${data.imported} event${data.imported === 1 ? "" : "s"}`, {
+        description: notes.length > 0 ? notes.join(" · ") : undefined,
+      })
+      if (data.imported > 0) onImported?.()
+    } catch {
+      toast.error("Failed to import calendar")
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-1.5 bg-transparent" disabled={isImporting}>
+            {isImporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <CalendarSync className="h-4 w-4" />}
+            Sync
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={openSubscribe}>
+            <Link className="mr-2 h-4 w-4" />
+            Subscribe from another app…
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={download}>
+            <Download className="mr-2 h-4 w-4" />
+            Export .ics
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import .ics…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".ics,text/calendar"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          e.target.value = ""
+          if (file) importFile(file)
+        }}
+      />
+
+      <Dialog open={subscribeOpen} onOpenChange={setSubscribeOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Subscribe to your calendar</DialogTitle>
+            <DialogDescription>
+              Add this URL to Google Calendar, Outlook or Apple Calendar to see your meetings there. Anyone with
+              the link can see your meetings, so keep it private.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={feedUrl ?? "Loading…"} onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+            <Button variant="outline" size="icon" className="shrink-0" onClick={copyUrl} disabled={!feedUrl}>
+              <Copy className="h-4 w-4" />
+              <span className="sr-only">Copy feed URL</span>
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" className="gap-1.5" onClick={resetUrl} disabled={!feedUrl || isResetting}>
+              {isResetting ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              Reset link
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
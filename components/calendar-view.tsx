@@ -1,10 +1,10 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useRef, type PointerEvent as ReactPointerEvent } from "react"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { z } from "zod"
-import { Plus, ChevronLeft, ChevronRight, Clock, X, Loader2, AlertCircle, Check, ChevronsUpDown, Trash2, Search, Video } from "lucide-react"
+import { Plus, ChevronLeft, ChevronRight, Clock, X, Loader2, AlertCircle, Check, ChevronsUpDown, Trash2, Search, Video, Circle, Repeat, Globe, HelpCircle, CalendarDays } from "lucide-react"
 import { toast } from "sonner"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -49,11 +49,71 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
-import { getWeekDays } from "@/lib/mock-data"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { Calendar } from "@/components/ui/calendar"
+import { RecurrenceEditor } from "@/components/recurrence-editor"
+import { CalendarSyncMenu } from "@/components/calendar-sync-menu"
+import { TimeZoneSelect } from "@/components/time-zone-select"
+import { AvailabilityTimeline } from "@/components/availability-timeline"
+import { CalendarMonthView } from "@/components/calendar-month-view"
+import { CalendarAgendaView } from "@/components/calendar-agenda-view"
 import { cn } from "@/lib/utils"
+import {
+  AGENDA_PAGE_DAYS,
+  DAY_MINUTES,
+  layoutColumns,
+  segmentsByDay,
+  shiftAnchor,
+  visibleDates,
+  type CalendarViewMode,
+} from "@/lib/calendar-layout"
+import { addDays, daysBetween } from "@/lib/recurrence"
+import {
+  formatTimeZoneAbbreviation,
+  formatTimeZoneCity,
+  getBrowserTimeZone,
+  toZonedParts,
+  zonedTimeToUtc,
+} from "@/lib/time-zones"
 import type { View } from "@/components/app-sidebar"
+import type { RecurrenceScope, RsvpResponse, TimeZonePreferences, UserPresence } from "@/lib/types"
+
+const hours = Array.from({ length: 24 }, (_, i) => i)
 
-const hours = Array.from({ length: 11 }, (_, i) => i + 8) // 8 AM to 6 PM
+const HOUR_HEIGHT = 64
+// The grid opens scrolled to the working day
+const SCROLL_TO_HOUR = 8
+// Dragging snaps to this many minutes
+const SNAP_MINUTES = 15
+
+// Reminder offsets offered in the calendar settings, in minutes
+const REMINDER_OPTIONS = [
+  { minutes: 0, label: "At start" },
+  { minutes: 5, label: "5 min" },
+  { minutes: 10, label: "10 min" },
+  { minutes: 15, label: "15 min" },
+  { minutes: 30, label: "30 min" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 1440, label: "1 day" },
+]
+const MAX_REMINDERS = 5
+
+const VIEW_OPTIONS: { value: CalendarViewMode; label: string }[] = [
+  { value: "day", label: "Day" },
+  { value: "week", label: "Week" },
+  { value: "month", label: "Month" },
+  { value: "agenda", label: "Agenda" },
+]
+
+interface EventParticipant {
+  id: string
+  name: string
+  avatar_url: string | null
+  response: RsvpResponse
+  response_comment?: string | null
+  optional?: boolean
+}
 
 interface CalendarEvent {
   id: string
@@ -62,15 +122,47 @@ interface CalendarEvent {
   event_date: string
   start_time: string
   end_time: string
+  time_zone: string
+  starts_at: string
+  ends_at: string
   color: string | null
   created_by: string | null
-  participants?: { id: string; name: string; avatar_url: string | null }[]
+  participants?: EventParticipant[]
   call_id?: string | null
   call?: {
     id: string
     daily_room_url: string
     status: string
   } | null
+  recurrence_rule?: string | null
+  series_id?: string | null
+  occurrence_date?: string | null
+}
+
+// The occurrence being edited when the event belongs to a recurring series
+interface EditingOccurrence {
+  date: string
+  // The series' rule when the form opened, to tell whether it was changed
+  rule: string | null
+}
+
+const SCOPE_OPTIONS: { value: RecurrenceScope; label: string }[] = [
+  { value: "this", label: "This event" },
+  { value: "following", label: "This and following events" },
+  { value: "all", label: "All events" },
+]
+
+const RSVP_OPTIONS: { value: RsvpResponse; label: string }[] = [
+  { value: "accepted", label: "Yes" },
+  { value: "tentative", label: "Maybe" },
+  { value: "declined", label: "No" },
+]
+
+const responseLabel: Record<RsvpResponse, string> = {
+  "needs-action": "Awaiting response",
+  accepted: "Going",
+  tentative: "Maybe",
+  declined: "Not going",
 }
 
 interface Profile {
@@ -87,15 +179,15 @@ const eventFormSchema = z.object({
   endTime: z.string().min(1, "End time is required"),
   color: z.string().optional(),
   participantIds: z.array(z.string()).default([]),
+  optionalParticipantIds: z.array(z.string()).default([]),
   attachCall: z.boolean().default(false),
-}).refine((data) => {
-  if (!data.startTime || !data.endTime) return true
-  const [sh, sm] = data.startTime.split(":").map(Number)
-  const [eh, em] = data.endTime.split(":").map(Number)
-  const startMins = sh * 60 + sm
-  const endMins = eh * 60 + em
-  return endMins > startMins
-}, { message: "End time must be after start time", path: ["endTime"] })
+  recurrenceRule: z.string().nullable().default(null),
+  timeZone: z.string().min(1, "Time zone is required"),
+  // An end time before the start time ends the next day
+}).refine((data) => !data.startTime || data.startTime !== data.endTime, {
+  message: "End time must differ from start time",
+  path: ["endTime"],
+})
 
 type EventFormValues = z.infer<typeof eventFormSchema>
 
@@ -108,40 +200,103 @@ const EVENT_COLORS = [
   { value: "bg-chart-5", label: "Pink" },
 ]
 
-function getWeekEndDate(weekStart: string): string {
-  const d = new Date(weekStart)
-  d.setDate(d.getDate() + 6)
-  return d.toISOString().split("T")[0]
+function formatMinutes(minutes: number): string {
+  const m = ((minutes % DAY_MINUTES) + DAY_MINUTES) % DAY_MINUTES
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`
+}
+
+function getDefaultTimes(timeZone: string): { start: string; end: string } {
+  const now = toZonedParts(Date.now(), timeZone).minutes
+  return { start: formatMinutes(now), end: formatMinutes(now + 30) }
+}
+
+/** "9 AM", or "5:30 AM" for zones off the hour */
+function formatHourLabel(time: string): string {
+  const [h, m] = time.split(":").map(Number)
+  const hour = h % 12 === 0 ? 12 : h % 12
+  return `${hour}${m ? `:${String(m).padStart(2, "0")}` : ""} ${h >= 12 ? "PM" : "AM"}`
 }
 
-function getDefaultDate(weekStart: string): string {
-  return weekStart
+/** "Mon 2/9" style label of a YYYY-MM-DD date */
+function formatDate(date: string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { ...options, timeZone: "UTC" })
 }
 
-function getDefaultTimes(): { start: string; end: string } {
-  const now = new Date()
-  const h = now.getHours()
-  const m = now.getMinutes()
-  const start = `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`
-  const endH = m >= 30 ? h + 1 : h
-  const endM = m >= 30 ? 0 : m + 30
-  return {
-    start,
-    end: `${String(endH).padStart(2, "0")}:${String(endM).padStart(2, "0")}`,
+function formatRangeLabel(view: CalendarViewMode, dates: string[], anchor: string): string {
+  const first = dates[0]
+  const last = dates[dates.length - 1]
+  switch (view) {
+    case "day":
+      return formatDate(anchor, { weekday: "long", month: "long", day: "numeric", year: "numeric" })
+    case "month":
+      return formatDate(anchor, { month: "long", year: "numeric" })
+    default:
+      return `${formatDate(first, { month: "short", day: "numeric" })} – ${formatDate(last, { month: "short", day: "numeric", year: "numeric" })}`
   }
 }
 
+// A drag in the day/week grid: drawing a new meeting, moving one or
+// stretching its end
+interface DragState {
+  kind: "create" | "move" | "resize"
+  event: CalendarEvent | null
+  // Day column and minutes where the pointer went down
+  originDate: string
+  originMinutes: number
+  // Where the pointer is now
+  date: string
+  minutes: number
+  moved: boolean
+}
+
 interface CalendarViewProps {
   currentUserProfileId?: string | null
   onNavigate?: (view: View) => void
+  /** Live presence keyed by profile ID, shown in the participant picker */
+  presence?: Record<string, UserPresence>
+  /** The viewer's saved zones; a null zone follows the browser */
+  timeZonePreferences?: TimeZonePreferences
+  onChangeTimeZonePreferences?: (input: TimeZonePreferences) => Promise<void>
+  /** Minutes before meetings the viewer is reminded */
+  reminderOffsets?: number[]
+  onChangeReminderOffsets?: (offsets: number[]) => Promise<void>
 }
 
-export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewProps) {
-  const [weekStart, setWeekStart] = useState("2026-02-09")
+const statusColor: Record<string, string> = {
+  online: "text-emerald-400",
+  away: "text-amber-400",
+  offline: "text-muted-foreground/30",
+}
+
+export function CalendarView({
+  currentUserProfileId,
+  onNavigate,
+  presence = {},
+  timeZonePreferences = { timeZone: null, secondaryTimeZone: null },
+  onChangeTimeZonePreferences,
+  reminderOffsets = [],
+  onChangeReminderOffsets,
+}: CalendarViewProps) {
+  const [view, setView] = useState<CalendarViewMode>("week")
+  // The day the view is built around, in the viewer's zone
+  const [anchorDate, setAnchorDate] = useState(
+    () => toZonedParts(Date.now(), timeZonePreferences.timeZone ?? getBrowserTimeZone()).date
+  )
+  const [agendaDays, setAgendaDays] = useState(AGENDA_PAGE_DAYS)
+  const [datePickerOpen, setDatePickerOpen] = useState(false)
+  // Date and times for a new meeting drawn on the grid
+  const [newEventSlot, setNewEventSlot] = useState<{ date: string; startTime: string; endTime: string } | null>(null)
+  const [drag, setDrag] = useState<DragState | null>(null)
+  const dragRef = useRef<DragState | null>(null)
+  const columnRefs = useRef(new Map<string, HTMLDivElement>())
   const [showModal, setShowModal] = useState(false)
   const [editingEventId, setEditingEventId] = useState<string | null>(null)
   const [editingEventCallId, setEditingEventCallId] = useState<string | null>(null)
+  const [editingOccurrence, setEditingOccurrence] = useState<EditingOccurrence | null>(null)
   const [deleteTargetId, setDeleteTargetId] = useState<string | null>(null)
+  // Form values waiting for the user to pick which occurrences to change
+  const [pendingSave, setPendingSave] = useState<EventFormValues | null>(null)
+  const [scopeChoice, setScopeChoice] = useState<RecurrenceScope>("this")
   const [isDeleting, setIsDeleting] = useState(false)
   const [events, setEvents] = useState<CalendarEvent[]>([])
   const [loading, setLoading] = useState(true)
@@ -150,31 +305,82 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
   const [selectedProfiles, setSelectedProfiles] = useState<Profile[]>([])
   const [participantOpen, setParticipantOpen] = useState(false)
   const [participantSearch, setParticipantSearch] = useState("")
-  const days = getWeekDays(weekStart)
-  const defaultTimes = getDefaultTimes()
+  const [isSavingSettings, setIsSavingSettings] = useState(false)
+  // Invitees of the event being edited, with their responses
+  const [editingParticipants, setEditingParticipants] = useState<EventParticipant[]>([])
+  const [rsvpComment, setRsvpComment] = useState("")
+  const [isResponding, setIsResponding] = useState(false)
+  const gridRef = useRef<HTMLDivElement>(null)
+  const viewerTimeZone = timeZonePreferences.timeZone ?? getBrowserTimeZone()
+  const secondaryTimeZone =
+    timeZonePreferences.secondaryTimeZone !== viewerTimeZone ? timeZonePreferences.secondaryTimeZone : null
+  const today = toZonedParts(Date.now(), viewerTimeZone).date
+  const dates = visibleDates(view, anchorDate, agendaDays)
+  const rangeStart = dates[0]
+  const rangeEnd = dates[dates.length - 1]
+  const defaultDate = rangeStart <= today && today <= rangeEnd ? today : view === "month" ? `${anchorDate.slice(0, 8)}01` : rangeStart
+  const defaultTimes = getDefaultTimes(viewerTimeZone)
+  const dragPreview = drag ? draggedInstants(drag) : null
+  // While dragging, the event shows at its new time
+  const shownEvents =
+    dragPreview && drag?.event
+      ? events.map((ev) =>
+          ev === drag.event ? { ...ev, starts_at: dragPreview.start.toISOString(), ends_at: dragPreview.end.toISOString() } : ev
+        )
+      : events
+  const segments = segmentsByDay(shownEvents, dates, viewerTimeZone)
+  // Secondary labels follow the offset at the start of the range
+  const secondaryHourLabels = secondaryTimeZone
+    ? hours.map((h) =>
+        formatHourLabel(
+          toZonedParts(zonedTimeToUtc(rangeStart, formatMinutes(h * 60), viewerTimeZone), secondaryTimeZone).time
+        )
+      )
+    : []
 
   const form = useForm<EventFormValues>({
     resolver: zodResolver(eventFormSchema),
     defaultValues: {
       title: "",
       description: "",
-      eventDate: getDefaultDate(weekStart),
+      eventDate: defaultDate,
       startTime: defaultTimes.start,
       endTime: defaultTimes.end,
       color: "bg-primary",
       participantIds: [],
+      optionalParticipantIds: [],
       attachCall: false,
+      recurrenceRule: null,
+      timeZone: viewerTimeZone,
     },
   })
 
   const selectedParticipantIds = form.watch("participantIds")
+  const formEventDate = form.watch("eventDate")
+  const formStartTime = form.watch("startTime")
+  const formEndTime = form.watch("endTime")
+  const optionalParticipantIds = form.watch("optionalParticipantIds")
+  const formTimeZone = form.watch("timeZone")
+  // Everyone whose availability the form shows: the organizer, then invitees
+  const attendees = [...new Set([...(currentUserProfileId ? [currentUserProfileId] : []), ...selectedParticipantIds])].map(
+    (id) => ({
+      id,
+      name:
+        id === currentUserProfileId
+          ? "You"
+          : (profiles.find((p) => p.id === id) ??
+              selectedProfiles.find((p) => p.id === id) ??
+              editingParticipants.find((p) => p.id === id))?.name ?? "Unknown",
+    })
+  )
+  const myInvitation = editingParticipants.find((p) => p.id === currentUserProfileId) ?? null
 
   function fetchEvents() {
     setLoading(true)
     setError(null)
-    const startDate = weekStart
-    const endDate = getWeekEndDate(weekStart)
-    const url = `/api/calendar/events?startDate=${encodeURIComponent(startDate)}&endDate=${encodeURIComponent(endDate)}`
+    const startDate = rangeStart
+    const endDate = rangeEnd
+    const url = `/api/calendar/events?startDate=${encodeURIComponent(startDate)}&endDate=${encodeURIComponent(endDate)}&timeZone=${encodeURIComponent(viewerTimeZone)}`
 
     fetch(url)
       .then((res) => {
@@ -194,9 +400,9 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
     let cancelled = false
     setLoading(true)
     setError(null)
-    const startDate = weekStart
-    const endDate = getWeekEndDate(weekStart)
-    const url = `/api/calendar/events?startDate=${encodeURIComponent(startDate)}&endDate=${encodeURIComponent(endDate)}`
+    const startDate = rangeStart
+    const endDate = rangeEnd
+    const url = `/api/calendar/events?startDate=${encodeURIComponent(startDate)}&endDate=${encodeURIComponent(endDate)}&timeZone=${encodeURIComponent(viewerTimeZone)}`
 
     fetch(url)
       .then((res) => {
@@ -220,7 +426,12 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
     return () => {
       cancelled = true
     }
-  }, [weekStart])
+  }, [rangeStart, rangeEnd, viewerTimeZone])
+
+  const showsTimeGrid = view === "day" || view === "week"
+  useEffect(() => {
+    if (!loading && showsTimeGrid && gridRef.current) gridRef.current.scrollTop = SCROLL_TO_HOUR * HOUR_HEIGHT
+  }, [loading, showsTimeGrid])
 
   const fetchProfiles = useCallback(async (search?: string) => {
     const url = search
@@ -241,16 +452,19 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
         form.reset({
           title: "",
           description: "",
-          eventDate: getDefaultDate(weekStart),
-          startTime: getDefaultTimes().start,
-          endTime: getDefaultTimes().end,
+          eventDate: newEventSlot?.date ?? defaultDate,
+          startTime: newEventSlot?.startTime ?? getDefaultTimes(viewerTimeZone).start,
+          endTime: newEventSlot?.endTime ?? getDefaultTimes(viewerTimeZone).end,
           color: "bg-primary",
           participantIds: [],
+          optionalParticipantIds: [],
           attachCall: false,
+          recurrenceRule: null,
+          timeZone: viewerTimeZone,
         })
       }
     }
-  }, [showModal, weekStart, editingEventId, fetchProfiles, form])
+  }, [showModal, defaultDate, newEventSlot, editingEventId, fetchProfiles, form, viewerTimeZone])
 
   async function openEventForEdit(ev: CalendarEvent) {
     try {
@@ -260,18 +474,38 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
         return
       }
       const data = await res.json()
+      // An edited occurrence has no rule of its own; the editor shows its series'
+      let seriesRule: string | null = data.recurrence_rule ?? null
+      if (ev.series_id && ev.series_id !== ev.id) {
+        const seriesRes = await fetch(`/api/calendar/events/${ev.series_id}`)
+        if (seriesRes.ok) seriesRule = (await seriesRes.json()).recurrence_rule ?? null
+      }
       form.reset({
         title: data.title,
         description: data.description ?? "",
-        eventDate: data.event_date,
+        // Occurrences are edited at their own date, not the series start
+        eventDate: ev.event_date,
         startTime: data.start_time,
         endTime: data.end_time,
         color: data.color ?? "bg-primary",
-        participantIds: (data.participants ?? []).map((p: { id: string }) => p.id),
+        participantIds: (data.participants ?? []).map((p: EventParticipant) => p.id),
+        optionalParticipantIds: (data.participants ?? [])
+          .filter((p: EventParticipant) => p.optional)
+          .map((p: EventParticipant) => p.id),
         attachCall: !!data.call_id,
+        recurrenceRule: seriesRule,
+        // Times are edited in the event's own zone
+        timeZone: data.time_zone ?? viewerTimeZone,
       })
       setEditingEventId(ev.id)
       setEditingEventCallId(data.call_id ?? null)
+      setEditingParticipants(data.participants ?? [])
+      setRsvpComment(
+        (data.participants ?? []).find((p: EventParticipant) => p.id === currentUserProfileId)?.response_comment ?? ""
+      )
+      setEditingOccurrence(
+        ev.series_id && ev.occurrence_date ? { date: ev.occurrence_date, rule: seriesRule } : null
+      )
       setShowModal(true)
     } catch {
       toast.error("Failed to load event")
@@ -282,11 +516,26 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
     setShowModal(false)
     setEditingEventId(null)
     setEditingEventCallId(null)
+    setEditingOccurrence(null)
+    setEditingParticipants([])
+    setNewEventSlot(null)
   }
 
   async function onSubmit(values: EventFormValues) {
+    // Changes to a recurring event ask which occurrences they apply to first
+    if (editingEventId && editingOccurrence) {
+      setScopeChoice(values.recurrenceRule !== editingOccurrence.rule ? "following" : "this")
+      setPendingSave(values)
+      return
+    }
+    await saveEvent(values)
+  }
+
+  async function saveEvent(values: EventFormValues, scope?: RecurrenceScope) {
     try {
       if (editingEventId) {
+        // Only send the rule when it changed, so splitting a series keeps its remaining count
+        const ruleChanged = values.recurrenceRule !== (editingOccurrence ? editingOccurrence.rule : null)
         const res = await fetch(`/api/calendar/events/${editingEventId}`, {
           method: "PATCH",
           headers: { "Content-Type": "application/json" },
@@ -297,7 +546,12 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
             startTime: values.startTime,
             endTime: values.endTime,
             color: values.color || undefined,
+            timeZone: values.timeZone,
             participantIds: values.participantIds,
+            optionalParticipantIds: values.optionalParticipantIds.filter((id) => values.participantIds.includes(id)),
+            recurrenceRule: ruleChanged ? values.recurrenceRule : undefined,
+            scope,
+            occurrenceDate: scope ? editingOccurrence?.date : undefined,
           }),
         })
         const data = await res.json()
@@ -318,8 +572,11 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
             startTime: values.startTime,
             endTime: values.endTime,
             color: values.color || undefined,
+            timeZone: values.timeZone,
             participantIds: values.participantIds,
+            optionalParticipantIds: values.optionalParticipantIds.filter((id) => values.participantIds.includes(id)),
             attachCall: values.attachCall,
+            recurrenceRule: values.recurrenceRule,
           }),
         })
         const data = await res.json()
@@ -340,7 +597,36 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
     }
   }
 
+  async function respond(response: RsvpResponse) {
+    if (!editingEventId) return
+    setIsResponding(true)
+    try {
+      const res = await fetch(`/api/calendar/events/${editingEventId}/rsvp`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ response, comment: rsvpComment.trim() || null }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error ?? "Failed to send response")
+        return
+      }
+      setEditingParticipants((prev) =>
+        prev.map((p) =>
+          p.id === currentUserProfileId ? { ...p, response, response_comment: rsvpComment.trim() || null } : p
+        )
+      )
+      toast.success(`Response sent: ${responseLabel[response]}`)
+      fetchEvents()
+    } catch {
+      toast.error("Failed to send response")
+    } finally {
+      setIsResponding(false)
+    }
+  }
+
   function requestDelete(eventId: string) {
+    setScopeChoice("this")
     setDeleteTargetId(eventId)
   }
 
@@ -348,7 +634,10 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
     if (!deleteTargetId) return
     setIsDeleting(true)
     try {
-      const res = await fetch(`/api/calendar/events/${deleteTargetId}`, {
+      const query = editingOccurrence
+        ? `?scope=${scopeChoice}&occurrenceDate=${encodeURIComponent(editingOccurrence.date)}`
+        : ""
+      const res = await fetch(`/api/calendar/events/${deleteTargetId}${query}`, {
         method: "DELETE",
       })
       const data = await res.json()
@@ -367,10 +656,159 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
     }
   }
 
-  function shiftWeek(dir: number) {
-    const d = new Date(weekStart)
-    d.setDate(d.getDate() + dir * 7)
-    setWeekStart(d.toISOString().split("T")[0])
+  async function saveReminderOffsets(offsets: number[]) {
+    if (!onChangeReminderOffsets) return
+    setIsSavingSettings(true)
+    try {
+      await onChangeReminderOffsets([...offsets].sort((a, b) => a - b))
+    } catch {
+      // The caller reports the failure
+    } finally {
+      setIsSavingSettings(false)
+    }
+  }
+
+  async function saveTimeZonePreferences(input: TimeZonePreferences) {
+    if (!onChangeTimeZonePreferences) return
+    setIsSavingSettings(true)
+    try {
+      await onChangeTimeZonePreferences(input)
+    } catch {
+      // The caller reports the failure
+    } finally {
+      setIsSavingSettings(false)
+    }
+  }
+
+  function changeView(next: CalendarViewMode) {
+    setView(next)
+    setAgendaDays(AGENDA_PAGE_DAYS)
+  }
+
+  function goTo(date: string, nextView: CalendarViewMode = view) {
+    setAnchorDate(date)
+    changeView(nextView)
+  }
+
+  function openNewEvent(slot: { date: string; startTime: string; endTime: string } | null) {
+    setEditingEventId(null)
+    setNewEventSlot(slot)
+    setShowModal(true)
+  }
+
+  /** Day column and snapped minutes under the pointer, if it's over the grid */
+  function pointerPosition(clientX: number, clientY: number): { date: string; minutes: number } | null {
+    for (const [date, el] of columnRefs.current) {
+      const rect = el.getBoundingClientRect()
+      if (clientX < rect.left || clientX >= rect.right) continue
+      const minutes = Math.round((((clientY - rect.top) / HOUR_HEIGHT) * 60) / SNAP_MINUTES) * SNAP_MINUTES
+      return { date, minutes: Math.min(Math.max(minutes, 0), DAY_MINUTES) }
+    }
+    return null
+  }
+
+  /** Where a move or resize would put its event */
+  function draggedInstants(d: DragState): { start: Date; end: Date } | null {
+    if (!d.event || !d.moved) return null
+    const start = new Date(d.event.starts_at)
+    const duration = new Date(d.event.ends_at).getTime() - start.getTime()
+    if (d.kind === "move") {
+      const from = toZonedParts(start, viewerTimeZone)
+      const total = from.minutes + d.minutes - d.originMinutes
+      const date = addDays(from.date, daysBetween(d.originDate, d.date) + Math.floor(total / DAY_MINUTES))
+      const movedStart = zonedTimeToUtc(date, formatMinutes(total), viewerTimeZone)
+      return { start: movedStart, end: new Date(movedStart.getTime() + duration) }
+    }
+    const end =
+      d.minutes >= DAY_MINUTES
+        ? zonedTimeToUtc(addDays(d.date, 1), "00:00", viewerTimeZone)
+        : zonedTimeToUtc(d.date, formatMinutes(d.minutes), viewerTimeZone)
+    const minEnd = start.getTime() + SNAP_MINUTES * 60 * 1000
+    return { start, end: new Date(Math.max(end.getTime(), minEnd)) }
+  }
+
+  function startDrag(e: ReactPointerEvent, kind: DragState["kind"], event: CalendarEvent | null) {
+    if (e.button !== 0) return
+    const pos = pointerPosition(e.clientX, e.clientY)
+    if (!pos) return
+    e.stopPropagation()
+    const next = { kind, event, originDate: pos.date, originMinutes: pos.minutes, ...pos, moved: false }
+    dragRef.current = next
+    setDrag(next)
+  }
+
+  const isDragging = drag !== null
+  useEffect(() => {
+    if (!isDragging) return
+    function onMove(e: PointerEvent) {
+      const current = dragRef.current
+      const pos = pointerPosition(e.clientX, e.clientY)
+      if (!current || !pos || (pos.date === current.date && pos.minutes === current.minutes)) return
+      dragRef.current = { ...current, ...pos, moved: true }
+      setDrag(dragRef.current)
+    }
+    function onUp() {
+      const finished = dragRef.current
+      dragRef.current = null
+      setDrag(null)
+      if (finished) finishDrag(finished)
+    }
+    window.addEventListener("pointermove", onMove)
+    window.addEventListener("pointerup", onUp)
+    return () => {
+      window.removeEventListener("pointermove", onMove)
+      window.removeEventListener("pointerup", onUp)
+    }
+    // Handlers read the latest drag through dragRef
+  }, [isDragging])
+
+  function finishDrag(d: DragState) {
+    if (d.kind === "create") {
+      const from = Math.min(d.moved ? Math.min(d.originMinutes, d.minutes) : d.originMinutes, DAY_MINUTES - SNAP_MINUTES)
+      let to = d.moved ? Math.max(d.originMinutes, d.minutes) : from + 30
+      if (to - from < SNAP_MINUTES) to = from + 30
+      // An end of midnight is read as the next day
+      openNewEvent({ date: d.originDate, startTime: formatMinutes(from), endTime: formatMinutes(Math.min(to, DAY_MINUTES)) })
+      return
+    }
+    if (!d.event) return
+    const instants = draggedInstants(d)
+    if (!instants) {
+      openEventForEdit(d.event)
+      return
+    }
+    rescheduleEvent(d.event, instants.start, instants.end)
+  }
+
+  /** Save a dragged time, keeping the event's own zone. Occurrences move on their own */
+  async function rescheduleEvent(ev: CalendarEvent, start: Date, end: Date) {
+    if (end.getTime() - start.getTime() >= DAY_MINUTES * 60 * 1000) {
+      toast.error("Meetings can't be longer than a day")
+      return
+    }
+    const startParts = toZonedParts(start, ev.time_zone)
+    const endParts = toZonedParts(end, ev.time_zone)
+    try {
+      const res = await fetch(`/api/calendar/events/${ev.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          eventDate: startParts.date,
+          startTime: startParts.time,
+          endTime: endParts.time,
+          ...(ev.series_id && ev.occurrence_date ? { scope: "this", occurrenceDate: ev.occurrence_date } : {}),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error ?? "Failed to reschedule meeting")
+        return
+      }
+      toast.success("Meeting rescheduled")
+      fetchEvents()
+    } catch {
+      toast.error("Failed to reschedule meeting")
+    }
   }
 
   return (
@@ -378,22 +816,107 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
       {/* Calendar header */}
       <div className="flex shrink-0 items-center justify-between border-b border-border bg-card px-4 py-2">
         <div className="flex items-center gap-2">
-          <Button variant="outline" size="icon" className="h-8 w-8 bg-transparent" onClick={() => shiftWeek(-1)}>
+          <Button variant="outline" size="sm" className="bg-transparent" onClick={() => goTo(today)}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8 bg-transparent" onClick={() => setAnchorDate(shiftAnchor(view, anchorDate, -1))}>
             <ChevronLeft className="h-4 w-4" />
-            <span className="sr-only">Previous week</span>
+            <span className="sr-only">Previous</span>
           </Button>
-          <span className="text-sm font-medium text-card-foreground min-w-32 text-center">
-            {days[0]?.dayName} {days[0]?.label} &ndash; {days[6]?.dayName} {days[6]?.label}
-          </span>
-          <Button variant="outline" size="icon" className="h-8 w-8 bg-transparent" onClick={() => shiftWeek(1)}>
+          <Button variant="outline" size="icon" className="h-8 w-8 bg-transparent" onClick={() => setAnchorDate(shiftAnchor(view, anchorDate, 1))}>
             <ChevronRight className="h-4 w-4" />
-            <span className="sr-only">Next week</span>
+            <span className="sr-only">Next</span>
+          </Button>
+          <Popover open={datePickerOpen} onOpenChange={setDatePickerOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="sm" className="gap-1.5 text-sm font-medium text-card-foreground">
+                <CalendarDays className="h-4 w-4" />
+                {formatRangeLabel(view, dates, anchorDate)}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-auto p-0">
+              <Calendar
+                mode="single"
+                selected={new Date(`${anchorDate}T00:00:00`)}
+                defaultMonth={new Date(`${anchorDate}T00:00:00`)}
+                onSelect={(date) => {
+                  if (!date) return
+                  // The picker works in local dates
+                  const y = date.getFullYear()
+                  const m = String(date.getMonth() + 1).padStart(2, "0")
+                  const d = String(date.getDate()).padStart(2, "0")
+                  setAnchorDate(`${y}-${m}-${d}`)
+                  setDatePickerOpen(false)
+                }}
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+        <div className="flex items-center gap-2">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={view}
+            onValueChange={(v) => v && changeView(v as CalendarViewMode)}
+          >
+            {VIEW_OPTIONS.map((o) => (
+              <ToggleGroupItem key={o.value} value={o.value} className="h-8 px-2.5 text-xs">
+                {o.label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="gap-1.5 bg-transparent">
+                {isSavingSettings ? <Loader2 className="h-4 w-4 animate-spin" /> : <Globe className="h-4 w-4" />}
+                {formatTimeZoneAbbreviation(viewerTimeZone)}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="flex w-80 flex-col gap-3">
+              <div className="flex flex-col gap-1.5">
+                <Label className="text-xs">Show calendar in</Label>
+                <TimeZoneSelect
+                  value={timeZonePreferences.timeZone}
+                  emptyLabel={`Automatic (${getBrowserTimeZone().replace(/_/g, " ")})`}
+                  onChange={(timeZone) => saveTimeZonePreferences({ ...timeZonePreferences, timeZone })}
+                />
+              </div>
+              <div className="flex flex-col gap-1.5">
+                <Label className="text-xs">Secondary time zone</Label>
+                <TimeZoneSelect
+                  value={timeZonePreferences.secondaryTimeZone}
+                  emptyLabel="None"
+                  onChange={(secondaryTimeZone) =>
+                    saveTimeZonePreferences({ ...timeZonePreferences, secondaryTimeZone })
+                  }
+                />
+              </div>
+              <div className="flex flex-col gap-1.5">
+                <Label className="text-xs">Remind me before meetings</Label>
+                <ToggleGroup
+                  type="multiple"
+                  size="sm"
+                  variant="outline"
+                  className="flex-wrap justify-start"
+                  value={reminderOffsets.map(String)}
+                  onValueChange={(values) => values.length <= MAX_REMINDERS && saveReminderOffsets(values.map(Number))}
+                >
+                  {REMINDER_OPTIONS.map((o) => (
+                    <ToggleGroupItem key={o.minutes} value={String(o.minutes)} className="h-7 px-2 text-xs">
+                      {o.label}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+            </PopoverContent>
+          </Popover>
+          <CalendarSyncMenu onImported={fetchEvents} />
+          <Button size="sm" className="gap-1.5" onClick={() => openNewEvent(null)}>
+            <Plus className="h-4 w-4" />
+            New Meeting
           </Button>
         </div>
-        <Button size="sm" className="gap-1.5" onClick={() => { setEditingEventId(null); setShowModal(true); }}>
-          <Plus className="h-4 w-4" />
-          New Meeting
-        </Button>
       </div>
 
       {/* Loading state */}
@@ -419,64 +942,186 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
         </div>
       )}
 
-      {/* Weekly grid */}
-      {!loading && !error && (
-        <div className="flex flex-1 overflow-auto">
-          {/* Time gutter */}
-          <div className="sticky left-0 z-10 w-16 shrink-0 border-r border-border bg-card">
-            <div className="h-10 border-b border-border" />
-            {hours.map((h) => (
-              <div key={h} className="flex h-16 items-start justify-end border-b border-border pr-2 pt-0.5">
-                <span className="text-[11px] text-muted-foreground">
-                  {h > 12 ? h - 12 : h} {h >= 12 ? "PM" : "AM"}
+      {!loading && !error && view === "month" && (
+        <CalendarMonthView
+          dates={dates}
+          month={anchorDate.slice(0, 7)}
+          today={today}
+          segments={segments}
+          currentUserProfileId={currentUserProfileId}
+          onOpenEvent={openEventForEdit}
+          onSelectDate={(date) => goTo(date, "day")}
+        />
+      )}
+
+      {!loading && !error && view === "agenda" && (
+        <CalendarAgendaView
+          dates={dates}
+          today={today}
+          segments={segments}
+          currentUserProfileId={currentUserProfileId}
+          onOpenEvent={openEventForEdit}
+          onLoadMore={() => setAgendaDays((n) => n + AGENDA_PAGE_DAYS)}
+        />
+      )}
+
+      {/* Day / week grid */}
+      {!loading && !error && showsTimeGrid && (
+        <div ref={gridRef} className="flex flex-1 overflow-auto">
+          {/* Time gutters: secondary zone, then the zone events are shown in */}
+          <div className="sticky left-0 z-10 flex shrink-0 border-r border-border bg-card">
+            {secondaryTimeZone && (
+              <div className="w-16 border-r border-border/50">
+                <div
+                  className="flex h-10 items-end justify-end border-b border-border pb-1 pr-2"
+                  title={secondaryTimeZone}
+                >
+                  <span className="truncate text-[10px] text-muted-foreground/70">
+                    {formatTimeZoneAbbreviation(secondaryTimeZone, zonedTimeToUtc(rangeStart, "00:00", viewerTimeZone))}
+                  </span>
+                </div>
+                {secondaryHourLabels.map((label, h) => (
+                  <div key={h} className="flex h-16 items-start justify-end border-b border-border pr-2 pt-0.5">
+                    <span className="text-[11px] text-muted-foreground/70">{label}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="w-16">
+              <div className="flex h-10 items-end justify-end border-b border-border pb-1 pr-2" title={viewerTimeZone}>
+                <span className="truncate text-[10px] text-muted-foreground">
+                  {formatTimeZoneAbbreviation(viewerTimeZone, zonedTimeToUtc(rangeStart, "00:00", viewerTimeZone))}
                 </span>
               </div>
-            ))}
+              {hours.map((h) => (
+                <div key={h} className="flex h-16 items-start justify-end border-b border-border pr-2 pt-0.5">
+                  <span className="text-[11px] text-muted-foreground">{formatHourLabel(formatMinutes(h * 60))}</span>
+                </div>
+              ))}
+            </div>
           </div>
 
           {/* Day columns */}
           <div className="flex flex-1">
-            {days.map((day) => {
-              const dayEvents = events.filter((ev) => ev.event_date === day.date)
+            {dates.map((date) => {
+              const daySegments = layoutColumns(segments.get(date) ?? [])
+              const creating = drag?.kind === "create" && drag.moved && drag.originDate === date ? drag : null
               return (
-                <div key={day.date} className="flex min-w-28 flex-1 flex-col border-r border-border last:border-r-0">
+                <div key={date} className="flex min-w-28 flex-1 flex-col border-r border-border last:border-r-0">
                   {/* Day header */}
-                  <div className="flex h-10 flex-col items-center justify-center border-b border-border bg-card">
-                    <span className="text-[11px] uppercase text-muted-foreground">{day.dayName}</span>
-                    <span className="text-xs font-semibold text-card-foreground">{day.label}</span>
-                  </div>
+                  <button
+                    type="button"
+                    className="flex h-10 flex-col items-center justify-center border-b border-border bg-card hover:bg-muted/50"
+                    onClick={() => view !== "day" && goTo(date, "day")}
+                  >
+                    <span className="text-[11px] uppercase text-muted-foreground">{formatDate(date, { weekday: "short" })}</span>
+                    <span className={cn("text-xs font-semibold text-card-foreground", date === today && "text-primary")}>
+                      {formatDate(date, { month: "numeric", day: "numeric" })}
+                    </span>
+                  </button>
 
-                  {/* Hour cells */}
-                  <div className="relative">
+                  {/* Hour cells; dragging on empty space draws a new meeting */}
+                  <div
+                    ref={(el) => {
+                      if (el) columnRefs.current.set(date, el)
+                      else columnRefs.current.delete(date)
+                    }}
+                    className="relative touch-none select-none"
+                    onPointerDown={(e) => startDrag(e, "create", null)}
+                  >
                     {hours.map((h) => (
                       <div key={h} className="h-16 border-b border-border" />
                     ))}
 
-                    {/* Events */}
-                    {dayEvents.map((ev) => {
-                      const startH = Number.parseInt(ev.start_time.split(":")[0])
-                      const startM = Number.parseInt(ev.start_time.split(":")[1] || "0")
-                      const endH = Number.parseInt(ev.end_time.split(":")[0])
-                      const endM = Number.parseInt(ev.end_time.split(":")[1] || "0")
-                      const topPx = (startH - 8) * 64 + (startM / 60) * 64
-                      const heightPx = ((endH - startH) * 60 + (endM - startM)) / 60 * 64
+                    {creating && (
+                      <div
+                        className="pointer-events-none absolute inset-x-1 rounded-md border-2 border-dashed border-primary bg-primary/10"
+                        style={{
+                          top: `${(Math.min(creating.originMinutes, creating.minutes) / 60) * HOUR_HEIGHT}px`,
+                          height: `${(Math.abs(creating.minutes - creating.originMinutes) / 60) * HOUR_HEIGHT}px`,
+                        }}
+                      />
+                    )}
+
+                    {/* Events, side by side where they overlap */}
+                    {daySegments.map(({ event: ev, top, bottom, continuesBefore, continuesAfter, column, columns }) => {
+                      const topPx = (top / 60) * HOUR_HEIGHT
+                      const heightPx = ((bottom - top) / 60) * HOUR_HEIGHT
                       const colorClass = ev.color || "bg-primary"
                       const hasCall = !!ev.call_id
+                      const invitees = ev.participants ?? []
+                      const acceptedCount = invitees.filter((p) => p.response === "accepted").length
+                      const declinedCount = invitees.filter((p) => p.response === "declined").length
+                      const declinedByMe =
+                        invitees.find((p) => p.id === currentUserProfileId)?.response === "declined"
+                      const startLabel = toZonedParts(ev.starts_at, viewerTimeZone).time
+                      const endLabel = toZonedParts(ev.ends_at, viewerTimeZone).time
+                      // Show the time the organizer picked when it was in another zone
+                      const originalTime =
+                        ev.time_zone !== viewerTimeZone
+                          ? `${ev.start_time.slice(0, 5)} - ${ev.end_time.slice(0, 5)} ${formatTimeZoneCity(ev.time_zone)} time`
+                          : undefined
+                      // Only the organizer can reschedule by dragging
+                      const canDrag = !!currentUserProfileId && ev.created_by === currentUserProfileId
+                      const isDragged = drag?.event === ev && drag.moved
                       return (
                         <button
-                          key={ev.id}
+                          key={`${ev.id}:${ev.occurrence_date ?? ""}`}
                           type="button"
-                          className={`absolute inset-x-1 rounded-md ${colorClass} px-1.5 py-1 text-primary-foreground overflow-hidden text-left cursor-pointer hover:opacity-90 transition-opacity`}
-                          style={{ top: `${topPx}px`, height: `${Math.max(heightPx, 24)}px` }}
-                          onClick={() => openEventForEdit(ev)}
+                          title={originalTime}
+                          className={cn(
+                            `absolute rounded-md ${colorClass} px-1.5 py-1 text-primary-foreground overflow-hidden text-left hover:opacity-90 transition-opacity`,
+                            canDrag ? "cursor-grab" : "cursor-pointer",
+                            continuesBefore && "rounded-t-none",
+                            continuesAfter && "rounded-b-none",
+                            declinedByMe && "opacity-40",
+                            isDragged && "z-10 cursor-grabbing shadow-lg ring-2 ring-ring"
+                          )}
+                          style={{
+                            top: `${topPx}px`,
+                            height: `${Math.max(heightPx, 24)}px`,
+                            left: `calc(${(column / columns) * 100}% + 4px)`,
+                            width: `calc(${100 / columns}% - 8px)`,
+                          }}
+                          onPointerDown={(e) => {
+                            e.stopPropagation()
+                            if (canDrag) startDrag(e, "move", ev)
+                          }}
+                          onClick={(e) => {
+                            // Pointer clicks on draggable events are handled when the drag ends
+                            if (!canDrag || e.detail === 0) openEventForEdit(ev)
+                          }}
                         >
                           <div className="flex items-center gap-1">
                             {hasCall && <Video className="h-3 w-3 shrink-0" />}
-                            <p className="truncate text-[11px] font-semibold leading-tight">{ev.title}</p>
+                            {ev.series_id && <Repeat className="h-3 w-3 shrink-0" />}
+                            <p className={cn("truncate text-[11px] font-semibold leading-tight", declinedByMe && "line-through")}>
+                              {ev.title}
+                            </p>
                           </div>
                           <p className="truncate text-[10px] opacity-80">
-                            {ev.start_time} - {ev.end_time}
+                            {startLabel} - {endLabel}
                           </p>
+                          {invitees.length > 1 && (
+                            <p className="flex items-center gap-1.5 text-[10px] opacity-80">
+                              <span className="flex items-center gap-0.5" title={`${acceptedCount} going`}>
+                                <Check className="h-2.5 w-2.5" />
+                                {acceptedCount}
+                              </span>
+                              {declinedCount > 0 && (
+                                <span className="flex items-center gap-0.5" title={`${declinedCount} not going`}>
+                                  <X className="h-2.5 w-2.5" />
+                                  {declinedCount}
+                                </span>
+                              )}
+                            </p>
+                          )}
+                          {canDrag && !continuesAfter && (
+                            <div
+                              className="absolute inset-x-0 bottom-0 h-1.5 cursor-ns-resize"
+                              onPointerDown={(e) => startDrag(e, "resize", ev)}
+                            />
+                          )}
                         </button>
                       )
                     })}
@@ -500,6 +1145,38 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
                 <X className="h-4 w-4" />
               </Button>
             </div>
+            {editingEventId && myInvitation && (
+              <div className="mb-4 flex flex-col gap-2 rounded-lg border border-border p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-card-foreground">
+                    Going?
+                    {myInvitation.optional && <span className="ml-1 text-xs font-normal text-muted-foreground">(optional)</span>}
+                  </span>
+                  <div className="flex gap-1">
+                    {RSVP_OPTIONS.map((o) => (
+                      <Button
+                        key={o.value}
+                        type="button"
+                        size="sm"
+                        variant={myInvitation.response === o.value ? "default" : "outline"}
+                        className={cn("h-7 px-3", myInvitation.response !== o.value && "bg-transparent")}
+                        disabled={isResponding}
+                        onClick={() => respond(o.value)}
+                      >
+                        {o.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <Input
+                  placeholder="Add a note for the organizer (optional)"
+                  value={rsvpComment}
+                  maxLength={500}
+                  onChange={(e) => setRsvpComment(e.target.value)}
+                  className="h-8 text-xs"
+                />
+              </div>
+            )}
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col gap-4">
                 <FormField
@@ -569,6 +1246,31 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
                     )}
                   />
                 </div>
+                {formStartTime && formEndTime && formEndTime < formStartTime && (
+                  <p className="-mt-2 text-xs text-muted-foreground">Ends the next day</p>
+                )}
+                <FormField
+                  control={form.control}
+                  name="timeZone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <Label className="text-card-foreground">Time zone</Label>
+                      <TimeZoneSelect value={field.value} onChange={(v) => field.onChange(v ?? viewerTimeZone)} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="recurrenceRule"
+                  render={({ field }) => (
+                    <FormItem>
+                      <Label className="text-card-foreground">Repeat</Label>
+                      <RecurrenceEditor value={field.value} onChange={field.onChange} eventDate={formEventDate} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <FormField
                   control={form.control}
                   name="color"
@@ -717,11 +1419,19 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
                                       }}
                                     >
                                       <Check className={cn("mr-2 h-4 w-4", isSelected ? "opacity-100" : "opacity-0")} />
-                                      <Avatar className="h-6 w-6 mr-2">
-                                        <AvatarFallback className="bg-secondary text-secondary-foreground text-[10px]">
-                                          {p.name.split(" ").map((n) => n[0]).join("").slice(0, 2)}
-                                        </AvatarFallback>
-                                      </Avatar>
+                                      <div className="relative mr-2">
+                                        <Avatar className="h-6 w-6">
+                                          <AvatarFallback className="bg-secondary text-secondary-foreground text-[10px]">
+                                            {p.name.split(" ").map((n) => n[0]).join("").slice(0, 2)}
+                                          </AvatarFallback>
+                                        </Avatar>
+                                        <Circle
+                                          className={cn(
+                                            "absolute -bottom-0.5 -right-0.5 h-2.5 w-2.5 fill-current",
+                                            statusColor[presence[p.id]?.status ?? "offline"]
+                                          )}
+                                        />
+                                      </div>
                                       {p.name}
                                     </CommandItem>
                                   )
@@ -736,10 +1446,22 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
                           {field.value.map((id) => {
                             const p = profiles.find((pr) => pr.id === id) ?? selectedProfiles.find((pr) => pr.id === id)
                             if (!p) return null
+                            const invitation = editingParticipants.find((ep) => ep.id === id)
+                            const isOptional = optionalParticipantIds.includes(id)
                             return (
                               <div
                                 key={id}
-                                className="flex items-center gap-1 rounded-full bg-muted px-2 py-1"
+                                className={cn(
+                                  "flex items-center gap-1 rounded-full bg-muted px-2 py-1",
+                                  isOptional && "border border-dashed border-muted-foreground/40"
+                                )}
+                                title={
+                                  invitation
+                                    ? [responseLabel[invitation.response], invitation.response_comment]
+                                        .filter(Boolean)
+                                        .join(": ")
+                                    : undefined
+                                }
                               >
                                 <Avatar className="h-5 w-5">
                                   <AvatarFallback className="bg-secondary text-secondary-foreground text-[9px]">
@@ -747,6 +1469,25 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
                                   </AvatarFallback>
                                 </Avatar>
                                 <span className="text-xs text-muted-foreground">{p.name.split(" ")[0]}</span>
+                                {invitation?.response === "accepted" && <Check className="h-3 w-3 text-emerald-500" />}
+                                {invitation?.response === "tentative" && <HelpCircle className="h-3 w-3 text-amber-500" />}
+                                {invitation?.response === "declined" && <X className="h-3 w-3 text-destructive" />}
+                                {id !== currentUserProfileId && (
+                                  <button
+                                    type="button"
+                                    className="rounded-full px-1 text-[10px] text-muted-foreground hover:bg-muted-foreground/20"
+                                    onClick={() =>
+                                      form.setValue(
+                                        "optionalParticipantIds",
+                                        isOptional
+                                          ? optionalParticipantIds.filter((i) => i !== id)
+                                          : [...optionalParticipantIds, id]
+                                      )
+                                    }
+                                  >
+                                    {isOptional ? "optional" : "required"}
+                                  </button>
+                                )}
                                 <button
                                   type="button"
                                   className="ml-0.5 rounded-full p-0.5 hover:bg-muted-foreground/20"
@@ -766,6 +1507,21 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
                     </FormItem>
                   )}
                 />
+                {attendees.length > 1 && (
+                  <AvailabilityTimeline
+                    attendees={attendees}
+                    date={formEventDate}
+                    startTime={formStartTime}
+                    endTime={formEndTime}
+                    timeZone={formTimeZone}
+                    excludeEventId={editingEventId}
+                    onPickSlot={(slot) => {
+                      form.setValue("eventDate", slot.date, { shouldValidate: true })
+                      form.setValue("startTime", slot.startTime, { shouldValidate: true })
+                      form.setValue("endTime", slot.endTime, { shouldValidate: true })
+                    }}
+                  />
+                )}
                 <div className="mt-2 flex flex-col gap-2">
                   {editingEventId && currentUserProfileId && events.some((e) => e.id === editingEventId && e.created_by === currentUserProfileId) && (
                     <Button
@@ -802,11 +1558,14 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
       <AlertDialog open={!!deleteTargetId} onOpenChange={(open) => !open && setDeleteTargetId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete meeting?</AlertDialogTitle>
+            <AlertDialogTitle>{editingOccurrence ? "Delete recurring meeting?" : "Delete meeting?"}</AlertDialogTitle>
             <AlertDialogDescription>
               This action cannot be undone. The meeting will be removed from all participants&apos; calendars.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {editingOccurrence && (
+            <ScopeOptions value={scopeChoice} onChange={setScopeChoice} />
+          )}
           <AlertDialogFooter>
             <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
             <AlertDialogAction
@@ -822,6 +1581,64 @@ export function CalendarView({ currentUserProfileId, onNavigate }: CalendarViewP
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Recurring event edit scope dialog */}
+      <AlertDialog open={!!pendingSave} onOpenChange={(open) => !open && setPendingSave(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Edit recurring meeting</AlertDialogTitle>
+            <AlertDialogDescription>
+              Choose which meetings in the series to change.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ScopeOptions
+            value={scopeChoice}
+            onChange={setScopeChoice}
+            // A single occurrence can't change how the series repeats
+            disabled={pendingSave?.recurrenceRule !== editingOccurrence?.rule ? ["this"] : []}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={form.formState.isSubmitting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={async (e) => {
+                e.preventDefault()
+                if (!pendingSave) return
+                await saveEvent(pendingSave, scopeChoice)
+                setPendingSave(null)
+              }}
+            >
+              Save
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
+
+function ScopeOptions({
+  value,
+  onChange,
+  disabled = [],
+}: {
+  value: RecurrenceScope
+  onChange: (scope: RecurrenceScope) => void
+  disabled?: RecurrenceScope[]
+}) {
+  return (
+    <RadioGroup value={value} onValueChange={(v) => onChange(v as RecurrenceScope)} className="gap-3">
+      {SCOPE_OPTIONS.map((option) => (
+        <div key={option.value} className="flex items-center gap-2">
+          <RadioGroupItem
+            id={`scope-${option.value}`}
+            value={option.value}
+            disabled={disabled.includes(option.value)}
+          />
+          <Label htmlFor={`scope-${option.value}`} className="text-sm font-normal">
+            {option.label}
+          </Label>
+        </div>
+      ))}
+    </RadioGroup>
+  )
+}
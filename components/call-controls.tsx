@@ -1,6 +1,6 @@
 "use client"
 
-import { Mic, MicOff, Video, VideoOff, PhoneOff, MonitorUp, MonitorOff, Settings } from "lucide-react"
+import { Mic, MicOff, Video, VideoOff, PhoneOff, MonitorUp, MonitorOff, Settings, Circle, Square } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import {
   DropdownMenu,
@@ -31,6 +31,12 @@ export interface CallControlsProps {
   onToggleScreenShare: () => void
   /** Leave the call */
   onLeaveCall: () => void
+  /** Whether the call is being recorded */
+  isRecording?: boolean
+  /** Start or stop recording. The record button is only shown when set (for the call starter) */
+  onToggleRecording?: () => void
+  /** Whether a start/stop recording request is in flight */
+  isRecordingPending?: boolean
   /** Available microphones for selection */
   microphones?: DeviceInfo[]
   /** Available cameras for selection */
@@ -62,6 +68,7 @@ export interface CallControlsProps {
  * - Mute/unmute microphone
  * - Toggle camera on/off
  * - Start/stop screen sharing
+ * - Start/stop recording (call starter only)
  * - Leave call button
  * - Device selection dropdowns for advanced settings
  * 
@@ -86,6 +93,9 @@ export function CallControls({
   onToggleCamera,
   onToggleScreenShare,
   onLeaveCall,
+  isRecording = false,
+  onToggleRecording,
+  isRecordingPending = false,
   microphones = [],
   cameras = [],
   speakers = [],
@@ -149,6 +159,21 @@ export function CallControls({
         <span className="sr-only">{isScreenSharing ? "Stop sharing" : "Share screen"}</span>
       </Button>
 
+      {/* Record button */}
+      {onToggleRecording && (
+        <Button
+          variant="outline"
+          size="icon"
+          className={cn("h-10 w-10 rounded-full", isRecording && "border-destructive text-destructive")}
+          onClick={onToggleRecording}
+          disabled={disabled || isRecordingPending}
+          title={isRecording ? "Stop recording" : "Start recording"}
+        >
+          {isRecording ? <Square className="h-4 w-4 fill-current" /> : <Circle className="h-4 w-4 fill-destructive text-destructive" />}
+          <span className="sr-only">{isRecording ? "Stop recording" : "Start recording"}</span>
+        </Button>
+      )}
+
       {/* Device settings dropdown */}
       {hasDeviceOptions && (
         <DropdownMenu>
@@ -0,0 +1,179 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { AlertCircle, Download, Film, Loader2, Play } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import type { CallRecording, CallRecordingLink } from "@/lib/types"
+
+// How often to re-check while Daily is still processing a recording
+const PROCESSING_POLL_MS = 10_000
+
+interface CallRecordingsProps {
+  callId: string
+}
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return ""
+  const m = Math.floor(seconds / 60)
+  const s = seconds % 60
+  return `${m}:${s.toString().padStart(2, "0")}`
+}
+
+function formatStartedAt(iso: string): string {
+  return new Date(iso).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  })
+}
+
+async function fetchRecordingLink(callId: string, recordingId: string): Promise<string> {
+  const res = await fetch(`/api/calls/${callId}/recordings/${recordingId}`)
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}))
+    throw new Error(err.error ?? "Couldn't load the recording")
+  }
+  const link = (await res.json()) as CallRecordingLink
+  return link.url
+}
+
+/**
+ * The call's recordings with inline playback and download. Links to the files
+ * are short-lived, so they are fetched when a recording is played or
+ * downloaded rather than with the list.
+ */
+export function CallRecordings({ callId }: CallRecordingsProps) {
+  const [recordings, setRecordings] = useState<CallRecording[]>([])
+  const [loading, setLoading] = useState(true)
+  const [playing, setPlaying] = useState<{ id: string; url: string } | null>(null)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+
+  const loadRecordings = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/calls/${callId}/recordings`)
+      if (!res.ok) throw new Error("Failed to load recordings")
+      const data = (await res.json()) as { recordings: CallRecording[] }
+      setRecordings(data.recordings)
+    } catch (err) {
+      console.error("Failed to load recordings:", err)
+    } finally {
+      setLoading(false)
+    }
+  }, [callId])
+
+  useEffect(() => {
+    loadRecordings()
+  }, [loadRecordings])
+
+  const processing = recordings.some((r) => r.status === "recording")
+  useEffect(() => {
+    if (!processing) return
+    const timer = setInterval(loadRecordings, PROCESSING_POLL_MS)
+    return () => clearInterval(timer)
+  }, [processing, loadRecordings])
+
+  const handlePlay = async (recording: CallRecording) => {
+    if (playing?.id === recording.id) {
+      setPlaying(null)
+      return
+    }
+    setPendingId(recording.id)
+    try {
+      setPlaying({ id: recording.id, url: await fetchRecordingLink(callId, recording.id) })
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Couldn't load the recording")
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleDownload = async (recording: CallRecording) => {
+    setPendingId(recording.id)
+    try {
+      const url = await fetchRecordingLink(callId, recording.id)
+      const a = document.createElement("a")
+      a.href = url
+      a.download = ""
+      a.rel = "noopener"
+      a.click()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Couldn't load the recording")
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4">
+      <div className="mb-3 flex items-center gap-2">
+        <Film className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-sm font-semibold text-card-foreground">Recordings</h3>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-2 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+        </div>
+      ) : recordings.length === 0 ? (
+        <p className="text-xs text-muted-foreground">This call wasn&apos;t recorded.</p>
+      ) : (
+        <div className="flex flex-col gap-2">
+          {recordings.map((recording, i) => (
+            <div key={recording.id} className="flex flex-col gap-2">
+              <div className="flex items-center gap-3">
+                <div className="flex min-w-0 flex-1 flex-col">
+                  <span className="text-sm font-medium text-card-foreground">Recording {i + 1}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {formatStartedAt(recording.started_at)}
+                    {recording.duration_seconds !== null && ` · ${formatDuration(recording.duration_seconds)}`}
+                  </span>
+                </div>
+                {recording.status === "recording" && (
+                  <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    Processing
+                  </span>
+                )}
+                {recording.status === "error" && (
+                  <span className="flex items-center gap-1.5 text-xs text-destructive" title={recording.error ?? undefined}>
+                    <AlertCircle className="h-3 w-3" />
+                    Failed
+                  </span>
+                )}
+                {recording.status === "ready" && (
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 gap-1.5 text-xs"
+                      onClick={() => handlePlay(recording)}
+                      disabled={pendingId === recording.id}
+                    >
+                      <Play className="h-3.5 w-3.5" />
+                      {playing?.id === recording.id ? "Hide" : "Play"}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 gap-1.5 text-xs"
+                      onClick={() => handleDownload(recording)}
+                      disabled={pendingId === recording.id}
+                    >
+                      <Download className="h-3.5 w-3.5" />
+                      Download
+                    </Button>
+                  </div>
+                )}
+              </div>
+              {playing?.id === recording.id && (
+                <video src={playing.url} controls autoPlay className="w-full rounded-md bg-black" />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -9,17 +9,18 @@ import {
   Sparkles,
   FileText,
 } from "lucide-react"
+import { toast } from "sonner"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
-import { Switch } from "@/components/ui/switch"
-import { Label } from "@/components/ui/label"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { VideoGrid, VideoGridSkeleton, EmptyVideoGrid } from "@/components/video-grid"
 import { CallControls } from "@/components/call-controls"
-import { PreCallLobby, type ParticipantPreview } from "@/components/pre-call-lobby"
+import { CallRecordings } from "@/components/call-recordings"
+import { ParticipantChip, PreCallLobby, type ParticipantPreview } from "@/components/pre-call-lobby"
+import { useCallInvites } from "@/hooks/use-call-invites"
 import { useDailyCall } from "@/hooks/use-daily-call"
 import { users } from "@/lib/mock-data"
-import type { CreateCallResponse, Call } from "@/lib/types"
+import type { CallInvitee, CallRingStatus, CreateCallResponse, Call, UserPresence } from "@/lib/types"
 
 /**
  * View state for the call flow
@@ -34,6 +35,8 @@ interface CallData {
   roomUrl: string
   token: string
   title?: string
+  /** Whether the current user started the call (and so can record it) */
+  isStarter: boolean
 }
 
 /**
@@ -66,6 +69,8 @@ function getInitials(name: string): string {
 interface CallViewProps {
   /** Optional call ID to join an existing call (e.g., from calendar event) */
   callId?: string
+  /** Live presence keyed by profile ID, for the lobby's participant picker */
+  presence?: Record<string, UserPresence>
 }
 
 /**
@@ -78,13 +83,15 @@ interface CallViewProps {
  * 4. IN_CALL - Video grid with controls
  * 5. POST_CALL - Summary view
  */
-export function CallView({ callId }: CallViewProps) {
+export function CallView({ callId, presence }: CallViewProps) {
   const [viewState, setViewState] = useState<CallViewState>("idle")
   const [callData, setCallData] = useState<CallData | null>(null)
   const [error, setError] = useState<CallError | null>(null)
   const [selectedParticipants, setSelectedParticipants] = useState<ParticipantPreview[]>(availableParticipants)
   const [callDuration, setCallDuration] = useState<number>(0)
-  const [saveCall, setSaveCall] = useState(true)
+  // How invitees answered the last call, shown in the lobby when calling again
+  const [lastRingStatuses, setLastRingStatuses] = useState<Record<string, CallRingStatus>>({})
+  const invitees = useCallInvites(callData?.id)
 
   // Reset error when view state changes
   useEffect(() => {
@@ -126,6 +133,7 @@ export function CallView({ callId }: CallViewProps) {
         roomUrl: data.roomUrl,
         token: data.token,
         title: "Video Call",
+        isStarter: true,
       }
     } catch (err) {
       console.error("[CallView] Failed to create call:", err)
@@ -146,6 +154,7 @@ export function CallView({ callId }: CallViewProps) {
     }) => {
       // Update selected participants from the lobby
       setSelectedParticipants(options.participants)
+      setLastRingStatuses({})
       setViewState("joining")
       
       // Create the call if we don't have call data yet
@@ -171,6 +180,7 @@ export function CallView({ callId }: CallViewProps) {
           roomUrl: data.roomUrl,
           token: data.token,
           title: "Video Call",
+          isStarter: true,
         }
         
         setCallData(newCallData)
@@ -208,10 +218,11 @@ export function CallView({ callId }: CallViewProps) {
         // Continue with local leave even if backend fails
       }
     }
+    setLastRingStatuses(Object.fromEntries(invitees.map((i) => [i.user.id, i.ring_status])))
     
     setCallDuration(Math.floor(Math.random() * 30) + 10) // Mock duration
     setViewState("post-call")
-  }, [callData])
+  }, [callData, invitees])
 
   // Go back to idle from post-call
   const handleBackFromPostCall = useCallback(() => {
@@ -237,6 +248,7 @@ export function CallView({ callId }: CallViewProps) {
         roomUrl: data.roomUrl,
         token: data.token,
         title: data.call.title || "Video Call",
+        isStarter: Boolean(data.isStarter),
       })
       setViewState("in-call")
     } catch (err) {
@@ -253,11 +265,10 @@ export function CallView({ callId }: CallViewProps) {
   if (viewState === "post-call") {
     return (
       <PostCallView
+        callId={callData?.id ?? null}
         callTitle={callData?.title || "Video Call"}
         duration={callDuration}
         participantCount={selectedParticipants.length}
-        saveCall={saveCall}
-        setSaveCall={setSaveCall}
         onBack={handleBackFromPostCall}
       />
     )
@@ -284,6 +295,8 @@ export function CallView({ callId }: CallViewProps) {
           isLoading={false}
           onJoin={handleJoinCall}
           onCancel={handleCancelPreCall}
+          presence={presence}
+          ringStatuses={lastRingStatuses}
         />
       )}
 
@@ -296,9 +309,12 @@ export function CallView({ callId }: CallViewProps) {
 
       {viewState === "in-call" && callData && (
         <InCallView
+          callId={callData.id}
+          isStarter={callData.isStarter}
           roomUrl={callData.roomUrl}
           token={callData.token}
           callTitle={callData.title}
+          invitees={invitees}
           onLeave={handleLeaveCall}
           onError={(err) => {
             setError({ message: err.message })
@@ -380,14 +396,18 @@ function IdleView({ participants, error, onStartCall, onDismissError }: IdleView
 // ── In-Call View ─────────────────────────────────────────────────────────────
 
 interface InCallViewProps {
+  callId: string
+  isStarter: boolean
   roomUrl: string
   token: string
   callTitle?: string
+  /** People the call rang; those who haven't accepted are listed with their answer */
+  invitees: CallInvitee[]
   onLeave: () => void
   onError: (error: Error) => void
 }
 
-function InCallView({ roomUrl, token, callTitle, onLeave, onError }: InCallViewProps) {
+function InCallView({ callId, isStarter, roomUrl, token, callTitle, invitees, onLeave, onError }: InCallViewProps) {
   const {
     callState,
     participants,
@@ -395,6 +415,7 @@ function InCallView({ roomUrl, token, callTitle, onLeave, onError }: InCallViewP
     isMuted,
     isCameraOff,
     isScreenSharing,
+    isRecording,
     joinCall,
     leaveCall,
     toggleMute,
@@ -429,6 +450,31 @@ function InCallView({ roomUrl, token, callTitle, onLeave, onError }: InCallViewP
     }
   }, [callState, joinCall, roomUrl, token, onError])
 
+  // Recording is started and stopped through the API so only the call
+  // starter can do it; isRecording follows Daily's recording events
+  const [recordingPending, setRecordingPending] = useState(false)
+  const handleToggleRecording = useCallback(async () => {
+    setRecordingPending(true)
+    try {
+      const res = await fetch(`/api/calls/${callId}/recording`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: isRecording ? "stop" : "start" }),
+      })
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}))
+        toast.error(err.error ?? "Failed to update recording")
+      }
+    } catch (err) {
+      console.error("[InCallView] Failed to toggle recording:", err)
+      toast.error("Failed to update recording")
+    } finally {
+      setRecordingPending(false)
+    }
+  }, [callId, isRecording])
+
+  const pendingInvitees = useMemo(() => invitees.filter((i) => i.ring_status !== "accepted"), [invitees])
+
   // Handle leave
   const handleLeave = useCallback(async () => {
     await leaveCall()
@@ -468,9 +514,28 @@ function InCallView({ roomUrl, token, callTitle, onLeave, onError }: InCallViewP
   return (
     <div className="flex flex-1 flex-col overflow-hidden bg-foreground/[0.03]">
       {/* Call title bar */}
-      {callTitle && (
-        <div className="shrink-0 border-b border-border bg-card px-4 py-2">
-          <h2 className="text-sm font-medium text-foreground">{callTitle}</h2>
+      {(callTitle || isRecording) && (
+        <div className="flex shrink-0 items-center gap-3 border-b border-border bg-card px-4 py-2">
+          {callTitle && <h2 className="text-sm font-medium text-foreground">{callTitle}</h2>}
+          {isRecording && (
+            <span className="ml-auto flex items-center gap-1.5 rounded bg-destructive/10 px-1.5 py-0.5 text-[10px] font-semibold text-destructive">
+              <span className="h-1.5 w-1.5 animate-pulse rounded-full bg-destructive" />
+              REC
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Invitees who haven't accepted: still ringing, declined or missed */}
+      {pendingInvitees.length > 0 && (
+        <div className="flex shrink-0 flex-wrap items-center gap-2 border-b border-border bg-card px-4 py-2">
+          {pendingInvitees.map((invitee) => (
+            <ParticipantChip
+              key={invitee.user.id}
+              participant={{ id: invitee.user.id, name: invitee.user.name, avatarUrl: invitee.user.avatar_url }}
+              ringStatus={invitee.ring_status}
+            />
+          ))}
         </div>
       )}
 
@@ -495,6 +560,9 @@ function InCallView({ roomUrl, token, callTitle, onLeave, onError }: InCallViewP
         onToggleCamera={toggleCamera}
         onToggleScreenShare={toggleScreenShare}
         onLeaveCall={handleLeave}
+        isRecording={isRecording}
+        onToggleRecording={isStarter ? handleToggleRecording : undefined}
+        isRecordingPending={recordingPending}
         microphones={microphones}
         cameras={cameras}
         speakers={speakers}
@@ -513,20 +581,18 @@ function InCallView({ roomUrl, token, callTitle, onLeave, onError }: InCallViewP
 // ── Post-Call View ───────────────────────────────────────────────────────────
 
 interface PostCallViewProps {
+  callId: string | null
   callTitle: string
   duration: number
   participantCount: number
-  saveCall: boolean
-  setSaveCall: (v: boolean) => void
   onBack: () => void
 }
 
 function PostCallView({
+  callId,
   callTitle,
   duration,
   participantCount,
-  saveCall,
-  setSaveCall,
   onBack,
 }: PostCallViewProps) {
   return (
@@ -537,18 +603,12 @@ function PostCallView({
           {callTitle} &middot; {duration} minutes &middot; {participantCount} participants
         </p>
 
-        {/* Save toggle */}
-        <div className="mt-6 flex items-center gap-3 rounded-lg border border-border bg-card p-4">
-          <div className="flex flex-col gap-0.5">
-            <Label className="text-sm font-medium text-card-foreground">
-              Save this call recording?
-            </Label>
-            <span className="text-xs text-muted-foreground">
-              Recording and transcription will be stored for your team.
-            </span>
+        {/* Recordings */}
+        {callId && (
+          <div className="mt-6">
+            <CallRecordings callId={callId} />
           </div>
-          <Switch checked={saveCall} onCheckedChange={setSaveCall} className="ml-auto" />
-        </div>
+        )}
 
         {/* Transcription panel */}
         <div className="mt-6 rounded-lg border border-border bg-card p-4">
@@ -1,53 +1,220 @@
 "use client"
 
-import { useEffect, useState, useCallback } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { MessageList } from "@/components/message-list"
 import { MessageInput, type PendingAttachment } from "@/components/message-input"
-import type { ApiMessage } from "@/lib/types"
+import { ThreadPanel } from "@/components/thread-panel"
+import { usePaginatedMessages } from "@/hooks/use-paginated-messages"
+import { useRealtimeMessages } from "@/hooks/use-realtime-messages"
+import { useThreadReplies } from "@/hooks/use-thread-replies"
+import { useMessageReactions } from "@/hooks/use-message-reactions"
+import { useReadMarker } from "@/hooks/use-read-marker"
+import type { ApiMessage, ApiThread, MessageFocus, MessageSender } from "@/lib/types"
 
 interface ChannelViewProps {
   channelId: string
-  currentUserProfileId?: string | null
+  currentUser?: MessageSender | null
+  /** Message to scroll to and highlight, e.g. a search result */
+  focus?: MessageFocus | null
 }
 
-export function ChannelView({ channelId, currentUserProfileId }: ChannelViewProps) {
-  const [messages, setMessages] = useState<ApiMessage[]>([])
-  const [loading, setLoading] = useState(true)
+export function ChannelView({ channelId, currentUser, focus }: ChannelViewProps) {
+  const currentUserProfileId = currentUser?.id ?? null
+  const anchor = useMemo(
+    () => (focus ? { id: focus.anchorId, created_at: focus.anchorCreatedAt } : null),
+    [focus]
+  )
+  const {
+    messages,
+    setMessages,
+    loading,
+    hasOlder,
+    loadingOlder,
+    loadOlder,
+    hasNewer,
+    loadingNewer,
+    loadNewerPage,
+    loadNewer,
+  } = usePaginatedMessages("channel", channelId, anchor)
+  const [threadParentId, setThreadParentId] = useState<string | null>(null)
+  const thread = useThreadReplies(threadParentId)
+  const refreshThread = thread.refresh
+  const setThreadReplies = thread.setReplies
+  const threadParent = messages.find((m) => m.id === threadParentId) ?? thread.parent
+  const { toggleReaction } = useMessageReactions("channel", channelId, currentUserProfileId, [
+    setMessages,
+    setThreadReplies,
+  ])
+  const { lastReadAt } = useReadMarker("channel", channelId, messages)
 
-  const fetchMessages = useCallback(async () => {
-    setLoading(true)
-    try {
-      const res = await fetch(`/api/messages?channelId=${encodeURIComponent(channelId)}`)
-      if (res.ok) {
-        const data = await res.json()
-        setMessages(Array.isArray(data) ? data : [])
-      } else {
-        setMessages([])
-      }
-    } catch {
-      setMessages([])
-    } finally {
-      setLoading(false)
-    }
-  }, [channelId])
+  // Realtime handlers run outside render; read the latest list from a ref
+  const messagesRef = useRef(messages)
+  messagesRef.current = messages
 
+  // Search hits inside a thread open that thread
   useEffect(() => {
-    fetchMessages()
-  }, [fetchMessages])
+    setThreadParentId(focus?.parentMessageId ?? null)
+  }, [channelId, focus])
+
+  // Copy the thread's reply count and latest reply onto its parent in the main list
+  const syncThreadSummary = useCallback(
+    (data: ApiThread | null) => {
+      if (!data) return
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === data.parent.id
+            ? { ...m, reply_count: data.parent.reply_count, last_reply: data.parent.last_reply }
+            : m
+        )
+      )
+    },
+    [setMessages]
+  )
+
+  // Thread summaries for parents whose thread isn't open come from the replies endpoint
+  const refreshThreadSummary = useCallback(
+    async (parentId: string) => {
+      if (parentId === threadParentId) {
+        syncThreadSummary(await refreshThread())
+        return
+      }
+      if (!messagesRef.current.some((m) => m.id === parentId)) return
+      const res = await fetch(`/api/messages/${parentId}/replies`)
+      if (res.ok) syncThreadSummary(await res.json())
+    },
+    [threadParentId, refreshThread, syncThreadSummary]
+  )
+
+  useRealtimeMessages("channel", channelId, {
+    onInsert: (message) => {
+      if (message.parent_message_id) {
+        // Own replies are synced by handleSendReply
+        if (message.sender_id === currentUserProfileId) return
+        refreshThreadSummary(message.parent_message_id).catch((err) =>
+          console.error("Failed to refresh thread:", err)
+        )
+        return
+      }
+      const current = messagesRef.current
+      if (current.some((m) => m.id === message.id)) return
+      // Our own send is still in flight; handleSend swaps in the stored message
+      if (
+        message.sender_id === currentUserProfileId &&
+        current.some((m) => m.pending && m.content === message.content)
+      ) {
+        return
+      }
+      // While newer history is still unloaded, appending would leave a gap; it arrives with the next page
+      if (hasNewer) return
+      // Rows carry no sender or attachment details, so fetch the normalized messages
+      loadNewer().catch((err) => console.error("Failed to load new messages:", err))
+    },
+    onUpdate: (message) => {
+      const applyEdit = (prev: ApiMessage[]) =>
+        prev.map((m) =>
+          m.id === message.id
+            ? {
+                ...m,
+                content: message.content,
+                mentions: message.mentions ?? [],
+                mention_broadcast: message.mention_broadcast ?? null,
+                unfurls: message.unfurls ?? [],
+              }
+            : m
+        )
+      if (message.parent_message_id) {
+        setThreadReplies(applyEdit)
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.last_reply?.id === message.id
+              ? { ...m, last_reply: { ...m.last_reply, content: message.content } }
+              : m
+          )
+        )
+        return
+      }
+      setMessages(applyEdit)
+    },
+    onDelete: (oldMessage) => {
+      if (!oldMessage.id) return
+      if (oldMessage.parent_message_id) {
+        setThreadReplies((prev) => prev.filter((m) => m.id !== oldMessage.id))
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.id === oldMessage.parent_message_id
+              ? {
+                  ...m,
+                  reply_count: Math.max(0, m.reply_count - 1),
+                  last_reply: m.last_reply?.id === oldMessage.id ? null : m.last_reply,
+                }
+              : m
+          )
+        )
+        return
+      }
+      setMessages((prev) => prev.filter((m) => m.id !== oldMessage.id))
+      setThreadParentId((current) => (current === oldMessage.id ? null : current))
+    },
+  })
 
   const handleSend = useCallback(
-    async (content: string, attachment?: PendingAttachment) => {
-      const res = await fetch("/api/messages", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ content, channelId, ...(attachment && { attachment }) }),
-      })
-      if (!res.ok) {
-        throw new Error("Failed to send message")
+    async (content: string, attachments: PendingAttachment[], mentionIds: string[]) => {
+      // Show the message right away; it's replaced by the stored copy once the POST returns
+      const tempId = `pending-${crypto.randomUUID()}`
+      if (currentUser && !hasNewer) {
+        const optimistic: ApiMessage = {
+          id: tempId,
+          content,
+          created_at: new Date().toISOString(),
+          sender: currentUser,
+          file_attachments: attachments.map((a, i) => ({
+            id: `${tempId}-${i}`,
+            name: a.name,
+            type: a.type,
+            size: a.size,
+            storage_path: a.storagePath,
+          })),
+          parent_message_id: null,
+          reply_count: 0,
+          last_reply: null,
+          reactions: [],
+          mentions: [],
+          mention_broadcast: null,
+          unfurls: [],
+          system_event: null,
+          pending: true,
+        }
+        setMessages((prev) => [...prev, optimistic])
+      }
+
+      try {
+        const res = await fetch("/api/messages", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ content, channelId, attachments, mentionIds }),
+        })
+        if (!res.ok) {
+          throw new Error("Failed to send message")
+        }
+        const data = await res.json()
+        const stored: ApiMessage | null = data?.message ?? null
+        if (!stored || hasNewer) {
+          setMessages((prev) => prev.filter((m) => m.id !== tempId))
+          await loadNewer()
+          return
+        }
+        // Realtime may have delivered the stored message first
+        setMessages((prev) =>
+          prev.some((m) => m.id === stored.id)
+            ? prev.filter((m) => m.id !== tempId)
+            : prev.map((m) => (m.id === tempId ? stored : m))
+        )
+      } catch (err) {
+        setMessages((prev) => prev.filter((m) => m.id !== tempId))
+        throw err
       }
-      await fetchMessages()
     },
-    [channelId, fetchMessages]
+    [channelId, currentUser, hasNewer, setMessages, loadNewer]
   )
 
   const handleSendError = useCallback((err: unknown) => {
@@ -64,9 +231,12 @@ export function ChannelView({ channelId, currentUserProfileId }: ChannelViewProp
       if (!res.ok) {
         throw new Error("Failed to edit message")
       }
-      await fetchMessages()
+      const { mentions, mention_broadcast } = await res.json()
+      setMessages((prev) =>
+        prev.map((m) => (m.id === messageId ? { ...m, content, mentions, mention_broadcast } : m))
+      )
     },
-    [fetchMessages]
+    [setMessages]
   )
 
   const handleDelete = useCallback(
@@ -77,26 +247,136 @@ export function ChannelView({ channelId, currentUserProfileId }: ChannelViewProp
       if (!res.ok) {
         throw new Error("Failed to delete message")
       }
-      await fetchMessages()
+      setMessages((prev) => prev.filter((m) => m.id !== messageId))
+      // Replies cascade with their parent
+      setThreadParentId((current) => (current === messageId ? null : current))
+    },
+    [setMessages]
+  )
+
+  // The message may be in the main list or an open thread
+  const handleDismissUnfurl = useCallback(
+    async (messageId: string, url: string) => {
+      const res = await fetch(`/api/messages/${messageId}/unfurls`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url }),
+      })
+      if (!res.ok) {
+        throw new Error("Failed to dismiss preview")
+      }
+      const dismiss = (prev: ApiMessage[]) =>
+        prev.map((m) => (m.id === messageId ? { ...m, unfurls: m.unfurls.filter((u) => u.url !== url) } : m))
+      setMessages(dismiss)
+      setThreadReplies(dismiss)
+    },
+    [setMessages, setThreadReplies]
+  )
+
+  const handleSendReply = useCallback(
+    async (content: string, attachments: PendingAttachment[], mentionIds: string[]) => {
+      if (!threadParentId) return
+      const res = await fetch("/api/messages", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          content,
+          channelId,
+          parentMessageId: threadParentId,
+          attachments,
+          mentionIds,
+        }),
+      })
+      if (!res.ok) {
+        throw new Error("Failed to send reply")
+      }
+      syncThreadSummary(await refreshThread())
+    },
+    [channelId, threadParentId, refreshThread, syncThreadSummary]
+  )
+
+  const handleEditReply = useCallback(
+    async (messageId: string, content: string) => {
+      const res = await fetch(`/api/messages/${messageId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+      })
+      if (!res.ok) {
+        throw new Error("Failed to edit message")
+      }
+      const { mentions, mention_broadcast } = await res.json()
+      setThreadReplies((prev) =>
+        prev.map((m) => (m.id === messageId ? { ...m, content, mentions, mention_broadcast } : m))
+      )
+      syncThreadSummary(await refreshThread())
+    },
+    [setThreadReplies, refreshThread, syncThreadSummary]
+  )
+
+  const handleDeleteReply = useCallback(
+    async (messageId: string) => {
+      const res = await fetch(`/api/messages/${messageId}`, {
+        method: "DELETE",
+      })
+      if (!res.ok) {
+        throw new Error("Failed to delete message")
+      }
+      setThreadReplies((prev) => prev.filter((m) => m.id !== messageId))
+      syncThreadSummary(await refreshThread())
     },
-    [fetchMessages]
+    [setThreadReplies, refreshThread, syncThreadSummary]
   )
 
   return (
-    <div className="flex flex-1 flex-col overflow-hidden">
-      {loading ? (
-        <div className="flex flex-1 items-center justify-center text-muted-foreground">
-          <div className="h-6 w-6 animate-spin rounded-full border-2 border-current border-t-transparent" />
-        </div>
-      ) : (
-        <MessageList
-          messages={messages}
+    <div className="flex flex-1 overflow-hidden">
+      <div className="flex flex-1 flex-col overflow-hidden">
+        {loading ? (
+          <div className="flex flex-1 items-center justify-center text-muted-foreground">
+            <div className="h-6 w-6 animate-spin rounded-full border-2 border-current border-t-transparent" />
+          </div>
+        ) : (
+          <MessageList
+            messages={messages}
+            currentUserProfileId={currentUserProfileId}
+            onEdit={handleEdit}
+            onDelete={handleDelete}
+            hasMore={hasOlder}
+            loadingMore={loadingOlder}
+            onLoadMore={loadOlder}
+            hasNewer={hasNewer}
+            loadingNewer={loadingNewer}
+            onLoadNewer={loadNewerPage}
+            highlightMessageId={focus?.anchorId}
+            unreadSince={lastReadAt}
+            onOpenThread={(message) => setThreadParentId(message.id)}
+            onToggleReaction={toggleReaction}
+            onDismissUnfurl={handleDismissUnfurl}
+          />
+        )}
+        <MessageInput
+          placeholder="Message this channel..."
+          onSend={handleSend}
+          onError={handleSendError}
+          broadcastMentions
+        />
+      </div>
+      {threadParent && (
+        <ThreadPanel
+          parent={threadParent}
+          replies={thread.replies}
+          loading={thread.loading}
+          highlightMessageId={focus?.parentMessageId ? focus.messageId : null}
           currentUserProfileId={currentUserProfileId}
-          onEdit={handleEdit}
-          onDelete={handleDelete}
+          onClose={() => setThreadParentId(null)}
+          onSend={handleSendReply}
+          onEdit={handleEditReply}
+          broadcastMentions
+          onDelete={handleDeleteReply}
+          onToggleReaction={toggleReaction}
+          onDismissUnfurl={handleDismissUnfurl}
         />
       )}
-      <MessageInput placeholder="Message this channel..." onSend={handleSend} onError={handleSendError} />
     </div>
   )
 }
@@ -1,19 +1,28 @@
 "use client"
 
-import { useEffect, useState, useCallback } from "react"
+import { useCallback, useEffect, useMemo, useState } from "react"
 import { MessageList } from "@/components/message-list"
 import { MessageInput, type PendingAttachment } from "@/components/message-input"
+import { ThreadPanel } from "@/components/thread-panel"
+import { GroupChatDialog } from "@/components/group-chat-dialog"
+import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
-import { Circle } from "lucide-react"
+import { Circle, Settings } from "lucide-react"
 import { cn } from "@/lib/utils"
-import type { ApiMessage } from "@/lib/types"
+import { formatLastSeen } from "@/lib/presence"
+import type { ApiMessage, ApiThread, MessageFocus, UserPresence } from "@/lib/types"
 import { useRealtimeMessages, type MessageRow } from "@/hooks/use-realtime-messages"
 import { useTypingIndicator } from "@/hooks/use-typing-indicator"
+import { usePaginatedMessages } from "@/hooks/use-paginated-messages"
+import { useThreadReplies } from "@/hooks/use-thread-replies"
+import { useMessageReactions } from "@/hooks/use-message-reactions"
+import { useReadMarker } from "@/hooks/use-read-marker"
 
 interface ChatParticipant {
   id: string
   name: string
   avatar_url: string | null
+  last_seen_at?: string | null
 }
 
 interface Chat {
@@ -27,6 +36,12 @@ interface ChatViewProps {
   chatId: string
   chat?: Chat | null
   currentUserProfileId?: string | null
+  /** Message to scroll to and highlight, e.g. a search result */
+  focus?: MessageFocus | null
+  /** Live presence keyed by profile ID, from usePresence */
+  presence?: Record<string, UserPresence>
+  /** Called after the group is renamed or its members change */
+  onChatChanged?: () => void
 }
 
 const statusColor: Record<string, string> = {
@@ -53,14 +68,74 @@ function messageRowToApiMessage(row: MessageRow, participants: ChatParticipant[]
     sender: sender
       ? { id: sender.id, name: sender.name, avatar_url: sender.avatar_url }
       : { id: row.sender_id, name: "Unknown", avatar_url: null },
-    file_attachment: null,
+    file_attachments: [],
+    parent_message_id: row.parent_message_id ?? null,
+    reply_count: 0,
+    last_reply: null,
+    reactions: [],
+    mentions: row.mentions ?? [],
+    mention_broadcast: row.mention_broadcast ?? null,
+    unfurls: row.unfurls ?? [],
+    system_event: row.system_event ?? null,
   }
 }
 
-export function ChatView({ chatId, chat, currentUserProfileId }: ChatViewProps) {
-  const [messages, setMessages] = useState<ApiMessage[]>([])
-  const [loading, setLoading] = useState(true)
+export function ChatView({
+  chatId,
+  chat,
+  currentUserProfileId,
+  focus,
+  presence = {},
+  onChatChanged,
+}: ChatViewProps) {
+  const anchor = useMemo(
+    () => (focus ? { id: focus.anchorId, created_at: focus.anchorCreatedAt } : null),
+    [focus]
+  )
+  const {
+    messages,
+    setMessages,
+    loading,
+    hasOlder,
+    loadingOlder,
+    loadOlder,
+    hasNewer,
+    loadingNewer,
+    loadNewerPage,
+    loadNewer,
+  } = usePaginatedMessages("chat", chatId, anchor)
   const participants = chat?.participants ?? []
+  const [threadParentId, setThreadParentId] = useState<string | null>(null)
+  const [groupSettingsOpen, setGroupSettingsOpen] = useState(false)
+  const thread = useThreadReplies(threadParentId)
+  const refreshThread = thread.refresh
+  const setThreadReplies = thread.setReplies
+  const threadParent = messages.find((m) => m.id === threadParentId) ?? thread.parent
+  const { toggleReaction } = useMessageReactions("chat", chatId, currentUserProfileId, [
+    setMessages,
+    setThreadReplies,
+  ])
+  const { lastReadAt, receipts } = useReadMarker("chat", chatId, messages)
+
+  // Place each participant's "Seen by" at the newest loaded message they have read
+  const seenBy = useMemo(() => {
+    const result: Record<string, string[]> = {}
+    for (const receipt of receipts) {
+      if (receipt.user_id === currentUserProfileId) continue
+      const reader = participants.find((p) => p.id === receipt.user_id)
+      if (!reader) continue
+      const readAt = new Date(receipt.last_read_at).getTime()
+      const seen = [...messages].reverse().find((m) => new Date(m.created_at).getTime() <= readAt)
+      if (!seen) continue
+      result[seen.id] = [...(result[seen.id] ?? []), reader.name]
+    }
+    return result
+  }, [receipts, messages, participants, currentUserProfileId])
+
+  // Search hits inside a thread open that thread
+  useEffect(() => {
+    setThreadParentId(focus?.parentMessageId ?? null)
+  }, [chatId, focus])
 
   const { typingUsersArray, sendTyping, clearTyping, isAnyoneTyping } = useTypingIndicator(
     chatId,
@@ -68,26 +143,85 @@ export function ChatView({ chatId, chat, currentUserProfileId }: ChatViewProps)
     participants.find((p) => p.id === currentUserProfileId)?.name ?? null
   )
 
-  useRealtimeMessages(chatId, {
+  useRealtimeMessages("chat", chatId, {
     onInsert: (message) => {
       if (message.sender_id === currentUserProfileId) return
+      const apiMsg = messageRowToApiMessage(message, participants)
+      if (message.parent_message_id) {
+        const parentId = message.parent_message_id
+        if (parentId === threadParentId) {
+          setThreadReplies((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, apiMsg]))
+        }
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.id === parentId
+              ? {
+                  ...m,
+                  reply_count: m.reply_count + 1,
+                  last_reply: {
+                    id: apiMsg.id,
+                    content: apiMsg.content,
+                    created_at: apiMsg.created_at,
+                    sender: apiMsg.sender,
+                  },
+                }
+              : m
+          )
+        )
+        return
+      }
+      // While newer history is still unloaded, appending would leave a gap; it arrives with the next page
+      if (hasNewer) return
       setMessages((prev) => {
         if (prev.some((m) => m.id === message.id)) return prev
-        const apiMsg = messageRowToApiMessage(message, participants)
         return [...prev, apiMsg]
       })
     },
     onUpdate: (message) => {
-      setMessages((prev) =>
+      const applyEdit = (prev: ApiMessage[]) =>
         prev.map((m) =>
-          m.id === message.id ? { ...m, content: message.content } : m
+          m.id === message.id
+            ? {
+                ...m,
+                content: message.content,
+                mentions: message.mentions ?? [],
+                mention_broadcast: message.mention_broadcast ?? null,
+                unfurls: message.unfurls ?? [],
+              }
+            : m
         )
-      )
+      if (message.parent_message_id) {
+        setThreadReplies(applyEdit)
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.last_reply?.id === message.id
+              ? { ...m, last_reply: { ...m.last_reply, content: message.content } }
+              : m
+          )
+        )
+        return
+      }
+      setMessages(applyEdit)
     },
     onDelete: (oldMessage) => {
-      if (oldMessage.id) {
-        setMessages((prev) => prev.filter((m) => m.id !== oldMessage.id))
+      if (!oldMessage.id) return
+      if (oldMessage.parent_message_id) {
+        setThreadReplies((prev) => prev.filter((m) => m.id !== oldMessage.id))
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.id === oldMessage.parent_message_id
+              ? {
+                  ...m,
+                  reply_count: Math.max(0, m.reply_count - 1),
+                  last_reply: m.last_reply?.id === oldMessage.id ? null : m.last_reply,
+                }
+              : m
+          )
+        )
+        return
       }
+      setMessages((prev) => prev.filter((m) => m.id !== oldMessage.id))
+      setThreadParentId((current) => (current === oldMessage.id ? null : current))
     },
   })
 
@@ -97,41 +231,20 @@ export function ChatView({ chatId, chat, currentUserProfileId }: ChatViewProps)
       " typing..."
     : null
 
-  const fetchMessages = useCallback(async () => {
-    setLoading(true)
-    try {
-      const res = await fetch(`/api/messages?chatId=${encodeURIComponent(chatId)}`)
-      if (res.ok) {
-        const data = await res.json()
-        setMessages(Array.isArray(data) ? data : [])
-      } else {
-        setMessages([])
-      }
-    } catch {
-      setMessages([])
-    } finally {
-      setLoading(false)
-    }
-  }, [chatId])
-
-  useEffect(() => {
-    fetchMessages()
-  }, [fetchMessages])
-
   const handleSend = useCallback(
-    async (content: string, attachment?: PendingAttachment) => {
+    async (content: string, attachments: PendingAttachment[], mentionIds: string[]) => {
       const res = await fetch("/api/messages", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ content, chatId, ...(attachment && { attachment }) }),
+        body: JSON.stringify({ content, chatId, attachments, mentionIds }),
       })
       if (!res.ok) {
         throw new Error("Failed to send message")
       }
       clearTyping()
-      await fetchMessages()
+      await loadNewer()
     },
-    [chatId, fetchMessages, clearTyping]
+    [chatId, loadNewer, clearTyping]
   )
 
   const handleSendError = useCallback((err: unknown) => {
@@ -148,9 +261,12 @@ export function ChatView({ chatId, chat, currentUserProfileId }: ChatViewProps)
       if (!res.ok) {
         throw new Error("Failed to edit message")
       }
-      await fetchMessages()
+      const { mentions, mention_broadcast } = await res.json()
+      setMessages((prev) =>
+        prev.map((m) => (m.id === messageId ? { ...m, content, mentions, mention_broadcast } : m))
+      )
     },
-    [fetchMessages]
+    [setMessages]
   )
 
   const handleDelete = useCallback(
@@ -161,9 +277,100 @@ export function ChatView({ chatId, chat, currentUserProfileId }: ChatViewProps)
       if (!res.ok) {
         throw new Error("Failed to delete message")
       }
-      await fetchMessages()
+      setMessages((prev) => prev.filter((m) => m.id !== messageId))
+      // Replies cascade with their parent
+      setThreadParentId((current) => (current === messageId ? null : current))
+    },
+    [setMessages]
+  )
+
+  // The message may be in the main list or an open thread
+  const handleDismissUnfurl = useCallback(
+    async (messageId: string, url: string) => {
+      const res = await fetch(`/api/messages/${messageId}/unfurls`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url }),
+      })
+      if (!res.ok) {
+        throw new Error("Failed to dismiss preview")
+      }
+      const dismiss = (prev: ApiMessage[]) =>
+        prev.map((m) => (m.id === messageId ? { ...m, unfurls: m.unfurls.filter((u) => u.url !== url) } : m))
+      setMessages(dismiss)
+      setThreadReplies(dismiss)
+    },
+    [setMessages, setThreadReplies]
+  )
+
+  // Copy the thread's reply count and latest reply onto its parent in the main list
+  const syncThreadSummary = useCallback(
+    (data: ApiThread | null) => {
+      if (!data) return
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === data.parent.id
+            ? { ...m, reply_count: data.parent.reply_count, last_reply: data.parent.last_reply }
+            : m
+        )
+      )
+    },
+    [setMessages]
+  )
+
+  const handleSendReply = useCallback(
+    async (content: string, attachments: PendingAttachment[], mentionIds: string[]) => {
+      if (!threadParentId) return
+      const res = await fetch("/api/messages", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          content,
+          chatId,
+          parentMessageId: threadParentId,
+          attachments,
+          mentionIds,
+        }),
+      })
+      if (!res.ok) {
+        throw new Error("Failed to send reply")
+      }
+      syncThreadSummary(await refreshThread())
+    },
+    [chatId, threadParentId, refreshThread, syncThreadSummary]
+  )
+
+  const handleEditReply = useCallback(
+    async (messageId: string, content: string) => {
+      const res = await fetch(`/api/messages/${messageId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+      })
+      if (!res.ok) {
+        throw new Error("Failed to edit message")
+      }
+      const { mentions, mention_broadcast } = await res.json()
+      setThreadReplies((prev) =>
+        prev.map((m) => (m.id === messageId ? { ...m, content, mentions, mention_broadcast } : m))
+      )
+      syncThreadSummary(await refreshThread())
+    },
+    [setThreadReplies, refreshThread, syncThreadSummary]
+  )
+
+  const handleDeleteReply = useCallback(
+    async (messageId: string) => {
+      const res = await fetch(`/api/messages/${messageId}`, {
+        method: "DELETE",
+      })
+      if (!res.ok) {
+        throw new Error("Failed to delete message")
+      }
+      setThreadReplies((prev) => prev.filter((m) => m.id !== messageId))
+      syncThreadSummary(await refreshThread())
     },
-    [fetchMessages]
+    [setThreadReplies, refreshThread, syncThreadSummary]
   )
 
   const displayName =
@@ -172,6 +379,13 @@ export function ChatView({ chatId, chat, currentUserProfileId }: ChatViewProps)
       ? participants.find((p) => p.id !== currentUserProfileId)?.name ?? "Direct Message"
       : "Chat")
 
+  const otherParticipant = !chat?.isGroup
+    ? participants.find((p) => p.id !== currentUserProfileId) ?? null
+    : null
+  const otherPresence = otherParticipant ? presence[otherParticipant.id] : undefined
+  const otherStatus = otherPresence?.status ?? "offline"
+  const lastSeen = otherStatus === "offline" ? formatLastSeen(otherParticipant?.last_seen_at) : null
+
   return (
     <div className="flex flex-1 flex-col overflow-hidden">
       {/* Participant bar */}
@@ -195,10 +409,16 @@ export function ChatView({ chatId, chat, currentUserProfileId }: ChatViewProps)
           <div className="flex flex-col">
             <span className="text-sm font-medium text-card-foreground">{displayName}</span>
             <div className="flex items-center gap-1">
-              {!chat.isGroup && participants[0] && (
+              {otherParticipant && (
                 <>
-                  <Circle className={cn("h-2 w-2 fill-current", statusColor.offline)} />
-                  <span className="text-[11px] text-muted-foreground capitalize">offline</span>
+                  <Circle className={cn("h-2 w-2 fill-current", statusColor[otherStatus])} />
+                  <span className="text-[11px] text-muted-foreground capitalize">{otherStatus}</span>
+                  {otherPresence?.statusMessage && (
+                    <span className="truncate text-[11px] text-muted-foreground">· {otherPresence.statusMessage}</span>
+                  )}
+                  {lastSeen && (
+                    <span className="text-[11px] text-muted-foreground">· last seen {lastSeen}</span>
+                  )}
                 </>
               )}
               {chat.isGroup && (
@@ -206,29 +426,80 @@ export function ChatView({ chatId, chat, currentUserProfileId }: ChatViewProps)
               )}
             </div>
           </div>
+          {chat.isGroup && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="ml-auto h-8 w-8 text-muted-foreground hover:text-foreground"
+                onClick={() => setGroupSettingsOpen(true)}
+                aria-label="Group settings"
+              >
+                <Settings className="h-4 w-4" />
+              </Button>
+              <GroupChatDialog
+                open={groupSettingsOpen}
+                onOpenChange={setGroupSettingsOpen}
+                chat={chat}
+                currentUserProfileId={currentUserProfileId}
+                onChanged={onChatChanged}
+              />
+            </>
+          )}
         </div>
       )}
 
-      {loading ? (
-        <div className="flex flex-1 items-center justify-center text-muted-foreground">
-          <div className="h-6 w-6 animate-spin rounded-full border-2 border-current border-t-transparent" />
+      <div className="flex flex-1 overflow-hidden">
+        <div className="flex flex-1 flex-col overflow-hidden">
+          {loading ? (
+            <div className="flex flex-1 items-center justify-center text-muted-foreground">
+              <div className="h-6 w-6 animate-spin rounded-full border-2 border-current border-t-transparent" />
+            </div>
+          ) : (
+            <MessageList
+              messages={messages}
+              currentUserProfileId={currentUserProfileId}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+              hasMore={hasOlder}
+              loadingMore={loadingOlder}
+              onLoadMore={loadOlder}
+              hasNewer={hasNewer}
+              loadingNewer={loadingNewer}
+              onLoadNewer={loadNewerPage}
+              highlightMessageId={focus?.anchorId}
+              unreadSince={lastReadAt}
+              seenBy={seenBy}
+              onOpenThread={(message) => setThreadParentId(message.id)}
+              onToggleReaction={toggleReaction}
+              onDismissUnfurl={handleDismissUnfurl}
+            />
+          )}
+          <MessageInput
+            placeholder={chat ? `Message ${displayName}...` : "Type a message..."}
+            onSend={handleSend}
+            onError={handleSendError}
+            onTyping={sendTyping}
+            onClearTyping={clearTyping}
+            typingLabel={typingLabel}
+          />
         </div>
-      ) : (
-        <MessageList
-          messages={messages}
-          currentUserProfileId={currentUserProfileId}
-          onEdit={handleEdit}
-          onDelete={handleDelete}
-        />
-      )}
-      <MessageInput
-        placeholder={chat ? `Message ${displayName}...` : "Type a message..."}
-        onSend={handleSend}
-        onError={handleSendError}
-        onTyping={sendTyping}
-        onClearTyping={clearTyping}
-        typingLabel={typingLabel}
-      />
+        {threadParent && (
+          <ThreadPanel
+            parent={threadParent}
+            replies={thread.replies}
+            loading={thread.loading}
+            highlightMessageId={focus?.parentMessageId ? focus.messageId : null}
+            currentUserProfileId={currentUserProfileId}
+            onClose={() => setThreadParentId(null)}
+            onSend={handleSendReply}
+            onEdit={handleEditReply}
+            onDelete={handleDeleteReply}
+            onToggleReaction={toggleReaction}
+            onDismissUnfurl={handleDismissUnfurl}
+          />
+        )}
+      </div>
     </div>
   )
 }
@@ -0,0 +1,85 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Check, Copy } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { highlightCode, type TokenType } from "@/lib/syntax-highlight"
+
+interface CodeBlockProps {
+  code: string
+  /** Language tag from the fence, e.g. "ts" */
+  lang: string | null
+}
+
+const TOKEN_CLASSES: Record<TokenType, string | undefined> = {
+  plain: undefined,
+  comment: "italic text-muted-foreground",
+  string: "text-emerald-700 dark:text-emerald-400",
+  number: "text-orange-700 dark:text-orange-300",
+  keyword: "text-violet-700 dark:text-violet-400",
+  literal: "text-orange-700 dark:text-orange-300",
+  type: "text-sky-700 dark:text-sky-300",
+  function: "text-blue-700 dark:text-blue-400",
+  property: "text-rose-700 dark:text-rose-300",
+  tag: "text-rose-700 dark:text-rose-300",
+  attribute: "text-amber-700 dark:text-amber-300",
+  variable: "text-rose-700 dark:text-rose-300",
+  meta: "text-slate-500 dark:text-slate-400",
+  inserted: "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400",
+  deleted: "bg-destructive/10 text-destructive",
+}
+
+/** A fenced code block with syntax highlighting and a copy button */
+export function CodeBlock({ code, lang }: CodeBlockProps) {
+  const [copied, setCopied] = useState(false)
+  const resetRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const tokens = useMemo(() => highlightCode(code, lang), [code, lang])
+
+  useEffect(() => () => {
+    if (resetRef.current) clearTimeout(resetRef.current)
+  }, [])
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(code)
+      setCopied(true)
+      if (resetRef.current) clearTimeout(resetRef.current)
+      resetRef.current = setTimeout(() => setCopied(false), 2000)
+    } catch {
+      toast.error("Failed to copy code")
+    }
+  }
+
+  return (
+    <div className="my-1 overflow-hidden rounded-md border border-border bg-muted/50">
+      <div className="flex items-center justify-between border-b border-border px-3 py-1">
+        <span className="font-mono text-[11px] text-muted-foreground">{lang || "text"}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 gap-1 px-1.5 text-[11px] text-muted-foreground hover:text-foreground"
+          onClick={copy}
+          aria-label={copied ? "Copied" : "Copy code"}
+        >
+          {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+          {copied ? "Copied" : "Copy"}
+        </Button>
+      </div>
+      <pre className="overflow-x-auto px-3 py-2 text-[13px] leading-relaxed">
+        <code className="font-mono">
+          {tokens.map((token, i) => {
+            const className = TOKEN_CLASSES[token.type]
+            return className ? (
+              <span key={i} className={className}>
+                {token.text}
+              </span>
+            ) : (
+              token.text
+            )
+          })}
+        </code>
+      </pre>
+    </div>
+  )
+}
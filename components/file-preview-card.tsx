@@ -15,16 +15,46 @@ const fileIcons: Record<string, React.ReactNode> = {
 }
 
 interface FilePreviewCardProps {
-  file: FileAttachment
+  /** A message's attachments; more than one renders as a gallery */
+  files: FileAttachment[]
 }
 
-export function FilePreviewCard({ file }: FilePreviewCardProps) {
-  const downloadUrl = file.storage_path
-    ? `/api/files/download?path=${encodeURIComponent(file.storage_path)}`
+// "inline" displays in the browser (thumbnails, previews); "attachment" saves the file
+function getDownloadUrl(file: FileAttachment, disposition: "inline" | "attachment"): string | null {
+  return file.storage_path
+    ? `/api/files/download?path=${encodeURIComponent(file.storage_path)}&disposition=${disposition}`
     : null
+}
 
+function DownloadButton({ file }: { file: FileAttachment }) {
+  const downloadUrl = getDownloadUrl(file, "attachment")
+  return downloadUrl ? (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="ml-auto h-8 w-8 shrink-0 text-muted-foreground hover:text-foreground"
+      asChild
+    >
+      <a href={downloadUrl} target="_blank" rel="noopener noreferrer" download={file.name} aria-label="Download">
+        <Download className="h-4 w-4" />
+      </a>
+    </Button>
+  ) : (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="ml-auto h-8 w-8 shrink-0 text-muted-foreground opacity-50"
+      disabled
+      aria-label="Download unavailable"
+    >
+      <Download className="h-4 w-4" />
+    </Button>
+  )
+}
+
+function FileCard({ file }: { file: FileAttachment }) {
   return (
-    <div className="mt-1.5 flex items-center gap-3 rounded-lg border border-border bg-card p-3 max-w-xs">
+    <div className="flex min-w-0 items-center gap-3 rounded-lg border border-border bg-card p-3">
       <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-muted">
         {fileIcons[file.type] || <FileText className="h-5 w-5 text-muted-foreground" />}
       </div>
@@ -32,27 +62,59 @@ export function FilePreviewCard({ file }: FilePreviewCardProps) {
         <span className="truncate text-sm font-medium text-card-foreground">{file.name}</span>
         <span className="text-[11px] text-muted-foreground uppercase">{file.type} &middot; {file.size}</span>
       </div>
-      {downloadUrl ? (
-        <Button
-          variant="ghost"
-          size="icon"
-          className="ml-auto h-8 w-8 shrink-0 text-muted-foreground hover:text-foreground"
-          asChild
-        >
-          <a href={downloadUrl} target="_blank" rel="noopener noreferrer" download={file.name} aria-label="Download">
-            <Download className="h-4 w-4" />
-          </a>
-        </Button>
-      ) : (
-        <Button
-          variant="ghost"
-          size="icon"
-          className="ml-auto h-8 w-8 shrink-0 text-muted-foreground opacity-50"
-          disabled
-          aria-label="Download unavailable"
-        >
-          <Download className="h-4 w-4" />
-        </Button>
+      <DownloadButton file={file} />
+    </div>
+  )
+}
+
+function ImageTile({ file }: { file: FileAttachment }) {
+  const downloadUrl = getDownloadUrl(file, "inline")
+  if (!downloadUrl) return <FileCard file={file} />
+  return (
+    <a
+      href={downloadUrl}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="group relative block aspect-square overflow-hidden rounded-lg border border-border bg-muted"
+      title={file.name}
+    >
+      <img src={downloadUrl} alt={file.name} loading="lazy" className="h-full w-full object-cover" />
+      <span className="absolute inset-x-0 bottom-0 truncate bg-black/50 px-2 py-1 text-[11px] text-white opacity-0 transition-opacity group-hover:opacity-100">
+        {file.name}
+      </span>
+    </a>
+  )
+}
+
+export function FilePreviewCard({ files }: FilePreviewCardProps) {
+  if (files.length === 0) return null
+
+  if (files.length === 1) {
+    return (
+      <div className="mt-1.5 max-w-xs">
+        <FileCard file={files[0]} />
+      </div>
+    )
+  }
+
+  // Gallery: image thumbnails in a grid, other files listed below them
+  const images = files.filter((f) => f.type === "image")
+  const documents = files.filter((f) => f.type !== "image")
+  return (
+    <div className="mt-1.5 flex max-w-md flex-col gap-2">
+      {images.length > 0 && (
+        <div className="grid grid-cols-3 gap-1.5">
+          {images.map((file) => (
+            <ImageTile key={file.id} file={file} />
+          ))}
+        </div>
+      )}
+      {documents.length > 0 && (
+        <div className="grid grid-cols-1 gap-1.5 sm:grid-cols-2">
+          {documents.map((file) => (
+            <FileCard key={file.id} file={file} />
+          ))}
+        </div>
       )}
     </div>
   )
@@ -0,0 +1,238 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2, UserMinus, UserPlus } from "lucide-react"
+import { toast } from "sonner"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+interface GroupChatMember {
+  id: string
+  name: string
+  avatar_url: string | null
+}
+
+interface GroupChatDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  chat: {
+    id: string
+    name: string
+    participants: GroupChatMember[]
+  }
+  currentUserProfileId?: string | null
+  /** Called after a successful change so the chat list can be refetched */
+  onChanged?: () => void
+}
+
+function getInitials(name: string): string {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2)
+}
+
+async function chatRequest(url: string, init: RequestInit, fallbackError: string) {
+  const res = await fetch(url, {
+    ...init,
+    headers: init.body ? { "Content-Type": "application/json" } : undefined,
+  })
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}))
+    throw new Error(err.error ?? fallbackError)
+  }
+}
+
+/** Rename a group chat and add or remove its members */
+export function GroupChatDialog({ open, onOpenChange, chat, currentUserProfileId, onChanged }: GroupChatDialogProps) {
+  const [name, setName] = useState(chat.name)
+  const [renaming, setRenaming] = useState(false)
+  const [search, setSearch] = useState("")
+  const [results, setResults] = useState<GroupChatMember[]>([])
+  const [searching, setSearching] = useState(false)
+  // ID of the member being added or removed
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setName(chat.name)
+      setSearch("")
+      setResults([])
+    }
+  }, [open, chat.name])
+
+  useEffect(() => {
+    const q = search.trim()
+    if (!open || !q) {
+      setResults([])
+      return
+    }
+    setSearching(true)
+    const t = setTimeout(() => {
+      fetch(`/api/profiles?q=${encodeURIComponent(q)}`)
+        .then((r) => (r.ok ? r.json() : []))
+        .then((data) => setResults(Array.isArray(data) ? data : []))
+        .catch(() => setResults([]))
+        .finally(() => setSearching(false))
+    }, 200)
+    return () => clearTimeout(t)
+  }, [search, open])
+
+  const memberIds = new Set(chat.participants.map((p) => p.id))
+  const addable = results.filter((p) => !memberIds.has(p.id))
+
+  async function run(action: () => Promise<void>) {
+    try {
+      await action()
+      onChanged?.()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Something went wrong")
+    }
+  }
+
+  async function handleRename() {
+    if (!name.trim() || name.trim() === chat.name) return
+    setRenaming(true)
+    await run(() =>
+      chatRequest(
+        `/api/chats/${chat.id}`,
+        { method: "PATCH", body: JSON.stringify({ name: name.trim() }) },
+        "Failed to rename chat"
+      )
+    )
+    setRenaming(false)
+  }
+
+  async function handleAdd(profileId: string) {
+    setBusyId(profileId)
+    await run(() =>
+      chatRequest(
+        `/api/chats/${chat.id}/members`,
+        { method: "POST", body: JSON.stringify({ userIds: [profileId] }) },
+        "Failed to add member"
+      )
+    )
+    setBusyId(null)
+  }
+
+  async function handleRemove(profileId: string) {
+    setBusyId(profileId)
+    await run(() =>
+      chatRequest(`/api/chats/${chat.id}/members/${profileId}`, { method: "DELETE" }, "Failed to remove member")
+    )
+    setBusyId(null)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Group settings</DialogTitle>
+          <DialogDescription>Everyone in the group sees changes made here.</DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="flex items-end gap-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleRename()
+          }}
+        >
+          <div className="flex flex-1 flex-col gap-2">
+            <Label htmlFor="group-chat-rename">Name</Label>
+            <Input id="group-chat-rename" value={name} onChange={(e) => setName(e.target.value)} maxLength={80} />
+          </div>
+          <Button type="submit" variant="outline" disabled={renaming || !name.trim() || name.trim() === chat.name}>
+            {renaming ? "Saving..." : "Rename"}
+          </Button>
+        </form>
+
+        <div className="flex flex-col gap-2">
+          <Label>{chat.participants.length} members</Label>
+          <div className="max-h-[200px] overflow-y-auto rounded-lg border">
+            {chat.participants.map((p) => (
+              <div key={p.id} className="flex items-center gap-3 border-b px-3 py-2 last:border-b-0">
+                <Avatar className="h-6 w-6">
+                  {p.avatar_url && <AvatarImage src={p.avatar_url} alt="" />}
+                  <AvatarFallback className="bg-secondary text-secondary-foreground text-[10px]">
+                    {getInitials(p.name)}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="min-w-0 flex-1 truncate text-sm">
+                  {p.name}
+                  {p.id === currentUserProfileId && <span className="text-muted-foreground"> (you)</span>}
+                </span>
+                {p.id !== currentUserProfileId && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleRemove(p.id)}
+                    disabled={!!busyId}
+                    aria-label={`Remove ${p.name}`}
+                  >
+                    {busyId === p.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserMinus className="h-4 w-4" />}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="group-chat-add">Add people</Label>
+          <Input
+            id="group-chat-add"
+            placeholder="Search by name or email…"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          {search.trim() && (
+            <div className="max-h-[160px] overflow-y-auto rounded-lg border">
+              {searching && addable.length === 0 ? (
+                <div className="flex items-center justify-center py-4">
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                </div>
+              ) : addable.length === 0 ? (
+                <p className="py-4 text-center text-sm text-muted-foreground">No one else found.</p>
+              ) : (
+                addable.map((p) => (
+                  <div key={p.id} className="flex items-center gap-3 border-b px-3 py-2 last:border-b-0">
+                    <Avatar className="h-6 w-6">
+                      {p.avatar_url && <AvatarImage src={p.avatar_url} alt="" />}
+                      <AvatarFallback className="bg-secondary text-secondary-foreground text-[10px]">
+                        {getInitials(p.name)}
+                      </AvatarFallback>
+                    </Avatar>
+                    <span className="min-w-0 flex-1 truncate text-sm">{p.name}</span>
+                    <Button size="sm" variant="outline" onClick={() => handleAdd(p.id)} disabled={!!busyId}>
+                      {busyId === p.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <>
+                          <UserPlus className="mr-1.5 h-3.5 w-3.5" />
+                          Add
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,87 @@
+"use client"
+
+import { Phone, PhoneOff } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog"
+import { useIncomingCalls } from "@/hooks/use-incoming-calls"
+
+interface IncomingCallDialogProps {
+  currentUserProfileId?: string | null
+  /** Open the accepted call */
+  onAccept: (callId: string) => void
+}
+
+function getInitials(name: string): string {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2)
+}
+
+/**
+ * Rings the current user when they're invited to a call, wherever they are
+ * in the app. Calls ring one at a time, oldest first; dismissing the dialog
+ * declines, and an unanswered ring times out as missed.
+ */
+export function IncomingCallDialog({ currentUserProfileId, onAccept }: IncomingCallDialogProps) {
+  const { incomingCalls, answer } = useIncomingCalls(currentUserProfileId)
+  const call = incomingCalls[0] ?? null
+  const callerName = call?.caller?.name ?? "Someone"
+
+  const accept = async () => {
+    if (!call) return
+    await answer(call.call_id, "accepted")
+    onAccept(call.call_id)
+  }
+
+  return (
+    <Dialog
+      open={call !== null}
+      onOpenChange={(open) => {
+        if (!open && call) answer(call.call_id, "declined")
+      }}
+    >
+      <DialogContent className="max-w-xs">
+        <div className="flex flex-col items-center gap-4 pt-2 text-center">
+          <div className="relative">
+            <span className="absolute inset-0 animate-ping rounded-full bg-primary/30" />
+            <Avatar className="relative h-16 w-16">
+              {call?.caller?.avatar_url && <AvatarImage src={call.caller.avatar_url} alt="" />}
+              <AvatarFallback className="bg-secondary text-lg text-secondary-foreground">
+                {getInitials(callerName)}
+              </AvatarFallback>
+            </Avatar>
+          </div>
+          <div className="flex flex-col gap-1">
+            <DialogTitle className="text-base">{callerName} is calling you</DialogTitle>
+            <DialogDescription>{call?.title || "Video call"}</DialogDescription>
+          </div>
+          <div className="flex items-center gap-6">
+            <Button
+              variant="destructive"
+              size="icon"
+              className="h-12 w-12 rounded-full"
+              onClick={() => call && answer(call.call_id, "declined")}
+              title="Decline"
+            >
+              <PhoneOff className="h-5 w-5" />
+              <span className="sr-only">Decline</span>
+            </Button>
+            <Button
+              size="icon"
+              className="h-12 w-12 rounded-full bg-emerald-600 text-white hover:bg-emerald-600/90"
+              onClick={accept}
+              title="Accept"
+            >
+              <Phone className="h-5 w-5" />
+              <span className="sr-only">Accept</span>
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
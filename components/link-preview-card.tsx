@@ -0,0 +1,82 @@
+"use client"
+
+import { useState } from "react"
+import { X } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { safeHref } from "@/lib/markdown"
+import type { MessageUnfurl } from "@/lib/types"
+
+interface LinkPreviewCardProps {
+  unfurl: MessageUnfurl
+  /** Hide the preview for everyone; only passed for the message's author */
+  onDismiss?: () => Promise<void>
+}
+
+function hostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "")
+  } catch {
+    return url
+  }
+}
+
+/** OpenGraph/oEmbed preview for a link in a message */
+export function LinkPreviewCard({ unfurl, onDismiss }: LinkPreviewCardProps) {
+  const [dismissing, setDismissing] = useState(false)
+  const href = safeHref(unfurl.url)
+  const imageUrl = unfurl.image_url ? safeHref(unfurl.image_url) : null
+  if (!href) return null
+
+  const dismiss = async () => {
+    if (!onDismiss) return
+    setDismissing(true)
+    try {
+      await onDismiss()
+    } catch (err) {
+      console.error("Failed to dismiss preview:", err)
+      toast.error("Couldn't remove the preview")
+      setDismissing(false)
+    }
+  }
+
+  return (
+    <div className="group/preview relative mt-1 flex max-w-md gap-3 rounded-lg border border-border border-l-4 border-l-primary/40 bg-card p-3">
+      <div className="flex min-w-0 flex-1 flex-col gap-0.5">
+        <span className="truncate text-xs text-muted-foreground">{unfurl.site_name ?? hostname(unfurl.url)}</span>
+        <a
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className="line-clamp-2 text-sm font-semibold text-primary hover:underline"
+        >
+          {unfurl.title ?? unfurl.url}
+        </a>
+        {unfurl.description && (
+          <p className="line-clamp-3 text-xs leading-relaxed text-muted-foreground">{unfurl.description}</p>
+        )}
+      </div>
+      {imageUrl && (
+        <img
+          src={imageUrl}
+          alt=""
+          loading="lazy"
+          referrerPolicy="no-referrer"
+          className="h-16 w-16 shrink-0 rounded-md object-cover"
+        />
+      )}
+      {onDismiss && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="absolute -right-2 -top-2 h-6 w-6 rounded-full border border-border bg-background text-muted-foreground opacity-0 shadow-sm transition-opacity hover:text-foreground focus-visible:opacity-100 group-hover/preview:opacity-100"
+          onClick={dismiss}
+          disabled={dismissing}
+          aria-label="Remove preview"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { AtSign, Hash, Loader2, Users } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+import { MessageText } from "@/components/message-text"
+import type { View } from "@/components/app-sidebar"
+import type { ApiMentionPage, MentionedMessage } from "@/lib/types"
+
+interface MentionsViewProps {
+  currentUserProfileId?: string | null
+  onNavigate: (view: View) => void
+}
+
+function getInitials(name: string): string {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2)
+}
+
+function formatTimestamp(iso: string): string {
+  const date = new Date(iso)
+  const sameYear = date.getFullYear() === new Date().getFullYear()
+  return date.toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    year: sameYear ? undefined : "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  })
+}
+
+function mentionView(message: MentionedMessage): View | null {
+  const focus = {
+    messageId: message.id,
+    anchorId: message.anchor_id,
+    anchorCreatedAt: message.anchor_created_at,
+    parentMessageId: message.parent_message_id,
+  }
+  if (message.location.channel_id) return { type: "channel", id: message.location.channel_id, focus }
+  if (message.location.chat_id) return { type: "chat", id: message.location.chat_id, focus }
+  return null
+}
+
+/** Every message that mentions the current user, newest first, across channels and chats */
+export function MentionsView({ currentUserProfileId, onNavigate }: MentionsViewProps) {
+  const [messages, setMessages] = useState<MentionedMessage[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Ignore pages that arrive after the list was reloaded
+  const requestRef = useRef(0)
+
+  const fetchPage = useCallback(async (before: string | null) => {
+    const res = await fetch(before ? `/api/mentions?before=${encodeURIComponent(before)}` : "/api/mentions")
+    if (!res.ok) throw new Error("Failed to load mentions")
+    return (await res.json()) as ApiMentionPage
+  }, [])
+
+  useEffect(() => {
+    if (!currentUserProfileId) return
+    const request = ++requestRef.current
+    setLoading(true)
+    setError(null)
+    fetchPage(null)
+      .then((page) => {
+        if (request !== requestRef.current) return
+        setMessages(page.messages)
+        setNextCursor(page.nextCursor)
+      })
+      .catch((err) => {
+        console.error("Failed to load mentions:", err)
+        if (request === requestRef.current) setError("Couldn't load mentions.")
+      })
+      .finally(() => {
+        if (request === requestRef.current) setLoading(false)
+      })
+  }, [currentUserProfileId, fetchPage])
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return
+    const request = requestRef.current
+    setLoadingMore(true)
+    try {
+      const page = await fetchPage(nextCursor)
+      if (request !== requestRef.current) return
+      setMessages((prev) => {
+        const seen = new Set(prev.map((m) => m.id))
+        return [...prev, ...page.messages.filter((m) => !seen.has(m.id))]
+      })
+      setNextCursor(page.nextCursor)
+    } catch (err) {
+      console.error("Failed to load more mentions:", err)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex flex-1 items-center justify-center text-muted-foreground">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-current border-t-transparent" />
+      </div>
+    )
+  }
+
+  if (error || messages.length === 0) {
+    return (
+      <div className="flex flex-1 flex-col items-center justify-center gap-2 text-muted-foreground">
+        <AtSign className="h-8 w-8 opacity-40" />
+        <p className="text-sm">{error ?? "No one has mentioned you yet."}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-1 flex-col overflow-y-auto">
+      <div className="mx-auto flex w-full max-w-3xl flex-col gap-1 px-4 py-4">
+        {messages.map((message) => {
+          const view = mentionView(message)
+          const senderName = message.sender?.name ?? "Unknown"
+          return (
+            <button
+              key={message.id}
+              type="button"
+              disabled={!view}
+              onClick={() => view && onNavigate(view)}
+              className="flex items-start gap-3 rounded-md border border-border bg-card px-3 py-2.5 text-left transition-colors hover:bg-muted/50"
+            >
+              <Avatar className="mt-0.5 h-8 w-8 shrink-0">
+                {message.sender?.avatar_url && <AvatarImage src={message.sender.avatar_url} alt="" />}
+                <AvatarFallback className="bg-secondary text-secondary-foreground text-xs">
+                  {message.sender ? getInitials(senderName) : "??"}
+                </AvatarFallback>
+              </Avatar>
+              <span className="flex min-w-0 flex-1 flex-col gap-0.5">
+                <span className="flex items-baseline gap-2">
+                  <span className="text-sm font-semibold text-foreground">{senderName}</span>
+                  <span className="flex min-w-0 items-center gap-1 text-xs text-muted-foreground">
+                    {message.location.channel_id ? (
+                      <Hash className="h-3 w-3 shrink-0" />
+                    ) : (
+                      <Users className="h-3 w-3 shrink-0" />
+                    )}
+                    <span className="truncate">
+                      {message.location.name.replace(/^#/, "")}
+                      {message.parent_message_id ? " · thread" : ""}
+                    </span>
+                  </span>
+                  <span className="ml-auto shrink-0 text-[11px] text-muted-foreground">
+                    {formatTimestamp(message.created_at)}
+                  </span>
+                </span>
+                <MessageText
+                  message={message}
+                  currentUserProfileId={currentUserProfileId}
+                  preview
+                  className="line-clamp-3 text-sm leading-relaxed text-foreground/90"
+                />
+              </span>
+            </button>
+          )
+        })}
+        {nextCursor && (
+          <div className="flex justify-center py-2">
+            <Button variant="ghost" size="sm" className="text-xs" onClick={loadMore} disabled={loadingMore}>
+              {loadingMore && <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />}
+              Show older
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
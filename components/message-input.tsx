@@ -1,19 +1,45 @@
 "use client"
 
-import { useState, useRef } from "react"
-import { Paperclip, Send, Smile, X, Loader2, FileText, ImageIcon, FileSpreadsheet, Presentation } from "lucide-react"
+import { useState, useRef, useEffect } from "react"
+import {
+  Paperclip,
+  Send,
+  Smile,
+  X,
+  Loader2,
+  FileText,
+  ImageIcon,
+  FileSpreadsheet,
+  Presentation,
+  AlertCircle,
+  Megaphone,
+  Bold,
+  Italic,
+  Strikethrough,
+  Code,
+  SquareCode,
+  Link,
+  TextQuote,
+  List,
+  ListOrdered,
+} from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { useUploadQueue } from "@/hooks/use-upload-queue"
+import type { AttachmentInput } from "@/lib/attachments"
+import { applyMarkdownFormat, isInsideCodeFence, type MarkdownFormat } from "@/lib/markdown"
+import { activeMentionQuery, BROADCAST_MENTIONS } from "@/lib/mentions"
+import type { ProfileSummary } from "@/lib/types"
+import { cn } from "@/lib/utils"
 
-export interface PendingAttachment {
-  storagePath: string
-  name: string
-  type: "image" | "doc" | "pdf" | "pptx" | "xlsx"
-  size: string
-}
+// An uploaded file waiting to be sent with the message
+export type PendingAttachment = AttachmentInput
 
 interface MessageInputProps {
   placeholder?: string
-  onSend?: (content: string, attachment?: PendingAttachment) => void | Promise<void>
+  /** `mentionIds` are the profiles picked from @ autocomplete that are still in the text */
+  onSend?: (content: string, attachments: PendingAttachment[], mentionIds: string[]) => void | Promise<void>
   onError?: (error: unknown) => void
   /** Called when user types (debounce handled by parent/hook) */
   onTyping?: () => void
@@ -21,6 +47,55 @@ interface MessageInputProps {
   onClearTyping?: () => void
   /** Typing indicator label, e.g. "Alice is typing..." - only shown when truthy */
   typingLabel?: string | null
+  /** Offer @channel and @here in autocomplete - only meaningful in channels */
+  broadcastMentions?: boolean
+}
+
+// A row in the @ autocomplete list
+type MentionOption =
+  | { kind: "profile"; profile: ProfileSummary }
+  | { kind: "broadcast"; name: string }
+
+const BROADCAST_DESCRIPTIONS: Record<string, string> = {
+  channel: "Notify everyone in this channel",
+  here: "Notify everyone in this channel",
+}
+
+const MAX_MENTION_OPTIONS = 8
+
+// Formatting toolbar, in display order. `key` is matched against KeyboardEvent.code with Ctrl/Cmd held.
+const FORMAT_ACTIONS: {
+  format: MarkdownFormat
+  label: string
+  icon: typeof Bold
+  key: string
+  shift?: boolean
+  alt?: boolean
+  shortcut: string
+}[] = [
+  { format: "bold", label: "Bold", icon: Bold, key: "KeyB", shortcut: "Mod+B" },
+  { format: "italic", label: "Italic", icon: Italic, key: "KeyI", shortcut: "Mod+I" },
+  { format: "strike", label: "Strikethrough", icon: Strikethrough, key: "KeyX", shift: true, shortcut: "Mod+Shift+X" },
+  { format: "link", label: "Link", icon: Link, key: "KeyK", shortcut: "Mod+K" },
+  { format: "code", label: "Code", icon: Code, key: "KeyE", shortcut: "Mod+E" },
+  { format: "codeBlock", label: "Code block", icon: SquareCode, key: "KeyC", shift: true, alt: true, shortcut: "Mod+Alt+Shift+C" },
+  { format: "quote", label: "Quote", icon: TextQuote, key: "Digit9", shift: true, shortcut: "Mod+Shift+9" },
+  { format: "bulletList", label: "Bulleted list", icon: List, key: "Digit8", shift: true, shortcut: "Mod+Shift+8" },
+  { format: "numberedList", label: "Numbered list", icon: ListOrdered, key: "Digit7", shift: true, shortcut: "Mod+Shift+7" },
+]
+
+function shortcutLabel(shortcut: string): string {
+  const isMac = typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform)
+  return shortcut.replace("Mod", isMac ? "⌘" : "Ctrl")
+}
+
+function getInitials(name: string): string {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2)
 }
 
 const fileIcons: Record<string, React.ReactNode> = {
@@ -31,135 +106,345 @@ const fileIcons: Record<string, React.ReactNode> = {
   xlsx: <FileSpreadsheet className="h-5 w-5 text-chart-2" />,
 }
 
-export function MessageInput({ placeholder = "Type a message...", onSend, onError, onTyping, onClearTyping, typingLabel }: MessageInputProps) {
+export function MessageInput({
+  placeholder = "Type a message...",
+  onSend,
+  onError,
+  onTyping,
+  onClearTyping,
+  typingLabel,
+  broadcastMentions = false,
+}: MessageInputProps) {
   const [value, setValue] = useState("")
-  const [pendingAttachment, setPendingAttachment] = useState<PendingAttachment | null>(null)
-  const [uploading, setUploading] = useState(false)
+  const [dragging, setDragging] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const uploads = useUploadQueue({ onError })
+
+  // The "@query" being typed, the profiles matching it, and the highlighted option
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null)
+  const [mentionProfiles, setMentionProfiles] = useState<ProfileSummary[]>([])
+  const [mentionIndex, setMentionIndex] = useState(0)
+  // Profiles picked from autocomplete, so the server can resolve people outside the conversation
+  const pickedMentionsRef = useRef<Map<string, string>>(new Map())
+
+  const query = mentionQuery?.query ?? null
+  useEffect(() => {
+    if (query === null) {
+      setMentionProfiles([])
+      return
+    }
+    let cancelled = false
+    const t = setTimeout(async () => {
+      try {
+        const url = query ? `/api/profiles?q=${encodeURIComponent(query)}` : "/api/profiles"
+        const res = await fetch(url)
+        if (!res.ok || cancelled) return
+        const data = await res.json()
+        if (!cancelled) setMentionProfiles(Array.isArray(data) ? data : [])
+      } catch {
+        // Autocomplete is a convenience; typing the name still works
+      }
+    }, 150)
+    return () => {
+      cancelled = true
+      clearTimeout(t)
+    }
+  }, [query])
+
+  const mentionOptions: MentionOption[] =
+    query === null
+      ? []
+      : [
+          ...(broadcastMentions
+            ? BROADCAST_MENTIONS.filter((name) => name.startsWith(query.toLowerCase())).map(
+                (name): MentionOption => ({ kind: "broadcast", name })
+              )
+            : []),
+          ...mentionProfiles.map((profile): MentionOption => ({ kind: "profile", profile })),
+        ].slice(0, MAX_MENTION_OPTIONS)
+  const showMentions = mentionOptions.length > 0
+
+  const updateMentionQuery = (text: string, cursor: number) => {
+    const next = activeMentionQuery(text, cursor)
+    if (next?.start === mentionQuery?.start && next?.query === mentionQuery?.query) return
+    setMentionQuery(next)
+    setMentionIndex(0)
+  }
+
+  const selectMention = (option: MentionOption) => {
+    const textarea = textareaRef.current
+    if (!mentionQuery || !textarea) return
+    const name = option.kind === "profile" ? option.profile.name : option.name
+    if (option.kind === "profile") pickedMentionsRef.current.set(option.profile.id, name)
+    const end = mentionQuery.start + 1 + mentionQuery.query.length
+    const inserted = `@${name} `
+    const next = value.slice(0, mentionQuery.start) + inserted + value.slice(end)
+    const cursor = mentionQuery.start + inserted.length
+    setValue(next)
+    setMentionQuery(null)
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(cursor, cursor)
+    })
+  }
+
+  const applyFormat = (format: MarkdownFormat) => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    const next = applyMarkdownFormat(value, textarea.selectionStart, textarea.selectionEnd, format)
+    setValue(next.value)
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(next.selectionStart, next.selectionEnd)
+    })
+  }
 
   const handleSend = async () => {
     const trimmed = value.trim()
-    if ((!trimmed && !pendingAttachment) || !onSend) return
+    if ((!trimmed && uploads.attachments.length === 0) || uploads.isUploading || !onSend) return
     onClearTyping?.()
+    const lower = trimmed.toLowerCase()
+    const mentionIds = [...pickedMentionsRef.current]
+      .filter(([, name]) => lower.includes(`@${name.toLowerCase()}`))
+      .map(([id]) => id)
     try {
-      await onSend(trimmed || "", pendingAttachment ?? undefined)
+      await onSend(trimmed || "", uploads.attachments, mentionIds)
       setValue("")
-      setPendingAttachment(null)
+      setMentionQuery(null)
+      pickedMentionsRef.current.clear()
+      uploads.clear()
     } catch (err) {
       onError?.(err)
     }
   }
 
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (!file) return
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
     e.target.value = ""
-    setUploading(true)
-    try {
-      const formData = new FormData()
-      formData.append("file", file)
-      const res = await fetch("/api/files/upload", {
-        method: "POST",
-        body: formData,
-      })
-      if (!res.ok) {
-        const data = await res.json().catch(() => ({}))
-        throw new Error(data.error ?? "Failed to upload file")
-      }
-      const data = await res.json()
-      setPendingAttachment({
-        storagePath: data.storagePath,
-        name: data.name,
-        type: data.type,
-        size: data.size,
-      })
-    } catch (err) {
-      onError?.(err)
-    } finally {
-      setUploading(false)
-    }
+    uploads.addFiles(files)
   }
 
-  const canSend = value.trim() || pendingAttachment
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files)
+    if (files.length === 0) return
+    e.preventDefault()
+    uploads.addFiles(files)
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setDragging(false)
+    uploads.addFiles(Array.from(e.dataTransfer.files))
+  }
+
+  const canSend = (value.trim() || uploads.attachments.length > 0) && !uploads.isUploading
 
   return (
-    <div className="shrink-0 border-t border-border bg-card px-4 py-3">
-      {pendingAttachment && (
-        <div className="mb-2 flex items-center gap-3 rounded-lg border border-border bg-card p-3 max-w-xs">
-          <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-muted">
-            {fileIcons[pendingAttachment.type] ?? <FileText className="h-5 w-5 text-muted-foreground" />}
-          </div>
-          <div className="flex min-w-0 flex-col gap-0.5">
-            <span className="truncate text-sm font-medium text-card-foreground">{pendingAttachment.name}</span>
-            <span className="text-[11px] text-muted-foreground uppercase">
-              {pendingAttachment.type} &middot; {pendingAttachment.size}
-            </span>
-          </div>
+    <div
+      className={cn(
+        "shrink-0 border-t border-border bg-card px-4 py-3",
+        dragging && "bg-primary/5 ring-2 ring-inset ring-primary/40"
+      )}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes("Files")) return
+        e.preventDefault()
+        setDragging(true)
+      }}
+      onDragLeave={(e) => {
+        // Moving between children fires dragleave too; only reset when leaving the input area
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false)
+      }}
+      onDrop={handleDrop}
+    >
+      {uploads.items.length > 0 && (
+        <div className="mb-2 flex flex-wrap gap-2">
+          {uploads.items.map((item) => (
+            <div
+              key={item.id}
+              className={cn(
+                "flex w-60 items-center gap-3 rounded-lg border border-border bg-card p-2",
+                item.status === "error" && "border-destructive/50"
+              )}
+            >
+              <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-md bg-muted">
+                {item.status === "error" ? (
+                  <AlertCircle className="h-5 w-5 text-destructive" />
+                ) : item.attachment ? (
+                  fileIcons[item.attachment.type] ?? <FileText className="h-5 w-5 text-muted-foreground" />
+                ) : (
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                )}
+              </div>
+              <div className="flex min-w-0 flex-1 flex-col gap-1">
+                <span className="truncate text-sm font-medium text-card-foreground">{item.name}</span>
+                {item.status === "error" ? (
+                  <span className="truncate text-[11px] text-destructive">{item.error}</span>
+                ) : item.attachment ? (
+                  <span className="text-[11px] text-muted-foreground uppercase">
+                    {item.attachment.type} &middot; {item.attachment.size}
+                  </span>
+                ) : (
+                  <Progress value={item.progress} className="h-1.5" aria-label={`Uploading ${item.name}`} />
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0 text-muted-foreground hover:text-foreground"
+                onClick={() => uploads.remove(item.id)}
+                aria-label={item.status === "uploading" || item.status === "queued" ? "Cancel upload" : "Remove attachment"}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="relative flex flex-col rounded-lg border border-input bg-background">
+        <div className="flex items-center gap-0.5 border-b border-border px-2 py-1" role="toolbar" aria-label="Formatting">
+          {FORMAT_ACTIONS.map(({ format, label, icon: Icon, shortcut }) => (
+            <Button
+              key={format}
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-muted-foreground hover:text-foreground"
+              // Keep the textarea's selection
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => applyFormat(format)}
+              title={`${label} (${shortcutLabel(shortcut)})`}
+              aria-label={label}
+            >
+              <Icon className="h-3.5 w-3.5" />
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-end gap-2 px-3 py-2">
+          {showMentions && (
+            <div
+              role="listbox"
+              aria-label="Mention someone"
+              className="absolute inset-x-0 bottom-full mb-1 overflow-hidden rounded-lg border border-border bg-popover py-1 shadow-md"
+            >
+              {mentionOptions.map((option, i) => (
+                <button
+                  key={option.kind === "profile" ? option.profile.id : option.name}
+                  type="button"
+                  role="option"
+                  aria-selected={i === mentionIndex}
+                  className={cn(
+                    "flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm text-popover-foreground",
+                    i === mentionIndex && "bg-muted"
+                  )}
+                  // Keep focus in the textarea
+                  onMouseDown={(e) => e.preventDefault()}
+                  onMouseEnter={() => setMentionIndex(i)}
+                  onClick={() => selectMention(option)}
+                >
+                  {option.kind === "profile" ? (
+                    <>
+                      <Avatar className="h-5 w-5">
+                        {option.profile.avatar_url && <AvatarImage src={option.profile.avatar_url} alt="" />}
+                        <AvatarFallback className="text-[9px]">{getInitials(option.profile.name)}</AvatarFallback>
+                      </Avatar>
+                      <span className="truncate">{option.profile.name}</span>
+                    </>
+                  ) : (
+                    <>
+                      <Megaphone className="h-4 w-4 text-muted-foreground" />
+                      <span className="font-medium">@{option.name}</span>
+                      <span className="truncate text-xs text-muted-foreground">{BROADCAST_DESCRIPTIONS[option.name]}</span>
+                    </>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            className="hidden"
+            accept="image/*,.pdf,.doc,.docx,.pptx,.xlsx"
+            multiple
+            onChange={handleFileSelect}
+          />
           <Button
             variant="ghost"
             size="icon"
-            className="ml-auto h-8 w-8 shrink-0 text-muted-foreground hover:text-foreground"
-            onClick={() => setPendingAttachment(null)}
-            aria-label="Remove attachment"
+            className="h-8 w-8 shrink-0 text-muted-foreground hover:text-foreground disabled:opacity-50"
+            onClick={() => fileInputRef.current?.click()}
+            aria-label="Attach files"
           >
-            <X className="h-4 w-4" />
+            <Paperclip className="h-4 w-4" />
+            <span className="sr-only">Attach files</span>
+          </Button>
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={(e) => {
+              setValue(e.target.value)
+              updateMentionQuery(e.target.value, e.target.selectionStart)
+              onTyping?.()
+            }}
+            onSelect={(e) => updateMentionQuery(e.currentTarget.value, e.currentTarget.selectionStart)}
+            onBlur={() => setMentionQuery(null)}
+            onKeyDown={(e) => {
+              if (showMentions) {
+                if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+                  e.preventDefault()
+                  const step = e.key === "ArrowDown" ? 1 : -1
+                  setMentionIndex((i) => (i + step + mentionOptions.length) % mentionOptions.length)
+                  return
+                }
+                if (e.key === "Enter" || e.key === "Tab") {
+                  e.preventDefault()
+                  selectMention(mentionOptions[Math.min(mentionIndex, mentionOptions.length - 1)])
+                  return
+                }
+                if (e.key === "Escape") {
+                  e.preventDefault()
+                  setMentionQuery(null)
+                  return
+                }
+              }
+              if ((e.metaKey || e.ctrlKey) && !e.nativeEvent.isComposing) {
+                const action = FORMAT_ACTIONS.find(
+                  (a) => a.key === e.nativeEvent.code && !!a.shift === e.shiftKey && !!a.alt === e.altKey
+                )
+                if (action) {
+                  e.preventDefault()
+                  applyFormat(action.format)
+                  return
+                }
+              }
+              if (e.key === "Enter" && !e.shiftKey) {
+                // Inside an open ``` block, Enter adds a line so code can be typed naturally
+                if (isInsideCodeFence(value, e.currentTarget.selectionStart)) return
+                e.preventDefault()
+                handleSend()
+              }
+            }}
+            onPaste={handlePaste}
+            placeholder={placeholder}
+            rows={1}
+            className="max-h-24 min-h-[32px] flex-1 resize-none bg-transparent text-sm text-foreground placeholder:text-muted-foreground focus:outline-none"
+          />
+          <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0 text-muted-foreground hover:text-foreground">
+            <Smile className="h-4 w-4" />
+            <span className="sr-only">Emoji</span>
+          </Button>
+          <Button
+            type="button"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            disabled={!canSend}
+            onClick={handleSend}
+          >
+            <Send className="h-4 w-4" />
+            <span className="sr-only">Send message</span>
           </Button>
         </div>
-      )}
-      <div className="flex items-end gap-2 rounded-lg border border-input bg-background px-3 py-2">
-        <input
-          ref={fileInputRef}
-          type="file"
-          className="hidden"
-          accept="image/*,.pdf,.doc,.docx,.pptx,.xlsx"
-          onChange={handleFileSelect}
-          disabled={uploading}
-        />
-        <Button
-          variant="ghost"
-          size="icon"
-          className="h-8 w-8 shrink-0 text-muted-foreground hover:text-foreground disabled:opacity-50"
-          onClick={() => fileInputRef.current?.click()}
-          disabled={uploading}
-          aria-label="Attach file"
-        >
-          {uploading ? (
-            <Loader2 className="h-4 w-4 animate-spin" />
-          ) : (
-            <Paperclip className="h-4 w-4" />
-          )}
-          <span className="sr-only">Attach file</span>
-        </Button>
-        <textarea
-          value={value}
-          onChange={(e) => {
-            setValue(e.target.value)
-            onTyping?.()
-          }}
-          onKeyDown={(e) => {
-            if (e.key === "Enter" && !e.shiftKey) {
-              e.preventDefault()
-              handleSend()
-            }
-          }}
-          placeholder={placeholder}
-          rows={1}
-          className="max-h-24 min-h-[32px] flex-1 resize-none bg-transparent text-sm text-foreground placeholder:text-muted-foreground focus:outline-none"
-        />
-        <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0 text-muted-foreground hover:text-foreground">
-          <Smile className="h-4 w-4" />
-          <span className="sr-only">Emoji</span>
-        </Button>
-        <Button
-          type="button"
-          size="icon"
-          className="h-8 w-8 shrink-0"
-          disabled={!canSend}
-          onClick={handleSend}
-        >
-          <Send className="h-4 w-4" />
-          <span className="sr-only">Send message</span>
-        </Button>
       </div>
       {typingLabel && (
         <div className="mt-1.5 flex items-center gap-1 px-1">
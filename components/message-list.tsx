@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { Fragment, useEffect, useLayoutEffect, useRef, useState } from "react"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -20,8 +20,14 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
-import { MoreHorizontal, Pencil, Trash2 } from "lucide-react"
+import { Loader2, MessageSquare, MoreHorizontal, Pencil, Trash2, Users } from "lucide-react"
 import { FilePreviewCard } from "@/components/file-preview-card"
+import { LinkPreviewCard } from "@/components/link-preview-card"
+import { MessageReactions, ReactionPicker } from "@/components/message-reactions"
+import { MessageText } from "@/components/message-text"
+import { markdownToPlainText } from "@/lib/markdown"
+import { mentionsUser } from "@/lib/mentions"
+import { cn } from "@/lib/utils"
 import type { ApiMessage } from "@/lib/types"
 
 interface MessageListProps {
@@ -29,8 +35,37 @@ interface MessageListProps {
   currentUserProfileId?: string | null
   onEdit?: (messageId: string, content: string) => Promise<void>
   onDelete?: (messageId: string) => Promise<void>
+  /** Whether older messages can be loaded by scrolling to the top */
+  hasMore?: boolean
+  /** True while an older page is being fetched */
+  loadingMore?: boolean
+  /** Called when the user scrolls near the top and more history is available */
+  onLoadMore?: () => void
+  /** Whether newer messages can be loaded by scrolling to the bottom */
+  hasNewer?: boolean
+  /** True while a newer page is being fetched */
+  loadingNewer?: boolean
+  /** Called when the user scrolls near the bottom and newer messages are available */
+  onLoadNewer?: () => void
+  /** Scroll to and briefly highlight this message once it is loaded */
+  highlightMessageId?: string | null
+  /** Read position when the conversation was opened; a divider marks the first newer message from someone else */
+  unreadSince?: string | null
+  /** Names of people whose read position is at a message, keyed by message ID */
+  seenBy?: Record<string, string[]>
+  /** Open the thread for a message; enables the reply action and thread summaries */
+  onOpenThread?: (message: ApiMessage) => void
+  /** Add (reacted=false) or remove (reacted=true) the current user's reaction */
+  onToggleReaction?: (messageId: string, emoji: string, reacted: boolean) => void
+  /** Remove a link preview from one of the current user's messages */
+  onDismissUnfurl?: (messageId: string, url: string) => Promise<void>
 }
 
+/** Distance in px from an edge that counts as "at" that edge */
+const SCROLL_EDGE_THRESHOLD = 80
+/** How long a highlighted message stays highlighted, in ms */
+const HIGHLIGHT_DURATION = 2500
+
 function formatTimestamp(iso: string): string {
   const d = new Date(iso)
   const now = new Date()
@@ -42,6 +77,16 @@ function formatTimestamp(iso: string): string {
   return d.toLocaleDateString([], { month: "short", day: "numeric" })
 }
 
+function NewMessagesDivider() {
+  return (
+    <div className="flex items-center gap-2 py-1" role="separator" aria-label="New messages">
+      <div className="h-px flex-1 bg-destructive/60" />
+      <span className="text-[11px] font-semibold text-destructive">New messages</span>
+      <div className="h-px flex-1 bg-destructive/60" />
+    </div>
+  )
+}
+
 function getInitials(name: string): string {
   return name
     .split(" ")
@@ -51,12 +96,93 @@ function getInitials(name: string): string {
     .slice(0, 2)
 }
 
-export function MessageList({ messages, currentUserProfileId, onEdit, onDelete }: MessageListProps) {
+export function MessageList({
+  messages,
+  currentUserProfileId,
+  onEdit,
+  onDelete,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  hasNewer = false,
+  loadingNewer = false,
+  onLoadNewer,
+  highlightMessageId,
+  unreadSince,
+  seenBy,
+  onOpenThread,
+  onToggleReaction,
+  onDismissUnfurl,
+}: MessageListProps) {
   const [editingId, setEditingId] = useState<string | null>(null)
   const [editContent, setEditContent] = useState("")
   const [isSaving, setIsSaving] = useState(false)
   const [deleteTargetId, setDeleteTargetId] = useState<string | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [highlightedId, setHighlightedId] = useState<string | null>(null)
+
+  const scrollRef = useRef<HTMLDivElement>(null)
+  // Scroll geometry as of the last render, used to keep the viewport stable across updates
+  const scrollSnapshotRef = useRef({ scrollHeight: 0, atBottom: true, firstId: "", lastId: "" })
+
+  const firstId = messages[0]?.id ?? ""
+  const lastId = messages[messages.length - 1]?.id ?? ""
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current
+    if (!el) return
+    const prev = scrollSnapshotRef.current
+
+    if (prev.firstId && firstId !== prev.firstId && lastId === prev.lastId) {
+      // Older page prepended: shift by the added height so the visible messages don't jump
+      el.scrollTop += el.scrollHeight - prev.scrollHeight
+    } else if (lastId !== prev.lastId && !hasNewer && (prev.atBottom || !prev.lastId)) {
+      // First load, or a new message arrived while the user was following the conversation
+      el.scrollTop = el.scrollHeight
+    }
+
+    scrollSnapshotRef.current = {
+      scrollHeight: el.scrollHeight,
+      atBottom: el.scrollHeight - el.scrollTop - el.clientHeight < SCROLL_EDGE_THRESHOLD,
+      firstId,
+      lastId,
+    }
+  }, [firstId, lastId, hasNewer])
+
+  // Runs after the scroll restoration above so the target wins over "stick to bottom"
+  const highlightLoaded = Boolean(highlightMessageId && messages.some((m) => m.id === highlightMessageId))
+  useLayoutEffect(() => {
+    if (!highlightMessageId || !highlightLoaded) return
+    document.getElementById(`message-${highlightMessageId}`)?.scrollIntoView({ block: "center" })
+    setHighlightedId(highlightMessageId)
+  }, [highlightMessageId, highlightLoaded])
+
+  useEffect(() => {
+    if (!highlightedId) return
+    const timer = setTimeout(() => setHighlightedId(null), HIGHLIGHT_DURATION)
+    return () => clearTimeout(timer)
+  }, [highlightedId])
+
+  const handleScroll = () => {
+    const el = scrollRef.current
+    if (!el) return
+    const distanceFromBottom = el.scrollHeight - el.scrollTop - el.clientHeight
+    scrollSnapshotRef.current.atBottom = distanceFromBottom < SCROLL_EDGE_THRESHOLD
+    if (el.scrollTop < SCROLL_EDGE_THRESHOLD && hasMore && !loadingMore) {
+      onLoadMore?.()
+    }
+    if (distanceFromBottom < SCROLL_EDGE_THRESHOLD && hasNewer && !loadingNewer) {
+      onLoadNewer?.()
+    }
+  }
+
+  const unreadSinceTime = unreadSince ? new Date(unreadSince).getTime() : null
+  const firstUnreadId =
+    unreadSinceTime === null
+      ? null
+      : messages.find(
+          (m) => new Date(m.created_at).getTime() > unreadSinceTime && m.sender?.id !== currentUserProfileId
+        )?.id ?? null
 
   const canEdit = Boolean(currentUserProfileId && onEdit)
   const canDelete = Boolean(currentUserProfileId && onDelete)
@@ -108,7 +234,18 @@ export function MessageList({ messages, currentUserProfileId, onEdit, onDelete }
   }
 
   return (
-    <div className="flex flex-1 flex-col gap-1 overflow-y-auto px-4 py-3">
+    <div ref={scrollRef} onScroll={handleScroll} className="flex flex-1 flex-col gap-1 overflow-y-auto px-4 py-3">
+      {hasMore && (
+        <div className="flex justify-center py-2 text-muted-foreground">
+          {loadingMore ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <button type="button" onClick={onLoadMore} className="text-xs hover:text-foreground">
+              Load older messages
+            </button>
+          )}
+        </div>
+      )}
       {messages.map((msg) => {
         const sender = msg.sender
         const name = sender?.name ?? "Unknown"
@@ -116,88 +253,193 @@ export function MessageList({ messages, currentUserProfileId, onEdit, onDelete }
         const avatarUrl = sender?.avatar_url ?? null
         const isOwn = canEdit && sender?.id === currentUserProfileId
         const isEditing = editingId === msg.id
+        const dismissUnfurl = sender?.id === currentUserProfileId ? onDismissUnfurl : undefined
+        const mentionsMe = sender?.id !== currentUserProfileId && mentionsUser(msg, currentUserProfileId)
 
-        return (
-          <div key={msg.id} className="group flex items-start gap-3 rounded-md px-2 py-2 transition-colors hover:bg-muted/50">
-            <Avatar className="mt-0.5 h-8 w-8 shrink-0">
-              {avatarUrl && <AvatarImage src={avatarUrl} alt="" />}
-              <AvatarFallback className="bg-secondary text-secondary-foreground text-xs">
-                {initials}
-              </AvatarFallback>
-            </Avatar>
-            <div className="flex min-w-0 flex-1 flex-col gap-0.5">
-              <div className="flex items-baseline gap-2">
-                <span className="text-sm font-semibold text-foreground">{name}</span>
-                <span className="text-[11px] text-muted-foreground">{formatTimestamp(msg.created_at)}</span>
-                {isOwn && isEditing && (
-                  <span className="text-[11px] text-muted-foreground">(editing)</span>
+        const seenByNames = seenBy?.[msg.id]
+
+        // Group chat membership changes: a single muted line, no actions
+        if (msg.system_event) {
+          return (
+            <Fragment key={msg.id}>
+              {msg.id === firstUnreadId && <NewMessagesDivider />}
+              <div
+                id={`message-${msg.id}`}
+                className={cn(
+                  "flex items-center justify-center gap-1.5 rounded-md px-2 py-1.5 text-xs text-muted-foreground",
+                  highlightedId === msg.id && "bg-primary/10 ring-1 ring-primary/40"
                 )}
-                {isOwn && !isEditing && (
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
+              >
+                <Users className="h-3.5 w-3.5 shrink-0" />
+                <span className="min-w-0 truncate">{msg.content}</span>
+                <span className="shrink-0 text-[11px]">· {formatTimestamp(msg.created_at)}</span>
+              </div>
+            </Fragment>
+          )
+        }
+
+        return (
+          <Fragment key={msg.id}>
+            {msg.id === firstUnreadId && <NewMessagesDivider />}
+            <div
+              id={`message-${msg.id}`}
+              className={cn(
+                "group flex items-start gap-3 rounded-md px-2 py-2 transition-colors hover:bg-muted/50",
+                highlightedId === msg.id && "bg-primary/10 ring-1 ring-primary/40",
+                mentionsMe && highlightedId !== msg.id && "border-l-2 border-amber-400 bg-amber-400/5",
+                msg.pending && "opacity-60"
+              )}
+            >
+              <Avatar className="mt-0.5 h-8 w-8 shrink-0">
+                {avatarUrl && <AvatarImage src={avatarUrl} alt="" />}
+                <AvatarFallback className="bg-secondary text-secondary-foreground text-xs">
+                  {initials}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex min-w-0 flex-1 flex-col gap-0.5">
+                <div className="flex items-baseline gap-2">
+                  <span className="text-sm font-semibold text-foreground">{name}</span>
+                  <span className="text-[11px] text-muted-foreground">{formatTimestamp(msg.created_at)}</span>
+                  {isOwn && isEditing && (
+                    <span className="text-[11px] text-muted-foreground">(editing)</span>
+                  )}
+                  {!isEditing && !msg.pending && (isOwn || onOpenThread || onToggleReaction) && (
+                    <div className="ml-auto flex items-center gap-0.5 opacity-0 transition-opacity group-hover:opacity-100">
+                      {onToggleReaction && (
+                        <ReactionPicker
+                          onSelect={(emoji) =>
+                            onToggleReaction(
+                              msg.id,
+                              emoji,
+                              msg.reactions.some((r) => r.emoji === emoji && r.reacted_by_me)
+                            )
+                          }
+                        />
+                      )}
+                      {onOpenThread && (
+                        <button
+                          type="button"
+                          className="rounded p-1 hover:bg-muted"
+                          onClick={() => onOpenThread(msg)}
+                          aria-label="Reply in thread"
+                        >
+                          <MessageSquare className="h-4 w-4 text-muted-foreground" />
+                        </button>
+                      )}
+                      {isOwn && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <button
+                              className="rounded p-1 hover:bg-muted"
+                              aria-label="Message options"
+                            >
+                              <MoreHorizontal className="h-4 w-4 text-muted-foreground" />
+                            </button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => startEditing(msg)}>
+                              <Pencil className="mr-2 h-4 w-4" />
+                              Edit
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              className="text-destructive focus:text-destructive"
+                              onClick={() => setDeleteTargetId(msg.id)}
+                            >
+                              <Trash2 className="mr-2 h-4 w-4" />
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+                    </div>
+                  )}
+                </div>
+                {isEditing ? (
+                  <div className="flex flex-col gap-2">
+                    <Input
+                      value={editContent}
+                      onChange={(e) => setEditContent(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") {
+                          e.preventDefault()
+                          saveEdit()
+                        }
+                        if (e.key === "Escape") cancelEditing()
+                      }}
+                      className="text-sm"
+                      disabled={isSaving}
+                      autoFocus
+                    />
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={saveEdit} disabled={isSaving || !editContent.trim()}>
+                        {isSaving ? "Saving..." : "Save"}
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={cancelEditing} disabled={isSaving}>
+                        Cancel
+                      </Button>
+                    </div>
+                    <FilePreviewCard files={msg.file_attachments} />
+                  </div>
+                ) : (
+                  <>
+                    <MessageText
+                      message={msg}
+                      currentUserProfileId={currentUserProfileId}
+                      className="text-sm leading-relaxed text-foreground/90"
+                    />
+                    <FilePreviewCard files={msg.file_attachments} />
+                    {msg.unfurls.map((unfurl) => (
+                      <LinkPreviewCard
+                        key={unfurl.url}
+                        unfurl={unfurl}
+                        onDismiss={dismissUnfurl && (() => dismissUnfurl(msg.id, unfurl.url))}
+                      />
+                    ))}
+                    {onToggleReaction && (
+                      <MessageReactions
+                        reactions={msg.reactions}
+                        onToggle={(emoji, reacted) => onToggleReaction(msg.id, emoji, reacted)}
+                      />
+                    )}
+                    {onOpenThread && msg.reply_count > 0 && (
                       <button
-                        className="ml-auto rounded p-1 opacity-0 transition-opacity hover:bg-muted group-hover:opacity-100"
-                        aria-label="Message options"
+                        type="button"
+                        onClick={() => onOpenThread(msg)}
+                        className="mt-1 flex max-w-md items-center gap-2 self-start rounded-md px-1.5 py-1 text-left text-xs hover:bg-muted"
                       >
-                        <MoreHorizontal className="h-4 w-4 text-muted-foreground" />
+                        <span className="shrink-0 font-medium text-primary">
+                          {msg.reply_count === 1 ? "1 reply" : `${msg.reply_count} replies`}
+                        </span>
+                        {msg.last_reply && (
+                          <span className="truncate text-muted-foreground">
+                            {msg.last_reply.sender?.name ?? "Unknown"}: {markdownToPlainText(msg.last_reply.content)}
+                          </span>
+                        )}
                       </button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end">
-                      <DropdownMenuItem onClick={() => startEditing(msg)}>
-                        <Pencil className="mr-2 h-4 w-4" />
-                        Edit
-                      </DropdownMenuItem>
-                      <DropdownMenuItem
-                        className="text-destructive focus:text-destructive"
-                        onClick={() => setDeleteTargetId(msg.id)}
-                      >
-                        <Trash2 className="mr-2 h-4 w-4" />
-                        Delete
-                      </DropdownMenuItem>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
+                    )}
+                    {seenByNames && seenByNames.length > 0 && (
+                      <span className="mt-0.5 text-[11px] text-muted-foreground">
+                        Seen by {seenByNames.join(", ")}
+                      </span>
+                    )}
+                  </>
                 )}
               </div>
-              {isEditing ? (
-                <div className="flex flex-col gap-2">
-                  <Input
-                    value={editContent}
-                    onChange={(e) => setEditContent(e.target.value)}
-                    onKeyDown={(e) => {
-                      if (e.key === "Enter") {
-                        e.preventDefault()
-                        saveEdit()
-                      }
-                      if (e.key === "Escape") cancelEditing()
-                    }}
-                    className="text-sm"
-                    disabled={isSaving}
-                    autoFocus
-                  />
-                  <div className="flex gap-2">
-                    <Button size="sm" onClick={saveEdit} disabled={isSaving || !editContent.trim()}>
-                      {isSaving ? "Saving..." : "Save"}
-                    </Button>
-                    <Button size="sm" variant="outline" onClick={cancelEditing} disabled={isSaving}>
-                      Cancel
-                    </Button>
-                  </div>
-                  {msg.file_attachment && (
-                    <FilePreviewCard file={msg.file_attachment} />
-                  )}
-                </div>
-              ) : (
-                <>
-                  <p className="text-sm leading-relaxed text-foreground/90">{msg.content}</p>
-                  {msg.file_attachment && (
-                    <FilePreviewCard file={msg.file_attachment} />
-                  )}
-                </>
-              )}
             </div>
-          </div>
+          </Fragment>
         )
       })}
+      {hasNewer && (
+        <div className="flex justify-center py-2 text-muted-foreground">
+          {loadingNewer ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <button type="button" onClick={onLoadNewer} className="text-xs hover:text-foreground">
+              Load newer messages
+            </button>
+          )}
+        </div>
+      )}
 
       <AlertDialog open={!!deleteTargetId} onOpenChange={(open) => !open && setDeleteTargetId(null)}>
         <AlertDialogContent>
@@ -0,0 +1,82 @@
+"use client"
+
+import { useState } from "react"
+import { SmilePlus } from "lucide-react"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { cn } from "@/lib/utils"
+import { QUICK_REACTIONS } from "@/lib/reactions"
+import type { MessageReaction } from "@/lib/types"
+
+interface ReactionPickerProps {
+  onSelect: (emoji: string) => void
+  triggerClassName?: string
+}
+
+export function ReactionPicker({ onSelect, triggerClassName }: ReactionPickerProps) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button type="button" className={cn("rounded p-1 hover:bg-muted", triggerClassName)} aria-label="Add reaction">
+          <SmilePlus className="h-4 w-4 text-muted-foreground" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-auto p-1.5">
+        <div className="grid grid-cols-5 gap-0.5">
+          {QUICK_REACTIONS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              className="flex h-8 w-8 items-center justify-center rounded text-lg hover:bg-muted"
+              onClick={() => {
+                onSelect(emoji)
+                setOpen(false)
+              }}
+              aria-label={`React with ${emoji}`}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+interface MessageReactionsProps {
+  reactions: MessageReaction[]
+  /** Called with whether the current user had already reacted with that emoji */
+  onToggle: (emoji: string, reacted: boolean) => void
+}
+
+export function MessageReactions({ reactions, onToggle }: MessageReactionsProps) {
+  if (reactions.length === 0) return null
+
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-1">
+      {reactions.map((reaction) => (
+        <button
+          key={reaction.emoji}
+          type="button"
+          onClick={() => onToggle(reaction.emoji, reaction.reacted_by_me)}
+          className={cn(
+            "flex h-6 items-center gap-1 rounded-full border px-2 text-xs transition-colors",
+            reaction.reacted_by_me
+              ? "border-primary/50 bg-primary/10 text-foreground"
+              : "border-border bg-muted/40 text-muted-foreground hover:bg-muted"
+          )}
+          aria-pressed={reaction.reacted_by_me}
+          aria-label={`${reaction.emoji} ${reaction.count}`}
+        >
+          <span>{reaction.emoji}</span>
+          <span className="tabular-nums">{reaction.count}</span>
+        </button>
+      ))}
+      <ReactionPicker
+        onSelect={(emoji) => onToggle(emoji, reactions.some((r) => r.emoji === emoji && r.reacted_by_me))}
+        triggerClassName="h-6 rounded-full px-1.5"
+      />
+    </div>
+  )
+}
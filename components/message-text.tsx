@@ -0,0 +1,133 @@
+"use client"
+
+import { Fragment, useMemo, type ReactNode } from "react"
+import { CodeBlock } from "@/components/code-block"
+import { markdownToPlainText, parseMarkdown, type MarkdownBlock, type MarkdownInline } from "@/lib/markdown"
+import { splitMentions } from "@/lib/mentions"
+import type { ApiMessage } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+interface MessageTextProps {
+  message: Pick<ApiMessage, "content" | "mentions" | "mention_broadcast">
+  currentUserProfileId?: string | null
+  /** Single-line plain text with mentions, for previews */
+  preview?: boolean
+  className?: string
+}
+
+interface MentionContext {
+  message: MessageTextProps["message"]
+  currentUserProfileId?: string | null
+}
+
+/**
+ * Text with the message's stored mentions highlighted. Mentions of the
+ * current user, and @channel / @here, get a stronger highlight than mentions
+ * of other people.
+ */
+function renderText(text: string, ctx: MentionContext): ReactNode {
+  const segments = splitMentions(text, ctx.message.mentions ?? [], ctx.message.mention_broadcast ?? null)
+  if (segments.length === 1 && segments[0].mentionId === undefined) return text
+  return segments.map((segment, i) => {
+    if (segment.mentionId === undefined) return <Fragment key={i}>{segment.text}</Fragment>
+    const isMe = segment.mentionId === null || segment.mentionId === ctx.currentUserProfileId
+    return (
+      <span
+        key={i}
+        className={cn(
+          "rounded px-0.5 font-medium",
+          isMe ? "bg-amber-400/20 text-amber-600 dark:text-amber-300" : "bg-primary/10 text-primary"
+        )}
+      >
+        {segment.text}
+      </span>
+    )
+  })
+}
+
+function renderInline(nodes: MarkdownInline[], ctx: MentionContext): ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={i}>{renderText(node.text, ctx)}</Fragment>
+      case "break":
+        return <br key={i} />
+      case "code":
+        return (
+          <code key={i} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]">
+            {node.text}
+          </code>
+        )
+      case "strong":
+        return <strong key={i} className="font-semibold">{renderInline(node.children, ctx)}</strong>
+      case "em":
+        return <em key={i}>{renderInline(node.children, ctx)}</em>
+      case "strike":
+        return <s key={i}>{renderInline(node.children, ctx)}</s>
+      case "link":
+        return (
+          <a
+            key={i}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-primary underline underline-offset-2 hover:opacity-80"
+          >
+            {renderInline(node.children, ctx)}
+          </a>
+        )
+    }
+  })
+}
+
+function renderBlocks(blocks: MarkdownBlock[], ctx: MentionContext): ReactNode[] {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case "paragraph":
+        return <p key={i}>{renderInline(block.children, ctx)}</p>
+      case "code":
+        return <CodeBlock key={i} code={block.text} lang={block.lang} />
+      case "blockquote":
+        return (
+          <blockquote key={i} className="flex flex-col gap-1 border-l-2 border-border pl-3 text-muted-foreground">
+            {renderBlocks(block.children, ctx)}
+          </blockquote>
+        )
+      case "list": {
+        const items = block.items.map((item, j) => (
+          <li key={j} className="pl-0.5">
+            {renderBlocks(item, ctx)}
+          </li>
+        ))
+        return block.ordered ? (
+          <ol key={i} start={block.start} className="list-decimal pl-5">
+            {items}
+          </ol>
+        ) : (
+          <ul key={i} className="list-disc pl-5">
+            {items}
+          </ul>
+        )
+      }
+    }
+  })
+}
+
+/**
+ * A message's content rendered as Markdown (see lib/markdown.ts) with its
+ * mentions highlighted. Everything is built as React elements - there is no
+ * HTML injection - and links are limited to http(s) and mailto.
+ */
+export function MessageText({ message, currentUserProfileId, preview = false, className }: MessageTextProps) {
+  const blocks = useMemo(() => (preview ? null : parseMarkdown(message.content)), [message.content, preview])
+  const ctx = { message, currentUserProfileId }
+
+  if (!blocks) {
+    const text = markdownToPlainText(message.content).replace(/\s+/g, " ").trim()
+    return <span className={className}>{renderText(text, ctx)}</span>
+  }
+
+  return (
+    <div className={cn("flex min-w-0 flex-col gap-1 break-words", className)}>{renderBlocks(blocks, ctx)}</div>
+  )
+}
@@ -0,0 +1,129 @@
+"use client"
+
+import { useState } from "react"
+import { AtSign, Bell, Calendar, CalendarCheck, CheckCheck, Clock, MessageSquare, Phone, PhoneMissed } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { cn } from "@/lib/utils"
+import { useNotifications } from "@/hooks/use-notifications"
+import type { View } from "@/components/app-sidebar"
+import type { ApiNotification, NotificationType } from "@/lib/types"
+
+interface NotificationBellProps {
+  currentUserProfileId?: string | null
+  onNavigate: (view: View) => void
+}
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+  mention: AtSign,
+  direct_message: MessageSquare,
+  event_invite: Calendar,
+  event_rsvp: CalendarCheck,
+  event_reminder: Clock,
+  incoming_call: Phone,
+  missed_call: PhoneMissed,
+}
+
+function formatAge(iso: string): string {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000)
+  if (minutes < 1) return "now"
+  if (minutes < 60) return `${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h`
+  return new Date(iso).toLocaleDateString([], { month: "short", day: "numeric" })
+}
+
+/** Where opening a notification takes the user */
+function notificationView(n: ApiNotification): View | null {
+  if (n.channel_id) return { type: "channel", id: n.channel_id, focus: n.focus ?? undefined }
+  if (n.chat_id) return { type: "chat", id: n.chat_id, focus: n.focus ?? undefined }
+  if ((n.type === "incoming_call" || n.type === "missed_call") && n.call_id) return { type: "call", callId: n.call_id }
+  if (n.event_id) return { type: "calendar" }
+  return null
+}
+
+/** Header bell with an unread badge and a dropdown inbox of notifications */
+export function NotificationBell({ currentUserProfileId, onNavigate }: NotificationBellProps) {
+  const [open, setOpen] = useState(false)
+  const { notifications, unreadCount, loading, hasMore, loadMore, markRead, markAllRead } =
+    useNotifications(currentUserProfileId)
+
+  const select = (n: ApiNotification) => {
+    markRead([n.id])
+    const view = notificationView(n)
+    if (!view) return
+    setOpen(false)
+    onNavigate(view)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-8 w-8 text-muted-foreground hover:text-foreground">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold leading-none text-destructive-foreground">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">
+            Notifications{unreadCount > 0 ? ` (${unreadCount} unread)` : ""}
+          </span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b border-border px-3 py-2">
+          <span className="text-sm font-semibold text-popover-foreground">Notifications</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1 text-xs"
+            onClick={markAllRead}
+            disabled={unreadCount === 0}
+          >
+            <CheckCheck className="h-3.5 w-3.5" />
+            Mark all read
+          </Button>
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 && (
+            <p className="px-3 py-8 text-center text-sm text-muted-foreground">
+              {loading ? "Loading…" : "You're all caught up."}
+            </p>
+          )}
+          {notifications.map((n) => {
+            const Icon = TYPE_ICONS[n.type]
+            return (
+              <button
+                key={n.id}
+                type="button"
+                className={cn(
+                  "flex w-full items-start gap-2.5 border-b border-border px-3 py-2.5 text-left last:border-b-0 hover:bg-muted/50",
+                  !n.read_at && "bg-primary/5"
+                )}
+                onClick={() => select(n)}
+              >
+                <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                <span className="flex min-w-0 flex-1 flex-col gap-0.5">
+                  <span className={cn("text-sm text-popover-foreground", !n.read_at && "font-medium")}>{n.title}</span>
+                  {n.body && <span className="line-clamp-2 text-xs text-muted-foreground">{n.body}</span>}
+                </span>
+                <span className="flex shrink-0 flex-col items-end gap-1.5">
+                  <span className="text-[11px] text-muted-foreground">{formatAge(n.created_at)}</span>
+                  {!n.read_at && <span className="h-2 w-2 rounded-full bg-primary" />}
+                </span>
+              </button>
+            )
+          })}
+          {hasMore && (
+            <div className="flex justify-center p-2">
+              <Button variant="ghost" size="sm" className="text-xs" onClick={loadMore}>
+                Show older
+              </Button>
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
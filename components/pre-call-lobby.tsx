@@ -12,6 +12,9 @@ import {
   Check,
   Search,
   UserPlus,
+  Circle,
+  PhoneMissed,
+  PhoneOff,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
@@ -38,6 +41,7 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { PreCallControls } from "@/components/call-controls"
 import { cn } from "@/lib/utils"
+import type { CallRingStatus, UserPresence } from "@/lib/types"
 
 /**
  * User info for displaying participant badges
@@ -48,6 +52,15 @@ export interface ParticipantPreview {
   avatarUrl?: string | null
 }
 
+/**
+ * How a ringing invitee is labelled next to their name
+ */
+const ringStatusLabel: Partial<Record<CallRingStatus, { label: string; icon?: typeof PhoneOff }>> = {
+  ringing: { label: "Ringing…" },
+  declined: { label: "Declined", icon: PhoneOff },
+  missed: { label: "No answer", icon: PhoneMissed },
+}
+
 /**
  * Profile data from API
  */
@@ -79,10 +92,23 @@ export interface PreCallLobbyProps {
   onCancel: () => void
   /** Whether to show the participant picker (defaults to true) */
   showParticipantPicker?: boolean
+  /** Live presence keyed by profile ID, shown in the participant picker */
+  presence?: Record<string, UserPresence>
+  /** How participants answered when last rung, keyed by profile ID */
+  ringStatuses?: Record<string, CallRingStatus>
   /** Additional class names */
   className?: string
 }
 
+/**
+ * Presence dot colors for the participant picker
+ */
+const statusColor: Record<string, string> = {
+  online: "text-emerald-400",
+  away: "text-amber-400",
+  offline: "text-muted-foreground/30",
+}
+
 /**
  * Get initials from a name
  */
@@ -92,6 +118,67 @@ function getInitials(name: string): string {
   return (parts[0].charAt(0) + parts[parts.length - 1].charAt(0)).toUpperCase()
 }
 
+/**
+ * A participant badge for call participant lists. Shows how the participant
+ * answered when they were rung, and a remove button when onRemove is set.
+ */
+export function ParticipantChip({
+  participant,
+  ringStatus,
+  onRemove,
+  disabled = false,
+}: {
+  participant: ParticipantPreview
+  ringStatus?: CallRingStatus | null
+  onRemove?: () => void
+  disabled?: boolean
+}) {
+  const status = ringStatus ? ringStatusLabel[ringStatus] : undefined
+  const StatusIcon = status?.icon
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-1.5 rounded-full border border-border bg-card pl-1.5 py-1",
+        onRemove ? "pr-1" : "pr-2.5",
+        (ringStatus === "declined" || ringStatus === "missed") && "opacity-60"
+      )}
+    >
+      <Avatar className="h-5 w-5">
+        {participant.avatarUrl && <AvatarImage src={participant.avatarUrl} alt={participant.name} />}
+        <AvatarFallback className="bg-secondary text-secondary-foreground text-[9px]">
+          {getInitials(participant.name)}
+        </AvatarFallback>
+      </Avatar>
+      <span className="text-xs font-medium text-card-foreground">
+        {participant.name.split(" ")[0]}
+      </span>
+      {status && (
+        <span
+          className={cn(
+            "flex items-center gap-1 text-[10px] text-muted-foreground",
+            ringStatus === "declined" && "text-destructive"
+          )}
+        >
+          {StatusIcon && <StatusIcon className="h-3 w-3" />}
+          {status.label}
+        </span>
+      )}
+      {onRemove && (
+        <button
+          type="button"
+          className="rounded-full p-0.5 hover:bg-muted-foreground/20 transition-colors"
+          onClick={onRemove}
+          disabled={disabled}
+          aria-label={`Remove ${participant.name}`}
+        >
+          <X className="h-3 w-3 text-muted-foreground" />
+        </button>
+      )}
+    </div>
+  )
+}
+
 /**
  * PreCallLobby provides a lobby experience before joining a call.
  * 
@@ -124,6 +211,8 @@ export function PreCallLobby({
   onJoin,
   onCancel,
   showParticipantPicker = true,
+  presence = {},
+  ringStatuses = {},
   className,
 }: PreCallLobbyProps) {
   const dailyCall = useDaily()
@@ -459,14 +548,22 @@ export function PreCallLobby({
                                     isSelected ? "opacity-100" : "opacity-0"
                                   )}
                                 />
-                                <Avatar className="h-6 w-6 mr-2">
-                                  {profile.avatar_url && (
-                                    <AvatarImage src={profile.avatar_url} alt={profile.name} />
-                                  )}
-                                  <AvatarFallback className="bg-secondary text-secondary-foreground text-[10px]">
-                                    {getInitials(profile.name)}
-                                  </AvatarFallback>
-                                </Avatar>
+                                <div className="relative mr-2">
+                                  <Avatar className="h-6 w-6">
+                                    {profile.avatar_url && (
+                                      <AvatarImage src={profile.avatar_url} alt={profile.name} />
+                                    )}
+                                    <AvatarFallback className="bg-secondary text-secondary-foreground text-[10px]">
+                                      {getInitials(profile.name)}
+                                    </AvatarFallback>
+                                  </Avatar>
+                                  <Circle
+                                    className={cn(
+                                      "absolute -bottom-0.5 -right-0.5 h-2.5 w-2.5 fill-current",
+                                      statusColor[presence[profile.id]?.status ?? "offline"]
+                                    )}
+                                  />
+                                </div>
                                 <span className="truncate">{profile.name}</span>
                               </CommandItem>
                             )
@@ -484,29 +581,13 @@ export function PreCallLobby({
           {selectedParticipants.length > 0 ? (
             <div className="flex flex-wrap gap-2">
               {selectedParticipants.map((p) => (
-                <div
+                <ParticipantChip
                   key={p.id}
-                  className="flex items-center gap-1.5 rounded-full border border-border bg-card pl-1.5 pr-1 py-1"
-                >
-                  <Avatar className="h-5 w-5">
-                    {p.avatarUrl && <AvatarImage src={p.avatarUrl} alt={p.name} />}
-                    <AvatarFallback className="bg-secondary text-secondary-foreground text-[9px]">
-                      {getInitials(p.name)}
-                    </AvatarFallback>
-                  </Avatar>
-                  <span className="text-xs font-medium text-card-foreground">
-                    {p.name.split(" ")[0]}
-                  </span>
-                  <button
-                    type="button"
-                    className="rounded-full p-0.5 hover:bg-muted-foreground/20 transition-colors"
-                    onClick={() => handleRemoveParticipant(p.id)}
-                    disabled={isLoading}
-                    aria-label={`Remove ${p.name}`}
-                  >
-                    <X className="h-3 w-3 text-muted-foreground" />
-                  </button>
-                </div>
+                  participant={p}
+                  ringStatus={ringStatuses[p.id]}
+                  onRemove={() => handleRemoveParticipant(p.id)}
+                  disabled={isLoading}
+                />
               ))}
             </div>
           ) : (
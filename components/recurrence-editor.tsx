@@ -0,0 +1,231 @@
+"use client"
+
+import { Repeat } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  WEEKDAYS,
+  describeRRule,
+  formatRRule,
+  isDateString,
+  nthWeekdayOf,
+  parseRRule,
+  weekdayOf,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type Weekday,
+} from "@/lib/recurrence"
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: "M",
+  TU: "T",
+  WE: "W",
+  TH: "T",
+  FR: "F",
+  SA: "S",
+  SU: "S",
+}
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: "Monday",
+  TU: "Tuesday",
+  WE: "Wednesday",
+  TH: "Thursday",
+  FR: "Friday",
+  SA: "Saturday",
+  SU: "Sunday",
+}
+
+const ORDINALS: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", [-1]: "last" }
+
+const UNITS: Record<RecurrenceFrequency, string> = { DAILY: "day", WEEKLY: "week", MONTHLY: "month" }
+
+type EndMode = "never" | "count" | "until"
+
+interface RecurrenceEditorProps {
+  /** RRULE value, or null for a one-off event */
+  value: string | null
+  onChange: (value: string | null) => void
+  /** The event's (first) date, used for default weekdays and monthly options */
+  eventDate: string
+}
+
+/** Defaults for a newly picked frequency, anchored on the event date */
+function defaultRule(freq: RecurrenceFrequency, eventDate: string): RecurrenceRule {
+  const date = isDateString(eventDate) ? eventDate : null
+  return {
+    freq,
+    interval: 1,
+    byDay: freq === "WEEKLY" && date ? [weekdayOf(date)] : [],
+    byMonthDay: freq === "MONTHLY" && date ? Number(date.slice(8, 10)) : null,
+    byNthWeekday: null,
+    count: null,
+    until: null,
+  }
+}
+
+/**
+ * Repeat settings for the event form: frequency, interval, weekdays (weekly),
+ * day of month or nth weekday (monthly) and how the series ends.
+ */
+export function RecurrenceEditor({ value, onChange, eventDate }: RecurrenceEditorProps) {
+  const rule = value ? parseRRule(value) : null
+  const validDate = isDateString(eventDate) ? eventDate : null
+
+  function update(patch: Partial<RecurrenceRule>) {
+    if (!rule) return
+    onChange(formatRRule({ ...rule, ...patch }))
+  }
+
+  const endMode: EndMode = rule?.count ? "count" : rule?.until ? "until" : "never"
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-border p-3">
+      <div className="flex items-center gap-3">
+        <Repeat className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <Select
+          value={rule?.freq ?? "none"}
+          onValueChange={(freq) =>
+            onChange(freq === "none" ? null : formatRRule(defaultRule(freq as RecurrenceFrequency, eventDate)))
+          }
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="DAILY">Daily</SelectItem>
+            <SelectItem value="WEEKLY">Weekly</SelectItem>
+            <SelectItem value="MONTHLY">Monthly</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {rule && (
+        <>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="recurrence-interval" className="text-xs text-muted-foreground">
+              Every
+            </Label>
+            <Input
+              id="recurrence-interval"
+              type="number"
+              min={1}
+              max={99}
+              className="h-8 w-16"
+              value={rule.interval}
+              onChange={(e) => update({ interval: Math.min(99, Math.max(1, Number(e.target.value) || 1)) })}
+            />
+            <span className="text-xs text-muted-foreground">
+              {UNITS[rule.freq]}
+              {rule.interval === 1 ? "" : "s"}
+            </span>
+          </div>
+
+          {rule.freq === "WEEKLY" && (
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="justify-start"
+              value={rule.byDay}
+              onValueChange={(days: string[]) => {
+                // A weekly series needs at least one day
+                if (days.length === 0) return
+                update({ byDay: WEEKDAYS.filter((d) => days.includes(d)) })
+              }}
+            >
+              {WEEKDAYS.map((d) => (
+                <ToggleGroupItem key={d} value={d} className="h-8 w-8 p-0 text-xs" aria-label={WEEKDAY_NAMES[d]}>
+                  {WEEKDAY_LABELS[d]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+
+          {rule.freq === "MONTHLY" && validDate && (
+            <Select
+              value={rule.byNthWeekday ? "weekday" : "day"}
+              onValueChange={(mode) =>
+                update(
+                  mode === "weekday"
+                    ? { byMonthDay: null, byNthWeekday: { n: nthWeekdayOf(validDate), weekday: weekdayOf(validDate) } }
+                    : { byMonthDay: Number(validDate.slice(8, 10)), byNthWeekday: null }
+                )
+              }
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">
+                  On day {rule.byMonthDay && rule.byMonthDay > 0 ? rule.byMonthDay : Number(validDate.slice(8, 10))}
+                </SelectItem>
+                <SelectItem value="weekday">
+                  On the {ORDINALS[rule.byNthWeekday?.n ?? nthWeekdayOf(validDate)]}{" "}
+                  {WEEKDAY_NAMES[rule.byNthWeekday?.weekday ?? weekdayOf(validDate)]}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">Ends</span>
+            <Select
+              value={endMode}
+              onValueChange={(mode) =>
+                update({
+                  count: mode === "count" ? 10 : null,
+                  until: mode === "until" ? validDate ?? null : null,
+                })
+              }
+            >
+              <SelectTrigger className="h-8 w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="count">After</SelectItem>
+                <SelectItem value="until">On date</SelectItem>
+              </SelectContent>
+            </Select>
+            {endMode === "count" && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  max={999}
+                  className="h-8 w-16"
+                  value={rule.count ?? 1}
+                  onChange={(e) => update({ count: Math.min(999, Math.max(1, Number(e.target.value) || 1)) })}
+                  aria-label="Number of occurrences"
+                />
+                <span className="text-xs text-muted-foreground">times</span>
+              </>
+            )}
+            {endMode === "until" && (
+              <Input
+                type="date"
+                className="h-8 flex-1"
+                min={validDate ?? undefined}
+                value={rule.until ?? ""}
+                onChange={(e) => isDateString(e.target.value) && update({ until: e.target.value })}
+                aria-label="Last date"
+              />
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">{describeRRule(rule)}</p>
+        </>
+      )}
+    </div>
+  )
+}
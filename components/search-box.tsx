@@ -0,0 +1,217 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Calendar, FileText, Hash, Loader2, Search, Users } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import type { View } from "@/components/app-sidebar"
+import { markdownToPlainText } from "@/lib/markdown"
+import type {
+  FileSearchResult,
+  MessageSearchResult,
+  SearchLocation,
+  SearchResults,
+} from "@/lib/types"
+
+interface SearchBoxProps {
+  onNavigate: (view: View) => void
+}
+
+/** Delay between the last keystroke and the search request, in ms */
+const SEARCH_DEBOUNCE_MS = 300
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString([], { month: "short", day: "numeric", year: "numeric" })
+}
+
+function LocationIcon({ location }: { location: SearchLocation }) {
+  return location.channel_id ? (
+    <Hash className="h-3 w-3 shrink-0" />
+  ) : (
+    <Users className="h-3 w-3 shrink-0" />
+  )
+}
+
+function locationView(
+  hit: Pick<MessageSearchResult | FileSearchResult, "location" | "anchor_id" | "anchor_created_at" | "parent_message_id">,
+  messageId: string
+): View | null {
+  const focus = {
+    messageId,
+    anchorId: hit.anchor_id,
+    anchorCreatedAt: hit.anchor_created_at,
+    parentMessageId: hit.parent_message_id,
+  }
+  if (hit.location.channel_id) return { type: "channel", id: hit.location.channel_id, focus }
+  if (hit.location.chat_id) return { type: "chat", id: hit.location.chat_id, focus }
+  return null
+}
+
+/**
+ * Header search box. Supports free text plus from:, in:, has:file, after:,
+ * before: and on: filters (see lib/search-query.ts), and shows grouped
+ * results in a dropdown.
+ */
+export function SearchBox({ onNavigate }: SearchBoxProps) {
+  const [query, setQuery] = useState("")
+  const [results, setResults] = useState<SearchResults | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [open, setOpen] = useState(false)
+  const requestRef = useRef(0)
+
+  useEffect(() => {
+    const q = query.trim()
+    if (!q) {
+      setResults(null)
+      setLoading(false)
+      return
+    }
+
+    const request = ++requestRef.current
+    setLoading(true)
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(q)}`)
+        if (!res.ok) throw new Error("Search failed")
+        const data: SearchResults = await res.json()
+        if (request === requestRef.current) setResults(data)
+      } catch (err) {
+        console.error("Search failed:", err)
+        if (request === requestRef.current) setResults({ messages: [], files: [], events: [] })
+      } finally {
+        if (request === requestRef.current) setLoading(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => clearTimeout(timer)
+  }, [query])
+
+  const select = (view: View | null) => {
+    if (!view) return
+    onNavigate(view)
+    setOpen(false)
+  }
+
+  const isEmpty =
+    results !== null &&
+    results.messages.length === 0 &&
+    results.files.length === 0 &&
+    results.events.length === 0
+
+  return (
+    <div className="relative hidden md:block">
+      <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        placeholder="Search..."
+        className="h-8 w-56 bg-secondary pl-8 text-sm"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value)
+          setOpen(true)
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") {
+            setOpen(false)
+            e.currentTarget.blur()
+          }
+        }}
+        aria-label="Search messages, files and events"
+      />
+
+      {open && query.trim() && (
+        <div
+          className="absolute right-0 top-10 z-50 max-h-[28rem] w-96 overflow-y-auto rounded-md border border-border bg-popover p-1 text-popover-foreground shadow-md"
+          // Keep the input focused so selecting a result isn't cancelled by blur
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {loading && !results && (
+            <div className="flex justify-center py-4 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+            </div>
+          )}
+          {isEmpty && !loading && (
+            <p className="px-2 py-4 text-center text-sm text-muted-foreground">No results</p>
+          )}
+
+          {results && results.messages.length > 0 && (
+            <div className="py-1">
+              <p className="px-2 py-1 text-[11px] font-semibold uppercase tracking-wider text-muted-foreground">
+                Messages
+              </p>
+              {results.messages.map((m) => (
+                <button
+                  key={m.id}
+                  type="button"
+                  className="flex w-full flex-col gap-0.5 rounded-sm px-2 py-1.5 text-left hover:bg-accent hover:text-accent-foreground"
+                  onClick={() => select(locationView(m, m.id))}
+                >
+                  <span className="flex items-center gap-1 text-[11px] text-muted-foreground">
+                    <LocationIcon location={m.location} />
+                    <span className="truncate">{m.location.name}</span>
+                    {m.parent_message_id && <span>&middot; in thread</span>}
+                    <span className="ml-auto shrink-0">{formatDate(m.created_at)}</span>
+                  </span>
+                  <span className="line-clamp-2 text-sm">
+                    <span className="font-medium">{m.sender?.name ?? "Unknown"}:</span> {markdownToPlainText(m.content)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {results && results.files.length > 0 && (
+            <div className="py-1">
+              <p className="px-2 py-1 text-[11px] font-semibold uppercase tracking-wider text-muted-foreground">
+                Files
+              </p>
+              {results.files.map((f) => (
+                <button
+                  key={f.id}
+                  type="button"
+                  className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left hover:bg-accent hover:text-accent-foreground"
+                  onClick={() => select(locationView(f, f.message_id))}
+                >
+                  <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <span className="flex min-w-0 flex-col">
+                    <span className="truncate text-sm">{f.name}</span>
+                    <span className="flex items-center gap-1 text-[11px] text-muted-foreground">
+                      <LocationIcon location={f.location} />
+                      <span className="truncate">
+                        {f.location.name} &middot; {f.sender?.name ?? "Unknown"} &middot; {formatDate(f.created_at)}
+                      </span>
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {results && results.events.length > 0 && (
+            <div className="py-1">
+              <p className="px-2 py-1 text-[11px] font-semibold uppercase tracking-wider text-muted-foreground">
+                Events
+              </p>
+              {results.events.map((ev) => (
+                <button
+                  key={ev.id}
+                  type="button"
+                  className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left hover:bg-accent hover:text-accent-foreground"
+                  onClick={() => select({ type: "calendar" })}
+                >
+                  <Calendar className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <span className="flex min-w-0 flex-col">
+                    <span className="truncate text-sm">{ev.title}</span>
+                    <span className="text-[11px] text-muted-foreground">
+                      {formatDate(`${ev.event_date}T00:00:00`)} &middot; {ev.start_time.slice(0, 5)}–{ev.end_time.slice(0, 5)}
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+"use client"
+
+import { X } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+import { MessageList } from "@/components/message-list"
+import { MessageInput, type PendingAttachment } from "@/components/message-input"
+import { FilePreviewCard } from "@/components/file-preview-card"
+import { LinkPreviewCard } from "@/components/link-preview-card"
+import { MessageReactions } from "@/components/message-reactions"
+import { MessageText } from "@/components/message-text"
+import type { ApiMessage } from "@/lib/types"
+
+interface ThreadPanelProps {
+  parent: ApiMessage
+  replies: ApiMessage[]
+  loading?: boolean
+  /** Reply to scroll to and highlight */
+  highlightMessageId?: string | null
+  currentUserProfileId?: string | null
+  onClose: () => void
+  onSend: (content: string, attachments: PendingAttachment[], mentionIds: string[]) => Promise<void>
+  onEdit?: (messageId: string, content: string) => Promise<void>
+  onDelete?: (messageId: string) => Promise<void>
+  onToggleReaction?: (messageId: string, emoji: string, reacted: boolean) => void
+  onDismissUnfurl?: (messageId: string, url: string) => Promise<void>
+  /** Offer @channel and @here when replying - for threads in channels */
+  broadcastMentions?: boolean
+}
+
+function getInitials(name: string): string {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2)
+}
+
+export function ThreadPanel({
+  parent,
+  replies,
+  loading,
+  highlightMessageId,
+  currentUserProfileId,
+  onClose,
+  onSend,
+  onEdit,
+  onDelete,
+  onToggleReaction,
+  onDismissUnfurl,
+  broadcastMentions,
+}: ThreadPanelProps) {
+  const senderName = parent.sender?.name ?? "Unknown"
+
+  return (
+    <aside className="flex w-96 shrink-0 flex-col overflow-hidden border-l border-border bg-card">
+      <div className="flex h-12 shrink-0 items-center justify-between border-b border-border px-4">
+        <span className="text-sm font-semibold text-card-foreground">Thread</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground hover:text-foreground"
+          onClick={onClose}
+          aria-label="Close thread"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Parent message */}
+      <div className="flex shrink-0 items-start gap-3 border-b border-border px-4 py-3">
+        <Avatar className="mt-0.5 h-8 w-8 shrink-0">
+          {parent.sender?.avatar_url && <AvatarImage src={parent.sender.avatar_url} alt="" />}
+          <AvatarFallback className="bg-secondary text-secondary-foreground text-xs">
+            {parent.sender ? getInitials(parent.sender.name) : "??"}
+          </AvatarFallback>
+        </Avatar>
+        <div className="flex min-w-0 flex-1 flex-col gap-0.5">
+          <span className="text-sm font-semibold text-foreground">{senderName}</span>
+          <MessageText
+            message={parent}
+            currentUserProfileId={currentUserProfileId}
+            className="text-sm leading-relaxed text-foreground/90"
+          />
+          <FilePreviewCard files={parent.file_attachments} />
+          {parent.unfurls.map((unfurl) => (
+            <LinkPreviewCard
+              key={unfurl.url}
+              unfurl={unfurl}
+              onDismiss={
+                onDismissUnfurl && parent.sender?.id === currentUserProfileId
+                  ? () => onDismissUnfurl(parent.id, unfurl.url)
+                  : undefined
+              }
+            />
+          ))}
+          {onToggleReaction && (
+            <MessageReactions
+              reactions={parent.reactions}
+              onToggle={(emoji, reacted) => onToggleReaction(parent.id, emoji, reacted)}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="shrink-0 px-4 pt-2 text-[11px] text-muted-foreground">
+        {replies.length === 1 ? "1 reply" : `${replies.length} replies`}
+      </div>
+
+      {loading ? (
+        <div className="flex flex-1 items-center justify-center text-muted-foreground">
+          <div className="h-6 w-6 animate-spin rounded-full border-2 border-current border-t-transparent" />
+        </div>
+      ) : (
+        <MessageList
+          messages={replies}
+          highlightMessageId={highlightMessageId}
+          currentUserProfileId={currentUserProfileId}
+          onEdit={onEdit}
+          onDelete={onDelete}
+          onToggleReaction={onToggleReaction}
+          onDismissUnfurl={onDismissUnfurl}
+        />
+      )}
+      <MessageInput
+        placeholder="Reply..."
+        onSend={onSend}
+        onError={(err) => console.error("Failed to send reply:", err)}
+        broadcastMentions={broadcastMentions}
+      />
+    </aside>
+  )
+}
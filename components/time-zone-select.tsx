@@ -0,0 +1,54 @@
+"use client"
+
+import { useMemo } from "react"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { formatTimeZoneAbbreviation, listTimeZones } from "@/lib/time-zones"
+
+// Select items can't have an empty value
+const NONE_VALUE = "__none__"
+
+interface TimeZoneSelectProps {
+  value: string | null
+  onChange: (value: string | null) => void
+  /** Label of a leading "no zone" option; without it a zone must be picked */
+  emptyLabel?: string
+  className?: string
+}
+
+/** Picker over the runtime's IANA zones, labelled with their current abbreviation */
+export function TimeZoneSelect({ value, onChange, emptyLabel, className }: TimeZoneSelectProps) {
+  const options = useMemo(() => {
+    const listed = listTimeZones()
+    // A stored zone the runtime doesn't list (renamed zones) still shows
+    const zones = value && !listed.includes(value) ? [value, ...listed] : listed
+    return zones.map((zone) => ({
+      value: zone,
+      label: `${zone.replace(/_/g, " ")} (${formatTimeZoneAbbreviation(zone)})`,
+    }))
+  }, [value])
+
+  return (
+    <Select
+      value={value ?? (emptyLabel ? NONE_VALUE : undefined)}
+      onValueChange={(v) => onChange(v === NONE_VALUE ? null : v)}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Select time zone" />
+      </SelectTrigger>
+      <SelectContent className="max-h-72">
+        {emptyLabel && <SelectItem value={NONE_VALUE}>{emptyLabel}</SelectItem>}
+        {options.map((o) => (
+          <SelectItem key={o.value} value={o.value}>
+            {o.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
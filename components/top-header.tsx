@@ -2,8 +2,7 @@
 
 import React from "react"
 
-import { Search, Bell, Settings, Users, Hash, Calendar, Video, LogOut } from "lucide-react"
-import { Input } from "@/components/ui/input"
+import { Settings, Users, Hash, Lock, Calendar, Video, LogOut, AtSign } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import {
@@ -13,12 +12,15 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { useClerk, useUser } from "@clerk/nextjs"
+import { SearchBox } from "@/components/search-box"
+import { NotificationBell } from "@/components/notification-bell"
 import type { View } from "@/components/app-sidebar"
 
 interface Channel {
   id: string
   name: string
   description?: string | null
+  isPrivate?: boolean
 }
 
 interface Chat {
@@ -33,6 +35,7 @@ interface TopHeaderProps {
   channels?: Channel[]
   chats?: Chat[]
   currentUserProfileId?: string | null
+  onNavigate: (view: View) => void
 }
 
 function getInitials(name: string): string {
@@ -54,7 +57,11 @@ function getTitle(
     case "channel": {
       const ch = channels.find((c) => c.id === view.id)
       return {
-        icon: <Hash className="h-5 w-5 text-muted-foreground" />,
+        icon: ch?.isPrivate ? (
+          <Lock className="h-5 w-5 text-muted-foreground" />
+        ) : (
+          <Hash className="h-5 w-5 text-muted-foreground" />
+        ),
         title: ch?.name || "Channel",
         subtitle: ch?.description ?? undefined,
       }
@@ -72,6 +79,8 @@ function getTitle(
         subtitle: chat?.isGroup ? `${chat.participants.length} members` : undefined,
       }
     }
+    case "mentions":
+      return { icon: <AtSign className="h-5 w-5 text-muted-foreground" />, title: "Mentions", subtitle: "Messages that mention you" }
     case "calendar":
       return { icon: <Calendar className="h-5 w-5 text-muted-foreground" />, title: "Calendar", subtitle: "Schedule and manage meetings" }
     case "call":
@@ -79,7 +88,7 @@ function getTitle(
   }
 }
 
-export function TopHeader({ activeView, channels = [], chats = [], currentUserProfileId }: TopHeaderProps) {
+export function TopHeader({ activeView, channels = [], chats = [], currentUserProfileId, onNavigate }: TopHeaderProps) {
   const { user } = useUser()
   const { signOut } = useClerk()
   const { icon, title, subtitle } = getTitle(activeView, channels, chats, currentUserProfileId)
@@ -95,18 +104,8 @@ export function TopHeader({ activeView, channels = [], chats = [], currentUserPr
       </div>
 
       <div className="flex items-center gap-2">
-        <div className="relative hidden md:block">
-          <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-          <Input
-            placeholder="Search..."
-            className="h-8 w-56 bg-secondary pl-8 text-sm"
-            readOnly
-          />
-        </div>
-        <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-foreground">
-          <Bell className="h-4 w-4" />
-          <span className="sr-only">Notifications</span>
-        </Button>
+        <SearchBox onNavigate={onNavigate} />
+        <NotificationBell currentUserProfileId={currentUserProfileId} onNavigate={onNavigate} />
         <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-foreground">
           <Settings className="h-4 w-4" />
           <span className="sr-only">Settings</span>
@@ -0,0 +1,66 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import type { CallInvitee } from "@/lib/types"
+
+/**
+ * The people a call rang and how each answered, kept live over Supabase
+ * Realtime so the caller sees declines and missed rings as they happen.
+ *
+ * @example
+ * ```tsx
+ * const invitees = useCallInvites(callId)
+ * ```
+ */
+export function useCallInvites(callId: string | null | undefined): CallInvitee[] {
+  const [invitees, setInvitees] = useState<CallInvitee[]>([])
+  // Ignore responses to requests superseded by a newer load
+  const requestRef = useRef(0)
+
+  const refresh = useCallback(async (id: string) => {
+    const request = ++requestRef.current
+    try {
+      const res = await fetch(`/api/calls/${id}/invites`)
+      if (!res.ok) return
+      const data = (await res.json()) as { invitees: CallInvitee[] }
+      if (request === requestRef.current) setInvitees(data.invitees)
+    } catch {
+      // Keep what's shown; the next change retries
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!callId) {
+      setInvitees([])
+      return
+    }
+    refresh(callId)
+
+    const channel = supabase
+      .channel(`call-invites:${callId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "call_participants",
+          filter: `call_id=eq.${callId}`,
+        },
+        () => {
+          refresh(callId)
+        }
+      )
+      .subscribe((status) => {
+        if (status === "CHANNEL_ERROR") {
+          console.error("[Realtime] Error subscribing to call invites")
+        }
+      })
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [callId, refresh])
+
+  return invitees
+}
@@ -0,0 +1,70 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { supabase } from "@/lib/supabase"
+import type { ChatSystemEvent } from "@/lib/types"
+
+// Columns of a system message insert needed to route it
+interface SystemMessageRow {
+  chat_id: string | null
+  system_event: ChatSystemEvent | null
+}
+
+export interface UseChatMembershipEventsOptions {
+  /**
+   * Chats in the sidebar, from GET /api/chats
+   */
+  chatIds: string[]
+  currentUserProfileId?: string | null
+  /**
+   * Called when one of the user's group chats is renamed or its members
+   * change, including when the user is added to a new group
+   */
+  onChange: (chatId: string, event: ChatSystemEvent) => void
+}
+
+/**
+ * Watch group chat membership changes over Supabase Realtime, using the
+ * system messages the chat routes post for them.
+ *
+ * @example
+ * ```tsx
+ * useChatMembershipEvents({ chatIds, currentUserProfileId, onChange: () => refreshChats() })
+ * ```
+ */
+export function useChatMembershipEvents({ chatIds, currentUserProfileId, onChange }: UseChatMembershipEventsOptions) {
+  // Latest values for the long-lived realtime handler
+  const stateRef = useRef({ chatIds, currentUserProfileId, onChange })
+  stateRef.current = { chatIds, currentUserProfileId, onChange }
+
+  useEffect(() => {
+    if (!currentUserProfileId) return
+
+    const channel = supabase
+      .channel(`chat-membership:${currentUserProfileId}`)
+      .on<SystemMessageRow>(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "messages" },
+        (payload) => {
+          const message = payload.new as SystemMessageRow
+          if (!message.system_event || !message.chat_id) return
+
+          // The subscription sees every message; only react to the user's chats
+          const state = stateRef.current
+          const involvesMe =
+            state.chatIds.includes(message.chat_id) ||
+            (message.system_event.user_ids ?? []).includes(state.currentUserProfileId ?? "")
+          if (involvesMe) state.onChange(message.chat_id, message.system_event)
+        }
+      )
+      .subscribe((status) => {
+        if (status === "CHANNEL_ERROR") {
+          console.error("[Realtime] Error subscribing to chat membership changes")
+        }
+      })
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [currentUserProfileId])
+}
@@ -8,6 +8,7 @@ import {
   useScreenShare,
   useMeetingState,
   useDevices,
+  useRecording,
   DailyVideo,
   DailyAudio,
 } from "@daily-co/daily-react"
@@ -113,6 +114,8 @@ export interface UseDailyCallReturn {
   isCameraOff: boolean
   /** Whether local user is screen sharing */
   isScreenSharing: boolean
+  /** Whether the call is being recorded */
+  isRecording: boolean
 
   // Control functions
   /** Join the call with the given room URL and token */
@@ -267,6 +270,7 @@ export function useDailyCall(
     currentCam,
     currentSpeaker,
   } = useDevices()
+  const { isRecording } = useRecording()
 
   // Local state for tracking our mute/camera state
   const [isMuted, setIsMuted] = useState(false)
@@ -453,6 +457,7 @@ export function useDailyCall(
     isMuted,
     isCameraOff,
     isScreenSharing: isSharingScreen,
+    isRecording,
 
     // Control functions
     joinCall,
@@ -0,0 +1,104 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import type { AnswerCallInput, IncomingCall } from "@/lib/types"
+
+// Wait a little past a ring's end so the server sees it as timed out
+const RING_EXPIRY_SLACK_MS = 1000
+
+export interface UseIncomingCallsResult {
+  /** Calls ringing the current user, oldest first */
+  incomingCalls: IncomingCall[]
+  /** Answer a ringing call; it stops ringing here straight away */
+  answer: (callId: string, response: AnswerCallInput["response"]) => Promise<void>
+}
+
+/**
+ * Calls ringing the current user.
+ *
+ * Loads GET /api/calls/incoming and reloads it whenever one of the user's
+ * call_participants rows changes over Supabase Realtime: a new ring, an
+ * answer from another tab, or the call ending. The server decides when a
+ * ring times out; when a call's ring_remaining_ms runs out the list is
+ * reloaded, which marks it missed and stops it ringing in every tab.
+ *
+ * @example
+ * ```tsx
+ * const { incomingCalls, answer } = useIncomingCalls(currentUserProfileId)
+ * ```
+ */
+export function useIncomingCalls(currentUserProfileId: string | null | undefined): UseIncomingCallsResult {
+  const [incomingCalls, setIncomingCalls] = useState<IncomingCall[]>([])
+  // Ignore responses to requests superseded by a newer load
+  const requestRef = useRef(0)
+
+  const refresh = useCallback(async () => {
+    const request = ++requestRef.current
+    try {
+      const res = await fetch("/api/calls/incoming")
+      if (!res.ok) return
+      const data = (await res.json()) as { calls: IncomingCall[] }
+      if (request !== requestRef.current) return
+      setIncomingCalls(data.calls)
+    } catch {
+      // Keep what's ringing; the next change retries
+    }
+  }, [])
+
+  const answer = useCallback(async (callId: string, response: AnswerCallInput["response"]) => {
+    setIncomingCalls((prev) => prev.filter((c) => c.call_id !== callId))
+    try {
+      const res = await fetch(`/api/calls/${callId}/answer`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ response } satisfies AnswerCallInput),
+      })
+      if (!res.ok) console.error("Failed to answer call:", res.status)
+    } catch (err) {
+      console.error("Failed to answer call:", err)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!currentUserProfileId) {
+      setIncomingCalls([])
+      return
+    }
+    refresh()
+
+    const channel = supabase
+      .channel(`incoming-calls:${currentUserProfileId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "call_participants",
+          filter: `user_id=eq.${currentUserProfileId}`,
+        },
+        () => {
+          refresh()
+        }
+      )
+      .subscribe((status) => {
+        if (status === "CHANNEL_ERROR") {
+          console.error("[Realtime] Error subscribing to incoming calls")
+        }
+      })
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [currentUserProfileId, refresh])
+
+  // Re-check with the server once the first ring's time is up
+  useEffect(() => {
+    if (incomingCalls.length === 0) return
+    const remaining = Math.min(...incomingCalls.map((c) => c.ring_remaining_ms))
+    const timer = setTimeout(refresh, remaining + RING_EXPIRY_SLACK_MS)
+    return () => clearTimeout(timer)
+  }, [incomingCalls, refresh])
+
+  return { incomingCalls, answer }
+}
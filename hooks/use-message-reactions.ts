@@ -0,0 +1,90 @@
+"use client"
+
+import { useCallback, useRef, type Dispatch, type SetStateAction } from "react"
+import { addReaction, removeReaction } from "@/lib/reactions"
+import type { ApiMessage } from "@/lib/types"
+import type { MessageSourceType } from "@/hooks/use-paginated-messages"
+import { useRealtimeReactions } from "@/hooks/use-realtime-reactions"
+
+type MessagesSetter = Dispatch<SetStateAction<ApiMessage[]>>
+
+/**
+ * Keep message reactions in sync for a channel or chat.
+ *
+ * Applies realtime reaction changes to every given message list (e.g. the main
+ * list and an open thread) and returns a toggle handler that updates those
+ * lists optimistically before calling the reactions API. Realtime echoes of
+ * the user's own changes are no-ops because the helpers are idempotent.
+ *
+ * @param type - Whether `id` refers to a channel or a chat
+ * @param id - The channel or chat ID
+ * @param currentUserProfileId - The viewer, used for `reacted_by_me`
+ * @param setters - State setters of the message lists to keep updated
+ */
+export function useMessageReactions(
+  type: MessageSourceType,
+  id: string | null | undefined,
+  currentUserProfileId: string | null | undefined,
+  setters: MessagesSetter[]
+) {
+  const settersRef = useRef(setters)
+  settersRef.current = setters
+
+  const apply = useCallback(
+    (messageId: string, emoji: string, userId: string, added: boolean) => {
+      for (const setMessages of settersRef.current) {
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.id === messageId
+              ? {
+                  ...m,
+                  reactions: added
+                    ? addReaction(m.reactions, emoji, userId, currentUserProfileId)
+                    : removeReaction(m.reactions, emoji, userId, currentUserProfileId),
+                }
+              : m
+          )
+        )
+      }
+    },
+    [currentUserProfileId]
+  )
+
+  useRealtimeReactions(type, id, {
+    onAdd: (reaction) => apply(reaction.message_id, reaction.emoji, reaction.user_id, true),
+    onRemove: (reaction) => {
+      if (reaction.message_id && reaction.emoji && reaction.user_id) {
+        apply(reaction.message_id, reaction.emoji, reaction.user_id, false)
+      }
+    },
+  })
+
+  const toggleReaction = useCallback(
+    async (messageId: string, emoji: string, reacted: boolean) => {
+      if (!currentUserProfileId) return
+      apply(messageId, emoji, currentUserProfileId, !reacted)
+      try {
+        const res = reacted
+          ? await fetch(
+              `/api/messages/${messageId}/reactions?emoji=${encodeURIComponent(emoji)}`,
+              { method: "DELETE" }
+            )
+          : await fetch(`/api/messages/${messageId}/reactions`, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ emoji }),
+            })
+        if (!res.ok) {
+          throw new Error("Failed to update reaction")
+        }
+      } catch (err) {
+        // Roll back the optimistic change
+        apply(messageId, emoji, currentUserProfileId, reacted)
+        console.error("Failed to update reaction:", err)
+      }
+    },
+    [currentUserProfileId, apply]
+  )
+
+  return { toggleReaction }
+}
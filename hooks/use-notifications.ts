@@ -0,0 +1,182 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import type { ApiNotification, ApiNotificationPage } from "@/lib/types"
+
+// Columns of a notification row needed to follow read changes
+interface NotificationRow {
+  id: string
+  read_at: string | null
+}
+
+export interface UseNotificationsResult {
+  notifications: ApiNotification[]
+  unreadCount: number
+  loading: boolean
+  hasMore: boolean
+  loadMore: () => Promise<void>
+  markRead: (ids: string[]) => Promise<void>
+  markAllRead: () => Promise<void>
+}
+
+/**
+ * The current user's notification inbox, newest first.
+ *
+ * Loads the first page from GET /api/notifications and stays live over
+ * Supabase Realtime: a new notification reloads the first page (to pick up
+ * its actor and message focus), and read changes from other tabs are applied
+ * in place. Marking read is optimistic.
+ *
+ * @example
+ * ```tsx
+ * const { notifications, unreadCount, markRead } = useNotifications(currentUserProfileId)
+ * ```
+ */
+export function useNotifications(currentUserProfileId: string | null | undefined): UseNotificationsResult {
+  const [notifications, setNotifications] = useState<ApiNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  // Ignore responses to requests superseded by a newer first-page load
+  const requestRef = useRef(0)
+  // Latest list for the long-lived realtime handler
+  const notificationsRef = useRef(notifications)
+  notificationsRef.current = notifications
+
+  const refresh = useCallback(async () => {
+    const request = ++requestRef.current
+    setLoading(true)
+    try {
+      const res = await fetch("/api/notifications")
+      if (!res.ok) return
+      const page: ApiNotificationPage = await res.json()
+      if (request !== requestRef.current) return
+      setNotifications(page.notifications)
+      setNextCursor(page.nextCursor)
+      setUnreadCount(page.unreadCount)
+    } catch {
+      // Keep what's shown; the next change retries
+    } finally {
+      if (request === requestRef.current) setLoading(false)
+    }
+  }, [])
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) return
+    const request = requestRef.current
+    try {
+      const res = await fetch(`/api/notifications?before=${encodeURIComponent(nextCursor)}`)
+      if (!res.ok) return
+      const page: ApiNotificationPage = await res.json()
+      if (request !== requestRef.current) return
+      setNotifications((prev) => {
+        const seen = new Set(prev.map((n) => n.id))
+        return [...prev, ...page.notifications.filter((n) => !seen.has(n.id))]
+      })
+      setNextCursor(page.nextCursor)
+    } catch {
+      // The button stays for another try
+    }
+  }, [nextCursor])
+
+  const patch = useCallback(
+    async (body: { ids?: string[]; all?: boolean }) => {
+      try {
+        const res = await fetch("/api/notifications", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        })
+        if (!res.ok) await refresh()
+      } catch {
+        await refresh()
+      }
+    },
+    [refresh]
+  )
+
+  const markRead = useCallback(
+    async (ids: string[]) => {
+      const unread = new Set(notifications.filter((n) => ids.includes(n.id) && !n.read_at).map((n) => n.id))
+      if (unread.size === 0) return
+      const now = new Date().toISOString()
+      setNotifications((prev) => prev.map((n) => (unread.has(n.id) ? { ...n, read_at: now } : n)))
+      setUnreadCount((c) => Math.max(c - unread.size, 0))
+      await patch({ ids: [...unread] })
+    },
+    [notifications, patch]
+  )
+
+  const markAllRead = useCallback(async () => {
+    const now = new Date().toISOString()
+    setNotifications((prev) => prev.map((n) => (n.read_at ? n : { ...n, read_at: now })))
+    setUnreadCount(0)
+    await patch({ all: true })
+  }, [patch])
+
+  useEffect(() => {
+    if (!currentUserProfileId) {
+      setNotifications([])
+      setUnreadCount(0)
+      setNextCursor(null)
+      return
+    }
+    refresh()
+
+    const channel = supabase
+      .channel(`notifications:${currentUserProfileId}`)
+      .on<NotificationRow>(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "notifications",
+          filter: `user_id=eq.${currentUserProfileId}`,
+        },
+        (payload) => {
+          switch (payload.eventType) {
+            case "INSERT":
+              refresh()
+              break
+            case "UPDATE": {
+              const row = payload.new as NotificationRow
+              const shown = notificationsRef.current.find((n) => n.id === row.id)
+              // Changes made here were already applied optimistically
+              if (shown && Boolean(shown.read_at) === Boolean(row.read_at)) break
+              if (!shown) {
+                // Not loaded, so only the server knows the new total
+                refresh()
+                break
+              }
+              setNotifications((prev) => prev.map((n) => (n.id === row.id ? { ...n, read_at: row.read_at } : n)))
+              setUnreadCount((c) => Math.max(c + (row.read_at ? -1 : 1), 0))
+              break
+            }
+            case "DELETE":
+              refresh()
+              break
+          }
+        }
+      )
+      .subscribe((status) => {
+        if (status === "CHANNEL_ERROR") {
+          console.error("[Realtime] Error subscribing to notifications")
+        }
+      })
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [currentUserProfileId, refresh])
+
+  return {
+    notifications,
+    unreadCount,
+    loading,
+    hasMore: nextCursor !== null,
+    loadMore,
+    markRead,
+    markAllRead,
+  }
+}
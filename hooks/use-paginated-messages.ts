@@ -0,0 +1,244 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from "react"
+import { encodeMessageCursor } from "@/lib/message-cursor"
+import type { ApiMessage, ApiMessagePage } from "@/lib/types"
+
+export type MessageSourceType = "channel" | "chat"
+
+export interface UsePaginatedMessagesReturn {
+  /**
+   * Loaded messages, oldest first
+   */
+  messages: ApiMessage[]
+  /**
+   * Direct state setter for optimistic and realtime updates
+   */
+  setMessages: Dispatch<SetStateAction<ApiMessage[]>>
+  /**
+   * True while the newest page is loading for the first time
+   */
+  loading: boolean
+  /**
+   * Whether older messages exist beyond the loaded range
+   */
+  hasOlder: boolean
+  /**
+   * True while an older page is being fetched
+   */
+  loadingOlder: boolean
+  /**
+   * Fetch the next page of older messages and prepend it
+   */
+  loadOlder: () => Promise<void>
+  /**
+   * Whether newer messages exist beyond the loaded range (only when loaded around an anchor)
+   */
+  hasNewer: boolean
+  /**
+   * True while a newer page is being fetched
+   */
+  loadingNewer: boolean
+  /**
+   * Fetch the next page of newer messages and append it
+   */
+  loadNewerPage: () => Promise<void>
+  /**
+   * Fetch every message newer than the newest loaded one and append it
+   */
+  loadNewer: () => Promise<void>
+}
+
+export interface MessageAnchor {
+  id: string
+  created_at: string
+}
+
+// Sorts before every real ID, so an `after` cursor built with it includes the anchor itself
+const MIN_UUID = "00000000-0000-0000-0000-000000000000"
+
+function buildUrl(type: MessageSourceType, id: string, cursor?: { before?: string; after?: string }) {
+  const params = new URLSearchParams()
+  params.set(type === "channel" ? "channelId" : "chatId", id)
+  if (cursor?.before) params.set("before", cursor.before)
+  if (cursor?.after) params.set("after", cursor.after)
+  return `/api/messages?${params.toString()}`
+}
+
+async function fetchPage(url: string): Promise<ApiMessagePage> {
+  const res = await fetch(url)
+  if (!res.ok) {
+    throw new Error("Failed to fetch messages")
+  }
+  const data = await res.json()
+  return {
+    messages: Array.isArray(data?.messages) ? data.messages : [],
+    nextCursor: typeof data?.nextCursor === "string" ? data.nextCursor : null,
+  }
+}
+
+/**
+ * Load the messages of a channel or chat newest page first, with helpers to
+ * page backwards through history and to catch up on newer messages.
+ *
+ * Responses that arrive after the channel/chat has changed are discarded.
+ *
+ * @param type - Whether `id` refers to a channel or a chat
+ * @param id - The channel or chat ID
+ * @param anchor - Optional message to load around instead of the newest page
+ *   (e.g. a search result); newer pages are then available via `loadNewerPage`
+ *
+ * @example
+ * ```tsx
+ * const { messages, loading, hasOlder, loadingOlder, loadOlder, loadNewer } =
+ *   usePaginatedMessages("channel", channelId)
+ *
+ * <MessageList messages={messages} hasMore={hasOlder} loadingMore={loadingOlder} onLoadMore={loadOlder} />
+ * ```
+ */
+export function usePaginatedMessages(
+  type: MessageSourceType,
+  id: string | null | undefined,
+  anchor?: MessageAnchor | null
+): UsePaginatedMessagesReturn {
+  const [messages, setMessages] = useState<ApiMessage[]>([])
+  const [loading, setLoading] = useState(true)
+  const [olderCursor, setOlderCursor] = useState<string | null>(null)
+  const [loadingOlder, setLoadingOlder] = useState(false)
+  const [newerCursor, setNewerCursor] = useState<string | null>(null)
+  const [loadingNewer, setLoadingNewer] = useState(false)
+
+  // Bumped on every source change so in-flight responses for the old source are ignored
+  const generationRef = useRef(0)
+  const messagesRef = useRef(messages)
+  messagesRef.current = messages
+  const loadingOlderRef = useRef(false)
+  const loadingNewerRef = useRef(false)
+
+  const anchorId = anchor?.id
+  const anchorCreatedAt = anchor?.created_at
+
+  useEffect(() => {
+    const generation = ++generationRef.current
+    setMessages([])
+    setOlderCursor(null)
+    setNewerCursor(null)
+    if (!id) {
+      setLoading(false)
+      return
+    }
+
+    setLoading(true)
+    const load = anchorId && anchorCreatedAt
+      ? Promise.all([
+          fetchPage(buildUrl(type, id, { before: encodeMessageCursor({ id: anchorId, created_at: anchorCreatedAt }) })),
+          fetchPage(buildUrl(type, id, { after: encodeMessageCursor({ id: MIN_UUID, created_at: anchorCreatedAt }) })),
+        ]).then(([older, newer]) => {
+          if (generation !== generationRef.current) return
+          setMessages([...older.messages, ...newer.messages])
+          setOlderCursor(older.nextCursor)
+          setNewerCursor(newer.nextCursor)
+        })
+      : fetchPage(buildUrl(type, id)).then((page) => {
+          if (generation !== generationRef.current) return
+          setMessages(page.messages)
+          setOlderCursor(page.nextCursor)
+        })
+
+    load
+      .catch(() => {
+        if (generation !== generationRef.current) return
+        setMessages([])
+      })
+      .finally(() => {
+        if (generation === generationRef.current) setLoading(false)
+      })
+  }, [type, id, anchorId, anchorCreatedAt])
+
+  const loadOlder = useCallback(async () => {
+    if (!id || !olderCursor || loadingOlderRef.current) return
+    const generation = generationRef.current
+    loadingOlderRef.current = true
+    setLoadingOlder(true)
+    try {
+      const page = await fetchPage(buildUrl(type, id, { before: olderCursor }))
+      if (generation !== generationRef.current) return
+      setMessages((prev) => {
+        const known = new Set(prev.map((m) => m.id))
+        return [...page.messages.filter((m) => !known.has(m.id)), ...prev]
+      })
+      setOlderCursor(page.nextCursor)
+    } catch (err) {
+      console.error("Failed to load older messages:", err)
+    } finally {
+      loadingOlderRef.current = false
+      setLoadingOlder(false)
+    }
+  }, [type, id, olderCursor])
+
+  const loadNewerPage = useCallback(async () => {
+    if (!id || !newerCursor || loadingNewerRef.current) return
+    const generation = generationRef.current
+    loadingNewerRef.current = true
+    setLoadingNewer(true)
+    try {
+      const page = await fetchPage(buildUrl(type, id, { after: newerCursor }))
+      if (generation !== generationRef.current) return
+      setMessages((prev) => {
+        const known = new Set(prev.map((m) => m.id))
+        return [...prev, ...page.messages.filter((m) => !known.has(m.id))]
+      })
+      setNewerCursor(page.nextCursor)
+    } catch (err) {
+      console.error("Failed to load newer messages:", err)
+    } finally {
+      loadingNewerRef.current = false
+      setLoadingNewer(false)
+    }
+  }, [type, id, newerCursor])
+
+  const loadNewer = useCallback(async () => {
+    if (!id) return
+    const generation = generationRef.current
+    // Optimistic copies have no server cursor; continue from the newest stored message
+    const newest = [...messagesRef.current].reverse().find((m) => !m.pending)
+    let cursor: string | null = newest ? encodeMessageCursor(newest) : null
+
+    try {
+      if (!cursor) {
+        // Nothing loaded yet: the newest page is everything there is to catch up on
+        const page = await fetchPage(buildUrl(type, id))
+        if (generation !== generationRef.current) return
+        setMessages(page.messages)
+        setOlderCursor(page.nextCursor)
+        return
+      }
+
+      while (cursor) {
+        const page = await fetchPage(buildUrl(type, id, { after: cursor }))
+        if (generation !== generationRef.current) return
+        setMessages((prev) => {
+          const known = new Set(prev.map((m) => m.id))
+          return [...prev, ...page.messages.filter((m) => !known.has(m.id))]
+        })
+        cursor = page.nextCursor
+      }
+      setNewerCursor(null)
+    } catch (err) {
+      console.error("Failed to load newer messages:", err)
+    }
+  }, [type, id])
+
+  return {
+    messages,
+    setMessages,
+    loading,
+    hasOlder: olderCursor !== null,
+    loadingOlder,
+    loadOlder,
+    hasNewer: newerCursor !== null,
+    loadingNewer,
+    loadNewerPage,
+    loadNewer,
+  }
+}
@@ -0,0 +1,251 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { RealtimeChannel } from "@supabase/supabase-js"
+import { supabase } from "@/lib/supabase"
+import { PRESENCE_HEARTBEAT_MS, PRESENCE_IDLE_MS, isStatusExpired } from "@/lib/presence"
+import type {
+  CurrentUserProfile,
+  ManualStatusInput,
+  PresenceStatus,
+  UserPresence,
+} from "@/lib/types"
+
+// What each open tab tracks on the presence channel
+interface PresencePayload {
+  status: PresenceStatus
+  status_message: string | null
+  // Whether this tab has had no input for PRESENCE_IDLE_MS
+  idle: boolean
+}
+
+const NO_MANUAL_STATUS: ManualStatusInput = { manualStatus: null, statusMessage: null, expiresAt: null }
+
+const ACTIVITY_EVENTS = ["mousemove", "keydown", "pointerdown", "scroll", "focus"] as const
+
+export interface UsePresenceReturn {
+  /**
+   * Live presence of every connected user keyed by profile ID. Users missing
+   * from the map have no open tabs and are offline.
+   */
+  presence: Record<string, UserPresence>
+  /**
+   * The user's own status as others see it
+   */
+  myPresence: UserPresence
+  /**
+   * The user's manual status, cleared locally once it expires
+   */
+  manualStatus: ManualStatusInput
+  /**
+   * Save a manual status (PATCH /api/me) and share it with the user's other tabs
+   */
+  setManualStatus: (input: ManualStatusInput) => Promise<void>
+}
+
+/**
+ * Merge every tab of every user into one presence entry per user: online if
+ * any tab is online, otherwise away if any tab is away.
+ */
+function aggregatePresence(state: Record<string, PresencePayload[]>): Record<string, UserPresence> {
+  const result: Record<string, UserPresence> = {}
+  for (const [userId, tabs] of Object.entries(state)) {
+    if (tabs.length === 0) continue
+    const status: PresenceStatus = tabs.some((t) => t.status === "online")
+      ? "online"
+      : tabs.some((t) => t.status === "away")
+        ? "away"
+        : "offline"
+    result[userId] = {
+      status,
+      statusMessage: tabs.find((t) => t.status_message)?.status_message ?? null,
+    }
+  }
+  return result
+}
+
+/**
+ * App-wide presence on Supabase Realtime Presence.
+ *
+ * Every tab joins one presence channel keyed by the user's profile ID and
+ * tracks its status: "away" after PRESENCE_IDLE_MS without input, "online"
+ * otherwise, unless a manual status overrides it. The user's automatic status
+ * is heartbeated to POST /api/me/presence (which stamps last_seen_at), and the
+ * last tab to close reports "offline" with a beacon.
+ *
+ * @param currentUser - The signed-in user from GET /api/me; presence starts once it loads
+ *
+ * @example
+ * ```tsx
+ * const { presence, myPresence, setManualStatus } = usePresence(currentUser)
+ * const status = presence[userId]?.status ?? "offline"
+ * ```
+ */
+export function usePresence(currentUser: CurrentUserProfile | null): UsePresenceReturn {
+  const profileId = currentUser?.id ?? null
+  const [presence, setPresence] = useState<Record<string, UserPresence>>({})
+  const [idle, setIdle] = useState(false)
+  // Whether any of the user's tabs is active; null until the channel syncs
+  const [ownActive, setOwnActive] = useState<boolean | null>(null)
+  const [manualStatus, setManualState] = useState<ManualStatusInput>(NO_MANUAL_STATUS)
+  const [channel, setChannel] = useState<RealtimeChannel | null>(null)
+
+  const profileIdRef = useRef(profileId)
+  profileIdRef.current = profileId
+
+  useEffect(() => {
+    setManualState(
+      currentUser
+        ? {
+            manualStatus: currentUser.manual_status,
+            statusMessage: currentUser.status_message,
+            expiresAt: currentUser.status_expires_at,
+          }
+        : NO_MANUAL_STATUS
+    )
+  }, [currentUser])
+
+  // Clear an expiring manual status on time
+  useEffect(() => {
+    const { expiresAt } = manualStatus
+    if (!expiresAt) return
+    if (isStatusExpired(expiresAt)) {
+      setManualState(NO_MANUAL_STATUS)
+      return
+    }
+    // setTimeout overflows past ~24.8 days; re-checking then is harmless
+    const delay = Math.min(new Date(expiresAt).getTime() - Date.now(), 2 ** 31 - 1)
+    const timer = setTimeout(() => {
+      if (isStatusExpired(expiresAt)) setManualState(NO_MANUAL_STATUS)
+    }, delay)
+    return () => clearTimeout(timer)
+  }, [manualStatus])
+
+  // Idle detection for this tab
+  useEffect(() => {
+    if (!profileId) return
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const onActivity = () => {
+      setIdle(false)
+      clearTimeout(timer)
+      timer = setTimeout(() => setIdle(true), PRESENCE_IDLE_MS)
+    }
+    onActivity()
+    for (const event of ACTIVITY_EVENTS) {
+      window.addEventListener(event, onActivity, { passive: true })
+    }
+    return () => {
+      clearTimeout(timer)
+      for (const event of ACTIVITY_EVENTS) {
+        window.removeEventListener(event, onActivity)
+      }
+    }
+  }, [profileId])
+
+  useEffect(() => {
+    if (!profileId) return
+
+    const presenceChannel = supabase.channel("presence:online", {
+      config: { presence: { key: profileId } },
+    })
+
+    presenceChannel
+      .on("presence", { event: "sync" }, () => {
+        const state = presenceChannel.presenceState<PresencePayload>()
+        setPresence(aggregatePresence(state))
+        const ownTabs = state[profileId] ?? []
+        setOwnActive(ownTabs.length > 0 ? ownTabs.some((t) => !t.idle) : null)
+      })
+      .on("broadcast", { event: "status" }, ({ payload }) => {
+        // Another tab of the same user changed the manual status
+        if (payload?.user_id === profileIdRef.current && payload.manual) {
+          setManualState(payload.manual as ManualStatusInput)
+        }
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          setChannel(presenceChannel)
+        }
+        if (status === "CHANNEL_ERROR") {
+          console.error("[Realtime] Error subscribing to presence")
+        }
+      })
+
+    // Only the last open tab takes the user offline
+    const onPageHide = () => {
+      const ownTabs = presenceChannel.presenceState()[profileId]?.length ?? 0
+      if (ownTabs > 1) return
+      navigator.sendBeacon(
+        "/api/me/presence",
+        new Blob([JSON.stringify({ status: "offline" })], { type: "application/json" })
+      )
+    }
+    window.addEventListener("pagehide", onPageHide)
+
+    return () => {
+      window.removeEventListener("pagehide", onPageHide)
+      setChannel(null)
+      setPresence({})
+      setOwnActive(null)
+      supabase.removeChannel(presenceChannel)
+    }
+  }, [profileId])
+
+  const tabStatus: PresenceStatus = manualStatus.manualStatus ?? (idle ? "away" : "online")
+
+  useEffect(() => {
+    if (!channel) return
+    const payload: PresencePayload = {
+      status: tabStatus,
+      status_message: manualStatus.statusMessage,
+      idle,
+    }
+    channel.track(payload).catch((err) => console.error("Failed to track presence:", err))
+  }, [channel, tabStatus, manualStatus.statusMessage, idle])
+
+  // The stored status is the automatic one; manual statuses are stored separately
+  const autoStatus: PresenceStatus = (ownActive ?? !idle) ? "online" : "away"
+
+  useEffect(() => {
+    if (!profileId) return
+    const beat = () => {
+      fetch("/api/me/presence", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: autoStatus }),
+      }).catch((err) => console.error("Failed to send presence heartbeat:", err))
+    }
+    beat()
+    const interval = setInterval(beat, PRESENCE_HEARTBEAT_MS)
+    return () => clearInterval(interval)
+  }, [profileId, autoStatus])
+
+  const setManualStatus = useCallback(
+    async (input: ManualStatusInput) => {
+      const res = await fetch("/api/me", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      })
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}))
+        throw new Error(err.error ?? "Failed to update status")
+      }
+      setManualState(input)
+      channel
+        ?.send({ type: "broadcast", event: "status", payload: { user_id: profileId, manual: input } })
+        .catch((err) => console.error("Failed to share status:", err))
+    },
+    [channel, profileId]
+  )
+
+  return {
+    presence,
+    myPresence: (profileId && presence[profileId]) || {
+      status: tabStatus,
+      statusMessage: manualStatus.statusMessage,
+    },
+    manualStatus,
+    setManualStatus,
+  }
+}
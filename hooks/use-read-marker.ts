@@ -0,0 +1,128 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type { ApiMessage, ReadMarkerState, ReadReceipt } from "@/lib/types"
+import type { MessageSourceType } from "@/hooks/use-paginated-messages"
+
+// How often "Seen by" receipts are refreshed while a chat is open and visible
+const RECEIPTS_POLL_MS = 10_000
+
+export interface UseReadMarkerReturn {
+  /**
+   * The user's read position when the conversation was opened; messages after
+   * it are "new". Null until loaded, or when the conversation was never read.
+   */
+  lastReadAt: string | null
+  /**
+   * Other participants' read positions (chats only), refreshed while the chat is visible
+   */
+  receipts: ReadReceipt[]
+}
+
+/**
+ * Track the user's read position in a channel or chat.
+ *
+ * Loads the stored read marker when the conversation opens, then moves it to
+ * the newest loaded message whenever that changes while the page is visible.
+ * In chats it also returns the other participants' markers for "Seen by"
+ * receipts.
+ *
+ * @param type - Whether `id` refers to a channel or a chat
+ * @param id - The channel or chat ID
+ * @param messages - Loaded top-level messages, oldest first
+ *
+ * @example
+ * ```tsx
+ * const { lastReadAt, receipts } = useReadMarker("chat", chatId, messages)
+ * <MessageList messages={messages} unreadSince={lastReadAt} />
+ * ```
+ */
+export function useReadMarker(
+  type: MessageSourceType,
+  id: string | null | undefined,
+  messages: ApiMessage[]
+): UseReadMarkerReturn {
+  const [lastReadAt, setLastReadAt] = useState<string | null>(null)
+  const [receipts, setReceipts] = useState<ReadReceipt[]>([])
+  const [loadedId, setLoadedId] = useState<string | null>(null)
+  const lastMarkedRef = useRef<string | null>(null)
+
+  // Optimistic sends have no stored ID to mark yet
+  const newest = messages.findLast((m) => !m.pending)
+  const newestRef = useRef(newest)
+  newestRef.current = newest
+
+  useEffect(() => {
+    setLastReadAt(null)
+    setReceipts([])
+    setLoadedId(null)
+    lastMarkedRef.current = null
+    if (!id) return
+
+    let cancelled = false
+    const param = type === "channel" ? "channelId" : "chatId"
+    fetch(`/api/read-markers?${param}=${id}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: ReadMarkerState | null) => {
+        if (cancelled) return
+        setLastReadAt(data?.lastReadAt ?? null)
+        setReceipts(Array.isArray(data?.receipts) ? data.receipts : [])
+      })
+      .catch(() => {})
+      .finally(() => {
+        if (!cancelled) setLoadedId(id)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [type, id])
+
+  // Mark read only after the stored marker has loaded so the "new messages" divider isn't lost
+  useEffect(() => {
+    if (!id || loadedId !== id) return
+
+    const markRead = () => {
+      const message = newestRef.current
+      if (!message || document.visibilityState !== "visible") return
+      if (lastMarkedRef.current === message.id) return
+      lastMarkedRef.current = message.id
+      fetch("/api/read-markers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          [type === "channel" ? "channelId" : "chatId"]: id,
+          messageId: message.id,
+        }),
+      }).catch((err) => console.error("Failed to update read marker:", err))
+    }
+
+    markRead()
+    document.addEventListener("visibilitychange", markRead)
+    return () => document.removeEventListener("visibilitychange", markRead)
+  }, [type, id, loadedId, newest?.id])
+
+  // Read markers are private to their owner in the database, so receipts come from the API
+  useEffect(() => {
+    if (type !== "chat" || !id || loadedId !== id) return
+
+    let cancelled = false
+    const refreshReceipts = () => {
+      if (document.visibilityState !== "visible") return
+      fetch(`/api/read-markers?chatId=${id}`)
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data: ReadMarkerState | null) => {
+          if (!cancelled && Array.isArray(data?.receipts)) setReceipts(data.receipts)
+        })
+        .catch(() => {})
+    }
+
+    const timer = setInterval(refreshReceipts, RECEIPTS_POLL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [type, id, loadedId])
+
+  return { lastReadAt, receipts }
+}
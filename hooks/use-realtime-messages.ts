@@ -3,14 +3,22 @@
 import { useEffect, useRef } from "react"
 import { supabase } from "@/lib/supabase"
 import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js"
+import type { MessageSourceType } from "@/hooks/use-paginated-messages"
+import type { ChatSystemEvent, MentionBroadcast, MessageMention, MessageUnfurl } from "@/lib/types"
 
-// Raw message row from the database
+// Raw message row from the database; exactly one of channel_id/chat_id is set
 export interface MessageRow {
   id: string
-  chat_id: string
+  channel_id: string | null
+  chat_id: string | null
   sender_id: string
   content: string
   created_at: string
+  parent_message_id: string | null
+  mentions: MessageMention[] | null
+  mention_broadcast: MentionBroadcast | null
+  unfurls: MessageUnfurl[] | null
+  system_event: ChatSystemEvent | null
 }
 
 export type MessageChangePayload = RealtimePostgresChangesPayload<MessageRow>
@@ -35,17 +43,18 @@ export interface UseRealtimeMessagesOptions {
 }
 
 /**
- * Subscribe to realtime message changes for a specific chat.
+ * Subscribe to realtime message changes for a specific channel or chat.
  * 
  * Uses Supabase Realtime to listen for postgres_changes events on the messages table.
- * Automatically cleans up the subscription when the chat changes or component unmounts.
+ * Automatically cleans up the subscription when the channel/chat changes or component unmounts.
  * 
- * @param chatId - The ID of the chat to subscribe to
+ * @param type - Whether `id` refers to a channel or a chat
+ * @param id - The ID of the channel or chat to subscribe to
  * @param options - Callbacks for different event types
  * 
  * @example
  * ```tsx
- * useRealtimeMessages(chatId, {
+ * useRealtimeMessages("chat", chatId, {
  *   onInsert: (message) => {
  *     // Handle new message from another user
  *     if (message.sender_id !== currentUserProfileId) {
@@ -64,7 +73,8 @@ export interface UseRealtimeMessagesOptions {
  * ```
  */
 export function useRealtimeMessages(
-  chatId: string | null | undefined,
+  type: MessageSourceType,
+  id: string | null | undefined,
   options: UseRealtimeMessagesOptions = {}
 ) {
   // Use refs to avoid recreating subscription on callback changes
@@ -72,9 +82,9 @@ export function useRealtimeMessages(
   optionsRef.current = options
 
   useEffect(() => {
-    if (!chatId) return
+    if (!id) return
 
-    const channelName = `chat-messages:${chatId}`
+    const channelName = `${type}-messages:${id}`
     
     const channel = supabase
       .channel(channelName)
@@ -84,7 +94,7 @@ export function useRealtimeMessages(
           event: "*", // Listen to INSERT, UPDATE, DELETE
           schema: "public",
           table: "messages",
-          filter: `chat_id=eq.${chatId}`,
+          filter: `${type}_id=eq.${id}`,
         },
         (payload) => {
           const { eventType, new: newRecord, old: oldRecord } = payload
@@ -117,17 +127,17 @@ export function useRealtimeMessages(
       )
       .subscribe((status) => {
         if (status === "SUBSCRIBED") {
-          console.log(`[Realtime] Subscribed to messages for chat ${chatId}`)
+          console.log(`[Realtime] Subscribed to messages for ${type} ${id}`)
         }
         if (status === "CHANNEL_ERROR") {
-          console.error(`[Realtime] Error subscribing to chat ${chatId}`)
+          console.error(`[Realtime] Error subscribing to ${type} ${id}`)
         }
       })
 
-    // Cleanup: unsubscribe when chatId changes or component unmounts
+    // Cleanup: unsubscribe when the channel/chat changes or component unmounts
     return () => {
-      console.log(`[Realtime] Unsubscribing from messages for chat ${chatId}`)
+      console.log(`[Realtime] Unsubscribing from messages for ${type} ${id}`)
       supabase.removeChannel(channel)
     }
-  }, [chatId])
+  }, [type, id])
 }
@@ -0,0 +1,97 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { supabase } from "@/lib/supabase"
+import type { MessageSourceType } from "@/hooks/use-paginated-messages"
+
+// Raw reaction row from the database
+export interface ReactionRow {
+  id: string
+  message_id: string
+  user_id: string
+  emoji: string
+  channel_id: string | null
+  chat_id: string | null
+  created_at: string
+}
+
+export interface UseRealtimeReactionsOptions {
+  /**
+   * Called when someone adds a reaction
+   */
+  onAdd?: (reaction: ReactionRow) => void
+  /**
+   * Called when someone removes a reaction
+   */
+  onRemove?: (reaction: Partial<ReactionRow>) => void
+}
+
+/**
+ * Subscribe to reaction changes for every message in a channel or chat.
+ *
+ * Reaction rows carry their message's channel_id/chat_id, so one subscription
+ * covers all loaded messages (including thread replies) without re-subscribing
+ * as pages load. Own reactions are delivered too; apply them idempotently.
+ *
+ * @param type - Whether `id` refers to a channel or a chat
+ * @param id - The channel or chat ID
+ * @param options - Callbacks for added and removed reactions
+ *
+ * @example
+ * ```tsx
+ * useRealtimeReactions("chat", chatId, {
+ *   onAdd: (r) => setMessages(prev => prev.map(m => m.id === r.message_id
+ *     ? { ...m, reactions: addReaction(m.reactions, r.emoji, r.user_id, currentUserProfileId) }
+ *     : m)),
+ * })
+ * ```
+ */
+export function useRealtimeReactions(
+  type: MessageSourceType,
+  id: string | null | undefined,
+  options: UseRealtimeReactionsOptions = {}
+) {
+  // Use refs to avoid recreating subscription on callback changes
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  useEffect(() => {
+    if (!id) return
+
+    const column = type === "channel" ? "channel_id" : "chat_id"
+    const channel = supabase
+      .channel(`message-reactions:${type}:${id}`)
+      .on<ReactionRow>(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "message_reactions",
+          filter: `${column}=eq.${id}`,
+        },
+        (payload) => {
+          switch (payload.eventType) {
+            case "INSERT":
+              if (payload.new) {
+                optionsRef.current.onAdd?.(payload.new as ReactionRow)
+              }
+              break
+            case "DELETE":
+              if (payload.old) {
+                optionsRef.current.onRemove?.(payload.old as Partial<ReactionRow>)
+              }
+              break
+          }
+        }
+      )
+      .subscribe((status) => {
+        if (status === "CHANNEL_ERROR") {
+          console.error(`[Realtime] Error subscribing to reactions for ${type} ${id}`)
+        }
+      })
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [type, id])
+}
@@ -0,0 +1,73 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from "react"
+import type { ApiMessage, ApiThread } from "@/lib/types"
+
+export interface UseThreadRepliesReturn {
+  /**
+   * The thread's parent message, once loaded
+   */
+  parent: ApiMessage | null
+  /**
+   * Replies in the thread, oldest first
+   */
+  replies: ApiMessage[]
+  /**
+   * Direct state setter for realtime and optimistic updates
+   */
+  setReplies: Dispatch<SetStateAction<ApiMessage[]>>
+  /**
+   * True while the thread is loading
+   */
+  loading: boolean
+  /**
+   * Re-fetch the parent and all replies; resolves with the fresh thread (null on failure)
+   */
+  refresh: () => Promise<ApiThread | null>
+}
+
+/**
+ * Load a message thread from GET /api/messages/[id]/replies.
+ *
+ * Pass null to close the thread. Responses for a previously opened thread are
+ * discarded so switching threads quickly never shows stale replies.
+ *
+ * @param parentMessageId - The top-level message whose thread to load
+ */
+export function useThreadReplies(parentMessageId: string | null | undefined): UseThreadRepliesReturn {
+  const [parent, setParent] = useState<ApiMessage | null>(null)
+  const [replies, setReplies] = useState<ApiMessage[]>([])
+  const [loading, setLoading] = useState(false)
+  const currentIdRef = useRef(parentMessageId)
+  currentIdRef.current = parentMessageId
+
+  const refresh = useCallback(async (): Promise<ApiThread | null> => {
+    if (!parentMessageId) return null
+    try {
+      const res = await fetch(`/api/messages/${encodeURIComponent(parentMessageId)}/replies`)
+      if (!res.ok) {
+        throw new Error("Failed to fetch thread")
+      }
+      const data: ApiThread = await res.json()
+      if (currentIdRef.current !== parentMessageId) return null
+      setParent(data.parent)
+      setReplies(Array.isArray(data.replies) ? data.replies : [])
+      return data
+    } catch (err) {
+      console.error("Failed to load thread:", err)
+      return null
+    }
+  }, [parentMessageId])
+
+  useEffect(() => {
+    setParent(null)
+    setReplies([])
+    if (!parentMessageId) return
+    setLoading(true)
+    refresh().finally(() => {
+      if (currentIdRef.current === parentMessageId) setLoading(false)
+    })
+  }, [parentMessageId, refresh])
+
+  return { parent, replies, setReplies, loading, refresh }
+}
@@ -0,0 +1,141 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import { mentionsUser } from "@/lib/mentions"
+import type { MentionBroadcast, MessageMention } from "@/lib/types"
+
+export interface UnreadCount {
+  unreadCount: number
+  mentionCount: number
+}
+
+interface CountedConversation {
+  id: string
+  unreadCount?: number
+  mentionCount?: number
+}
+
+// Columns of a message insert needed to attribute it to a conversation
+interface InsertedMessage {
+  id: string
+  channel_id: string | null
+  chat_id: string | null
+  sender_id: string | null
+  content: string
+  parent_message_id: string | null
+  mentions: MessageMention[] | null
+  mention_broadcast: MentionBroadcast | null
+}
+
+export interface UseUnreadCountsOptions {
+  /**
+   * Joined channels with server-side counts from GET /api/channels
+   */
+  channels: CountedConversation[]
+  /**
+   * Chats with server-side counts from GET /api/chats
+   */
+  chats: CountedConversation[]
+  /**
+   * The channel or chat currently open; it never accumulates unread messages
+   */
+  activeId?: string | null
+  currentUserProfileId?: string | null
+}
+
+/**
+ * Unread and mention counts for the sidebar, keyed by channel/chat ID.
+ *
+ * Starts from the counts returned by the channels and chats APIs and keeps
+ * them live by listening to message inserts over Supabase Realtime. Thread
+ * replies and the user's own messages don't count.
+ *
+ * @example
+ * ```tsx
+ * const unread = useUnreadCounts({ channels, chats, activeId, currentUserProfileId })
+ * <AppSidebar unreadCounts={unread} ... />
+ * ```
+ */
+export function useUnreadCounts({
+  channels,
+  chats,
+  activeId,
+  currentUserProfileId,
+}: UseUnreadCountsOptions): Record<string, UnreadCount> {
+  const [counts, setCounts] = useState<Record<string, UnreadCount>>({})
+
+  // Latest values for the long-lived realtime handler
+  const stateRef = useRef({ channels, chats, activeId, currentUserProfileId })
+  stateRef.current = { channels, chats, activeId, currentUserProfileId }
+
+  // Server counts are authoritative whenever the lists are (re)fetched
+  useEffect(() => {
+    const next: Record<string, UnreadCount> = {}
+    for (const c of [...channels, ...chats]) {
+      next[c.id] = { unreadCount: c.unreadCount ?? 0, mentionCount: c.mentionCount ?? 0 }
+    }
+    const active = stateRef.current.activeId
+    if (active) next[active] = { unreadCount: 0, mentionCount: 0 }
+    setCounts(next)
+  }, [channels, chats])
+
+  // Opening a conversation reads it
+  useEffect(() => {
+    if (!activeId) return
+    setCounts((prev) =>
+      prev[activeId]?.unreadCount || prev[activeId]?.mentionCount
+        ? { ...prev, [activeId]: { unreadCount: 0, mentionCount: 0 } }
+        : prev
+    )
+  }, [activeId])
+
+  useEffect(() => {
+    if (!currentUserProfileId) return
+
+    const channel = supabase
+      .channel(`unread-counts:${currentUserProfileId}`)
+      .on<InsertedMessage>(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "messages" },
+        (payload) => {
+          const message = payload.new as InsertedMessage
+          const state = stateRef.current
+          if (message.parent_message_id || message.sender_id === state.currentUserProfileId) return
+
+          const conversationId = message.channel_id ?? message.chat_id
+          if (!conversationId || conversationId === state.activeId) return
+
+          // The subscription sees every message; only count conversations in the sidebar
+          const known = message.channel_id
+            ? state.channels.some((c) => c.id === conversationId)
+            : state.chats.some((c) => c.id === conversationId)
+          if (!known) return
+
+          // Every DM message is addressed to the user, so it counts as a mention
+          const isMention = Boolean(message.chat_id) || mentionsUser(message, state.currentUserProfileId)
+          setCounts((prev) => {
+            const current = prev[conversationId] ?? { unreadCount: 0, mentionCount: 0 }
+            return {
+              ...prev,
+              [conversationId]: {
+                unreadCount: current.unreadCount + 1,
+                mentionCount: current.mentionCount + (isMention ? 1 : 0),
+              },
+            }
+          })
+        }
+      )
+      .subscribe((status) => {
+        if (status === "CHANNEL_ERROR") {
+          console.error("[Realtime] Error subscribing to unread counts")
+        }
+      })
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [currentUserProfileId])
+
+  return counts
+}
@@ -0,0 +1,192 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import {
+  MAX_ATTACHMENT_SIZE,
+  MAX_MESSAGE_ATTACHMENTS,
+  type AttachmentInput,
+} from "@/lib/attachments"
+
+const MAX_CONCURRENT_UPLOADS = 3
+
+export type UploadStatus = "queued" | "uploading" | "done" | "error"
+
+export interface UploadItem {
+  id: string
+  name: string
+  status: UploadStatus
+  /** Upload progress, 0-100 */
+  progress: number
+  error: string | null
+  /** The uploaded file, set once status is "done" */
+  attachment: AttachmentInput | null
+}
+
+export interface UseUploadQueueOptions {
+  /**
+   * Called when files are rejected before uploading, e.g. over the attachment limit
+   */
+  onError?: (error: unknown) => void
+}
+
+export interface UseUploadQueueReturn {
+  /** Every queued, uploading, finished and failed file, in the order added */
+  items: UploadItem[]
+  /** Finished uploads in the order added, ready to send with a message */
+  attachments: AttachmentInput[]
+  /** Whether any file is still waiting or uploading */
+  isUploading: boolean
+  addFiles: (files: File[]) => void
+  /** Cancel an upload in flight, or drop a queued/finished/failed file */
+  remove: (id: string) => void
+  /** Cancel everything and empty the queue, e.g. after sending */
+  clear: () => void
+}
+
+/**
+ * Upload queue for message attachments.
+ *
+ * Files go to POST /api/files/upload a few at a time over XMLHttpRequest so
+ * each one reports progress and can be cancelled. Oversized files and files
+ * beyond MAX_MESSAGE_ATTACHMENTS fail without uploading.
+ *
+ * @example
+ * ```tsx
+ * const uploads = useUploadQueue({ onError })
+ * <input type="file" multiple onChange={(e) => uploads.addFiles(Array.from(e.target.files ?? []))} />
+ * await onSend(content, uploads.attachments)
+ * uploads.clear()
+ * ```
+ */
+export function useUploadQueue({ onError }: UseUploadQueueOptions = {}): UseUploadQueueReturn {
+  const [items, setItems] = useState<UploadItem[]>([])
+  const filesRef = useRef(new Map<string, File>())
+  const requestsRef = useRef(new Map<string, XMLHttpRequest>())
+  const onErrorRef = useRef(onError)
+  onErrorRef.current = onError
+  const itemsRef = useRef(items)
+  itemsRef.current = items
+
+  const updateItem = useCallback((id: string, patch: Partial<UploadItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)))
+  }, [])
+
+  const startUpload = useCallback(
+    (id: string, file: File) => {
+      const xhr = new XMLHttpRequest()
+      requestsRef.current.set(id, xhr)
+
+      const finish = (patch: Partial<UploadItem>) => {
+        requestsRef.current.delete(id)
+        filesRef.current.delete(id)
+        updateItem(id, patch)
+      }
+
+      xhr.upload.onprogress = (e) => {
+        if (e.lengthComputable) {
+          updateItem(id, { progress: Math.round((e.loaded / e.total) * 100) })
+        }
+      }
+      xhr.onload = () => {
+        let data: Record<string, unknown> = {}
+        try {
+          data = JSON.parse(xhr.responseText)
+        } catch {
+          // Non-JSON error page; fall through to the generic message
+        }
+        if (xhr.status >= 200 && xhr.status < 300) {
+          finish({
+            status: "done",
+            progress: 100,
+            attachment: {
+              storagePath: data.storagePath as string,
+              name: data.name as string,
+              type: data.type as AttachmentInput["type"],
+              size: data.size as string,
+            },
+          })
+        } else {
+          finish({ status: "error", error: (data.error as string) ?? "Failed to upload file" })
+        }
+      }
+      xhr.onerror = () => finish({ status: "error", error: "Network error while uploading" })
+
+      const formData = new FormData()
+      formData.append("file", file)
+      xhr.open("POST", "/api/files/upload")
+      xhr.send(formData)
+    },
+    [updateItem]
+  )
+
+  // Start queued files as upload slots free up
+  useEffect(() => {
+    const active = items.filter((item) => item.status === "uploading").length
+    const next = items
+      .filter((item) => item.status === "queued")
+      .slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - active))
+    if (next.length === 0) return
+
+    const started = new Set(next.map((item) => item.id))
+    setItems((prev) => prev.map((item) => (started.has(item.id) ? { ...item, status: "uploading" } : item)))
+    for (const item of next) {
+      const file = filesRef.current.get(item.id)
+      if (file) startUpload(item.id, file)
+    }
+  }, [items, startUpload])
+
+  // Abort whatever is still uploading when the input unmounts
+  useEffect(() => {
+    const requests = requestsRef.current
+    return () => {
+      for (const xhr of requests.values()) xhr.abort()
+      requests.clear()
+    }
+  }, [])
+
+  const addFiles = useCallback((files: File[]) => {
+    if (files.length === 0) return
+    const room = MAX_MESSAGE_ATTACHMENTS - itemsRef.current.filter((item) => item.status !== "error").length
+    if (files.length > room) {
+      onErrorRef.current?.(new Error(`You can attach up to ${MAX_MESSAGE_ATTACHMENTS} files to a message`))
+    }
+    const added = files.slice(0, Math.max(0, room)).map((file): UploadItem => {
+      const id = crypto.randomUUID()
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        return {
+          id,
+          name: file.name,
+          status: "error",
+          progress: 0,
+          error: `File is larger than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`,
+          attachment: null,
+        }
+      }
+      filesRef.current.set(id, file)
+      return { id, name: file.name, status: "queued", progress: 0, error: null, attachment: null }
+    })
+    setItems((prev) => [...prev, ...added])
+  }, [])
+
+  const remove = useCallback((id: string) => {
+    requestsRef.current.get(id)?.abort()
+    requestsRef.current.delete(id)
+    filesRef.current.delete(id)
+    setItems((prev) => prev.filter((item) => item.id !== id))
+  }, [])
+
+  const clear = useCallback(() => {
+    for (const xhr of requestsRef.current.values()) xhr.abort()
+    requestsRef.current.clear()
+    filesRef.current.clear()
+    setItems([])
+  }, [])
+
+  const attachments = useMemo(
+    () => items.flatMap((item) => (item.status === "done" && item.attachment ? [item.attachment] : [])),
+    [items]
+  )
+  const isUploading = items.some((item) => item.status === "queued" || item.status === "uploading")
+
+  return { items, attachments, isUploading, addFiles, remove, clear }
+}
@@ -0,0 +1,40 @@
+import type { FileAttachment } from '@/lib/types'
+
+/**
+ * Attachment limits and validation shared by MessageInput's upload queue and
+ * POST /api/messages.
+ */
+
+export const MAX_MESSAGE_ATTACHMENTS = 10
+
+// Enforced by the upload route; checked client-side so oversized files fail before uploading
+export const MAX_ATTACHMENT_SIZE = 50 * 1024 * 1024 // 50MB
+
+export const ATTACHMENT_TYPES: FileAttachment['type'][] = ['image', 'doc', 'pdf', 'pptx', 'xlsx']
+
+// An uploaded file as sent with a new message (see POST /api/files/upload)
+export interface AttachmentInput {
+  storagePath: string
+  name: string
+  type: FileAttachment['type']
+  size: string
+}
+
+export function isValidAttachment(value: unknown): value is AttachmentInput {
+  if (!value || typeof value !== 'object') return false
+  const { storagePath, name, type, size } = value as Record<string, unknown>
+  return (
+    typeof storagePath === 'string' &&
+    storagePath.length > 0 &&
+    typeof name === 'string' &&
+    name.length > 0 &&
+    typeof type === 'string' &&
+    (ATTACHMENT_TYPES as string[]).includes(type) &&
+    (typeof size === 'string' || typeof size === 'number')
+  )
+}
+
+/** Whether a storage path is one of the user's own uploads, which are stored under their Clerk ID. */
+export function isOwnUpload(storagePath: string, clerkUserId: string): boolean {
+  return storagePath.startsWith(`${clerkUserId}/`)
+}
@@ -0,0 +1,403 @@
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { addDays, expandOccurrences, parseRRule } from '@/lib/recurrence'
+import { mergeBusyBlocks } from '@/lib/free-busy'
+import { DEFAULT_TIME_ZONE, eventInstants, isValidTimeZone, zonedTimeToUtc } from '@/lib/time-zones'
+import type {
+  CalendarEvent,
+  CalendarEventParticipant,
+  FreeBusyEntry,
+  RsvpResponse,
+} from '@/lib/types'
+
+/**
+ * Server-side helpers shared by the calendar event API routes.
+ *
+ * Keeps the event select shape, its normalization into `CalendarEvent` and
+ * the expansion of recurring series in one place. Uses the service role
+ * client - only import from API routes.
+ */
+
+export const CALENDAR_EVENT_SELECT = `
+  id,
+  title,
+  description,
+  event_date,
+  start_time,
+  end_time,
+  time_zone,
+  starts_at,
+  ends_at,
+  color,
+  created_by,
+  created_at,
+  call_id,
+  recurrence_rule,
+  excluded_dates,
+  recurrence_parent_id,
+  recurrence_id,
+  calls:call_id (
+    id,
+    daily_room_url,
+    status
+  ),
+  event_participants (
+    id,
+    user_id,
+    response,
+    response_comment,
+    responded_at,
+    optional,
+    profiles:user_id (
+      id,
+      name,
+      email,
+      avatar_url
+    )
+  )
+`
+
+export interface RawCalendarEventRow {
+  id: string
+  title: string
+  description: string | null
+  event_date: string
+  start_time: string
+  end_time: string
+  time_zone: string
+  starts_at: string
+  ends_at: string
+  color: string | null
+  created_by: string | null
+  created_at: string
+  call_id: string | null
+  recurrence_rule: string | null
+  excluded_dates: string[] | null
+  recurrence_parent_id: string | null
+  recurrence_id: string | null
+  calls: unknown
+  event_participants: unknown
+}
+
+// A participant's RSVP fields, as stored on event_participants
+export interface ParticipantState {
+  response: RsvpResponse
+  response_comment: string | null
+  responded_at: string | null
+  optional: boolean
+}
+
+interface RawParticipantRow extends Partial<ParticipantState> {
+  user_id: string
+  profiles?: unknown
+}
+
+function participantStateOf(p: RawParticipantRow): ParticipantState {
+  return {
+    response: p.response ?? 'needs-action',
+    response_comment: p.response_comment ?? null,
+    responded_at: p.responded_at ?? null,
+    optional: p.optional ?? false,
+  }
+}
+
+/** Convert a row selected with CALENDAR_EVENT_SELECT into the API event shape. */
+export function normalizeCalendarEvent(row: RawCalendarEventRow): CalendarEvent {
+  // Supabase returns nested arrays for relations
+  const call = (Array.isArray(row.calls) ? row.calls[0] : row.calls) as
+    | { id: string; daily_room_url: string; status: 'active' | 'ended' }
+    | null
+    | undefined
+  const participantRows = (row.event_participants as RawParticipantRow[] | null) ?? []
+
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description ?? null,
+    event_date: row.event_date,
+    start_time: row.start_time,
+    end_time: row.end_time,
+    time_zone: row.time_zone ?? DEFAULT_TIME_ZONE,
+    starts_at: new Date(row.starts_at).toISOString(),
+    ends_at: new Date(row.ends_at).toISOString(),
+    color: row.color ?? null,
+    created_by: row.created_by ?? null,
+    created_at: row.created_at,
+    call_id: row.call_id ?? null,
+    call: call
+      ? { id: call.id, daily_room_url: call.daily_room_url, status: call.status }
+      : null,
+    participants: participantRows.flatMap((p) => {
+      const profile = (Array.isArray(p.profiles) ? p.profiles[0] : p.profiles) as
+        | Pick<CalendarEventParticipant, 'id' | 'name' | 'avatar_url'>
+        | null
+        | undefined
+      return profile
+        ? [{ id: profile.id, name: profile.name, avatar_url: profile.avatar_url ?? null, ...participantStateOf(p) }]
+        : []
+    }),
+    recurrence_rule: row.recurrence_rule ?? null,
+    series_id: row.recurrence_rule ? row.id : row.recurrence_parent_id ?? null,
+    occurrence_date: row.recurrence_id ?? null,
+  }
+}
+
+/** Profile IDs of a row's participants, including ones without a loaded profile */
+export function participantIdsOf(row: RawCalendarEventRow): string[] {
+  return ((row.event_participants as { user_id: string }[] | null) ?? []).map((p) => p.user_id)
+}
+
+/** RSVP fields of a row's participants, keyed by profile ID */
+export function participantStatesOf(row: RawCalendarEventRow): Map<string, ParticipantState> {
+  return new Map(
+    ((row.event_participants as RawParticipantRow[] | null) ?? []).map((p) => [p.user_id, participantStateOf(p)])
+  )
+}
+
+/** Name, email and response of a row's participants with a loaded profile */
+export function participantContactsOf(
+  row: RawCalendarEventRow
+): { id: string; name: string; email: string; response: RsvpResponse; optional: boolean }[] {
+  return ((row.event_participants as RawParticipantRow[] | null) ?? []).flatMap((p) => {
+    const profile = (Array.isArray(p.profiles) ? p.profiles[0] : p.profiles) as
+      | { id: string; name: string; email: string }
+      | null
+      | undefined
+    if (!profile) return []
+    const { response, optional } = participantStateOf(p)
+    return [{ id: profile.id, name: profile.name, email: profile.email, response, optional }]
+  })
+}
+
+/**
+ * Start/end instants for a row's wall-clock fields, to store alongside them
+ * whenever an event is written.
+ */
+export function instantsFor(row: {
+  event_date: string
+  start_time: string
+  end_time: string
+  time_zone: string
+}): { starts_at: string; ends_at: string } {
+  return eventInstants(row.event_date, row.start_time, row.end_time, row.time_zone)
+}
+
+/**
+ * When an event is over: its end, or the end of the last occurrence of a
+ * series. Null for a series with no COUNT or UNTIL, which never ends.
+ */
+export function eventEndsAt(row: {
+  event_date: string
+  start_time: string
+  end_time: string
+  time_zone: string
+  ends_at: string
+  recurrence_rule: string | null
+}): Date | null {
+  const rule = row.recurrence_rule ? parseRRule(row.recurrence_rule) : null
+  if (!rule) return new Date(row.ends_at)
+  if (!rule.count && !rule.until) return null
+
+  const dates = expandOccurrences(rule, row.event_date, row.event_date, rule.until ?? '9999-12-31')
+  const lastDate = dates[dates.length - 1] ?? row.event_date
+  return new Date(instantsFor({ ...row, event_date: lastDate }).ends_at)
+}
+
+/** Start and end (exclusive) instants of a run of local dates in a zone */
+export function dateRangeInstants(
+  startDate: string,
+  endDate: string,
+  timeZone: string
+): { start: Date; end: Date } {
+  return {
+    start: zonedTimeToUtc(startDate, '00:00', timeZone),
+    end: zonedTimeToUtc(addDays(endDate, 1), '00:00', timeZone),
+  }
+}
+
+/**
+ * Occurrences of a series overlapping [windowStart, windowEnd), skipping
+ * excluded dates and dates that have an override row. Occurrences repeat at
+ * the series' wall-clock time in its own zone. Each keeps the series ID;
+ * `occurrence_date` tells them apart.
+ */
+export function expandSeries(
+  row: RawCalendarEventRow,
+  overriddenDates: Set<string>,
+  windowStart: Date,
+  windowEnd: Date
+): CalendarEvent[] {
+  const rule = row.recurrence_rule ? parseRRule(row.recurrence_rule) : null
+  if (!rule) return []
+
+  const series = normalizeCalendarEvent(row)
+  const excluded = new Set(row.excluded_dates ?? [])
+  // Local dates in the event's zone can be up to a day either side of the
+  // window's, and an occurrence may start the day before and cross midnight
+  const fromDate = addDays(windowStart.toISOString().slice(0, 10), -2)
+  const toDate = addDays(windowEnd.toISOString().slice(0, 10), 1)
+
+  return expandOccurrences(rule, row.event_date, fromDate, toDate)
+    .filter((date) => !excluded.has(date) && !overriddenDates.has(date))
+    .map((date) => ({
+      ...series,
+      ...instantsFor({ ...series, event_date: date }),
+      event_date: date,
+      occurrence_date: date,
+    }))
+    .filter((o) => new Date(o.starts_at) < windowEnd && new Date(o.ends_at) > windowStart)
+}
+
+/** PostgREST filter matching events the profile created or participates in */
+async function accessFilter(profileId: string): Promise<string> {
+  const { data: participantRows } = await supabaseAdmin
+    .from('event_participants')
+    .select('event_id')
+    .eq('user_id', profileId)
+
+  const participantEventIds = (participantRows ?? []).map((r) => r.event_id)
+  const orConditions = [`created_by.eq.${profileId}`]
+  if (participantEventIds.length > 0) {
+    orConditions.push(`id.in.(${participantEventIds.join(',')})`)
+  }
+  return orConditions.join(',')
+}
+
+/**
+ * Unexpanded rows for every event the profile created or participates in:
+ * all recurring series, plus single events and overrides dated on or after
+ * `since`. Used for exports, which carry recurrence rules as-is.
+ */
+export async function fetchCalendarEventRows(
+  profileId: string,
+  since: string
+): Promise<RawCalendarEventRow[]> {
+  const { data, error } = await supabaseAdmin
+    .from('calendar_events')
+    .select(CALENDAR_EVENT_SELECT)
+    .or(`recurrence_rule.not.is.null,event_date.gte.${since}`)
+    .or(await accessFilter(profileId))
+    .order('event_date', { ascending: true })
+
+  if (error) throw error
+  return (data ?? []) as RawCalendarEventRow[]
+}
+
+/**
+ * Every event the profile created or participates in that overlaps
+ * [windowStart, windowEnd), with recurring series expanded into occurrences.
+ * Sorted by start.
+ */
+export async function fetchCalendarEventsInRange(
+  profileId: string,
+  windowStart: Date,
+  windowEnd: Date
+): Promise<CalendarEvent[]> {
+  return fetchEventsInRange(await accessFilter(profileId), windowStart, windowEnd)
+}
+
+/**
+ * Every event overlapping [windowStart, windowEnd), whoever it belongs to,
+ * expanded and sorted like fetchCalendarEventsInRange. For server jobs.
+ */
+export async function fetchAllCalendarEventsInRange(
+  windowStart: Date,
+  windowEnd: Date
+): Promise<CalendarEvent[]> {
+  return fetchEventsInRange(null, windowStart, windowEnd)
+}
+
+async function fetchEventsInRange(
+  filter: string | null,
+  windowStart: Date,
+  windowEnd: Date
+): Promise<CalendarEvent[]> {
+  // Single events and per-occurrence overrides overlapping the window
+  let singleQuery = supabaseAdmin
+    .from('calendar_events')
+    .select(CALENDAR_EVENT_SELECT)
+    .is('recurrence_rule', null)
+    .lt('starts_at', windowEnd.toISOString())
+    .gt('ends_at', windowStart.toISOString())
+  if (filter) singleQuery = singleQuery.or(filter)
+  const { data: singleRows, error: singleError } = await singleQuery
+
+  if (singleError) throw singleError
+
+  // Series starting before the window ends may have occurrences inside it
+  let seriesQuery = supabaseAdmin
+    .from('calendar_events')
+    .select(CALENDAR_EVENT_SELECT)
+    .not('recurrence_rule', 'is', null)
+    .lt('starts_at', windowEnd.toISOString())
+  if (filter) seriesQuery = seriesQuery.or(filter)
+  const { data: seriesRows, error: seriesError } = await seriesQuery
+
+  if (seriesError) throw seriesError
+
+  const series = (seriesRows ?? []) as RawCalendarEventRow[]
+
+  // Overrides replace their original occurrence even when moved out of the window
+  const overridden = new Map<string, Set<string>>()
+  if (series.length > 0) {
+    const { data: overrideRows, error: overrideError } = await supabaseAdmin
+      .from('calendar_events')
+      .select('recurrence_parent_id, recurrence_id')
+      .in('recurrence_parent_id', series.map((s) => s.id))
+
+    if (overrideError) throw overrideError
+
+    for (const o of overrideRows ?? []) {
+      const dates = overridden.get(o.recurrence_parent_id) ?? new Set<string>()
+      dates.add(o.recurrence_id)
+      overridden.set(o.recurrence_parent_id, dates)
+    }
+  }
+
+  const events = [
+    ...((singleRows ?? []) as RawCalendarEventRow[]).map(normalizeCalendarEvent),
+    ...series.flatMap((s) => expandSeries(s, overridden.get(s.id) ?? new Set(), windowStart, windowEnd)),
+  ]
+
+  return events.sort((a, b) => a.starts_at.localeCompare(b.starts_at))
+}
+
+/**
+ * Busy blocks of each profile within [windowStart, windowEnd): every event
+ * they created or were invited to and haven't declined, clipped to the
+ * window. Only times are returned, never what the events are. Events of
+ * `excludeEventId` (an event or series being rescheduled) don't count.
+ * Unknown profile IDs are left out.
+ */
+export async function fetchFreeBusy(
+  profileIds: string[],
+  windowStart: Date,
+  windowEnd: Date,
+  excludeEventId: string | null = null
+): Promise<FreeBusyEntry[]> {
+  const { data: profiles, error } = await supabaseAdmin
+    .from('profiles')
+    .select('id, time_zone')
+    .in('id', profileIds)
+
+  if (error) throw error
+
+  const entries: FreeBusyEntry[] = []
+  for (const profile of profiles ?? []) {
+    const events = await fetchCalendarEventsInRange(profile.id, windowStart, windowEnd)
+    const busy = events
+      .filter((ev) => ev.id !== excludeEventId && ev.series_id !== excludeEventId)
+      .filter((ev) => ev.participants.find((p) => p.id === profile.id)?.response !== 'declined')
+      .map((ev) => ({
+        start: new Date(Math.max(new Date(ev.starts_at).getTime(), windowStart.getTime())).toISOString(),
+        end: new Date(Math.min(new Date(ev.ends_at).getTime(), windowEnd.getTime())).toISOString(),
+      }))
+    entries.push({
+      user_id: profile.id,
+      time_zone: isValidTimeZone(profile.time_zone) ? profile.time_zone : DEFAULT_TIME_ZONE,
+      busy: mergeBusyBlocks(busy),
+    })
+  }
+
+  // Keep the order the IDs were asked in
+  return entries.sort((a, b) => profileIds.indexOf(a.user_id) - profileIds.indexOf(b.user_id))
+}
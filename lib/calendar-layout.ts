@@ -0,0 +1,149 @@
+/**
+ * Date ranges and event layout for the calendar views.
+ *
+ * Dates are YYYY-MM-DD in the viewer's zone; events are placed by their
+ * start/end instants, so an event shows where it falls for the viewer no
+ * matter which zone it was scheduled in.
+ */
+
+import { addDays, daysBetween, weekdayOf } from '@/lib/recurrence'
+import { toZonedParts } from '@/lib/time-zones'
+
+export const DAY_MINUTES = 24 * 60
+
+export type CalendarViewMode = 'day' | 'week' | 'month' | 'agenda'
+
+// Days the agenda loads at a time
+export const AGENDA_PAGE_DAYS = 30
+
+const WEEKDAY_INDEX = { MO: 0, TU: 1, WE: 2, TH: 3, FR: 4, SA: 5, SU: 6 } as const
+
+/** The Monday on or before a date */
+export function weekStartOf(date: string): string {
+  return addDays(date, -WEEKDAY_INDEX[weekdayOf(date)])
+}
+
+/** Every date from start to end, inclusive */
+export function datesBetween(start: string, end: string): string[] {
+  return Array.from({ length: daysBetween(start, end) + 1 }, (_, i) => addDays(start, i))
+}
+
+/**
+ * Dates a view shows around `anchor`: one day, its week (Monday first), the
+ * whole weeks covering its month, or `agendaDays` days from it.
+ */
+export function visibleDates(view: CalendarViewMode, anchor: string, agendaDays = AGENDA_PAGE_DAYS): string[] {
+  switch (view) {
+    case 'day':
+      return [anchor]
+    case 'week': {
+      const start = weekStartOf(anchor)
+      return datesBetween(start, addDays(start, 6))
+    }
+    case 'month': {
+      const first = `${anchor.slice(0, 8)}01`
+      const last = addDays(`${addDays(first, 31).slice(0, 8)}01`, -1)
+      return datesBetween(weekStartOf(first), addDays(weekStartOf(last), 6))
+    }
+    case 'agenda':
+      return datesBetween(anchor, addDays(anchor, agendaDays - 1))
+  }
+}
+
+/** The anchor one step back or forward in a view */
+export function shiftAnchor(view: CalendarViewMode, anchor: string, direction: number): string {
+  switch (view) {
+    case 'day':
+      return addDays(anchor, direction)
+    case 'week':
+      return addDays(anchor, direction * 7)
+    case 'month': {
+      const [y, m] = anchor.split('-').map(Number)
+      const month = new Date(Date.UTC(y, m - 1 + direction, 1))
+      return month.toISOString().slice(0, 10)
+    }
+    case 'agenda':
+      return addDays(anchor, direction * AGENDA_PAGE_DAYS)
+  }
+}
+
+export interface EventSegment<T> {
+  event: T
+  date: string
+  // Minutes since the viewer's midnight
+  top: number
+  bottom: number
+  // Whether the event carries on from the previous day / into the next
+  continuesBefore: boolean
+  continuesAfter: boolean
+}
+
+/**
+ * Split events into per-day segments in the viewer's zone, so an event
+ * crossing midnight shows at the end of one day and the start of the next.
+ */
+export function segmentsByDay<T extends { starts_at: string; ends_at: string }>(
+  events: T[],
+  dates: string[],
+  timeZone: string
+): Map<string, EventSegment<T>[]> {
+  const byDay = new Map<string, EventSegment<T>[]>(dates.map((d) => [d, []]))
+  for (const event of events) {
+    const start = toZonedParts(event.starts_at, timeZone)
+    const end = toZonedParts(event.ends_at, timeZone)
+    for (const date of dates) {
+      if (date < start.date || date > end.date) continue
+      const top = date === start.date ? start.minutes : 0
+      const bottom = date === end.date ? end.minutes : DAY_MINUTES
+      if (bottom <= top) continue
+      byDay.get(date)!.push({
+        event,
+        date,
+        top,
+        bottom,
+        continuesBefore: date !== start.date,
+        continuesAfter: date !== end.date,
+      })
+    }
+  }
+  return byDay
+}
+
+export interface PositionedSegment<T> extends EventSegment<T> {
+  // Column within its group of overlapping events, and how many columns it has
+  column: number
+  columns: number
+}
+
+/**
+ * Lay out one day's segments side by side: each group of transitively
+ * overlapping segments is split into as many columns as it needs, and each
+ * segment takes the first column free at its start.
+ */
+export function layoutColumns<T>(segments: EventSegment<T>[]): PositionedSegment<T>[] {
+  const sorted = [...segments].sort((a, b) => a.top - b.top || b.bottom - a.bottom)
+  const positioned: PositionedSegment<T>[] = []
+  let group: PositionedSegment<T>[] = []
+  // Bottom of the last segment in each column of the current group
+  let columnEnds: number[] = []
+  let groupEnd = -1
+
+  const closeGroup = () => {
+    for (const segment of group) segment.columns = columnEnds.length
+    positioned.push(...group)
+    group = []
+    columnEnds = []
+  }
+
+  for (const segment of sorted) {
+    if (segment.top >= groupEnd) closeGroup()
+    let column = columnEnds.findIndex((end) => end <= segment.top)
+    if (column === -1) column = columnEnds.length
+    columnEnds[column] = segment.bottom
+    groupEnd = Math.max(groupEnd, segment.bottom)
+    group.push({ ...segment, column, columns: 1 })
+  }
+  closeGroup()
+
+  return positioned
+}
@@ -0,0 +1,7 @@
+/**
+ * Ringing rules shared by the call API routes and server helpers. Clients
+ * are told how long a ring has left rather than timing it themselves.
+ */
+
+// How long an invitee's phone rings before the call counts as missed
+export const CALL_RING_TIMEOUT_MS = 30 * 1000
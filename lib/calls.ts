@@ -0,0 +1,357 @@
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { CALL_RING_TIMEOUT_MS } from '@/lib/call-ringing'
+import { deleteDailyRoom, getDailyRoom, getDailyRoomPresence, listDailyRooms } from '@/lib/daily'
+import { notifyMissedCall } from '@/lib/notifications'
+import { eventEndsAt } from '@/lib/calendar-events'
+import type { CallRingStatus } from '@/lib/types'
+
+/**
+ * Server-side call helpers shared by the call, webhook and cron API routes.
+ * Uses the service role client - only import from API routes.
+ */
+
+export interface CallAccess {
+  call: {
+    id: string
+    daily_room_name: string
+    started_by: string | null
+    status: 'active' | 'ended'
+  }
+  // Whether the caller started the call
+  isStarter: boolean
+  // Whether the caller can see the call: its starter, one of its participants,
+  // or a participant of its linked chat or calendar event
+  canView: boolean
+}
+
+/** Load a call and what the given profile may do with it. Returns null when the call doesn't exist. */
+export async function getCallAccess(callId: string, profileId: string): Promise<CallAccess | null> {
+  const { data: call } = await supabaseAdmin
+    .from('calls')
+    .select('id, daily_room_name, started_by, status, chat_id, calendar_event_id')
+    .eq('id', callId)
+    .maybeSingle()
+
+  if (!call) return null
+
+  const summary = {
+    id: call.id,
+    daily_room_name: call.daily_room_name,
+    started_by: call.started_by,
+    status: call.status,
+  }
+  const isStarter = call.started_by === profileId
+  if (isStarter) return { call: summary, isStarter, canView: true }
+
+  const { data: participant } = await supabaseAdmin
+    .from('call_participants')
+    .select('id')
+    .eq('call_id', callId)
+    .eq('user_id', profileId)
+    .maybeSingle()
+  if (participant) return { call: summary, isStarter, canView: true }
+
+  if (call.chat_id) {
+    const { data: chatParticipant } = await supabaseAdmin
+      .from('chat_participants')
+      .select('id')
+      .eq('chat_id', call.chat_id)
+      .eq('user_id', profileId)
+      .maybeSingle()
+    if (chatParticipant) return { call: summary, isStarter, canView: true }
+  }
+
+  if (call.calendar_event_id) {
+    const { data: eventParticipant } = await supabaseAdmin
+      .from('event_participants')
+      .select('id')
+      .eq('event_id', call.calendar_event_id)
+      .eq('user_id', profileId)
+      .maybeSingle()
+    if (eventParticipant) return { call: summary, isStarter, canView: true }
+  }
+
+  return { call: summary, isStarter, canView: false }
+}
+
+/**
+ * Mark a call ended at the given time and close its open participant rows.
+ * Safe to repeat; returns false when the call had already ended.
+ */
+export async function endCall(callId: string, endedAt: string): Promise<boolean> {
+  const { data: ended, error } = await supabaseAdmin
+    .from('calls')
+    .update({ status: 'ended', ended_at: endedAt })
+    .eq('id', callId)
+    .eq('status', 'active')
+    .select('id')
+  if (error) throw error
+
+  const { error: participantsError } = await supabaseAdmin
+    .from('call_participants')
+    .update({ left_at: endedAt })
+    .eq('call_id', callId)
+    .is('left_at', null)
+  if (participantsError) throw participantsError
+
+  await markMissedRings({ callId })
+
+  return (ended?.length ?? 0) > 0
+}
+
+/**
+ * Record an invitee's answer to a ringing call. Only a ringing invite can be
+ * answered, so an answer from another tab or a ring that already timed out
+ * wins. A ring past CALL_RING_TIMEOUT_MS is marked missed here rather than
+ * waiting for the cron job. Returns false when there was nothing ringing to
+ * answer.
+ */
+export async function answerCallRing(
+  callId: string,
+  userId: string,
+  response: Extract<CallRingStatus, 'accepted' | 'declined'>
+): Promise<boolean> {
+  const { data: call, error: callError } = await supabaseAdmin
+    .from('calls')
+    .select('started_at')
+    .eq('id', callId)
+    .maybeSingle()
+  if (callError) throw callError
+  if (!call) return false
+
+  const now = new Date()
+  if (now.getTime() - Date.parse(call.started_at) > CALL_RING_TIMEOUT_MS) {
+    await markMissedRings({ now, userId })
+    return false
+  }
+
+  const { data: answered, error } = await supabaseAdmin
+    .from('call_participants')
+    .update({ ring_status: response, ring_answered_at: new Date().toISOString() })
+    .eq('call_id', callId)
+    .eq('user_id', userId)
+    .eq('ring_status', 'ringing')
+    .select('id')
+  if (error) throw error
+  return Boolean(answered?.length)
+}
+
+/**
+ * Mark invitees nobody answered as missed and notify them: everyone still
+ * ringing on the given call (when it ends), or on any call that started
+ * before the ring timeout, optionally only for one invitee. The timeout is
+ * measured from calls.started_at, so every tab and device agrees on it.
+ * Returns how many rings were marked missed.
+ */
+export async function markMissedRings(
+  scope: { callId: string } | { now: Date; userId?: string }
+): Promise<number> {
+  let callIds: string[]
+  if ('callId' in scope) {
+    callIds = [scope.callId]
+  } else {
+    const ringStart = new Date(scope.now.getTime() - CALL_RING_TIMEOUT_MS).toISOString()
+    let query = supabaseAdmin
+      .from('calls')
+      .select('id, call_participants!inner (user_id, ring_status)')
+      .eq('call_participants.ring_status', 'ringing')
+      .lt('started_at', ringStart)
+    if (scope.userId) query = query.eq('call_participants.user_id', scope.userId)
+    const { data: ringingCalls, error } = await query
+    if (error) throw error
+    callIds = (ringingCalls ?? []).map((c) => c.id as string)
+  }
+  if (callIds.length === 0) return 0
+
+  let update = supabaseAdmin
+    .from('call_participants')
+    .update({ ring_status: 'missed', ring_answered_at: new Date().toISOString() })
+    .in('call_id', callIds)
+    .eq('ring_status', 'ringing')
+  if ('userId' in scope && scope.userId) update = update.eq('user_id', scope.userId)
+  const { data: missed, error } = await update.select('call_id, user_id')
+  if (error) throw error
+
+  await notifyMissedCalls(missed ?? [])
+  return missed?.length ?? 0
+}
+
+async function notifyMissedCalls(rings: { call_id: string; user_id: string }[]): Promise<void> {
+  const byCall = new Map<string, string[]>()
+  for (const ring of rings) {
+    byCall.set(ring.call_id, [...(byCall.get(ring.call_id) ?? []), ring.user_id])
+  }
+
+  for (const [callId, userIds] of byCall) {
+    const { data: call } = await supabaseAdmin
+      .from('calls')
+      .select('started_by, title')
+      .eq('id', callId)
+      .maybeSingle()
+    await notifyMissedCall(callId, call?.started_by ?? null, userIds, call?.title ?? null)
+  }
+}
+
+// Leave calls alone this long after they start or someone joins or leaves,
+// so a starter still setting up (or briefly reconnecting) isn't cut off
+export const STALE_CALL_GRACE_MINUTES = 10
+
+export type StaleCallReason = 'room_missing' | 'room_expired' | 'empty'
+
+// Room names looked up per query when matching Daily's room list to calls
+const ROOM_LOOKUP_BATCH_SIZE = 100
+
+export interface StaleCallReport {
+  ran_at: string
+  // Active calls looked at, after skipping ones inside the grace period
+  calls_checked: number
+  calls_ended: { call_id: string; room_name: string; reason: StaleCallReason }[]
+  // Invitees whose ring timed out unanswered
+  rings_missed: number
+  rooms_deleted: string[]
+  errors: { target: string; error: string }[]
+}
+
+interface ActiveCallRow {
+  id: string
+  daily_room_name: string
+  started_at: string
+  calendar_event_id: string | null
+  call_participants: { joined_at: string | null; left_at: string | null }[] | null
+}
+
+interface CallEventRow {
+  id: string
+  event_date: string
+  start_time: string
+  end_time: string
+  time_zone: string
+  ends_at: string
+  recurrence_rule: string | null
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err)
+}
+
+/**
+ * End calls nobody is in any more and delete Daily rooms that are no longer
+ * needed. A call is abandoned when its room is gone or expired, or when Daily
+ * reports no one connected and nothing happened within the grace period.
+ * Calls scheduled with a calendar event wait for the room until the event
+ * (or the last occurrence of its series) is over, plus the grace period.
+ * Rooms belonging to a call are deleted when they have expired or their call
+ * has ended; rooms the app didn't create are never touched. Safe to
+ * run repeatedly; problems with one call or room are reported and skipped.
+ */
+export async function reapStaleCalls(now: Date = new Date()): Promise<StaleCallReport> {
+  const report: StaleCallReport = {
+    ran_at: now.toISOString(),
+    calls_checked: 0,
+    calls_ended: [],
+    rings_missed: 0,
+    rooms_deleted: [],
+    errors: [],
+  }
+  const graceStart = now.getTime() - STALE_CALL_GRACE_MINUTES * 60 * 1000
+
+  const { data: calls, error } = await supabaseAdmin
+    .from('calls')
+    .select('id, daily_room_name, started_at, calendar_event_id, call_participants (joined_at, left_at)')
+    .eq('status', 'active')
+  if (error) throw error
+  const activeCalls = (calls ?? []) as ActiveCallRow[]
+
+  const eventIds = activeCalls.flatMap((call) => (call.calendar_event_id ? [call.calendar_event_id] : []))
+  const eventEnds = new Map<string, Date | null>()
+  if (eventIds.length > 0) {
+    const { data: events, error: eventsError } = await supabaseAdmin
+      .from('calendar_events')
+      .select('id, event_date, start_time, end_time, time_zone, ends_at, recurrence_rule')
+      .in('id', eventIds)
+    if (eventsError) throw eventsError
+    for (const event of (events ?? []) as CallEventRow[]) eventEnds.set(event.id, eventEndsAt(event))
+  }
+
+  for (const call of activeCalls) {
+    if (call.calendar_event_id && eventEnds.has(call.calendar_event_id)) {
+      const eventEnd = eventEnds.get(call.calendar_event_id)
+      if (!eventEnd || eventEnd.getTime() > graceStart) continue
+    }
+    const lastActivity = Math.max(
+      Date.parse(call.started_at),
+      ...(call.call_participants ?? []).flatMap((p) =>
+        [p.joined_at, p.left_at].filter((t): t is string => t !== null).map((t) => Date.parse(t))
+      )
+    )
+    if (lastActivity > graceStart) continue
+    report.calls_checked++
+
+    try {
+      const room = await getDailyRoom(call.daily_room_name)
+      let reason: StaleCallReason | null = null
+      if (!room) reason = 'room_missing'
+      else if (room.config.exp && room.config.exp * 1000 <= now.getTime()) reason = 'room_expired'
+      else if ((await getDailyRoomPresence(call.daily_room_name)) === 0) reason = 'empty'
+      if (!reason) continue
+
+      await endCall(call.id, now.toISOString())
+      report.calls_ended.push({ call_id: call.id, room_name: call.daily_room_name, reason })
+
+      if (room) {
+        await deleteDailyRoom(call.daily_room_name)
+        report.rooms_deleted.push(call.daily_room_name)
+      }
+    } catch (err) {
+      report.errors.push({ target: `call ${call.id}`, error: errorMessage(err) })
+    }
+  }
+
+  try {
+    report.rings_missed += await markMissedRings({ now })
+  } catch (err) {
+    report.errors.push({ target: 'missed rings', error: errorMessage(err) })
+  }
+
+  // Rooms left behind by calls that ended without cleaning up, and expired
+  // rooms. Only rooms named by a call (calendar event rooms included) are
+  // ours to delete; anything else on the Daily account is left alone.
+  let rooms
+  try {
+    rooms = await listDailyRooms()
+  } catch (err) {
+    report.errors.push({ target: 'room list', error: errorMessage(err) })
+    return report
+  }
+
+  const remaining = rooms.filter((room) => !report.rooms_deleted.includes(room.name))
+  const callStatusByRoom = new Map<string, string>()
+  for (let i = 0; i < remaining.length; i += ROOM_LOOKUP_BATCH_SIZE) {
+    const { data: roomCalls, error: roomCallsError } = await supabaseAdmin
+      .from('calls')
+      .select('daily_room_name, status')
+      .in('daily_room_name', remaining.slice(i, i + ROOM_LOOKUP_BATCH_SIZE).map((room) => room.name))
+    if (roomCallsError) {
+      report.errors.push({ target: 'room list', error: roomCallsError.message })
+      return report
+    }
+    for (const call of roomCalls ?? []) {
+      callStatusByRoom.set(call.daily_room_name as string, call.status as string)
+    }
+  }
+
+  for (const room of remaining) {
+    const callStatus = callStatusByRoom.get(room.name)
+    if (!callStatus) continue
+    const expired = Boolean(room.config.exp && room.config.exp * 1000 <= now.getTime())
+    if (!expired && callStatus !== 'ended') continue
+    try {
+      await deleteDailyRoom(room.name)
+      report.rooms_deleted.push(room.name)
+    } catch (err) {
+      report.errors.push({ target: `room ${room.name}`, error: errorMessage(err) })
+    }
+  }
+
+  return report
+}
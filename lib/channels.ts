@@ -0,0 +1,78 @@
+import { supabaseAdmin } from '@/lib/supabase-server'
+import type { ChannelRole } from '@/lib/types'
+
+/**
+ * Server-side channel membership helpers shared by the channel and message
+ * API routes. Uses the service role client - only import from API routes.
+ */
+
+export interface ChannelAccess {
+  channel: {
+    id: string
+    name: string
+    is_private: boolean
+    archived_at: string | null
+  }
+  // The caller's role, or null when they are not a member
+  role: ChannelRole | null
+}
+
+export const CHANNEL_NAME_MAX_LENGTH = 80
+
+const CHANNEL_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/
+
+/**
+ * Normalize a user-entered channel name ("Design Review" -> "design-review").
+ * Returns null when the result is empty, too long or has invalid characters.
+ */
+export function normalizeChannelName(input: unknown): string | null {
+  if (typeof input !== 'string') return null
+  const name = input.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, '-')
+  if (!name || name.length > CHANNEL_NAME_MAX_LENGTH || !CHANNEL_NAME_PATTERN.test(name)) {
+    return null
+  }
+  return name
+}
+
+/** Load a channel and the given profile's membership. Returns null when the channel doesn't exist. */
+export async function getChannelAccess(
+  channelId: string,
+  profileId: string | null
+): Promise<ChannelAccess | null> {
+  const { data: channel } = await supabaseAdmin
+    .from('channels')
+    .select('id, name, is_private, archived_at')
+    .eq('id', channelId)
+    .single()
+
+  if (!channel) return null
+
+  if (!profileId) return { channel, role: null }
+
+  const { data: membership } = await supabaseAdmin
+    .from('channel_members')
+    .select('role')
+    .eq('channel_id', channelId)
+    .eq('user_id', profileId)
+    .maybeSingle()
+
+  return { channel, role: (membership?.role as ChannelRole | undefined) ?? null }
+}
+
+/** Public channels are readable by everyone, private ones only by members. */
+export function canReadChannel(access: ChannelAccess): boolean {
+  return !access.channel.is_private || access.role !== null
+}
+
+/** IDs of channels the profile can read: every public channel plus private ones they belong to. */
+export async function getReadableChannelIds(profileId: string): Promise<string[]> {
+  const [{ data: publicChannels }, { data: memberships }] = await Promise.all([
+    supabaseAdmin.from('channels').select('id').eq('is_private', false),
+    supabaseAdmin.from('channel_members').select('channel_id').eq('user_id', profileId),
+  ])
+
+  const ids = new Set<string>()
+  for (const c of publicChannels ?? []) ids.add(c.id)
+  for (const m of memberships ?? []) ids.add(m.channel_id)
+  return [...ids]
+}
@@ -0,0 +1,98 @@
+import { supabaseAdmin } from '@/lib/supabase-server'
+import type { ChatSystemEvent } from '@/lib/types'
+
+/**
+ * Server-side chat membership helpers shared by the chat and message API
+ * routes. Uses the service role client - only import from API routes.
+ */
+
+export interface ChatAccess {
+  chat: {
+    id: string
+    name: string | null
+    is_group: boolean
+  }
+  // Whether the caller is one of the chat's participants
+  isParticipant: boolean
+}
+
+export const CHAT_NAME_MAX_LENGTH = 80
+
+/** Trim a user-entered group name. Returns null when it is empty or too long. */
+export function normalizeChatName(input: unknown): string | null {
+  if (typeof input !== 'string') return null
+  const name = input.trim().replace(/\s+/g, ' ')
+  if (!name || name.length > CHAT_NAME_MAX_LENGTH) return null
+  return name
+}
+
+/** Load a chat and whether the given profile is in it. Returns null when the chat doesn't exist. */
+export async function getChatAccess(chatId: string, profileId: string | null): Promise<ChatAccess | null> {
+  const { data: chat } = await supabaseAdmin
+    .from('chats')
+    .select('id, name, is_group')
+    .eq('id', chatId)
+    .maybeSingle()
+
+  if (!chat) return null
+
+  if (!profileId) return { chat: { ...chat, is_group: chat.is_group ?? false }, isParticipant: false }
+
+  const { data: participation } = await supabaseAdmin
+    .from('chat_participants')
+    .select('id')
+    .eq('chat_id', chatId)
+    .eq('user_id', profileId)
+    .maybeSingle()
+
+  return { chat: { ...chat, is_group: chat.is_group ?? false }, isParticipant: Boolean(participation) }
+}
+
+// "Ana", "Ana and Ben", "Ana, Ben and Cy"
+function formatNames(names: string[]): string {
+  if (names.length <= 1) return names[0] ?? 'someone'
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+}
+
+function describeChatEvent(event: ChatSystemEvent, actorName: string, names: string[]): string {
+  switch (event.type) {
+    case 'created':
+      return `${actorName} created the group "${event.name}" with ${formatNames(names)}`
+    case 'renamed':
+      return `${actorName} renamed the group to "${event.name}"`
+    case 'added':
+      return `${actorName} added ${formatNames(names)}`
+    case 'removed':
+      return `${actorName} removed ${formatNames(names)}`
+    case 'left':
+      return `${actorName} left the group`
+  }
+}
+
+/**
+ * Record a membership change in the chat as a system message. Best effort:
+ * the change itself has already been made, so failures are only logged.
+ */
+export async function postChatSystemMessage(
+  chatId: string,
+  actorId: string,
+  event: ChatSystemEvent
+): Promise<void> {
+  const userIds = event.user_ids ?? []
+  const { data: profiles } = await supabaseAdmin
+    .from('profiles')
+    .select('id, name')
+    .in('id', [actorId, ...userIds])
+
+  const nameOf = (id: string) => profiles?.find((p) => p.id === id)?.name ?? 'Someone'
+  const content = describeChatEvent(event, nameOf(actorId), userIds.map(nameOf))
+
+  const { error } = await supabaseAdmin.from('messages').insert({
+    chat_id: chatId,
+    sender_id: actorId,
+    content,
+    system_event: event,
+  })
+
+  if (error) console.error('Failed to post chat system message:', error)
+}
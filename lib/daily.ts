@@ -4,11 +4,24 @@
  * This module wraps the Daily REST API to:
  * - Create rooms with appropriate settings
  * - Generate meeting tokens for participants
+ * - List rooms and check who is in them, to clean up abandoned calls
  * - Delete rooms when calls end
+ * - Start and stop cloud recordings and fetch links to finished ones
+ * - Verify webhook signatures
+ *
+ * DAILY_API_URL overrides the API base, e.g. to point at a local stand-in
+ * for the Daily REST API in tests.
  */
 
+import { createHmac, timingSafeEqual } from 'crypto'
+
 const DAILY_API_KEY = process.env.DAILY_API_KEY
-const DAILY_API_BASE = 'https://api.daily.co/v1'
+const DAILY_API_BASE = process.env.DAILY_API_URL || 'https://api.daily.co/v1'
+const DAILY_WEBHOOK_SECRET = process.env.DAILY_WEBHOOK_SECRET
+// Daily's maximum page size for GET /rooms
+const DAILY_ROOMS_PAGE_SIZE = 100
+// Webhook requests signed longer ago than this (either way) are refused as replays
+export const DAILY_WEBHOOK_MAX_AGE_MS = 5 * 60 * 1000
 
 if (!DAILY_API_KEY) {
   console.warn('DAILY_API_KEY is not set. Video calls will not work.')
@@ -26,6 +39,7 @@ export interface DailyRoom {
     enable_knocking?: boolean
     start_video_off?: boolean
     start_audio_off?: boolean
+    enable_recording?: 'cloud' | 'local' | 'raw-tracks'
     exp?: number
   }
 }
@@ -40,6 +54,7 @@ export interface DailyRoomConfig {
     enable_knocking?: boolean
     start_video_off?: boolean
     start_audio_off?: boolean
+    enable_recording?: 'cloud' | 'local' | 'raw-tracks'
     exp?: number // Unix timestamp for room expiration
     eject_at_room_exp?: boolean
   }
@@ -87,6 +102,8 @@ export async function createDailyRoom(
       enable_knocking: false, // Users join directly with tokens
       start_video_off: false,
       start_audio_off: false,
+      // Recording is started and stopped by the call starter through the API
+      enable_recording: 'cloud',
       // Room expires after 24 hours by default
       exp: Math.floor(Date.now() / 1000) + 24 * 60 * 60,
       eject_at_room_exp: true,
@@ -140,6 +157,70 @@ export async function getDailyRoom(roomName: string): Promise<DailyRoom | null>
   return response.json()
 }
 
+/**
+ * List every room on the account, following Daily's pagination.
+ */
+export async function listDailyRooms(): Promise<DailyRoom[]> {
+  if (!DAILY_API_KEY) {
+    throw new Error('DAILY_API_KEY is not configured')
+  }
+
+  const rooms: DailyRoom[] = []
+  let startingAfter: string | null = null
+
+  for (;;) {
+    const query = new URLSearchParams({ limit: String(DAILY_ROOMS_PAGE_SIZE) })
+    if (startingAfter) query.set('starting_after', startingAfter)
+
+    const response = await fetch(`${DAILY_API_BASE}/rooms?${query}`, {
+      method: 'GET',
+      headers: {
+        Authorization: `Bearer ${DAILY_API_KEY}`,
+      },
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      console.error('Failed to list Daily rooms:', error)
+      throw new Error(`Failed to list Daily rooms: ${response.status}`)
+    }
+
+    const page: { data: DailyRoom[] } = await response.json()
+    rooms.push(...page.data)
+    if (page.data.length < DAILY_ROOMS_PAGE_SIZE) return rooms
+    startingAfter = page.data[page.data.length - 1].id
+  }
+}
+
+/**
+ * Count the participants currently connected to a room.
+ */
+export async function getDailyRoomPresence(roomName: string): Promise<number> {
+  if (!DAILY_API_KEY) {
+    throw new Error('DAILY_API_KEY is not configured')
+  }
+
+  const response = await fetch(`${DAILY_API_BASE}/rooms/${roomName}/presence`, {
+    method: 'GET',
+    headers: {
+      Authorization: `Bearer ${DAILY_API_KEY}`,
+    },
+  })
+
+  if (response.status === 404) {
+    return 0
+  }
+
+  if (!response.ok) {
+    const error = await response.text()
+    console.error('Failed to get Daily room presence:', error)
+    throw new Error(`Failed to get Daily room presence: ${response.status}`)
+  }
+
+  const data: { total_count: number } = await response.json()
+  return data.total_count
+}
+
 /**
  * Delete a Daily room by name.
  */
@@ -206,3 +287,111 @@ export async function createMeetingToken(
   const data: DailyMeetingToken = await response.json()
   return data.token
 }
+
+export interface DailyRecordingAccessLink {
+  download_link: string
+  expires: number // Unix timestamp when the link stops working
+}
+
+/**
+ * Start a cloud recording of the room's current session.
+ */
+export async function startDailyRecording(roomName: string): Promise<void> {
+  if (!DAILY_API_KEY) {
+    throw new Error('DAILY_API_KEY is not configured')
+  }
+
+  const response = await fetch(`${DAILY_API_BASE}/rooms/${roomName}/recordings/start`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${DAILY_API_KEY}`,
+    },
+    body: JSON.stringify({ type: 'cloud' }),
+  })
+
+  if (!response.ok) {
+    const error = await response.text()
+    console.error('Failed to start Daily recording:', error)
+    throw new Error(`Failed to start Daily recording: ${response.status}`)
+  }
+}
+
+/**
+ * Stop the room's running recording.
+ */
+export async function stopDailyRecording(roomName: string): Promise<void> {
+  if (!DAILY_API_KEY) {
+    throw new Error('DAILY_API_KEY is not configured')
+  }
+
+  const response = await fetch(`${DAILY_API_BASE}/rooms/${roomName}/recordings/stop`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${DAILY_API_KEY}`,
+    },
+    body: JSON.stringify({}),
+  })
+
+  if (!response.ok) {
+    const error = await response.text()
+    console.error('Failed to stop Daily recording:', error)
+    throw new Error(`Failed to stop Daily recording: ${response.status}`)
+  }
+}
+
+/**
+ * Get a short-lived link for playing or downloading a finished recording.
+ */
+export async function getRecordingAccessLink(
+  recordingId: string
+): Promise<DailyRecordingAccessLink> {
+  if (!DAILY_API_KEY) {
+    throw new Error('DAILY_API_KEY is not configured')
+  }
+
+  const response = await fetch(`${DAILY_API_BASE}/recordings/${recordingId}/access-link`, {
+    method: 'GET',
+    headers: {
+      Authorization: `Bearer ${DAILY_API_KEY}`,
+    },
+  })
+
+  if (!response.ok) {
+    const error = await response.text()
+    console.error('Failed to get recording access link:', error)
+    throw new Error(`Failed to get recording access link: ${response.status}`)
+  }
+
+  return response.json()
+}
+
+/**
+ * Check a webhook request's X-Webhook-Signature: a base64 HMAC-SHA256 of
+ * `${timestamp}.${body}`, keyed with the (base64) secret Daily returned when
+ * the webhook was created. The X-Webhook-Timestamp must also be within
+ * DAILY_WEBHOOK_MAX_AGE_MS of now, so a captured request can't be replayed
+ * later. Returns false when DAILY_WEBHOOK_SECRET is unset.
+ */
+export function verifyDailyWebhookSignature(
+  rawBody: string,
+  timestamp: string | null,
+  signature: string | null,
+  now: number = Date.now()
+): boolean {
+  if (!DAILY_WEBHOOK_SECRET || !timestamp || !signature) return false
+
+  // Daily sends Unix seconds; accept milliseconds too
+  const sent = Number(timestamp)
+  if (!Number.isFinite(sent)) return false
+  const sentAt = sent > 1e12 ? sent : sent * 1000
+  if (Math.abs(now - sentAt) > DAILY_WEBHOOK_MAX_AGE_MS) return false
+
+  const expected = createHmac('sha256', Buffer.from(DAILY_WEBHOOK_SECRET, 'base64'))
+    .update(`${timestamp}.${rawBody}`)
+    .digest()
+  const received = Buffer.from(signature, 'base64')
+
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
@@ -0,0 +1,98 @@
+/**
+ * Free/busy helpers for scheduling: merging busy blocks and ranking open
+ * slots for a group of attendees.
+ *
+ * Everyone's working hours are the same local hours on weekdays, in each
+ * person's own preferred zone.
+ */
+
+import { weekdayOf } from '@/lib/recurrence'
+import { toZonedParts } from '@/lib/time-zones'
+import type { BusyBlock, FreeBusyEntry, SuggestedTime } from '@/lib/types'
+
+export const WORKDAY_START_MINUTES = 9 * 60
+export const WORKDAY_END_MINUTES = 17 * 60
+
+// Suggested slots start on these boundaries
+export const SLOT_STEP_MINUTES = 30
+
+const MINUTE_MS = 60 * 1000
+
+/** Sort blocks and merge any that overlap or touch */
+export function mergeBusyBlocks(blocks: BusyBlock[]): BusyBlock[] {
+  const sorted = [...blocks].sort((a, b) => a.start.localeCompare(b.start))
+  const merged: BusyBlock[] = []
+  for (const block of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && new Date(block.start) <= new Date(last.end)) {
+      if (new Date(block.end) > new Date(last.end)) last.end = block.end
+    } else {
+      merged.push({ ...block })
+    }
+  }
+  return merged
+}
+
+/** Whether any block overlaps [start, end) */
+export function overlapsBusy(blocks: BusyBlock[], start: Date, end: Date): boolean {
+  return blocks.some((b) => new Date(b.start) < end && new Date(b.end) > start)
+}
+
+/** Whether [start, end) falls within one weekday's working hours in a zone */
+export function isWithinWorkingHours(start: Date, end: Date, timeZone: string): boolean {
+  const from = toZonedParts(start, timeZone)
+  // The end instant is exclusive: an end at 17:00 is still within the day
+  const to = toZonedParts(end.getTime() - MINUTE_MS, timeZone)
+  if (from.date !== to.date) return false
+  const weekday = weekdayOf(from.date)
+  if (weekday === 'SA' || weekday === 'SU') return false
+  return from.minutes >= WORKDAY_START_MINUTES && to.minutes < WORKDAY_END_MINUTES
+}
+
+/**
+ * Candidate slots of `durationMinutes` within the window, best first: the
+ * fewest attendees busy, then the fewest outside their working hours, then
+ * the earliest. Slots nobody can make comfortably are left out.
+ */
+export function suggestTimes(
+  entries: FreeBusyEntry[],
+  windowStart: Date,
+  windowEnd: Date,
+  durationMinutes: number,
+  limit: number
+): SuggestedTime[] {
+  const stepMs = SLOT_STEP_MINUTES * MINUTE_MS
+  const durationMs = durationMinutes * MINUTE_MS
+  const candidates: SuggestedTime[] = []
+
+  for (
+    let t = Math.ceil(windowStart.getTime() / stepMs) * stepMs;
+    t + durationMs <= windowEnd.getTime();
+    t += stepMs
+  ) {
+    const start = new Date(t)
+    const end = new Date(t + durationMs)
+    const slot: SuggestedTime = {
+      start: start.toISOString(),
+      end: end.toISOString(),
+      available_ids: [],
+      outside_hours_ids: [],
+      busy_ids: [],
+    }
+    for (const entry of entries) {
+      if (overlapsBusy(entry.busy, start, end)) slot.busy_ids.push(entry.user_id)
+      else if (!isWithinWorkingHours(start, end, entry.time_zone)) slot.outside_hours_ids.push(entry.user_id)
+      else slot.available_ids.push(entry.user_id)
+    }
+    if (slot.available_ids.length > 0) candidates.push(slot)
+  }
+
+  return candidates
+    .sort(
+      (a, b) =>
+        a.busy_ids.length - b.busy_ids.length ||
+        a.outside_hours_ids.length - b.outside_hours_ids.length ||
+        a.start.localeCompare(b.start)
+    )
+    .slice(0, limit)
+}
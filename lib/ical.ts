@@ -0,0 +1,369 @@
+/**
+ * RFC 5545 iCalendar serialization and parsing for the calendar feed and
+ * .ics import.
+ *
+ * Calendar events have a date plus wall-clock start/end times in an IANA
+ * zone, exported as TZID times (UTC as "Z" times) so recurring events keep
+ * their clock time across DST changes. Parsing keeps whatever zone
+ * information the file carries and leaves interpreting it to the caller.
+ */
+
+import type { RsvpResponse } from '@/lib/types'
+
+const CRLF = '\r\n'
+
+// Lines longer than this many octets must be folded (RFC 5545 §3.1)
+const MAX_LINE_OCTETS = 75
+
+export interface ICalAttendee {
+  email: string
+  name: string | null
+  // PARTSTAT; missing means no answer yet
+  response?: RsvpResponse
+  // ROLE=OPT-PARTICIPANT
+  optional?: boolean
+}
+
+const PARTSTATS: Record<RsvpResponse, string> = {
+  'needs-action': 'NEEDS-ACTION',
+  accepted: 'ACCEPTED',
+  tentative: 'TENTATIVE',
+  declined: 'DECLINED',
+}
+
+export interface ICalEventInput {
+  uid: string
+  summary: string
+  description: string | null
+  // YYYY-MM-DD
+  date: string
+  // HH:mm or HH:mm:ss; an end at or before the start is on the next day
+  startTime: string
+  endTime: string
+  // IANA zone of date/startTime/endTime
+  timeZone: string
+  location: string | null
+  // RRULE value without the "RRULE:" prefix
+  rrule: string | null
+  // Cancelled occurrence dates (YYYY-MM-DD)
+  exdates: string[]
+  // For an overridden occurrence: the date it replaces (YYYY-MM-DD)
+  recurrenceId: string | null
+  // The series start time the recurrence ID refers to
+  recurrenceStartTime?: string
+  created: string | null
+  organizer: ICalAttendee | null
+  attendees: ICalAttendee[]
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c))
+}
+
+/** Fold a content line at 75 octets without splitting UTF-8 characters */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line
+
+  const parts: string[] = []
+  let current = ''
+  let currentOctets = 0
+  for (const char of line) {
+    const octets = encoder.encode(char).length
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (currentOctets + octets > limit) {
+      parts.push(current)
+      current = ''
+      currentOctets = 0
+    }
+    current += char
+    currentOctets += octets
+  }
+  parts.push(current)
+  return parts.join(`${CRLF} `)
+}
+
+function quoteParam(value: string): string {
+  return /[;:,]/.test(value) ? `"${value.replace(/"/g, '')}"` : value
+}
+
+/** 2026-02-10 + 09:30 -> 20260210T093000 */
+function formatLocalDateTime(date: string, time: string): string {
+  const [h = '00', m = '00', s = '00'] = time.split(':')
+  return `${date.replace(/-/g, '')}T${h.padStart(2, '0')}${m.padStart(2, '0')}${s.slice(0, 2).padStart(2, '0')}`
+}
+
+function nextDate(date: string): string {
+  const [y, m, d] = date.split('-').map(Number)
+  return new Date(Date.UTC(y, m - 1, d + 1)).toISOString().slice(0, 10)
+}
+
+/** A property with a zoned time: "DTSTART;TZID=Europe/Berlin:20260210T093000" or "...Z" for UTC */
+function formatZonedProperty(name: string, date: string, time: string, timeZone: string): string {
+  const value = formatLocalDateTime(date, time)
+  return timeZone === 'UTC' ? `${name}:${value}Z` : `${name};TZID=${timeZone}:${value}`
+}
+
+function formatUtcStamp(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function formatAttendee(prefix: string, attendee: ICalAttendee, extra = ''): string {
+  const name = attendee.name ? `;CN=${quoteParam(attendee.name)}` : ''
+  return `${prefix}${name}${extra}:mailto:${attendee.email}`
+}
+
+function formatEvent(event: ICalEventInput, now: string): string[] {
+  const crossesMidnight = event.endTime.slice(0, 5) <= event.startTime.slice(0, 5)
+  const endDate = crossesMidnight ? nextDate(event.date) : event.date
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${now}`,
+    formatZonedProperty('DTSTART', event.date, event.startTime, event.timeZone),
+    formatZonedProperty('DTEND', endDate, event.endTime, event.timeZone),
+    `SUMMARY:${escapeText(event.summary)}`,
+  ]
+  if (event.recurrenceId) {
+    lines.push(
+      formatZonedProperty(
+        'RECURRENCE-ID',
+        event.recurrenceId,
+        event.recurrenceStartTime ?? event.startTime,
+        event.timeZone
+      )
+    )
+  }
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`)
+  for (const date of event.exdates) {
+    lines.push(formatZonedProperty('EXDATE', date, event.startTime, event.timeZone))
+  }
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+  if (event.created) lines.push(`CREATED:${formatUtcStamp(event.created)}`)
+  if (event.organizer) lines.push(formatAttendee('ORGANIZER', event.organizer))
+  for (const attendee of event.attendees) {
+    const role = attendee.optional ? 'OPT-PARTICIPANT' : 'REQ-PARTICIPANT'
+    const partstat = PARTSTATS[attendee.response ?? 'needs-action']
+    lines.push(formatAttendee('ATTENDEE', attendee, `;ROLE=${role};PARTSTAT=${partstat}`))
+  }
+  lines.push('END:VEVENT')
+  return lines
+}
+
+/** Serialize events into a VCALENDAR document */
+export function buildICalendar(events: ICalEventInput[], calendarName: string): string {
+  const now = formatUtcStamp(new Date().toISOString())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//DevCollab//Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...events.flatMap((event) => formatEvent(event, now)),
+    'END:VCALENDAR',
+  ]
+  return lines.map(foldLine).join(CRLF) + CRLF
+}
+
+export interface ICalDateTime {
+  // YYYY-MM-DD
+  date: string
+  // HH:mm, or null for an all-day (VALUE=DATE) value
+  time: string | null
+  // Whether the value was in UTC ("Z" suffix)
+  utc: boolean
+  // TZID parameter, if any
+  tzid: string | null
+}
+
+export interface ParsedICalEvent {
+  uid: string | null
+  summary: string
+  description: string | null
+  location: string | null
+  start: ICalDateTime
+  end: ICalDateTime | null
+  // From DURATION when there is no DTEND
+  durationMinutes: number | null
+  rrule: string | null
+  exdates: string[]
+  recurrenceId: string | null
+  attendees: ICalAttendee[]
+  status: string | null
+}
+
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+/** Undo line folding: a line starting with a space or tab continues the previous one */
+function unfoldLines(text: string): string[] {
+  return text.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter(Boolean)
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false
+  let colon = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i
+      break
+    }
+  }
+  if (colon === -1) return null
+
+  const [name, ...paramParts] = line.slice(0, colon).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+  const params: Record<string, string> = {}
+  for (const part of paramParts) {
+    const eq = part.indexOf('=')
+    if (eq === -1) continue
+    params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '')
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) }
+}
+
+function parseDateTime(value: string, params: Record<string, string>): ICalDateTime | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim())
+  if (!match) return null
+  const [, y, mo, d, h, mi, , z] = match
+  return {
+    date: `${y}-${mo}-${d}`,
+    time: h && params.VALUE !== 'DATE' ? `${h}:${mi}` : null,
+    utc: Boolean(z),
+    tzid: params.TZID ?? null,
+  }
+}
+
+/** ISO 8601 duration (P1DT2H30M, PT45M, P1W) in minutes */
+function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim())
+  if (!match) return null
+  const [, sign, w, d, h, m] = match
+  const minutes =
+    Number(w ?? 0) * 7 * 24 * 60 + Number(d ?? 0) * 24 * 60 + Number(h ?? 0) * 60 + Number(m ?? 0)
+  return sign === '-' ? -minutes : minutes
+}
+
+function parseAttendee(line: ContentLine): ICalAttendee | null {
+  const email = line.value.replace(/^mailto:/i, '').trim().toLowerCase()
+  if (!email.includes('@')) return null
+  const partstat = line.params.PARTSTAT?.toUpperCase()
+  const response = (Object.keys(PARTSTATS) as RsvpResponse[]).find((r) => PARTSTATS[r] === partstat)
+  return {
+    email,
+    name: line.params.CN ?? null,
+    response: response ?? 'needs-action',
+    optional: line.params.ROLE?.toUpperCase() === 'OPT-PARTICIPANT',
+  }
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar document. Events without a valid DTSTART
+ * are skipped; other components (VTIMEZONE, VTODO, VALARM...) are ignored.
+ */
+export function parseICalendar(text: string): ParsedICalEvent[] {
+  const events: ParsedICalEvent[] = []
+  let current: Partial<ParsedICalEvent> | null = null
+  // Nested components inside a VEVENT, e.g. VALARM
+  let nestedDepth = 0
+
+  for (const rawLine of unfoldLines(text)) {
+    const line = parseContentLine(rawLine)
+    if (!line) continue
+
+    if (line.name === 'BEGIN') {
+      if (line.value.toUpperCase() === 'VEVENT' && !current) {
+        current = { attendees: [], exdates: [] }
+      } else if (current) {
+        nestedDepth++
+      }
+      continue
+    }
+    if (line.name === 'END') {
+      if (current && nestedDepth > 0) {
+        nestedDepth--
+      } else if (current && line.value.toUpperCase() === 'VEVENT') {
+        if (current.start) {
+          events.push({
+            uid: current.uid ?? null,
+            summary: current.summary ?? '',
+            description: current.description ?? null,
+            location: current.location ?? null,
+            start: current.start,
+            end: current.end ?? null,
+            durationMinutes: current.durationMinutes ?? null,
+            rrule: current.rrule ?? null,
+            exdates: current.exdates ?? [],
+            recurrenceId: current.recurrenceId ?? null,
+            attendees: current.attendees ?? [],
+            status: current.status ?? null,
+          })
+        }
+        current = null
+      }
+      continue
+    }
+    if (!current || nestedDepth > 0) continue
+
+    switch (line.name) {
+      case 'UID':
+        current.uid = line.value.trim()
+        break
+      case 'SUMMARY':
+        current.summary = unescapeText(line.value).trim()
+        break
+      case 'DESCRIPTION':
+        current.description = unescapeText(line.value).trim() || null
+        break
+      case 'LOCATION':
+        current.location = unescapeText(line.value).trim() || null
+        break
+      case 'DTSTART':
+        current.start = parseDateTime(line.value, line.params) ?? undefined
+        break
+      case 'DTEND':
+        current.end = parseDateTime(line.value, line.params)
+        break
+      case 'DURATION':
+        current.durationMinutes = parseDuration(line.value)
+        break
+      case 'RRULE':
+        current.rrule = line.value.trim()
+        break
+      case 'EXDATE':
+        for (const value of line.value.split(',')) {
+          const date = parseDateTime(value, line.params)
+          if (date) current.exdates!.push(date.date)
+        }
+        break
+      case 'RECURRENCE-ID':
+        current.recurrenceId = parseDateTime(line.value, line.params)?.date ?? null
+        break
+      case 'ATTENDEE': {
+        const attendee = parseAttendee(line)
+        if (attendee) current.attendees!.push(attendee)
+        break
+      }
+      case 'STATUS':
+        current.status = line.value.trim().toUpperCase()
+        break
+    }
+  }
+
+  return events
+}
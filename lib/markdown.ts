@@ -0,0 +1,554 @@
+/**
+ * The Markdown subset messages support, parsed into a small syntax tree that
+ * components/message-text.tsx renders as React elements.
+ *
+ * There is no HTML pass-through: raw "<tags>" stay literal text, and React
+ * escapes everything it renders, so the only way content reaches an attribute
+ * is a link href, which must pass `safeHref`. That keeps formatting from
+ * becoming an XSS path without a separate sanitizer.
+ *
+ * Blocks: paragraphs (single newlines are line breaks, as in chat), fenced
+ * code blocks with an optional language, blockquotes, and ordered/unordered
+ * lists that nest by indentation. Inline: **bold**, *italic* / _italic_,
+ * ~~strikethrough~~, `code`, [links](https://…), bare http(s) URLs and
+ * backslash escapes.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'strike'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' }
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; lang: string | null; text: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+
+// Deeper quotes, lists or emphasis are left as text
+const MAX_DEPTH = 8
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([\w+#.-]*)[^`]*$/
+const QUOTE = /^ {0,3}> ?/
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])[ \t]+(.*)$/
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!~>|]/
+const WORD_CHAR = /[\p{L}\p{N}]/u
+const URL_START = /^https?:\/\/[^\s<]+/i
+
+/**
+ * The href for a link target, or null when it shouldn't be a link. Only
+ * http(s) and mailto URLs are allowed, which rules out javascript:, data: and
+ * other schemes however they are spelled.
+ */
+export function safeHref(url: string): string | null {
+  const trimmed = url.trim()
+  if (!trimmed) return null
+  try {
+    const parsed = new URL(trimmed)
+    return ['http:', 'https:', 'mailto:'].includes(parsed.protocol) ? parsed.href : null
+  } catch {
+    return null
+  }
+}
+
+/** Parse message content into blocks. */
+export function parseMarkdown(content: string): MarkdownBlock[] {
+  return parseBlocks(content.replace(/\r\n?/g, '\n').split('\n'), 0)
+}
+
+function isBlockStart(line: string): boolean {
+  return FENCE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line)
+}
+
+function leadingSpaces(line: string): number {
+  return line.length - line.trimStart().length
+}
+
+function parseBlocks(lines: string[], depth: number): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (!line.trim()) {
+      i++
+      continue
+    }
+
+    const fence = line.match(FENCE)
+    if (fence) {
+      const marker = fence[1]
+      const body: string[] = []
+      i++
+      // An unclosed fence runs to the end of the message
+      while (i < lines.length && !isClosingFence(lines[i], marker)) {
+        body.push(lines[i])
+        i++
+      }
+      i++
+      blocks.push({ type: 'code', lang: fence[2] ? fence[2].toLowerCase() : null, text: body.join('\n') })
+      continue
+    }
+
+    if (depth < MAX_DEPTH && QUOTE.test(line)) {
+      const body: string[] = []
+      while (i < lines.length && lines[i].trim() && QUOTE.test(lines[i])) {
+        body.push(lines[i].replace(QUOTE, ''))
+        i++
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(body, depth + 1) })
+      continue
+    }
+
+    const item = line.match(LIST_ITEM)
+    if (depth < MAX_DEPTH && item) {
+      const [list, next] = parseList(lines, i, depth)
+      blocks.push(list)
+      i = next
+      continue
+    }
+
+    const body: string[] = []
+    while (i < lines.length && lines[i].trim() && (body.length === 0 || !isBlockStart(lines[i]))) {
+      body.push(lines[i].trim())
+      i++
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(body.join('\n')) })
+  }
+
+  return blocks
+}
+
+function isClosingFence(line: string, marker: string): boolean {
+  const trimmed = line.trim()
+  return trimmed.length >= marker.length && trimmed === marker[0].repeat(trimmed.length)
+}
+
+function isOrderedMarker(marker: string): boolean {
+  return /\d/.test(marker[0])
+}
+
+/** A list starting at `start`, and the index of the first line after it. */
+function parseList(lines: string[], start: number, depth: number): [MarkdownBlock, number] {
+  const first = lines[start].match(LIST_ITEM)!
+  const ordered = isOrderedMarker(first[2])
+  const items: MarkdownBlock[][] = []
+  let i = start
+
+  while (i < lines.length) {
+    const item = lines[i].match(LIST_ITEM)
+    if (!item || isOrderedMarker(item[2]) !== ordered) break
+
+    // Lines indented past the marker belong to the item, as do lazy continuations
+    const contentIndent = item[1].length + item[2].length + 1
+    const body = [item[3]]
+    i++
+    while (i < lines.length) {
+      const line = lines[i]
+      if (!line.trim()) {
+        const next = lines[i + 1]
+        if (next !== undefined && next.trim() && leadingSpaces(next) >= contentIndent) {
+          body.push('')
+          i++
+          continue
+        }
+        break
+      }
+      if (leadingSpaces(line) >= contentIndent) {
+        body.push(line.slice(contentIndent))
+      } else if (!isBlockStart(line)) {
+        body.push(line.trim())
+      } else {
+        break
+      }
+      i++
+    }
+    items.push(parseBlocks(body, depth + 1))
+
+    // A blank line between items keeps the list going
+    if (!lines[i]?.trim() && lines[i + 1]?.match(LIST_ITEM)) i++
+  }
+
+  return [{ type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, i]
+}
+
+/** Parse inline formatting in a block of text. */
+export function parseInline(text: string, depth = 0): MarkdownInline[] {
+  const nodes: MarkdownInline[] = []
+  let buffer = ''
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer })
+    buffer = ''
+  }
+
+  let i = 0
+  while (i < text.length) {
+    const ch = text[i]
+
+    if (ch === '\\' && i + 1 < text.length && ESCAPABLE.test(text[i + 1])) {
+      buffer += text[i + 1]
+      i += 2
+      continue
+    }
+
+    if (ch === '\n') {
+      flush()
+      nodes.push({ type: 'break' })
+      i++
+      continue
+    }
+
+    if (ch === '`') {
+      const run = runLength(text, i, '`')
+      const close = findCodeClose(text, i + run, run)
+      if (close !== -1) {
+        flush()
+        let code = text.slice(i + run, close).replace(/\n/g, ' ')
+        if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ')) code = code.slice(1, -1)
+        nodes.push({ type: 'code', text: code })
+        i = close + run
+        continue
+      }
+      buffer += text.slice(i, i + run)
+      i += run
+      continue
+    }
+
+    if (ch === '[' && depth < MAX_DEPTH) {
+      const link = matchLink(text, i)
+      if (link) {
+        flush()
+        const children = parseInline(link.label, depth + 1)
+        const href = safeHref(link.url)
+        if (href) {
+          nodes.push({ type: 'link', href, children })
+        } else {
+          nodes.push(...children)
+        }
+        i = link.end
+        continue
+      }
+    }
+
+    if ((ch === 'h' || ch === 'H') && (i === 0 || !WORD_CHAR.test(text[i - 1]))) {
+      const url = matchBareUrl(text.slice(i))
+      const href = url ? safeHref(url) : null
+      if (url && href) {
+        flush()
+        nodes.push({ type: 'link', href, children: [{ type: 'text', text: url }] })
+        i += url.length
+        continue
+      }
+    }
+
+    if ((ch === '*' || ch === '_' || ch === '~') && depth < MAX_DEPTH) {
+      const span = matchEmphasis(text, i)
+      if (span) {
+        flush()
+        nodes.push({ type: span.type, children: parseInline(span.inner, depth + 1) })
+        i = span.end
+        continue
+      }
+      // Keep unmatched delimiter runs together so "**" isn't retried as "*"
+      const run = runLength(text, i, ch)
+      buffer += text.slice(i, i + run)
+      i += run
+      continue
+    }
+
+    buffer += ch
+    i++
+  }
+
+  flush()
+  return nodes
+}
+
+function runLength(text: string, start: number, ch: string): number {
+  let end = start
+  while (text[end] === ch) end++
+  return end - start
+}
+
+function findCodeClose(text: string, from: number, run: number): number {
+  let i = text.indexOf('`', from)
+  while (i !== -1) {
+    const length = runLength(text, i, '`')
+    if (length === run) return i
+    i = text.indexOf('`', i + length)
+  }
+  return -1
+}
+
+/** `[label](url)` starting at `start`, with nested brackets in the label. */
+function matchLink(text: string, start: number): { label: string; url: string; end: number } | null {
+  let depth = 0
+  let i = start
+  for (; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++
+    } else if (text[i] === '[') {
+      depth++
+    } else if (text[i] === ']') {
+      depth--
+      if (depth === 0) break
+    }
+  }
+  if (depth !== 0 || text[i + 1] !== '(') return null
+
+  const urlStart = i + 2
+  let parens = 0
+  let j = urlStart
+  for (; j < text.length; j++) {
+    const c = text[j]
+    if (/\s/.test(c)) return null
+    if (c === '(') parens++
+    if (c === ')') {
+      if (parens === 0) break
+      parens--
+    }
+  }
+  if (j >= text.length || j === urlStart) return null
+  return { label: text.slice(start + 1, i), url: text.slice(urlStart, j), end: j + 1 }
+}
+
+/** A bare URL at the start of the text, without trailing punctuation. */
+function matchBareUrl(text: string): string | null {
+  const match = text.match(URL_START)
+  if (!match) return null
+  let url = match[0]
+  for (;;) {
+    const last = url[url.length - 1]
+    if ('.,;:!?\'"*_~'.includes(last)) {
+      url = url.slice(0, -1)
+    } else if (last === ')' && count(url, ')') > count(url, '(')) {
+      // Drop a closing paren that belongs to the surrounding text
+      url = url.slice(0, -1)
+    } else {
+      break
+    }
+  }
+  return /^https?:\/\/\S/i.test(url) ? url : null
+}
+
+function count(text: string, ch: string): number {
+  return text.split(ch).length - 1
+}
+
+/**
+ * `**strong**`, `__strong__`, `*em*`, `_em_` or `~~strike~~` starting at
+ * `start`. The content can't start or end with whitespace, and underscores
+ * only count at word edges so snake_case stays as written.
+ */
+function matchEmphasis(
+  text: string,
+  start: number
+): { type: 'strong' | 'em' | 'strike'; inner: string; end: number } | null {
+  const ch = text[start]
+  const run = runLength(text, start, ch)
+  if (ch === '~' && run !== 2) return null
+  const size = ch === '~' ? 2 : Math.min(run, 2)
+  const type = ch === '~' ? 'strike' : size === 2 ? 'strong' : 'em'
+
+  if (ch === '_' && start > 0 && WORD_CHAR.test(text[start - 1])) return null
+  const innerStart = start + size
+  if (innerStart >= text.length || /\s/.test(text[innerStart])) return null
+
+  let i = innerStart
+  while (i < text.length) {
+    const c = text[i]
+    if (c === '\\') {
+      i += 2
+      continue
+    }
+    if (c === '`') {
+      const codeRun = runLength(text, i, '`')
+      const close = findCodeClose(text, i + codeRun, codeRun)
+      i = close === -1 ? i + codeRun : close + codeRun
+      continue
+    }
+    // Emphasis doesn't span paragraphs
+    if (c === '\n' && text[i + 1] === '\n') return null
+    if (c === ch) {
+      const closeRun = runLength(text, i, ch)
+      // A run of another size opens nested emphasis, except "***", which can close both
+      const closeAt = i + closeRun - size
+      if (
+        (closeRun === size || (closeRun >= 3 && ch !== '~')) &&
+        closeAt > innerStart &&
+        !/\s/.test(text[closeAt - 1]) &&
+        (ch !== '_' || !WORD_CHAR.test(text[i + closeRun] ?? ''))
+      ) {
+        return { type, inner: text.slice(innerStart, closeAt), end: closeAt + size }
+      }
+      i += closeRun
+      continue
+    }
+    i++
+  }
+  return null
+}
+
+/**
+ * Message content as plain text, for previews (notifications, thread
+ * summaries) where formatting can't be shown.
+ */
+export function markdownToPlainText(content: string): string {
+  const inlineText = (nodes: MarkdownInline[]): string =>
+    nodes
+      .map((n) => {
+        switch (n.type) {
+          case 'text':
+          case 'code':
+            return n.text
+          case 'break':
+            return '\n'
+          default:
+            return inlineText(n.children)
+        }
+      })
+      .join('')
+
+  const blockText = (blocks: MarkdownBlock[]): string =>
+    blocks
+      .map((b) => {
+        switch (b.type) {
+          case 'paragraph':
+            return inlineText(b.children)
+          case 'code':
+            return b.text
+          case 'blockquote':
+            return blockText(b.children)
+          case 'list':
+            return b.items.map((item) => blockText(item)).join('\n')
+        }
+      })
+      .join('\n')
+
+  return blockText(parseMarkdown(content))
+}
+
+export type MarkdownFormat =
+  | 'bold'
+  | 'italic'
+  | 'strike'
+  | 'code'
+  | 'codeBlock'
+  | 'link'
+  | 'quote'
+  | 'bulletList'
+  | 'numberedList'
+
+export interface FormattedText {
+  value: string
+  selectionStart: number
+  selectionEnd: number
+}
+
+const WRAPPERS: Partial<Record<MarkdownFormat, string>> = {
+  bold: '**',
+  italic: '_',
+  strike: '~~',
+  code: '`',
+}
+
+/**
+ * Apply a toolbar format to the composer's text and selection. Inline formats
+ * wrap the selection (or unwrap it when already wrapped); line formats prefix
+ * every selected line; a code block fences the selected lines.
+ */
+export function applyMarkdownFormat(
+  value: string,
+  selectionStart: number,
+  selectionEnd: number,
+  format: MarkdownFormat
+): FormattedText {
+  const selected = value.slice(selectionStart, selectionEnd)
+  const before = value.slice(0, selectionStart)
+  const after = value.slice(selectionEnd)
+
+  const wrapper = WRAPPERS[format]
+  if (wrapper) {
+    const n = wrapper.length
+    if (before.endsWith(wrapper) && after.startsWith(wrapper)) {
+      return {
+        value: before.slice(0, -n) + selected + after.slice(n),
+        selectionStart: selectionStart - n,
+        selectionEnd: selectionEnd - n,
+      }
+    }
+    return {
+      value: before + wrapper + selected + wrapper + after,
+      selectionStart: selectionStart + n,
+      selectionEnd: selectionEnd + n,
+    }
+  }
+
+  if (format === 'link') {
+    const label = selected || 'text'
+    const next = `${before}[${label}](https://)${after}`
+    // Select the URL placeholder so typing replaces it
+    const urlStart = selectionStart + label.length + 3
+    return { value: next, selectionStart: urlStart, selectionEnd: urlStart + 'https://'.length }
+  }
+
+  // Line formats work on whole lines
+  const lineStart = value.lastIndexOf('\n', selectionStart - 1) + 1
+  const nextBreak = value.indexOf('\n', selectionEnd)
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak
+  const lines = value.slice(lineStart, lineEnd).split('\n')
+  const head = value.slice(0, lineStart)
+  const tail = value.slice(lineEnd)
+
+  let block: string
+  if (format === 'codeBlock') {
+    const needsBreakBefore = head.length > 0 && !head.endsWith('\n')
+    block = `${needsBreakBefore ? '\n' : ''}\`\`\`\n${lines.join('\n')}\n\`\`\``
+    const cursor = lineStart + (needsBreakBefore ? 1 : 0) + 4
+    return {
+      value: head + block + tail,
+      selectionStart: cursor,
+      selectionEnd: cursor + lines.join('\n').length,
+    }
+  }
+
+  const prefixes: Record<'quote' | 'bulletList' | 'numberedList', (i: number) => string> = {
+    quote: () => '> ',
+    bulletList: () => '- ',
+    numberedList: (i) => `${i + 1}. `,
+  }
+  const patterns: Record<'quote' | 'bulletList' | 'numberedList', RegExp> = {
+    quote: /^> ?/,
+    bulletList: /^[-*+] /,
+    numberedList: /^\d+[.)] /,
+  }
+  const prefix = prefixes[format as 'quote' | 'bulletList' | 'numberedList']
+  const pattern = patterns[format as 'quote' | 'bulletList' | 'numberedList']
+  const allPrefixed = lines.every((line) => pattern.test(line))
+  block = lines.map((line, i) => (allPrefixed ? line.replace(pattern, '') : prefix(i) + line)).join('\n')
+  return {
+    value: head + block + tail,
+    selectionStart: lineStart,
+    selectionEnd: lineStart + block.length,
+  }
+}
+
+/**
+ * Whether the text before the cursor is inside an unclosed ``` fence, where
+ * Enter should add a line instead of sending.
+ */
+export function isInsideCodeFence(text: string, cursor: number): boolean {
+  let open: string | null = null
+  for (const line of text.slice(0, cursor).split('\n')) {
+    if (open) {
+      if (isClosingFence(line, open)) open = null
+    } else {
+      const fence = line.match(FENCE)
+      if (fence) open = fence[1]
+    }
+  }
+  return open !== null
+}
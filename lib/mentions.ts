@@ -0,0 +1,131 @@
+/**
+ * Mentions in message text, shared by the client (autocomplete, highlighting,
+ * live unread badges) and the message API routes.
+ *
+ * Text keeps the readable "@<display name>" form. Who it refers to is
+ * resolved when the message is sent and stored on the message as `mentions`
+ * ({ id, name } as written) plus `mention_broadcast` for @channel / @here,
+ * which only apply in channels. The `conversation_unread_counts` SQL function
+ * counts mentions from the same columns.
+ */
+
+import type { MentionBroadcast, MessageMention } from '@/lib/types'
+
+export const BROADCAST_MENTIONS: MentionBroadcast[] = ['channel', 'here']
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u
+
+// A mention found in text: a profile, or a broadcast when `id` is null
+interface MentionMatch {
+  start: number
+  end: number
+  id: string | null
+  name: string
+}
+
+/**
+ * Every "@<name>" in the content that names one of the candidates (or, when
+ * allowed, @channel / @here). An "@" must start a word and the name must end
+ * one; where names overlap the longest wins, so "@Ann Lee" isn't also "@Ann".
+ */
+function findMentions(
+  content: string,
+  candidates: { id: string; name: string }[],
+  allowBroadcast: boolean
+): MentionMatch[] {
+  const names = [
+    ...candidates.filter((c) => c.name.trim()).map((c) => ({ id: c.id as string | null, name: c.name })),
+    ...(allowBroadcast ? BROADCAST_MENTIONS.map((name) => ({ id: null, name })) : []),
+  ].sort((a, b) => b.name.length - a.name.length)
+
+  const lower = content.toLowerCase()
+  const matches: MentionMatch[] = []
+  let i = lower.indexOf('@')
+  while (i !== -1) {
+    let next = i + 1
+    if (i === 0 || !WORD_CHAR.test(content[i - 1])) {
+      const match = names.find((n) => {
+        const end = i + 1 + n.name.length
+        return lower.startsWith(n.name.toLowerCase(), i + 1) && (end >= content.length || !WORD_CHAR.test(content[end]))
+      })
+      if (match) {
+        next = i + 1 + match.name.length
+        matches.push({ start: i, end: next, id: match.id, name: content.slice(i + 1, next) })
+      }
+    }
+    i = lower.indexOf('@', next)
+  }
+  return matches
+}
+
+/** Candidates the content mentions, once each, with their names as written. */
+export function resolveMentions(
+  content: string,
+  candidates: { id: string; name: string }[]
+): MessageMention[] {
+  const seen = new Set<string>()
+  const mentions: MessageMention[] = []
+  for (const m of findMentions(content, candidates, false)) {
+    if (!m.id || seen.has(m.id)) continue
+    seen.add(m.id)
+    mentions.push({ id: m.id, name: m.name })
+  }
+  return mentions
+}
+
+/** The @channel / @here in the content, if any. */
+export function findBroadcastMention(content: string): MentionBroadcast | null {
+  const match = findMentions(content, [], true)[0]
+  return match ? (match.name.toLowerCase() as MentionBroadcast) : null
+}
+
+/** Whether a stored message mentions the user, directly or by broadcast. */
+export function mentionsUser(
+  message: { mentions?: MessageMention[] | null; mention_broadcast?: MentionBroadcast | null },
+  userId: string | null | undefined
+): boolean {
+  if (message.mention_broadcast) return true
+  if (!userId) return false
+  return (message.mentions ?? []).some((m) => m.id === userId)
+}
+
+export interface MentionSegment {
+  text: string
+  // Set on mention segments; null for @channel / @here
+  mentionId?: string | null
+}
+
+/** Split content into plain text and the message's stored mentions, for highlighting. */
+export function splitMentions(
+  content: string,
+  mentions: MessageMention[],
+  broadcast: MentionBroadcast | null
+): MentionSegment[] {
+  const segments: MentionSegment[] = []
+  let last = 0
+  for (const m of findMentions(content, mentions, broadcast !== null)) {
+    if (m.start > last) segments.push({ text: content.slice(last, m.start) })
+    segments.push({ text: content.slice(m.start, m.end), mentionId: m.id })
+    last = m.end
+  }
+  if (last < content.length) segments.push({ text: content.slice(last) })
+  return segments
+}
+
+/**
+ * The "@query" being typed just before the cursor, for autocomplete: where
+ * its "@" is and the text after it. Names have spaces, so the query may too,
+ * but it can't start or end with one (a finished mention is followed by a
+ * space), nor hold a line break or a second "@".
+ */
+export function activeMentionQuery(
+  text: string,
+  cursor: number
+): { start: number; query: string } | null {
+  const before = text.slice(0, cursor)
+  const at = before.lastIndexOf('@')
+  if (at === -1 || (at > 0 && WORD_CHAR.test(before[at - 1]))) return null
+  const query = before.slice(at + 1)
+  if (/[\n@]/.test(query) || /^\s|\s$/.test(query) || query.length > 40) return null
+  return { start: at, query }
+}
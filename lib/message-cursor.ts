@@ -0,0 +1,44 @@
+/**
+ * Opaque pagination cursors for GET /api/messages.
+ *
+ * A cursor identifies a single message by its (created_at, id) pair so that
+ * keyset pagination stays stable even when several messages share the same
+ * timestamp. Shared by the API route (decoding) and the client (encoding the
+ * newest loaded message when polling for newer pages).
+ */
+
+export interface MessageCursor {
+  createdAt: string
+  id: string
+}
+
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50
+export const MAX_MESSAGE_PAGE_SIZE = 100
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+// Postgres timestamptz as returned by PostgREST; keeps microseconds intact
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}(:?\d{2})?)?$/
+
+export function encodeMessageCursor(message: { created_at: string; id: string }): string {
+  return btoa(JSON.stringify([message.created_at, message.id]))
+}
+
+/** Returns null when the cursor is malformed. */
+export function decodeMessageCursor(cursor: string): MessageCursor | null {
+  try {
+    const parsed = JSON.parse(atob(cursor))
+    if (
+      !Array.isArray(parsed) ||
+      parsed.length !== 2 ||
+      typeof parsed[0] !== 'string' ||
+      typeof parsed[1] !== 'string' ||
+      !TIMESTAMP_PATTERN.test(parsed[0]) ||
+      !UUID_PATTERN.test(parsed[1])
+    ) {
+      return null
+    }
+    return { createdAt: parsed[0], id: parsed[1] }
+  } catch {
+    return null
+  }
+}
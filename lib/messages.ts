@@ -0,0 +1,225 @@
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { groupReactions } from '@/lib/reactions'
+import { findBroadcastMention, resolveMentions } from '@/lib/mentions'
+import type {
+  ApiMessage,
+  ChatSystemEvent,
+  FileAttachment,
+  MentionBroadcast,
+  MessageMention,
+  MessageReaction,
+  MessageSender,
+  MessageUnfurl,
+  ThreadReplyPreview,
+} from '@/lib/types'
+
+/**
+ * Server-side helpers shared by the message API routes.
+ *
+ * Keeps the message select shape and its normalization into `ApiMessage` in one
+ * place so GET /api/messages and the thread endpoints return identical objects.
+ * Uses the service role client - only import from API routes.
+ */
+
+export const MESSAGE_SELECT = `
+  id,
+  content,
+  created_at,
+  parent_message_id,
+  mentions,
+  mention_broadcast,
+  unfurls,
+  system_event,
+  sender:profiles (
+    id,
+    name,
+    avatar_url
+  ),
+  file_attachments (
+    id,
+    name,
+    type,
+    size,
+    storage_path,
+    position
+  )
+`
+
+interface RawAttachment {
+  id: string
+  name: string
+  type: string
+  size: string
+  storage_path: string
+  position: number | null
+}
+
+export interface RawMessageRow {
+  id: string
+  content: string
+  created_at: string
+  parent_message_id: string | null
+  mentions: MessageMention[] | null
+  mention_broadcast: MentionBroadcast | null
+  unfurls: MessageUnfurl[] | null
+  system_event: ChatSystemEvent | null
+  sender: unknown
+  file_attachments: unknown
+}
+
+export interface ThreadSummary {
+  reply_count: number
+  last_reply: ThreadReplyPreview | null
+}
+
+function normalizeSender(raw: unknown): MessageSender | null {
+  // Supabase returns an array for single relations in some cases
+  const sender = (Array.isArray(raw) ? raw[0] : raw) as MessageSender | null | undefined
+  return sender ?? null
+}
+
+/** Per-message data loaded separately from the message row itself. */
+export interface MessageExtras {
+  thread?: ThreadSummary
+  reactions?: MessageReaction[]
+}
+
+/** Convert a row selected with MESSAGE_SELECT into the API message shape. */
+export function normalizeMessage(row: RawMessageRow, extras: MessageExtras = {}): ApiMessage {
+  const attachments = [...((row.file_attachments as RawAttachment[] | null) ?? [])].sort(
+    (a, b) => (a.position ?? 0) - (b.position ?? 0)
+  )
+  return {
+    id: row.id,
+    content: row.content,
+    created_at: row.created_at,
+    sender: normalizeSender(row.sender),
+    file_attachments: attachments.map((a) => ({
+      id: a.id,
+      name: a.name,
+      type: a.type as FileAttachment['type'],
+      size: a.size,
+      storage_path: a.storage_path,
+    })),
+    parent_message_id: row.parent_message_id ?? null,
+    reply_count: extras.thread?.reply_count ?? 0,
+    last_reply: extras.thread?.last_reply ?? null,
+    reactions: extras.reactions ?? [],
+    mentions: row.mentions ?? [],
+    mention_broadcast: row.mention_broadcast ?? null,
+    unfurls: row.unfurls ?? [],
+    system_event: row.system_event ?? null,
+  }
+}
+
+/**
+ * Who a message's text mentions, resolved among the people who can read it:
+ * channel members or chat participants, plus `extraIds` (profiles picked in
+ * the composer) when the channel is public. @channel / @here only count in
+ * channels.
+ */
+export async function resolveMessageMentions(
+  content: string,
+  conversation: { channelId: string | null; chatId: string | null; isPrivate?: boolean },
+  extraIds: string[] = []
+): Promise<{ mentions: MessageMention[]; mention_broadcast: MentionBroadcast | null }> {
+  if (!content.includes('@')) return { mentions: [], mention_broadcast: null }
+
+  const { data: members } = conversation.channelId
+    ? await supabaseAdmin.from('channel_members').select('user_id').eq('channel_id', conversation.channelId)
+    : await supabaseAdmin.from('chat_participants').select('user_id').eq('chat_id', conversation.chatId)
+
+  const candidateIds = new Set((members ?? []).map((m) => m.user_id as string))
+  if (conversation.channelId && !conversation.isPrivate) {
+    for (const id of extraIds) candidateIds.add(id)
+  }
+
+  const { data: profiles } = candidateIds.size
+    ? await supabaseAdmin.from('profiles').select('id, name').in('id', [...candidateIds])
+    : { data: [] }
+
+  return {
+    mentions: resolveMentions(content, profiles ?? []),
+    mention_broadcast: conversation.channelId ? findBroadcastMention(content) : null,
+  }
+}
+
+/**
+ * Reply count and latest reply for each of the given top-level messages.
+ * Messages without replies are absent from the returned map.
+ */
+export async function fetchThreadSummaries(
+  parentIds: string[]
+): Promise<Map<string, ThreadSummary>> {
+  const summaries = new Map<string, ThreadSummary>()
+  if (parentIds.length === 0) return summaries
+
+  const { data, error } = await supabaseAdmin.rpc('thread_summaries', {
+    p_parent_ids: parentIds,
+  })
+
+  if (error) {
+    console.error('Failed to fetch thread summaries:', error)
+    return summaries
+  }
+
+  for (const row of (data ?? []) as {
+    parent_message_id: string
+    reply_count: number
+    last_reply_id: string
+    last_reply_content: string
+    last_reply_created_at: string
+    sender_id: string | null
+    sender_name: string | null
+    sender_avatar_url: string | null
+  }[]) {
+    summaries.set(row.parent_message_id, {
+      reply_count: Number(row.reply_count),
+      last_reply: {
+        id: row.last_reply_id,
+        content: row.last_reply_content,
+        created_at: row.last_reply_created_at,
+        sender: row.sender_id
+          ? { id: row.sender_id, name: row.sender_name ?? '', avatar_url: row.sender_avatar_url }
+          : null,
+      },
+    })
+  }
+
+  return summaries
+}
+
+/**
+ * Grouped reactions for each of the given messages, with `reacted_by_me`
+ * computed for the viewer. Messages without reactions are absent from the map.
+ */
+export async function fetchReactionSummaries(
+  messageIds: string[],
+  viewerId: string | null
+): Promise<Map<string, MessageReaction[]>> {
+  const summaries = new Map<string, MessageReaction[]>()
+  if (messageIds.length === 0) return summaries
+
+  const { data, error } = await supabaseAdmin
+    .from('message_reactions')
+    .select('message_id, user_id, emoji')
+    .in('message_id', messageIds)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Failed to fetch message reactions:', error)
+    return summaries
+  }
+
+  const rowsByMessage = new Map<string, { emoji: string; user_id: string }[]>()
+  for (const row of data ?? []) {
+    const rows = rowsByMessage.get(row.message_id) ?? []
+    rows.push(row)
+    rowsByMessage.set(row.message_id, rows)
+  }
+  for (const [messageId, rows] of rowsByMessage) {
+    summaries.set(messageId, groupReactions(rows, viewerId))
+  }
+
+  return summaries
+}
@@ -0,0 +1,359 @@
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { fetchAllCalendarEventsInRange } from '@/lib/calendar-events'
+import { markdownToPlainText } from '@/lib/markdown'
+import { resolvePresenceStatus } from '@/lib/presence'
+import type { MentionBroadcast, MessageMention, NotificationType, RsvpResponse } from '@/lib/types'
+
+/**
+ * Server-side notification producers, called by the API routes whose writes
+ * notify someone. Delivery is best effort: failures are logged and never
+ * fail the request that caused them. Uses the service role client - only
+ * import from API routes.
+ */
+
+export interface NewNotification {
+  userId: string
+  type: NotificationType
+  actorId?: string | null
+  title: string
+  body?: string | null
+  channelId?: string | null
+  chatId?: string | null
+  messageId?: string | null
+  eventId?: string | null
+  callId?: string | null
+  // A user gets one notification per key, however often it is produced
+  dedupeKey?: string | null
+}
+
+// Message previews in notification bodies
+const PREVIEW_LENGTH = 140
+
+// Reminders up to this late are still sent, so a missed cron run isn't lost
+const REMINDER_GRACE_MINUTES = 5
+
+// The earliest a reminder can be set for: a week, in minutes
+export const MAX_REMINDER_MINUTES = 7 * 24 * 60
+
+const RSVP_VERBS: Record<RsvpResponse, string> = {
+  'needs-action': 'has not answered',
+  accepted: 'accepted',
+  tentative: 'might attend',
+  declined: 'declined',
+}
+
+function preview(content: string): string {
+  const text = markdownToPlainText(content).replace(/\s+/g, ' ').trim()
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text
+}
+
+async function profileName(profileId: string): Promise<string> {
+  const { data } = await supabaseAdmin.from('profiles').select('name').eq('id', profileId).maybeSingle()
+  return data?.name ?? 'Someone'
+}
+
+/** Store notifications, skipping ones addressed to their own actor. */
+export async function createNotifications(notifications: NewNotification[]): Promise<void> {
+  const rows = notifications
+    .filter((n) => n.userId !== n.actorId)
+    .map((n) => ({
+      user_id: n.userId,
+      type: n.type,
+      actor_id: n.actorId ?? null,
+      title: n.title,
+      body: n.body ?? null,
+      channel_id: n.channelId ?? null,
+      chat_id: n.chatId ?? null,
+      message_id: n.messageId ?? null,
+      event_id: n.eventId ?? null,
+      call_id: n.callId ?? null,
+      dedupe_key: n.dedupeKey ?? null,
+    }))
+  if (rows.length === 0) return
+
+  const { error } = await supabaseAdmin
+    .from('notifications')
+    .upsert(rows, { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true })
+
+  if (error) console.error('Failed to create notifications:', error)
+}
+
+interface MemberPresenceRow {
+  user_id: string
+  profile: {
+    status: string | null
+    last_seen_at: string | null
+    manual_status: string | null
+    status_expires_at: string | null
+  } | null
+}
+
+/**
+ * Notify about a new message: the people it mentions (every channel member
+ * for @channel, members who are online for @here), and every other
+ * participant of a chat. Chat notifications collapse to one per chat until
+ * the participant reads it.
+ */
+export async function notifyNewMessage(message: {
+  id: string
+  sender_id: string
+  content: string
+  channel_id: string | null
+  chat_id: string | null
+  mentions: MessageMention[]
+  mention_broadcast: MentionBroadcast | null
+}): Promise<void> {
+  if (message.channel_id && message.mentions.length === 0 && !message.mention_broadcast) return
+
+  const senderName = await profileName(message.sender_id)
+  const body = preview(message.content)
+
+  if (message.channel_id) {
+    const [{ data: channel }, { data: members }] = await Promise.all([
+      supabaseAdmin.from('channels').select('name').eq('id', message.channel_id).maybeSingle(),
+      message.mention_broadcast
+        ? supabaseAdmin
+            .from('channel_members')
+            .select('user_id, profile:profiles (status, last_seen_at, manual_status, status_expires_at)')
+            .eq('channel_id', message.channel_id)
+        : Promise.resolve({ data: [] }),
+    ])
+
+    // @here only reaches members who are online right now
+    const broadcastIds = ((members ?? []) as unknown as MemberPresenceRow[])
+      .filter(
+        (m) =>
+          message.mention_broadcast === 'channel' ||
+          (m.profile !== null && resolvePresenceStatus(m.profile) === 'online')
+      )
+      .map((m) => m.user_id)
+    const mentionedIds = new Set([...message.mentions.map((m) => m.id), ...broadcastIds])
+    await createNotifications(
+      [...mentionedIds].map((userId) => ({
+        userId,
+        type: 'mention',
+        actorId: message.sender_id,
+        title: `${senderName} mentioned you in #${channel?.name ?? 'a channel'}`,
+        body,
+        channelId: message.channel_id,
+        messageId: message.id,
+        // Edits re-run this; people already told about the message aren't told again
+        dedupeKey: `mention:${message.id}`,
+      }))
+    )
+    return
+  }
+
+  if (message.chat_id) {
+    const [{ data: chat }, { data: participants }, { data: markers }] = await Promise.all([
+      supabaseAdmin.from('chats').select('name, is_group').eq('id', message.chat_id).maybeSingle(),
+      supabaseAdmin.from('chat_participants').select('user_id').eq('chat_id', message.chat_id),
+      supabaseAdmin.from('read_markers').select('user_id, last_read_at').eq('chat_id', message.chat_id),
+    ])
+    const lastReadAt = new Map((markers ?? []).map((m) => [m.user_id as string, m.last_read_at as string]))
+
+    const title = chat?.is_group ? `${senderName} in ${chat.name ?? 'a group chat'}` : `Message from ${senderName}`
+    await createNotifications(
+      (participants ?? []).map((p) => ({
+        userId: p.user_id,
+        type: 'direct_message',
+        actorId: message.sender_id,
+        title,
+        body,
+        chatId: message.chat_id,
+        messageId: message.id,
+        // The first message since the participant last read the chat notifies;
+        // the rest wait until they have caught up
+        dedupeKey: `chat:${message.chat_id}:${lastReadAt.get(p.user_id) ?? 'unread'}`,
+      }))
+    )
+  }
+}
+
+/** Tell people they were added to a group chat. */
+export async function notifyAddedToChat(chatId: string, actorId: string, userIds: string[]): Promise<void> {
+  if (userIds.length === 0) return
+
+  const [{ data: chat }, actorName] = await Promise.all([
+    supabaseAdmin.from('chats').select('name').eq('id', chatId).maybeSingle(),
+    profileName(actorId),
+  ])
+
+  await createNotifications(
+    userIds.map((userId) => ({
+      userId,
+      type: 'direct_message',
+      actorId,
+      title: `${actorName} added you to ${chat?.name ?? 'a group chat'}`,
+      chatId,
+    }))
+  )
+}
+
+/** Tell newly invited users about an event. */
+export async function notifyEventInvite(eventId: string, inviterId: string, userIds: string[]): Promise<void> {
+  if (userIds.length === 0) return
+
+  const [{ data: event }, inviterName] = await Promise.all([
+    supabaseAdmin.from('calendar_events').select('title').eq('id', eventId).maybeSingle(),
+    profileName(inviterId),
+  ])
+  if (!event) return
+
+  await createNotifications(
+    userIds.map((userId) => ({
+      userId,
+      type: 'event_invite',
+      actorId: inviterId,
+      title: `${inviterName} invited you to "${event.title}"`,
+      eventId,
+    }))
+  )
+}
+
+/** Tell an event's organizer that an invitee answered. */
+export async function notifyRsvp(
+  eventId: string,
+  responderId: string,
+  response: RsvpResponse,
+  comment: string | null
+): Promise<void> {
+  if (response === 'needs-action') return
+
+  const [{ data: event }, responderName] = await Promise.all([
+    supabaseAdmin.from('calendar_events').select('title, created_by').eq('id', eventId).maybeSingle(),
+    profileName(responderId),
+  ])
+  if (!event?.created_by) return
+
+  await createNotifications([
+    {
+      userId: event.created_by,
+      type: 'event_rsvp',
+      actorId: responderId,
+      title: `${responderName} ${RSVP_VERBS[response]} "${event.title}"`,
+      body: comment,
+      eventId,
+    },
+  ])
+}
+
+/** Ring everyone invited to a call. */
+export async function notifyIncomingCall(
+  callId: string,
+  callerId: string,
+  userIds: string[],
+  title: string | null
+): Promise<void> {
+  const callerName = await profileName(callerId)
+  await createNotifications(
+    userIds.map((userId) => ({
+      userId,
+      type: 'incoming_call',
+      actorId: callerId,
+      title: `${callerName} is calling you`,
+      body: title,
+      callId,
+      dedupeKey: `call:${callId}`,
+    }))
+  )
+}
+
+/** Tell invitees who never answered that they missed the call. */
+export async function notifyMissedCall(
+  callId: string,
+  callerId: string | null,
+  userIds: string[],
+  title: string | null
+): Promise<void> {
+  const callerName = callerId ? await profileName(callerId) : 'Someone'
+  await createNotifications(
+    userIds.map((userId) => ({
+      userId,
+      type: 'missed_call',
+      actorId: callerId,
+      title: `Missed call from ${callerName}`,
+      body: title,
+      callId,
+      dedupeKey: `missed-call:${callId}`,
+    }))
+  )
+}
+
+function formatOffset(minutes: number): string {
+  if (minutes === 0) return 'now'
+  if (minutes % (24 * 60) === 0) return `in ${minutes / (24 * 60)} day${minutes === 24 * 60 ? '' : 's'}`
+  if (minutes % 60 === 0) return `in ${minutes / 60} hour${minutes === 60 ? '' : 's'}`
+  return `in ${minutes} minutes`
+}
+
+/**
+ * Send every reminder that has come due: events (and occurrences) starting
+ * within the longest reminder offset are loaded once, then each participant
+ * who hasn't declined is reminded at each of their offsets. Safe to run
+ * repeatedly; each reminder is sent once. Returns how many reminders were
+ * attempted.
+ */
+export async function sendDueEventReminders(now: Date = new Date()): Promise<number> {
+  const windowStart = new Date(now.getTime() - REMINDER_GRACE_MINUTES * 60 * 1000)
+  const windowEnd = new Date(now.getTime() + (MAX_REMINDER_MINUTES + 1) * 60 * 1000)
+
+  let events
+  try {
+    events = (await fetchAllCalendarEventsInRange(windowStart, windowEnd)).filter(
+      (event) => new Date(event.starts_at) >= windowStart
+    )
+  } catch (error) {
+    console.error('Failed to load upcoming events:', error)
+    return 0
+  }
+  if (events.length === 0) return 0
+
+  // Creators and participants who haven't declined; only they need their
+  // reminder preferences loaded
+  const recipients = events.map((event) => {
+    const userIds = new Set(
+      event.participants.filter((p) => p.response !== 'declined').map((p) => p.id)
+    )
+    const creator = event.participants.find((p) => p.id === event.created_by)
+    if (event.created_by && creator?.response !== 'declined') userIds.add(event.created_by)
+    return { event, userIds }
+  })
+  const { data: profiles, error } = await supabaseAdmin
+    .from('profiles')
+    .select('id, reminder_offsets')
+    .in('id', [...new Set(recipients.flatMap(({ userIds }) => [...userIds]))])
+
+  if (error) {
+    console.error('Failed to load reminder preferences:', error)
+    return 0
+  }
+  const offsetsByProfile = new Map(
+    ((profiles ?? []) as { id: string; reminder_offsets: number[] | null }[]).map((p) => [
+      p.id,
+      p.reminder_offsets ?? [],
+    ])
+  )
+
+  const due: NewNotification[] = []
+  for (const { event, userIds } of recipients) {
+    const startsAt = new Date(event.starts_at).getTime()
+    for (const userId of userIds) {
+      for (const offset of offsetsByProfile.get(userId) ?? []) {
+        const remindAt = startsAt - offset * 60 * 1000
+        if (remindAt > now.getTime() || remindAt < windowStart.getTime()) continue
+        due.push({
+          userId,
+          type: 'event_reminder',
+          title: `"${event.title}" starts ${formatOffset(offset)}`,
+          eventId: event.id,
+          callId: event.call_id,
+          dedupeKey: `reminder:${event.id}:${event.occurrence_date ?? ''}:${offset}`,
+        })
+      }
+    }
+  }
+
+  await createNotifications(due)
+  return due.length
+}
@@ -0,0 +1,65 @@
+import type { PresenceStatus } from '@/lib/types'
+
+/**
+ * Presence rules shared by the API routes and the client presence hook.
+ *
+ * A tab reports "online" while the user is active and "away" after
+ * PRESENCE_IDLE_MS without input. Every tab heartbeats the stored status; a
+ * status whose heartbeat is older than PRESENCE_STALE_MS is read as offline.
+ */
+
+export const PRESENCE_IDLE_MS = 5 * 60 * 1000
+export const PRESENCE_HEARTBEAT_MS = 60 * 1000
+export const PRESENCE_STALE_MS = 3 * PRESENCE_HEARTBEAT_MS
+export const STATUS_MESSAGE_MAX_LENGTH = 100
+
+export const PRESENCE_STATUSES: PresenceStatus[] = ['online', 'away', 'offline']
+
+export function isPresenceStatus(value: unknown): value is PresenceStatus {
+  return typeof value === 'string' && (PRESENCE_STATUSES as string[]).includes(value)
+}
+
+export function isStatusExpired(expiresAt: string | null | undefined, now = Date.now()): boolean {
+  return Boolean(expiresAt) && new Date(expiresAt as string).getTime() <= now
+}
+
+interface StoredPresence {
+  status: string | null
+  last_seen_at: string | null
+  manual_status: string | null
+  status_expires_at: string | null
+}
+
+/**
+ * Status others should see for a stored profile row. A manual status only
+ * applies while the user is connected; once they go offline they show offline.
+ */
+export function resolvePresenceStatus(profile: StoredPresence, now = Date.now()): PresenceStatus {
+  const lastSeen = profile.last_seen_at ? new Date(profile.last_seen_at).getTime() : 0
+  if (profile.status === 'offline' || now - lastSeen > PRESENCE_STALE_MS) return 'offline'
+  if (isPresenceStatus(profile.manual_status) && !isStatusExpired(profile.status_expires_at, now)) {
+    return profile.manual_status
+  }
+  return isPresenceStatus(profile.status) ? profile.status : 'offline'
+}
+
+/** The status message, or null once it has expired */
+export function resolveStatusMessage(
+  profile: { status_message: string | null; status_expires_at: string | null },
+  now = Date.now()
+): string | null {
+  return profile.status_message && !isStatusExpired(profile.status_expires_at, now)
+    ? profile.status_message
+    : null
+}
+
+/** "just now", "5m ago", "3h ago", "2d ago" */
+export function formatLastSeen(lastSeenAt: string | null | undefined, now = Date.now()): string | null {
+  if (!lastSeenAt) return null
+  const minutes = Math.floor((now - new Date(lastSeenAt).getTime()) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+  return `${Math.floor(hours / 24)}d ago`
+}
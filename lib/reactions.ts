@@ -0,0 +1,82 @@
+import type { MessageReaction } from '@/lib/types'
+
+/**
+ * Reaction grouping helpers shared by the API (building the grouped shape from
+ * rows) and the client (applying optimistic and realtime changes).
+ */
+
+// Offered in the reaction picker; any single emoji is accepted by the API
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '🎉', '😮', '😢', '🚀', '👀', '✅', '🔥'] as const
+
+export const MAX_EMOJI_LENGTH = 16
+
+// One emoji: a flag, a keycap, or pictographs with optional skin tones and
+// presentation selectors, joined into a sequence with zero-width joiners
+const EMOJI_PATTERN =
+  /^(?:\p{Regional_Indicator}{2}|[0-9#*]\uFE0F?\u20E3|\p{Extended_Pictographic}\uFE0F?\p{Emoji_Modifier}?(?:\u200D\p{Extended_Pictographic}\uFE0F?\p{Emoji_Modifier}?)*)$/u
+
+export function isValidEmoji(emoji: unknown): emoji is string {
+  return typeof emoji === 'string' && emoji.length <= MAX_EMOJI_LENGTH && EMOJI_PATTERN.test(emoji)
+}
+
+/** Group raw reaction rows by emoji, ordered by first use. */
+export function groupReactions(
+  rows: { emoji: string; user_id: string }[],
+  viewerId: string | null | undefined
+): MessageReaction[] {
+  let reactions: MessageReaction[] = []
+  for (const row of rows) {
+    reactions = addReaction(reactions, row.emoji, row.user_id, viewerId)
+  }
+  return reactions
+}
+
+/** Returns a new list with the user's reaction added; no-op if already present. */
+export function addReaction(
+  reactions: MessageReaction[],
+  emoji: string,
+  userId: string,
+  viewerId: string | null | undefined
+): MessageReaction[] {
+  const existing = reactions.find((r) => r.emoji === emoji)
+  if (existing?.user_ids.includes(userId)) return reactions
+  if (!existing) {
+    return [
+      ...reactions,
+      { emoji, count: 1, user_ids: [userId], reacted_by_me: userId === viewerId },
+    ]
+  }
+  return reactions.map((r) =>
+    r.emoji === emoji
+      ? {
+          ...r,
+          count: r.count + 1,
+          user_ids: [...r.user_ids, userId],
+          reacted_by_me: r.reacted_by_me || userId === viewerId,
+        }
+      : r
+  )
+}
+
+/** Returns a new list with the user's reaction removed; empty groups are dropped. */
+export function removeReaction(
+  reactions: MessageReaction[],
+  emoji: string,
+  userId: string,
+  viewerId: string | null | undefined
+): MessageReaction[] {
+  const existing = reactions.find((r) => r.emoji === emoji)
+  if (!existing?.user_ids.includes(userId)) return reactions
+  return reactions
+    .map((r) =>
+      r.emoji === emoji
+        ? {
+            ...r,
+            count: r.count - 1,
+            user_ids: r.user_ids.filter((id) => id !== userId),
+            reacted_by_me: userId === viewerId ? false : r.reacted_by_me,
+          }
+        : r
+    )
+    .filter((r) => r.count > 0)
+}
@@ -0,0 +1,107 @@
+import { supabaseAdmin } from '@/lib/supabase-server'
+
+/**
+ * Server-side read marker helpers shared by the read marker, channel and chat
+ * API routes. Uses the service role client - only import from API routes.
+ */
+
+export interface UnreadCounts {
+  unreadCount: number
+  mentionCount: number
+}
+
+export type Conversation = { channelId: string; chatId?: undefined } | { chatId: string; channelId?: undefined }
+
+/** Unread and mention counts for every joined channel and chat, keyed by channel/chat ID. */
+export async function fetchUnreadCounts(profileId: string): Promise<Map<string, UnreadCounts>> {
+  const counts = new Map<string, UnreadCounts>()
+
+  const { data, error } = await supabaseAdmin.rpc('conversation_unread_counts', {
+    p_user_id: profileId,
+  })
+
+  if (error) {
+    console.error('Failed to fetch unread counts:', error)
+    return counts
+  }
+
+  for (const row of (data ?? []) as {
+    channel_id: string | null
+    chat_id: string | null
+    unread_count: number
+    mention_count: number
+  }[]) {
+    counts.set((row.channel_id ?? row.chat_id) as string, {
+      unreadCount: Number(row.unread_count),
+      mentionCount: Number(row.mention_count),
+    })
+  }
+  return counts
+}
+
+/**
+ * Move the profile's read marker in a conversation forward to `message`.
+ * Markers never move backwards, so late or out-of-order requests are no-ops.
+ * Returns false when the database write failed.
+ */
+export async function advanceReadMarker(
+  profileId: string,
+  conversation: Conversation,
+  message: { id: string; created_at: string }
+): Promise<boolean> {
+  const column = conversation.channelId ? 'channel_id' : 'chat_id'
+  const conversationId = (conversation.channelId ?? conversation.chatId) as string
+
+  const { data: existing } = await supabaseAdmin
+    .from('read_markers')
+    .select('id, last_read_at')
+    .eq('user_id', profileId)
+    .eq(column, conversationId)
+    .maybeSingle()
+
+  if (existing && new Date(existing.last_read_at).getTime() >= new Date(message.created_at).getTime()) {
+    return true
+  }
+
+  const { error } = existing
+    ? await supabaseAdmin
+        .from('read_markers')
+        .update({
+          last_read_message_id: message.id,
+          last_read_at: message.created_at,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', existing.id)
+    : await supabaseAdmin.from('read_markers').insert({
+        user_id: profileId,
+        [column]: conversationId,
+        last_read_message_id: message.id,
+        last_read_at: message.created_at,
+      })
+
+  if (error) {
+    console.error('Failed to update read marker:', error)
+    return false
+  }
+  return true
+}
+
+/** Mark everything currently in a conversation as read, e.g. right after joining it. */
+export async function markConversationRead(profileId: string, conversation: Conversation): Promise<void> {
+  const column = conversation.channelId ? 'channel_id' : 'chat_id'
+  const conversationId = (conversation.channelId ?? conversation.chatId) as string
+
+  const { data: latest } = await supabaseAdmin
+    .from('messages')
+    .select('id, created_at')
+    .eq(column, conversationId)
+    .is('parent_message_id', null)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (latest) {
+    await advanceReadMarker(profileId, conversation, latest)
+  }
+}
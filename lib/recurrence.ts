@@ -0,0 +1,306 @@
+/**
+ * RFC 5545 RRULE support for calendar events, shared by the calendar API
+ * (expanding occurrences) and the recurrence editor (building rules).
+ *
+ * Supports the subset the calendar offers: FREQ=DAILY|WEEKLY|MONTHLY with
+ * INTERVAL, BYDAY (weekdays for weekly rules, one "nth weekday" like 2TU or
+ * -1FR for monthly rules), BYMONTHDAY (one day, -1 for the last day) and an
+ * end by COUNT or UNTIL. Dates are all-day "YYYY-MM-DD" strings; the event's
+ * start/end times apply to every occurrence.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY'
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU'
+
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  // WEEKLY: days of the week; empty means the start date's weekday
+  byDay: Weekday[]
+  // MONTHLY: day of the month (1-31, -1 = last day)
+  byMonthDay: number | null
+  // MONTHLY: nth weekday of the month (n = 1-4, -1 = last)
+  byNthWeekday: { n: number; weekday: Weekday } | null
+  count: number | null
+  // Last possible occurrence date (inclusive)
+  until: string | null
+}
+
+// Hard stop for pathological rules so expansion always terminates
+const MAX_PERIODS = 5000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Date.getUTCDay() order
+const JS_WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(toUtc(value))
+}
+
+function toUtc(date: string): number {
+  const [y, m, d] = date.split('-').map(Number)
+  return Date.UTC(y, m - 1, d)
+}
+
+function fromUtc(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10)
+}
+
+export function addDays(date: string, days: number): string {
+  return fromUtc(toUtc(date) + days * DAY_MS)
+}
+
+/** Whole days from `from` to `to` (negative when `to` is earlier) */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUtc(to) - toUtc(from)) / DAY_MS)
+}
+
+export function weekdayOf(date: string): Weekday {
+  return JS_WEEKDAYS[new Date(toUtc(date)).getUTCDay()]
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate()
+}
+
+/** Date of the nth (or last, n = -1) weekday in a month, or null if there isn't one */
+function nthWeekdayOfMonth(year: number, monthIndex: number, n: number, weekday: Weekday): string | null {
+  const target = JS_WEEKDAYS.indexOf(weekday)
+  const days = daysInMonth(year, monthIndex)
+  if (n > 0) {
+    const firstDow = new Date(Date.UTC(year, monthIndex, 1)).getUTCDay()
+    const day = 1 + ((target - firstDow + 7) % 7) + (n - 1) * 7
+    return day <= days ? fromUtc(Date.UTC(year, monthIndex, day)) : null
+  }
+  const lastDow = new Date(Date.UTC(year, monthIndex, days)).getUTCDay()
+  const day = days - ((lastDow - target + 7) % 7)
+  return fromUtc(Date.UTC(year, monthIndex, day))
+}
+
+/** Which occurrence of its weekday a date is within its month: 1-4, or -1 for the last */
+export function nthWeekdayOf(date: string): number {
+  const day = Number(date.slice(8, 10))
+  const [y, m] = date.split('-').map(Number)
+  if (day + 7 > daysInMonth(y, m - 1)) return -1
+  return Math.ceil(day / 7)
+}
+
+function parseUntil(value: string): string | null {
+  // UNTIL=20260301 or UNTIL=20260301T235959Z
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value)
+  if (!match) return null
+  const date = `${match[1]}-${match[2]}-${match[3]}`
+  return isDateString(date) ? date : null
+}
+
+/** Parse an RRULE string (with or without the "RRULE:" prefix). Returns null for unsupported rules. */
+export function parseRRule(input: string): RecurrenceRule | null {
+  const body = input.trim().replace(/^RRULE:/i, '')
+  if (!body) return null
+
+  const parts = new Map<string, string>()
+  for (const part of body.split(';')) {
+    if (!part) continue
+    const [key, value] = part.split('=')
+    if (!key || value === undefined) return null
+    parts.set(key.toUpperCase(), value.toUpperCase())
+  }
+
+  const freq = parts.get('FREQ')
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') return null
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: 1,
+    byDay: [],
+    byMonthDay: null,
+    byNthWeekday: null,
+    count: null,
+    until: null,
+  }
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+      case 'WKST':
+        break
+      case 'INTERVAL': {
+        const interval = Number(value)
+        if (!Number.isInteger(interval) || interval < 1 || interval > 999) return null
+        rule.interval = interval
+        break
+      }
+      case 'COUNT': {
+        const count = Number(value)
+        if (!Number.isInteger(count) || count < 1 || count > 9999) return null
+        rule.count = count
+        break
+      }
+      case 'UNTIL': {
+        const until = parseUntil(value)
+        if (!until) return null
+        rule.until = until
+        break
+      }
+      case 'BYDAY': {
+        const days = value.split(',')
+        if (freq === 'WEEKLY') {
+          if (!days.every((d): d is Weekday => (WEEKDAYS as string[]).includes(d))) return null
+          rule.byDay = WEEKDAYS.filter((d) => days.includes(d))
+        } else if (freq === 'MONTHLY') {
+          const match = days.length === 1 ? /^(-1|[1-4])(MO|TU|WE|TH|FR|SA|SU)$/.exec(days[0]) : null
+          if (!match) return null
+          rule.byNthWeekday = { n: Number(match[1]), weekday: match[2] as Weekday }
+        } else {
+          return null
+        }
+        break
+      }
+      case 'BYMONTHDAY': {
+        const day = Number(value)
+        if (freq !== 'MONTHLY' || !Number.isInteger(day) || day === 0 || day < -1 || day > 31) return null
+        rule.byMonthDay = day
+        break
+      }
+      default:
+        return null
+    }
+  }
+
+  if (rule.count && rule.until) return null
+  if (rule.byMonthDay !== null && rule.byNthWeekday) return null
+  return rule
+}
+
+/** Serialize a rule to an RRULE value (without the "RRULE:" prefix) */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.freq === 'WEEKLY' && rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.join(',')}`)
+  if (rule.freq === 'MONTHLY' && rule.byNthWeekday) {
+    parts.push(`BYDAY=${rule.byNthWeekday.n}${rule.byNthWeekday.weekday}`)
+  }
+  if (rule.freq === 'MONTHLY' && rule.byMonthDay !== null) parts.push(`BYMONTHDAY=${rule.byMonthDay}`)
+  if (rule.count) parts.push(`COUNT=${rule.count}`)
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`)
+  return parts.join(';')
+}
+
+/** Candidate dates for the period `index` periods after the one containing `start`, in order */
+function periodDates(rule: RecurrenceRule, start: string, index: number): string[] {
+  const step = index * rule.interval
+  switch (rule.freq) {
+    case 'DAILY':
+      return [addDays(start, step)]
+    case 'WEEKLY': {
+      // Weeks start on Monday (WKST=MO)
+      const weekStart = addDays(start, -WEEKDAYS.indexOf(weekdayOf(start)) + step * 7)
+      const days = rule.byDay.length > 0 ? rule.byDay : [weekdayOf(start)]
+      return days.map((d) => addDays(weekStart, WEEKDAYS.indexOf(d)))
+    }
+    case 'MONTHLY': {
+      const [y, m] = start.split('-').map(Number)
+      const monthIndex = m - 1 + step
+      const year = y + Math.floor(monthIndex / 12)
+      const month = ((monthIndex % 12) + 12) % 12
+      if (rule.byNthWeekday) {
+        const date = nthWeekdayOfMonth(year, month, rule.byNthWeekday.n, rule.byNthWeekday.weekday)
+        return date ? [date] : []
+      }
+      const days = daysInMonth(year, month)
+      const day = rule.byMonthDay === -1 ? days : rule.byMonthDay ?? Number(start.slice(8, 10))
+      // Months without that day (e.g. the 31st) are skipped, as RFC 5545 specifies
+      return day <= days ? [fromUtc(Date.UTC(year, month, day))] : []
+    }
+  }
+}
+
+/**
+ * Occurrence dates of a series starting on `start` that fall within
+ * [rangeStart, rangeEnd]. COUNT is applied from the start of the series, so
+ * occurrences before the range still use it up.
+ */
+export function expandOccurrences(
+  rule: RecurrenceRule,
+  start: string,
+  rangeStart: string,
+  rangeEnd: string
+): string[] {
+  const result: string[] = []
+  const last = rule.until && rule.until < rangeEnd ? rule.until : rangeEnd
+  let seen = 0
+
+  for (let index = 0; index < MAX_PERIODS; index++) {
+    const dates = periodDates(rule, start, index)
+    // Periods are contiguous, so a period starting past the end means we're done
+    if (dates.length > 0 && dates[0] > last) break
+    for (const date of dates) {
+      if (date < start) continue
+      if (date > last) return result
+      seen++
+      if (date >= rangeStart) result.push(date)
+      if (rule.count && seen >= rule.count) return result
+    }
+  }
+  return result
+}
+
+/** Number of occurrences strictly before `date` */
+export function countOccurrencesBefore(rule: RecurrenceRule, start: string, date: string): number {
+  if (date <= start) return 0
+  return expandOccurrences(rule, start, start, addDays(date, -1)).length
+}
+
+/**
+ * The rule for the part of a series before `date`: ends the day before it.
+ * Returns null when no occurrence would remain.
+ */
+export function truncateRule(rule: RecurrenceRule, start: string, date: string): RecurrenceRule | null {
+  const before = countOccurrencesBefore(rule, start, date)
+  if (before === 0) return null
+  return { ...rule, count: null, until: addDays(date, -1) }
+}
+
+/** The rule for a new series split off at `date`, keeping any remaining COUNT */
+export function continueRule(rule: RecurrenceRule, start: string, date: string): RecurrenceRule {
+  if (!rule.count) return rule
+  const remaining = rule.count - countOccurrencesBefore(rule, start, date)
+  return { ...rule, count: Math.max(1, remaining) }
+}
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+}
+
+const ORDINALS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' }
+
+/** Human-readable summary, e.g. "Every 2 weeks on Mon, Wed, 10 times" */
+export function describeRRule(rule: RecurrenceRule): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq]
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`
+
+  if (rule.freq === 'WEEKLY' && rule.byDay.length > 0) {
+    text += ` on ${rule.byDay.map((d) => WEEKDAY_NAMES[d]).join(', ')}`
+  }
+  if (rule.freq === 'MONTHLY' && rule.byNthWeekday) {
+    text += ` on the ${ORDINALS[rule.byNthWeekday.n]} ${WEEKDAY_NAMES[rule.byNthWeekday.weekday]}`
+  }
+  if (rule.freq === 'MONTHLY' && rule.byMonthDay !== null) {
+    text += rule.byMonthDay === -1 ? ' on the last day' : ` on day ${rule.byMonthDay}`
+  }
+  if (rule.count) text += rule.count === 1 ? ', once' : `, ${rule.count} times`
+  if (rule.until) text += ` until ${rule.until}`
+  return text
+}
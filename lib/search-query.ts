@@ -0,0 +1,93 @@
+/**
+ * Parser for the header search box syntax used by GET /api/search.
+ *
+ * Supported filters (values may be quoted, e.g. from:"Sam Chen"):
+ * - from:<name>      messages/files sent by a matching person
+ * - in:<place>       #channel, @person (DM) or a channel/group chat name
+ * - has:file         only messages that carry an attachment
+ * - after:<date>     on or after YYYY-MM-DD
+ * - before:<date>    strictly before YYYY-MM-DD
+ * - on:<date>        during YYYY-MM-DD
+ * Everything else is free text for full-text search.
+ */
+
+export interface ParsedSearchQuery {
+  text: string
+  from: string | null
+  in: string | null
+  hasFile: boolean
+  // Inclusive lower bound, YYYY-MM-DD
+  startDate: string | null
+  // Exclusive upper bound, YYYY-MM-DD
+  endDate: string | null
+}
+
+const FILTER_PATTERN = /(^|\s)(from|in|has|after|before|on):(?:"([^"]*)"|(\S+))/gi
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`))
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    text: '',
+    from: null,
+    in: null,
+    hasFile: false,
+    startDate: null,
+    endDate: null,
+  }
+
+  const text = input.replace(FILTER_PATTERN, (match, lead: string, key: string, quoted?: string, bare?: string) => {
+    const value = (quoted ?? bare ?? '').trim()
+    switch (key.toLowerCase()) {
+      case 'from':
+        if (value) parsed.from = value.replace(/^@/, '')
+        break
+      case 'in':
+        if (value) parsed.in = value
+        break
+      case 'has':
+        // Unknown has: values are kept as free text
+        if (value.toLowerCase() !== 'file') return match
+        parsed.hasFile = true
+        break
+      case 'after':
+        if (!isValidDate(value)) return match
+        parsed.startDate = value
+        break
+      case 'before':
+        if (!isValidDate(value)) return match
+        parsed.endDate = value
+        break
+      case 'on':
+        if (!isValidDate(value)) return match
+        parsed.startDate = value
+        parsed.endDate = addDays(value, 1)
+        break
+    }
+    return lead
+  })
+
+  parsed.text = text.replace(/\s+/g, ' ').trim()
+  return parsed
+}
+
+/** Whether the query has anything to search for. */
+export function isEmptySearchQuery(query: ParsedSearchQuery): boolean {
+  return (
+    !query.text &&
+    !query.from &&
+    !query.in &&
+    !query.hasFile &&
+    !query.startDate &&
+    !query.endDate
+  )
+}
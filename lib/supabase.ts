@@ -1,6 +1,25 @@
 import { createClient } from '@supabase/supabase-js'
 
+// The Clerk instance ClerkProvider puts on window
+declare global {
+  interface Window {
+    Clerk?: {
+      session?: {
+        getToken: () => Promise<string | null>
+      } | null
+    }
+  }
+}
+
+/**
+ * Browser Supabase client, used for Realtime. Requests carry the signed-in
+ * user's Clerk session token (Clerk is a third-party auth provider for the
+ * Supabase project), so row level security applies to them as that user.
+ */
 export const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_DEFAULT_KEY!
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_DEFAULT_KEY!,
+  {
+    accessToken: async () => (await window.Clerk?.session?.getToken()) ?? null,
+  }
 )
@@ -0,0 +1,385 @@
+/**
+ * Lightweight syntax highlighting for fenced code blocks in messages.
+ *
+ * Each language is a list of sticky regular expressions tried in order at the
+ * current position; the first that matches produces a token, and anything
+ * else is plain text. That is far from a real parser, but it colours
+ * comments, strings, keywords and numbers correctly for the snippets people
+ * paste in chat. Tokens are plain text - the renderer wraps them in spans -
+ * so highlighting never produces markup from message content.
+ */
+
+export type TokenType =
+  | 'plain'
+  | 'comment'
+  | 'string'
+  | 'number'
+  | 'keyword'
+  | 'literal'
+  | 'type'
+  | 'function'
+  | 'property'
+  | 'tag'
+  | 'attribute'
+  | 'variable'
+  | 'meta'
+  | 'inserted'
+  | 'deleted'
+
+export interface Token {
+  type: TokenType
+  text: string
+}
+
+type Grammar = [TokenType, RegExp][]
+
+// Highlighting is skipped for very long blocks to keep rendering cheap
+const MAX_HIGHLIGHT_LENGTH = 20000
+
+function words(list: string): RegExp {
+  return new RegExp(`\\b(?:${list.trim().split(/\s+/).join('|')})\\b`, 'y')
+}
+
+const C_COMMENTS: Grammar = [
+  ['comment', /\/\/.*/y],
+  ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y],
+]
+const QUOTED_STRINGS: Grammar = [
+  ['string', /"(?:[^"\\\n]|\\.)*"?/y],
+  ['string', /'(?:[^'\\\n]|\\.)*'?/y],
+]
+const NUMBER: Grammar = [['number', /\b(?:0[xX][\da-fA-F_]+|0[bB][01_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)[a-zA-Z]*\b/y]]
+const CALL: Grammar = [['function', /[A-Za-z_$][\w$]*(?=\s*\()/y]]
+const TYPE_NAME: Grammar = [['type', /\b[A-Z][\w$]*\b/y]]
+const LITERALS = 'true false null'
+
+function cLike(keywords: string, extra: Grammar = [], literals = LITERALS): Grammar {
+  return [
+    ...C_COMMENTS,
+    ...extra,
+    ...QUOTED_STRINGS,
+    ['literal', words(literals)],
+    ['keyword', words(keywords)],
+    ...NUMBER,
+    ...CALL,
+    ...TYPE_NAME,
+  ]
+}
+
+const JAVASCRIPT = cLike(
+  `as async await break case catch class const continue debugger default delete do else enum export
+   extends finally for from function get if implements import in instanceof interface let new of
+   private protected public readonly return satisfies set static super switch this throw try type
+   typeof var void while with yield keyof declare namespace abstract`,
+  [['string', /`(?:[^`\\]|\\[\s\S])*`?/y]],
+  'true false null undefined NaN Infinity'
+)
+
+const PYTHON: Grammar = [
+  ['comment', /#.*/y],
+  ['string', /[rRbBfFuU]{0,2}"""[\s\S]*?(?:"""|$)/y],
+  ['string', /[rRbBfFuU]{0,2}'''[\s\S]*?(?:'''|$)/y],
+  ['string', /[rRbBfFuU]{0,2}"(?:[^"\\\n]|\\.)*"?/y],
+  ['string', /[rRbBfFuU]{0,2}'(?:[^'\\\n]|\\.)*'?/y],
+  ['meta', /@[\w.]+/y],
+  ['literal', words('True False None')],
+  [
+    'keyword',
+    words(`and as assert async await break class continue def del elif else except finally for from
+      global if import in is lambda match case nonlocal not or pass raise return try while with yield self`),
+  ],
+  ...NUMBER,
+  ...CALL,
+  ...TYPE_NAME,
+]
+
+const GO = cLike(
+  `break case chan const continue default defer else fallthrough for func go goto if import interface
+   map package range return select struct switch type var`,
+  [['string', /`[^`]*`?/y]],
+  'true false nil iota'
+)
+
+const RUST = cLike(
+  `as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod
+   move mut pub ref return self Self static struct super trait type unsafe use where while`,
+  [['meta', /#!?\[[^\]\n]*\]/y], ['function', /\b[a-z_][\w]*!/y]],
+  'true false None Some Ok Err'
+)
+
+const JAVA = cLike(
+  `abstract assert break case catch class const continue default do else enum extends final finally
+   for goto if implements import instanceof interface native new package private protected public
+   return static super switch synchronized this throw throws transient try var void volatile while
+   record sealed permits yield`,
+  [['meta', /@\w+/y]]
+)
+
+const KOTLIN = cLike(
+  `as break class continue do else false for fun if in interface is null object package return super
+   this throw true try typealias typeof val var when while by companion data enum open override private
+   protected public sealed suspend internal lateinit`,
+  [['meta', /@\w+/y]]
+)
+
+const SWIFT = cLike(
+  `associatedtype class deinit enum extension func import init inout let operator protocol struct
+   subscript typealias var break case continue default defer do else fallthrough for guard if in
+   repeat return switch where while as catch is rethrows throw throws try async await self Self
+   private public internal fileprivate open static override mutating`,
+  [['meta', /@\w+/y]],
+  'true false nil'
+)
+
+const C = cLike(
+  `auto break case char const continue default do double else enum extern float for goto if inline int
+   long register restrict return short signed sizeof static struct switch typedef union unsigned void
+   volatile while bool class namespace template typename public private protected virtual override
+   new delete using this throw try catch nullptr constexpr`,
+  [['meta', /#\s*\w+.*/y]],
+  'true false NULL nullptr'
+)
+
+const CSHARP = cLike(
+  `abstract as base bool break byte case catch char checked class const continue decimal default
+   delegate do double else enum event explicit extern finally fixed float for foreach goto if implicit
+   in int interface internal is lock long namespace new object operator out override params private
+   protected public readonly ref return sbyte sealed short sizeof stackalloc static string struct
+   switch this throw try typeof uint ulong unchecked unsafe ushort using var virtual void volatile while
+   async await record init`,
+  [['meta', /\[\w+(?:\([^)\n]*\))?\]/y]]
+)
+
+const PHP = cLike(
+  `abstract and array as break callable case catch class clone const continue declare default do echo
+   else elseif empty enddeclare endfor endforeach endif endswitch endwhile extends final finally fn
+   for foreach function global if implements include include_once instanceof insteadof interface isset
+   list match namespace new or print private protected public readonly require require_once return
+   static switch throw trait try unset use var while yield`,
+  [['comment', /#.*/y], ['variable', /\$\w+/y], ['meta', /<\?php|\?>/y]]
+)
+
+const RUBY: Grammar = [
+  ['comment', /#.*/y],
+  ...QUOTED_STRINGS,
+  ['string', /:\w+/y],
+  ['variable', /@{1,2}\w+|\$\w+/y],
+  ['literal', words('true false nil')],
+  [
+    'keyword',
+    words(`alias and begin break case class def defined do else elsif end ensure for if in module next not
+      or redo rescue retry return self super then undef unless until when while yield require attr_reader
+      attr_accessor`),
+  ],
+  ...NUMBER,
+  ...TYPE_NAME,
+]
+
+const SHELL: Grammar = [
+  ['comment', /#.*/y],
+  ['string', /"(?:[^"\\]|\\[\s\S])*"?/y],
+  ['string', /'[^']*'?/y],
+  ['variable', /\$(?:\{[^}\n]*\}|\w+|[@#?$!*-])/y],
+  [
+    'keyword',
+    words(`if then else elif fi for in do done while until case esac function return local export
+      readonly declare unset shift source alias sudo`),
+  ],
+  ['function', /^\s*[\w./-]+/my],
+  ['property', / --?[A-Za-z][\w-]*/y],
+  ...NUMBER,
+]
+
+const SQL: Grammar = [
+  ['comment', /--.*/y],
+  ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y],
+  ['string', /'(?:[^']|'')*'?/y],
+  ['property', /"(?:[^"]|"")*"?/y],
+  ['literal', /\b(?:true|false|null)\b/iy],
+  [
+    'keyword',
+    new RegExp(
+      `\\b(?:${`select from where and or not insert into values update set delete create alter drop table
+        index view function trigger returns return begin end if exists join left right inner outer full
+        cross on as group by order having limit offset union all distinct case when then else is in
+        like ilike between primary key foreign references default unique check constraint cascade
+        grant revoke with recursive language declare replace desc asc using returning coalesce count
+        sum avg min max over partition row_number policy enable security definer`
+        .trim()
+        .split(/\s+/)
+        .join('|')})\\b`,
+      'iy'
+    ),
+  ],
+  ['type', /\b(?:int|integer|bigint|smallint|serial|bigserial|text|varchar|char|boolean|bool|uuid|jsonb?|timestamptz|timestamp|date|time|interval|numeric|decimal|real|float|double|bytea)\b/iy],
+  ...NUMBER,
+  ...CALL,
+]
+
+const JSON_GRAMMAR: Grammar = [
+  ['property', /"(?:[^"\\\n]|\\.)*"(?=\s*:)/y],
+  ['string', /"(?:[^"\\\n]|\\.)*"?/y],
+  ['literal', words('true false null')],
+  ['number', /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y],
+  ['comment', /\/\/.*/y],
+]
+
+const YAML: Grammar = [
+  ['comment', /#.*/y],
+  ['meta', /^---$|^\.\.\.$/my],
+  ['property', /[\w.-]+(?=\s*:(?:\s|$))/y],
+  ...QUOTED_STRINGS,
+  ['literal', /\b(?:true|false|null|yes|no|on|off)\b/iy],
+  ['variable', /[&*][\w-]+/y],
+  ...NUMBER,
+]
+
+const CSS: Grammar = [
+  ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y],
+  ...QUOTED_STRINGS,
+  ['meta', /@[\w-]+/y],
+  ['property', /[\w-]+(?=\s*:[^:{}]*[;}\n])/y],
+  ['number', /#[\da-fA-F]{3,8}\b/y],
+  ['number', /-?\d*\.?\d+(?:px|em|rem|vh|vw|%|s|ms|deg|fr)?/y],
+  ['keyword', /!important\b/y],
+  ['function', /[\w-]+(?=\()/y],
+  ['tag', /[.#]?[\w-]+(?=[^{};]*\{)/y],
+]
+
+const MARKUP: Grammar = [
+  ['comment', /<!--[\s\S]*?(?:-->|$)/y],
+  ['meta', /<![^>]*>?/y],
+  ['tag', /<\/?[\w:-]+/y],
+  ['tag', /\/?>/y],
+  ['attribute', /[\w:-]+(?==)/y],
+  ['string', /"[^"]*"?|'[^']*'?/y],
+]
+
+const DIFF: Grammar = [
+  ['meta', /^(?:@@.*|diff .*|index .*|\+\+\+ .*|--- .*)$/my],
+  ['inserted', /^\+.*$/my],
+  ['deleted', /^-.*$/my],
+]
+
+const DOCKERFILE: Grammar = [
+  ['comment', /#.*/y],
+  ['keyword', /^\s*(?:FROM|RUN|CMD|LABEL|EXPOSE|ENV|ADD|COPY|ENTRYPOINT|VOLUME|USER|WORKDIR|ARG|ONBUILD|STOPSIGNAL|HEALTHCHECK|SHELL|AS)\b/imy],
+  ...QUOTED_STRINGS,
+  ['variable', /\$(?:\{[^}\n]*\}|\w+)/y],
+  ...NUMBER,
+]
+
+const GRAMMARS: Record<string, Grammar> = {
+  javascript: JAVASCRIPT,
+  python: PYTHON,
+  go: GO,
+  rust: RUST,
+  java: JAVA,
+  kotlin: KOTLIN,
+  swift: SWIFT,
+  c: C,
+  csharp: CSHARP,
+  php: PHP,
+  ruby: RUBY,
+  shell: SHELL,
+  sql: SQL,
+  json: JSON_GRAMMAR,
+  yaml: YAML,
+  css: CSS,
+  markup: MARKUP,
+  diff: DIFF,
+  dockerfile: DOCKERFILE,
+}
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'javascript',
+  tsx: 'javascript',
+  typescript: 'javascript',
+  py: 'python',
+  golang: 'go',
+  rs: 'rust',
+  kt: 'kotlin',
+  kts: 'kotlin',
+  h: 'c',
+  cpp: 'c',
+  'c++': 'c',
+  cc: 'c',
+  hpp: 'c',
+  objc: 'c',
+  cs: 'csharp',
+  'c#': 'csharp',
+  rb: 'ruby',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  console: 'shell',
+  shellscript: 'shell',
+  psql: 'sql',
+  postgres: 'sql',
+  postgresql: 'sql',
+  mysql: 'sql',
+  jsonc: 'json',
+  json5: 'json',
+  yml: 'yaml',
+  scss: 'css',
+  less: 'css',
+  html: 'markup',
+  xml: 'markup',
+  svg: 'markup',
+  vue: 'markup',
+  patch: 'diff',
+  docker: 'dockerfile',
+}
+
+/** The grammar name for a fence's language tag, or null if it isn't supported. */
+export function resolveLanguage(lang: string | null | undefined): string | null {
+  if (!lang) return null
+  const key = lang.toLowerCase()
+  if (GRAMMARS[key]) return key
+  return ALIASES[key] ?? null
+}
+
+/**
+ * Split code into highlighted tokens. Unknown languages (and oversized
+ * blocks) come back as a single plain token.
+ */
+export function highlightCode(code: string, lang: string | null | undefined): Token[] {
+  const language = resolveLanguage(lang)
+  if (!language || code.length > MAX_HIGHLIGHT_LENGTH) return [{ type: 'plain', text: code }]
+  const grammar = GRAMMARS[language]
+
+  const tokens: Token[] = []
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1]
+    if (last && last.type === type) {
+      last.text += text
+    } else {
+      tokens.push({ type, text })
+    }
+  }
+
+  let pos = 0
+  outer: while (pos < code.length) {
+    for (const [type, pattern] of grammar) {
+      pattern.lastIndex = pos
+      const match = pattern.exec(code)
+      if (match && match[0].length > 0) {
+        push(type, match[0])
+        pos += match[0].length
+        continue outer
+      }
+    }
+    // Consume identifiers whole so keywords aren't matched inside them
+    const word = /[\w$]+|[^\w$]/y
+    word.lastIndex = pos
+    const text = word.exec(code)![0]
+    push('plain', text)
+    pos += text.length
+  }
+
+  return tokens
+}
@@ -0,0 +1,180 @@
+/**
+ * IANA time zone helpers built on Intl, shared by the calendar API and views.
+ *
+ * Calendar events keep their wall-clock date and times in the event's own
+ * zone; these helpers turn that into instants and back into any viewer's
+ * zone, following each zone's DST rules.
+ */
+
+export const DEFAULT_TIME_ZONE = 'UTC'
+
+const MINUTE_MS = 60 * 1000
+
+// Fallback for runtimes without Intl.supportedValuesOf
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Paris',
+  'Europe/Kyiv',
+  'Africa/Lagos',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+]
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+    formatterCache.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+/** HH:mm or HH:mm:ss */
+export function isTimeString(value: unknown): value is string {
+  return typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(value)
+}
+
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false
+  try {
+    partsFormatter(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** The zone names offered in pickers */
+export function listTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] }
+  const zones = intl.supportedValuesOf?.('timeZone') ?? COMMON_TIME_ZONES
+  return zones.includes('UTC') ? zones : ['UTC', ...zones]
+}
+
+/** The browser's zone, or UTC when it can't be determined */
+export function getBrowserTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE
+  } catch {
+    return DEFAULT_TIME_ZONE
+  }
+}
+
+export interface ZonedParts {
+  // YYYY-MM-DD
+  date: string
+  // HH:mm
+  time: string
+  // Minutes since local midnight
+  minutes: number
+}
+
+/** Wall-clock date and time of an instant in a zone */
+export function toZonedParts(instant: Date | string | number, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {}
+  for (const part of partsFormatter(timeZone).formatToParts(new Date(instant))) {
+    parts[part.type] = part.value
+  }
+  const hour = Number(parts.hour) % 24
+  const minute = Number(parts.minute)
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${String(hour).padStart(2, '0')}:${parts.minute}`,
+    minutes: hour * 60 + minute,
+  }
+}
+
+/** Offset of the zone from UTC at an instant, in minutes (east positive) */
+export function getTimeZoneOffset(instant: Date | number, timeZone: string): number {
+  const ms = new Date(instant).getTime()
+  const parts: Record<string, string> = {}
+  for (const part of partsFormatter(timeZone).formatToParts(ms)) {
+    parts[part.type] = part.value
+  }
+  const asUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour) % 24,
+    Number(parts.minute),
+    Number(parts.second)
+  )
+  return Math.round((asUtc - Math.floor(ms / 1000) * 1000) / MINUTE_MS)
+}
+
+/**
+ * The instant a wall-clock date and time (HH:mm[:ss]) occurs in a zone.
+ * Clock times skipped by a DST jump land after it.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [y, mo, d] = date.split('-').map(Number)
+  const [h, mi] = time.split(':').map(Number)
+  const asUtc = Date.UTC(y, mo - 1, d, h, mi)
+  // Guess with the offset at the UTC reading, then correct once for DST edges
+  const offset = getTimeZoneOffset(asUtc, timeZone)
+  const guess = asUtc - offset * MINUTE_MS
+  const corrected = getTimeZoneOffset(guess, timeZone)
+  if (corrected === offset) return new Date(guess)
+
+  const retry = asUtc - corrected * MINUTE_MS
+  if (getTimeZoneOffset(retry, timeZone) === corrected) return new Date(retry)
+  // Neither offset gives back the clock time, so it is in a DST gap
+  return new Date(Math.max(guess, retry))
+}
+
+/**
+ * Start and end instants of an event held as a local date, start and end time
+ * in its zone. An end time at or before the start time ends the next day.
+ */
+export function eventInstants(
+  date: string,
+  startTime: string,
+  endTime: string,
+  timeZone: string
+): { starts_at: string; ends_at: string } {
+  const start = zonedTimeToUtc(date, startTime, timeZone)
+  const crossesMidnight = endTime.slice(0, 5) <= startTime.slice(0, 5)
+  const endDate = crossesMidnight ? nextDate(date) : date
+  const end = zonedTimeToUtc(endDate, endTime, timeZone)
+  return { starts_at: start.toISOString(), ends_at: end.toISOString() }
+}
+
+function nextDate(date: string): string {
+  const [y, m, d] = date.split('-').map(Number)
+  return new Date(Date.UTC(y, m - 1, d + 1)).toISOString().slice(0, 10)
+}
+
+/** Short zone label such as "CET" or "GMT-5" at an instant */
+export function formatTimeZoneAbbreviation(timeZone: string, instant: Date | number = Date.now()): string {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(new Date(instant))
+    .find((p) => p.type === 'timeZoneName')
+  return part?.value ?? timeZone
+}
+
+/** "Europe/Berlin" -> "Berlin", "America/Argentina/Buenos_Aires" -> "Buenos Aires" */
+export function formatTimeZoneCity(timeZone: string): string {
+  return (timeZone.split('/').pop() ?? timeZone).replace(/_/g, ' ')
+}
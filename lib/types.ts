@@ -7,24 +7,118 @@ export interface FileAttachment {
   storage_path: string
 }
 
+// Message author as embedded in API message shapes
+export interface MessageSender {
+  id: string
+  name: string
+  avatar_url: string | null
+}
+
+// Preview of the most recent reply, shown under a thread's parent message
+export interface ThreadReplyPreview {
+  id: string
+  content: string
+  created_at: string
+  sender: MessageSender | null
+}
+
+// Reactions on a message grouped by emoji
+export interface MessageReaction {
+  emoji: string
+  count: number
+  user_ids: string[]
+  reacted_by_me: boolean
+}
+
+// A profile @mentioned in a message, with the name as it was written
+export interface MessageMention {
+  id: string
+  name: string
+}
+
+// @channel / @here in a channel message
+export type MentionBroadcast = 'channel' | 'here'
+
+// Preview of a link in a message, from its OpenGraph / oEmbed metadata.
+// Also the response of GET /api/unfurl.
+export interface MessageUnfurl {
+  // The link as written in the message
+  url: string
+  title: string | null
+  description: string | null
+  site_name: string | null
+  image_url: string | null
+}
+
+// A group chat membership change, recorded as a system message
+export type ChatSystemEventType = 'created' | 'renamed' | 'added' | 'removed' | 'left'
+
+export interface ChatSystemEvent {
+  type: ChatSystemEventType
+  // The people added or removed ('created' lists everyone invited)
+  user_ids?: string[]
+  // The new name ('created' and 'renamed')
+  name?: string
+}
+
 // API message shape from GET /api/messages
 export interface ApiMessage {
   id: string
   content: string
   created_at: string
-  sender: {
-    id: string
-    name: string
-    avatar_url: string | null
-  } | null
-  file_attachment: FileAttachment | null
+  sender: MessageSender | null
+  // In the order they were attached
+  file_attachments: FileAttachment[]
+  // Set on thread replies; null for top-level messages
+  parent_message_id: string | null
+  // Thread summary; always 0/null for replies
+  reply_count: number
+  last_reply: ThreadReplyPreview | null
+  reactions: MessageReaction[]
+  mentions: MessageMention[]
+  mention_broadcast: MentionBroadcast | null
+  // Link previews, filled in shortly after the message is sent
+  unfurls: MessageUnfurl[]
+  // Set on system messages, which the sender didn't write
+  system_event: ChatSystemEvent | null
+  // Client-only: optimistic copy shown while the send request is in flight
+  pending?: boolean
+}
+
+// Paginated response from GET /api/messages. Messages are always ordered
+// oldest-first; nextCursor continues in the direction that was requested
+// (older for `before`/no cursor, newer for `after`) and is null at the end.
+export interface ApiMessagePage {
+  messages: ApiMessage[]
+  nextCursor: string | null
 }
 
+// Response from GET /api/messages/[id]/replies (replies ordered oldest-first)
+export interface ApiThread {
+  parent: ApiMessage
+  replies: ApiMessage[]
+}
+
+// An invitee's answer to an event (RFC 5545 PARTSTAT)
+export type RsvpResponse = 'needs-action' | 'accepted' | 'tentative' | 'declined'
+
 // Calendar event participant (from API response)
 export interface CalendarEventParticipant {
   id: string
   name: string
   avatar_url: string | null
+  response: RsvpResponse
+  response_comment: string | null
+  responded_at: string | null
+  // Whether attendance is optional
+  optional: boolean
+}
+
+// Input for PATCH /api/calendar/events/[id]/rsvp
+export interface RsvpInput {
+  response: RsvpResponse
+  // Note to the organizer; null clears it, omitted keeps it
+  comment?: string | null
 }
 
 // API calendar event shape from GET /api/calendar/events and GET /api/calendar/events/[id]
@@ -32,17 +126,60 @@ export interface CalendarEvent {
   id: string
   title: string
   description: string | null
+  // Wall-clock date and times in time_zone; an end_time at or before
+  // start_time ends the next day
   event_date: string
   start_time: string
   end_time: string
+  // IANA zone the event was scheduled in
+  time_zone: string
+  // Start and end instants (ISO 8601, UTC)
+  starts_at: string
+  ends_at: string
   color: string | null
   created_by: string | null
   created_at: string
   participants: CalendarEventParticipant[]
   call_id: string | null
-  call?: Call
+  call: Pick<Call, 'id' | 'daily_room_url' | 'status'> | null
+  // RFC 5545 RRULE of a series (null for single events and overrides)
+  recurrence_rule: string | null
+  // Series this event belongs to: its own ID for a series, the parent's for an override
+  series_id: string | null
+  // Original date of this occurrence within its series; null for single events
+  // and for a series fetched by ID
+  occurrence_date: string | null
+}
+
+// A span of time someone is busy (ISO 8601 instants)
+export interface BusyBlock {
+  start: string
+  end: string
+}
+
+// One person's entry in GET /api/calendar/freebusy
+export interface FreeBusyEntry {
+  user_id: string
+  // Their preferred zone, which their working hours are in
+  time_zone: string
+  busy: BusyBlock[]
+}
+
+// A candidate slot from GET /api/calendar/suggest-times
+export interface SuggestedTime {
+  start: string
+  end: string
+  // Free and within working hours
+  available_ids: string[]
+  // Free but outside their working hours
+  outside_hours_ids: string[]
+  // Already have something scheduled
+  busy_ids: string[]
 }
 
+// Which occurrences of a recurring event an edit or delete applies to
+export type RecurrenceScope = 'this' | 'following' | 'all'
+
 // Input for POST /api/calendar/events
 export interface CreateCalendarEventInput {
   title: string
@@ -52,7 +189,12 @@ export interface CreateCalendarEventInput {
   endTime: string
   color?: string
   participantIds?: string[]
+  // Participants whose attendance is optional (a subset of participantIds)
+  optionalParticipantIds?: string[]
   attachCall?: boolean
+  recurrenceRule?: string | null
+  // IANA zone of eventDate/startTime/endTime; defaults to the creator's preferred zone
+  timeZone?: string
 }
 
 // Response from POST /api/calendar/events
@@ -72,8 +214,17 @@ export interface UpdateCalendarEventInput {
   endTime?: string
   color?: string
   participantIds?: string[]
+  optionalParticipantIds?: string[]
+  recurrenceRule?: string | null
+  timeZone?: string
+  // For a recurring series: which occurrences to change, starting at occurrenceDate
+  scope?: RecurrenceScope
+  occurrenceDate?: string
 }
 
+// Where an invitee's ringing stands; null for people who weren't rung
+export type CallRingStatus = 'ringing' | 'accepted' | 'declined' | 'missed'
+
 // Call participant (from call_participants table)
 export interface CallParticipant {
   id: string
@@ -108,6 +259,44 @@ export interface Call {
   }
 }
 
+// Cloud recording of a call (from call_recordings table). 'recording' while
+// Daily is still recording or processing it; playable once 'ready'.
+export interface CallRecording {
+  id: string
+  call_id: string
+  status: 'recording' | 'ready' | 'error'
+  started_at: string
+  duration_seconds: number | null
+  error: string | null
+}
+
+// Response from GET /api/calls/[id]/recordings/[recordingId]
+export interface CallRecordingLink {
+  url: string
+  expires_at: string
+}
+
+// A call ringing the current user, from GET /api/calls/incoming
+export interface IncomingCall {
+  call_id: string
+  title: string | null
+  caller: MessageSender | null
+  started_at: string
+  // How much longer it rings, by the server's clock; it is missed after that
+  ring_remaining_ms: number
+}
+
+// Someone rung when the call started, from GET /api/calls/[id]/invites
+export interface CallInvitee {
+  user: MessageSender
+  ring_status: CallRingStatus
+}
+
+// Body of POST /api/calls/[id]/answer
+export interface AnswerCallInput {
+  response: Extract<CallRingStatus, 'accepted' | 'declined'>
+}
+
 // Input for POST /api/calls
 export interface CreateCallInput {
   title?: string
@@ -122,3 +311,203 @@ export interface CreateCallResponse {
   roomUrl: string
   token: string
 }
+
+// Where a search hit lives, for navigating to it
+export interface SearchLocation {
+  channel_id: string | null
+  chat_id: string | null
+  // Channel name or chat display name
+  name: string
+}
+
+// Message hit from GET /api/search. For thread replies, anchor_* point at the
+// thread parent, which is what the message list scrolls to.
+export interface MessageSearchResult {
+  id: string
+  content: string
+  created_at: string
+  sender: MessageSender | null
+  parent_message_id: string | null
+  anchor_id: string
+  anchor_created_at: string
+  location: SearchLocation
+}
+
+// File attachment hit from GET /api/search
+export interface FileSearchResult {
+  id: string
+  name: string
+  type: FileAttachment['type']
+  size: string
+  message_id: string
+  created_at: string
+  sender: MessageSender | null
+  parent_message_id: string | null
+  anchor_id: string
+  anchor_created_at: string
+  location: SearchLocation
+}
+
+// Calendar event hit from GET /api/search
+export interface EventSearchResult {
+  id: string
+  title: string
+  event_date: string
+  start_time: string
+  end_time: string
+}
+
+// Message that mentions the caller, from GET /api/mentions
+export interface MentionedMessage extends MessageSearchResult {
+  mentions: MessageMention[]
+  mention_broadcast: MentionBroadcast | null
+}
+
+// Response from GET /api/mentions, newest first
+export interface ApiMentionPage {
+  messages: MentionedMessage[]
+  nextCursor: string | null
+}
+
+// Response from GET /api/search, grouped by kind
+export interface SearchResults {
+  messages: MessageSearchResult[]
+  files: FileSearchResult[]
+  events: EventSearchResult[]
+}
+
+// A message to scroll to when opening a channel or chat (e.g. from search).
+// Replies are shown by opening their thread on the parent (the anchor).
+export interface MessageFocus {
+  messageId: string
+  anchorId: string
+  anchorCreatedAt: string
+  parentMessageId: string | null
+}
+
+// Membership role in a channel; owners can rename, archive and delete it
+export type ChannelRole = 'owner' | 'member'
+
+// Channel as returned by GET /api/channels
+export interface ApiChannel {
+  id: string
+  name: string
+  description: string | null
+  isPrivate: boolean
+  isArchived: boolean
+  // Caller's role, null when not a member
+  role: ChannelRole | null
+  memberCount: number
+  unreadCount: number
+  mentionCount: number
+}
+
+// Channel member as returned by GET /api/channels/[id]/members
+export interface ChannelMember {
+  id: string
+  name: string
+  avatar_url: string | null
+  role: ChannelRole
+}
+
+// Another participant's read position in a chat, for "Seen by" receipts
+export interface ReadReceipt {
+  user_id: string
+  last_read_message_id: string | null
+  last_read_at: string
+}
+
+// Response from GET /api/read-markers
+export interface ReadMarkerState {
+  // The caller's own read position, null when they have never read the conversation
+  lastReadMessageId: string | null
+  lastReadAt: string | null
+  // Other participants' positions; chats only
+  receipts: ReadReceipt[]
+}
+
+export type PresenceStatus = 'online' | 'away' | 'offline'
+
+// Profile as returned by GET /api/profiles, with the status others see
+export interface ProfileSummary {
+  id: string
+  name: string
+  avatar_url: string | null
+  status: PresenceStatus
+  status_message: string | null
+  last_seen_at: string | null
+}
+
+// Response from GET /api/me. manual_status and status_message are null once
+// status_expires_at has passed.
+export interface CurrentUserProfile extends ProfileSummary {
+  manual_status: PresenceStatus | null
+  status_expires_at: string | null
+  time_zone: string | null
+  secondary_time_zone: string | null
+  // Minutes before events to send reminders
+  reminder_offsets: number[]
+}
+
+// Body of PATCH /api/me/preferences; calendar zones stored on the profile
+export interface TimeZonePreferences {
+  // Zone the calendar is shown in; null follows the browser
+  timeZone: string | null
+  // Extra zone shown in the calendar's time gutter
+  secondaryTimeZone: string | null
+}
+
+// Body of PATCH /api/me; a null manual status clears it
+export interface ManualStatusInput {
+  manualStatus: PresenceStatus | null
+  statusMessage: string | null
+  expiresAt: string | null
+}
+
+// Live presence of a connected user, from Supabase Realtime Presence
+export interface UserPresence {
+  status: PresenceStatus
+  statusMessage: string | null
+}
+
+// What a notification is about
+export type NotificationType =
+  | 'mention'
+  | 'direct_message'
+  | 'event_invite'
+  | 'event_rsvp'
+  | 'event_reminder'
+  | 'incoming_call'
+  | 'missed_call'
+
+// Notification as returned by GET /api/notifications
+export interface ApiNotification {
+  id: string
+  type: NotificationType
+  title: string
+  body: string | null
+  actor: MessageSender | null
+  channel_id: string | null
+  chat_id: string | null
+  event_id: string | null
+  call_id: string | null
+  // Message to scroll to for mentions and DMs
+  focus: MessageFocus | null
+  read_at: string | null
+  created_at: string
+}
+
+// Response from GET /api/notifications
+export interface ApiNotificationPage {
+  notifications: ApiNotification[]
+  nextCursor: string | null
+  unreadCount: number
+}
+
+// Body of PATCH /api/notifications: mark the listed notifications, or all of
+// them, read (or unread again)
+export interface MarkNotificationsInput {
+  ids?: string[]
+  all?: boolean
+  read?: boolean
+}
@@ -0,0 +1,480 @@
+import { lookup, type LookupAddress } from 'node:dns'
+import http from 'node:http'
+import https from 'node:https'
+import net from 'node:net'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '@/lib/markdown'
+import type { MessageUnfurl } from '@/lib/types'
+
+/**
+ * Link previews: fetches a page's OpenGraph / Twitter card / oEmbed metadata
+ * and caches the result in `link_unfurls`.
+ *
+ * The fetch runs on our servers with a URL chosen by any user, so it is
+ * guarded against SSRF: only http(s) on the default ports, every DNS answer
+ * (including after redirects, which are followed by hand) must be a public
+ * address, and the connection uses the address that was checked, so a
+ * hostname can't be re-pointed at an internal one between check and connect.
+ * Requests time out, and only the start of the page is read.
+ *
+ * Uses the service role client - only import from API routes.
+ */
+
+// Links previewed per message, in the order they appear
+export const MAX_UNFURLS_PER_MESSAGE = 3
+
+const FETCH_TIMEOUT_MS = 5000
+const MAX_REDIRECTS = 3
+// Metadata lives in <head>; no need to read whole pages
+const MAX_BODY_BYTES = 512 * 1024
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000
+// Failures are retried sooner, in case the site was only briefly down
+const FAILURE_TTL_MS = 60 * 60 * 1000
+const USER_AGENT = 'DevCollabBot/1.0 (link previews)'
+
+const MAX_TITLE_LENGTH = 200
+const MAX_DESCRIPTION_LENGTH = 300
+const MAX_SITE_NAME_LENGTH = 100
+
+// Loopback, private, link-local, CGNAT, multicast and other non-public ranges
+const BLOCKED_ADDRESSES = new net.BlockList()
+for (const [subnet, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(subnet, prefix, 'ipv4')
+}
+// 6to4 (2002::/16) and Teredo (2001::/32) addresses tunnel to an embedded IPv4 address
+for (const [subnet, prefix] of [
+  ['::', 96],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001::', 32],
+  ['2001:db8::', 32],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(subnet, prefix, 'ipv6')
+}
+
+/** Whether connecting to this IP address could reach something internal. */
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address)
+  if (family === 4) return BLOCKED_ADDRESSES.check(address, 'ipv4')
+  if (family !== 6) return true
+
+  // IPv4-mapped addresses (::ffff:a.b.c.d, also written ::ffff:7f00:1) are checked as IPv4
+  const mapped = address.toLowerCase().match(/^(?:0{0,4}:){0,5}:?ffff:(.+)$/)
+  if (mapped) {
+    const rest = mapped[1]
+    if (net.isIPv4(rest)) return isBlockedAddress(rest)
+    const hex = rest.match(/^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+    if (hex) {
+      const high = parseInt(hex[1], 16)
+      const low = parseInt(hex[2], 16)
+      return isBlockedAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`)
+    }
+    return true
+  }
+  return BLOCKED_ADDRESSES.check(address, 'ipv6')
+}
+
+/**
+ * Which addresses and ports unfurling may connect to. The app always uses
+ * PUBLIC_NETWORK; a looser policy lets tests unfurl from a local stub server.
+ */
+export interface UnfurlNetwork {
+  isBlockedAddress: (address: string) => boolean
+  // An explicit port in the URL ('' when it has none)
+  isAllowedPort: (port: string) => boolean
+}
+
+export const PUBLIC_NETWORK: UnfurlNetwork = {
+  isBlockedAddress,
+  isAllowedPort: (port) => port === '',
+}
+
+// DNS lookup for outgoing requests that fails if any answer is a blocked address
+function createSafeLookup(network: UnfurlNetwork): net.LookupFunction {
+  return (hostname, options, callback) => {
+    lookup(hostname, { ...options, all: true }, (err, addresses: LookupAddress[]) => {
+      if (err) return callback(err, '')
+      if (addresses.length === 0 || addresses.some((a) => network.isBlockedAddress(a.address))) {
+        return callback(Object.assign(new Error(`${hostname} resolves to a blocked address`), { code: 'EBLOCKED' }), '')
+      }
+      if (options.all) return callback(null, addresses)
+      callback(null, addresses[0].address, addresses[0].family)
+    })
+  }
+}
+
+/**
+ * The form of a link used as its cache key, or null if it can't be unfurled:
+ * http(s) only, default ports, no credentials, no IP literals in blocked
+ * ranges. The fragment is dropped.
+ */
+export function normalizeUnfurlUrl(raw: string, network: UnfurlNetwork = PUBLIC_NETWORK): string | null {
+  let url: URL
+  try {
+    url = new URL(raw.trim())
+  } catch {
+    return null
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+  if (!network.isAllowedPort(url.port) || url.username || url.password) return null
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  if (!host || host === 'localhost' || host.endsWith('.localhost')) return null
+  if (net.isIP(host) && network.isBlockedAddress(host)) return null
+  url.hash = ''
+  return url.href
+}
+
+interface FetchedPage {
+  url: URL
+  contentType: string
+  body: string
+}
+
+/** One GET without following redirects; resolves with the location for 3xx. */
+function requestOnce(
+  url: URL,
+  accept: string,
+  deadline: number,
+  network: UnfurlNetwork
+): Promise<{ status: number; location: string | null; contentType: string; body: string }> {
+  return new Promise((resolve, reject) => {
+    const remaining = deadline - Date.now()
+    if (remaining <= 0) return reject(new Error('Timed out'))
+
+    const client = url.protocol === 'https:' ? https : http
+    const req = client.request(
+      url,
+      {
+        method: 'GET',
+        lookup: createSafeLookup(network),
+        headers: {
+          'User-Agent': USER_AGENT,
+          Accept: accept,
+          'Accept-Encoding': 'identity',
+          'Accept-Language': 'en',
+        },
+      },
+      (res) => {
+        const status = res.statusCode ?? 0
+        const contentType = String(res.headers['content-type'] ?? '').toLowerCase()
+        if ((status >= 300 && status < 400) || status >= 400 || !/html|json/.test(contentType)) {
+          // Redirects, errors and non-text bodies (e.g. images) need only the headers
+          res.destroy()
+          resolve({ status, location: res.headers.location ?? null, contentType, body: '' })
+          return
+        }
+
+        const chunks: Buffer[] = []
+        let size = 0
+        res.on('data', (chunk: Buffer) => {
+          chunks.push(chunk)
+          size += chunk.length
+          if (size >= MAX_BODY_BYTES) res.destroy()
+        })
+        const finish = () =>
+          resolve({
+            status,
+            location: null,
+            contentType,
+            body: Buffer.concat(chunks).subarray(0, MAX_BODY_BYTES).toString('utf8'),
+          })
+        res.on('end', finish)
+        res.on('close', finish)
+        res.on('error', reject)
+      }
+    )
+
+    const timer = setTimeout(() => req.destroy(new Error('Timed out')), remaining)
+    req.on('close', () => clearTimeout(timer))
+    req.on('error', reject)
+    req.end()
+  })
+}
+
+/** GET a URL, following redirects and re-checking each hop. */
+async function safeFetch(rawUrl: string, accept: string, network: UnfurlNetwork): Promise<FetchedPage> {
+  const deadline = Date.now() + FETCH_TIMEOUT_MS
+  let current = rawUrl
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const normalized = normalizeUnfurlUrl(current, network)
+    if (!normalized) throw new Error('URL not allowed')
+    const url = new URL(normalized)
+
+    const res = await requestOnce(url, accept, deadline, network)
+    if (res.status >= 300 && res.status < 400) {
+      if (!res.location) throw new Error(`Redirect without a location (${res.status})`)
+      current = new URL(res.location, url).href
+      continue
+    }
+    if (res.status >= 400) throw new Error(`HTTP ${res.status}`)
+    return { url, contentType: res.contentType, body: res.body }
+  }
+  throw new Error('Too many redirects')
+}
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity
+    }
+    return named[code.toLowerCase()] ?? entity
+  })
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(tag))) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '')
+  }
+  return attributes
+}
+
+function clean(value: string | null | undefined, maxLength: number): string | null {
+  const text = value?.replace(/\s+/g, ' ').trim()
+  if (!text) return null
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text
+}
+
+/** An absolute http(s) URL for a resource the page references, if it is one. */
+function resolveImage(src: string | null | undefined, base: URL): string | null {
+  if (!src) return null
+  try {
+    const url = new URL(src.trim(), base)
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.href : null
+  } catch {
+    return null
+  }
+}
+
+interface PageMetadata {
+  title: string | null
+  description: string | null
+  siteName: string | null
+  image: string | null
+  oembedUrl: string | null
+}
+
+function parseHtmlMetadata(html: string, base: URL): PageMetadata {
+  const headEnd = html.search(/<\/head>/i)
+  const head = headEnd === -1 ? html : html.slice(0, headEnd)
+
+  const meta: Record<string, string> = {}
+  for (const tag of head.match(/<meta\b[^>]*>/gi) ?? []) {
+    const attributes = parseAttributes(tag)
+    const key = (attributes.property ?? attributes.name)?.toLowerCase()
+    if (key && attributes.content !== undefined && !(key in meta)) meta[key] = attributes.content
+  }
+
+  let oembedUrl: string | null = null
+  for (const tag of head.match(/<link\b[^>]*>/gi) ?? []) {
+    const attributes = parseAttributes(tag)
+    if (attributes.rel?.toLowerCase() === 'alternate' && attributes.type?.toLowerCase() === 'application/json+oembed') {
+      oembedUrl = resolveImage(attributes.href, base)
+      break
+    }
+  }
+
+  const titleTag = head.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)
+  return {
+    title: meta['og:title'] ?? meta['twitter:title'] ?? (titleTag ? decodeEntities(titleTag[1]) : null),
+    description: meta['og:description'] ?? meta['twitter:description'] ?? meta['description'] ?? null,
+    siteName: meta['og:site_name'] ?? meta['application-name'] ?? null,
+    image: meta['og:image:secure_url'] ?? meta['og:image'] ?? meta['twitter:image'] ?? meta['twitter:image:src'] ?? null,
+    oembedUrl,
+  }
+}
+
+async function fetchOembed(url: string, network: UnfurlNetwork): Promise<Partial<PageMetadata>> {
+  try {
+    const res = await safeFetch(url, 'application/json', network)
+    const data = JSON.parse(res.body) as Record<string, unknown>
+    const text = (key: string) => (typeof data[key] === 'string' ? (data[key] as string) : null)
+    return {
+      title: text('title'),
+      description: text('author_name') ? `by ${text('author_name')}` : null,
+      siteName: text('provider_name'),
+      image: text('thumbnail_url'),
+    }
+  } catch {
+    return {}
+  }
+}
+
+/** Fetch a page and build its preview, or null if there's nothing to show. */
+async function fetchUnfurl(url: string, network: UnfurlNetwork): Promise<MessageUnfurl | null> {
+  const page = await safeFetch(url, 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5', network)
+  const hostname = page.url.hostname.replace(/^www\./, '')
+
+  // A direct link to an image previews as the image
+  if (page.contentType.startsWith('image/')) {
+    return { url, title: null, description: null, site_name: hostname, image_url: page.url.href }
+  }
+  if (!/html/.test(page.contentType)) return null
+
+  const metadata = parseHtmlMetadata(page.body, page.url)
+  // oEmbed fills in whatever the page itself didn't say
+  const oembed =
+    metadata.oembedUrl && (!metadata.title || !metadata.image) ? await fetchOembed(metadata.oembedUrl, network) : {}
+
+  const title = clean(metadata.title ?? oembed.title, MAX_TITLE_LENGTH)
+  const description = clean(metadata.description ?? oembed.description, MAX_DESCRIPTION_LENGTH)
+  const image = resolveImage(metadata.image ?? oembed.image, page.url)
+  if (!title && !description && !image) return null
+
+  return {
+    url,
+    title,
+    description,
+    site_name: clean(metadata.siteName ?? oembed.siteName, MAX_SITE_NAME_LENGTH) ?? hostname,
+    image_url: image,
+  }
+}
+
+interface CachedUnfurl {
+  url: string
+  ok: boolean
+  title: string | null
+  description: string | null
+  site_name: string | null
+  image_url: string | null
+  fetched_at: string
+}
+
+/**
+ * The preview for a link, from the cache when it is fresh. Returns null when
+ * the link can't be unfurled or the page has no usable metadata.
+ */
+export async function unfurlUrl(
+  rawUrl: string,
+  network: UnfurlNetwork = PUBLIC_NETWORK
+): Promise<MessageUnfurl | null> {
+  const url = normalizeUnfurlUrl(rawUrl, network)
+  if (!url) return null
+
+  const { data: cached } = await supabaseAdmin
+    .from('link_unfurls')
+    .select('url, ok, title, description, site_name, image_url, fetched_at')
+    .eq('url', url)
+    .maybeSingle<CachedUnfurl>()
+
+  if (cached) {
+    const age = Date.now() - new Date(cached.fetched_at).getTime()
+    if (age < (cached.ok ? CACHE_TTL_MS : FAILURE_TTL_MS)) {
+      return cached.ok
+        ? {
+            url,
+            title: cached.title,
+            description: cached.description,
+            site_name: cached.site_name,
+            image_url: cached.image_url,
+          }
+        : null
+    }
+  }
+
+  let unfurl: MessageUnfurl | null = null
+  try {
+    unfurl = await fetchUnfurl(url, network)
+  } catch (err) {
+    console.warn(`Failed to unfurl ${url}:`, err instanceof Error ? err.message : err)
+  }
+
+  const { error } = await supabaseAdmin.from('link_unfurls').upsert({
+    url,
+    ok: unfurl !== null,
+    title: unfurl?.title ?? null,
+    description: unfurl?.description ?? null,
+    site_name: unfurl?.site_name ?? null,
+    image_url: unfurl?.image_url ?? null,
+    fetched_at: new Date().toISOString(),
+  })
+  if (error) console.error('Failed to cache unfurl:', error)
+
+  return unfurl
+}
+
+/** Distinct http(s) links in message content, in order; code is skipped. */
+export function extractLinks(content: string): string[] {
+  const links: string[] = []
+  const seen = new Set<string>()
+
+  const visitInline = (nodes: MarkdownInline[]) => {
+    for (const node of nodes) {
+      if (node.type === 'link') {
+        const url = normalizeUnfurlUrl(node.href)
+        if (url && !seen.has(url)) {
+          seen.add(url)
+          links.push(url)
+        }
+      } else if (node.type === 'strong' || node.type === 'em' || node.type === 'strike') {
+        visitInline(node.children)
+      }
+    }
+  }
+  const visitBlocks = (blocks: MarkdownBlock[]) => {
+    for (const block of blocks) {
+      if (block.type === 'paragraph') visitInline(block.children)
+      else if (block.type === 'blockquote') visitBlocks(block.children)
+      else if (block.type === 'list') block.items.forEach(visitBlocks)
+    }
+  }
+
+  visitBlocks(parseMarkdown(content))
+  return links
+}
+
+/**
+ * Unfurl the links in a message (skipping ones its author dismissed) and
+ * store the previews on it. Runs after the response is sent; clients pick up
+ * the result through the message's realtime UPDATE.
+ */
+export async function refreshMessageUnfurls(messageId: string, content: string): Promise<void> {
+  const { data: message } = await supabaseAdmin
+    .from('messages')
+    .select('unfurls, dismissed_unfurls')
+    .eq('id', messageId)
+    .maybeSingle()
+  if (!message) return
+
+  const dismissed = new Set((message.dismissed_unfurls ?? []) as string[])
+  const links = extractLinks(content)
+    .filter((url) => !dismissed.has(url))
+    .slice(0, MAX_UNFURLS_PER_MESSAGE)
+
+  // Most messages have no links; don't send a realtime update for them
+  if (links.length === 0 && ((message.unfurls ?? []) as MessageUnfurl[]).length === 0) return
+
+  const unfurls = (await Promise.all(links.map((url) => unfurlUrl(url)))).filter(
+    (u): u is MessageUnfurl => u !== null
+  )
+
+  // If the message was edited meanwhile, that edit's refresh stores its own previews
+  const { error } = await supabaseAdmin
+    .from('messages')
+    .update({ unfurls })
+    .eq('id', messageId)
+    .eq('content', content)
+  if (error) console.error('Failed to store unfurls:', error)
+}
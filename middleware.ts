@@ -1,6 +1,15 @@
 import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server'
 
-const isPublicRoute = createRouteMatcher(['/sign-in(.*)', '/sign-up(.*)', '/test-realtime'])
+// The calendar feed authenticates with its own token for external calendar
+// clients, cron routes with CRON_SECRET and webhooks with their signatures
+const isPublicRoute = createRouteMatcher([
+  '/sign-in(.*)',
+  '/sign-up(.*)',
+  '/test-realtime',
+  '/api/calendar/feed.ics',
+  '/api/cron/(.*)',
+  '/api/webhooks/(.*)',
+])
 
 export default clerkMiddleware(async (auth, request) => {
   if (!isPublicRoute(request)) {
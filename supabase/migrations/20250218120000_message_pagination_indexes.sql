@@ -0,0 +1,5 @@
+-- Composite indexes for cursor pagination on GET /api/messages
+-- Pages are keyed on (created_at, id) within a single channel or chat
+
+CREATE INDEX idx_messages_channel_created ON messages(channel_id, created_at DESC, id DESC);
+CREATE INDEX idx_messages_chat_created ON messages(chat_id, created_at DESC, id DESC);
@@ -0,0 +1,7 @@
+-- Threaded replies: a reply points at its top-level parent message
+-- Threads are one level deep; replies live in the same channel/chat as the parent
+
+ALTER TABLE messages
+  ADD COLUMN parent_message_id UUID REFERENCES messages(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_messages_parent ON messages(parent_message_id, created_at, id);
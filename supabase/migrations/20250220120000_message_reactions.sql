@@ -0,0 +1,29 @@
+-- Emoji reactions on messages
+-- channel_id/chat_id are copied from the parent message so realtime
+-- subscriptions can filter reactions the same way they filter messages
+
+CREATE TABLE message_reactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  channel_id UUID REFERENCES channels(id) ON DELETE CASCADE,
+  chat_id UUID REFERENCES chats(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(message_id, user_id, emoji)
+);
+
+CREATE INDEX idx_message_reactions_message ON message_reactions(message_id);
+CREATE INDEX idx_message_reactions_channel ON message_reactions(channel_id);
+CREATE INDEX idx_message_reactions_chat ON message_reactions(chat_id);
+
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reactions are viewable by authenticated users"
+  ON message_reactions FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Deliver reaction changes over Supabase Realtime with full row data on DELETE
+ALTER PUBLICATION supabase_realtime ADD TABLE message_reactions;
+ALTER TABLE message_reactions REPLICA IDENTITY FULL;
@@ -0,0 +1,20 @@
+-- Full-text search for GET /api/search
+-- Stored tsvector columns keep queries index-only; file names use the 'simple'
+-- config so identifiers like "onboarding-flow-v2" are not stemmed
+
+ALTER TABLE messages
+  ADD COLUMN search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+ALTER TABLE file_attachments
+  ADD COLUMN search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('simple', coalesce(name, ''))) STORED;
+
+ALTER TABLE calendar_events
+  ADD COLUMN search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(title, ''))) STORED;
+
+CREATE INDEX idx_messages_search ON messages USING GIN (search_vector);
+CREATE INDEX idx_file_attachments_search ON file_attachments USING GIN (search_vector);
+CREATE INDEX idx_calendar_events_search ON calendar_events USING GIN (search_vector);
+CREATE INDEX idx_file_attachments_message ON file_attachments(message_id);
@@ -0,0 +1,31 @@
+-- Channel membership, private channels and archiving
+-- Public channels are readable and joinable by everyone; private channels
+-- only by their members. Membership is enforced in the API routes.
+
+ALTER TABLE channels ADD COLUMN is_private BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE channels ADD COLUMN created_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE channels ADD COLUMN archived_at TIMESTAMPTZ;
+
+CREATE TABLE channel_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id UUID NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  joined_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(channel_id, user_id)
+);
+
+CREATE INDEX idx_channel_members_channel ON channel_members(channel_id);
+CREATE INDEX idx_channel_members_user ON channel_members(user_id);
+
+ALTER TABLE channel_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Channel members are viewable by authenticated users"
+  ON channel_members FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Existing channels were visible to everyone: keep them in everyone's sidebar
+INSERT INTO channel_members (channel_id, user_id)
+SELECT c.id, p.id FROM channels c CROSS JOIN profiles p
+ON CONFLICT (channel_id, user_id) DO NOTHING;
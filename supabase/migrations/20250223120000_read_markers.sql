@@ -0,0 +1,90 @@
+-- Per-user read position in every channel and chat
+-- last_read_at mirrors the created_at of last_read_message_id so unread
+-- counts stay correct after that message is deleted
+
+CREATE TABLE read_markers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  channel_id UUID REFERENCES channels(id) ON DELETE CASCADE,
+  chat_id UUID REFERENCES chats(id) ON DELETE CASCADE,
+  last_read_message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+  last_read_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CHECK ((channel_id IS NULL) <> (chat_id IS NULL)),
+  UNIQUE(user_id, channel_id),
+  UNIQUE(user_id, chat_id)
+);
+
+CREATE INDEX idx_read_markers_chat ON read_markers(chat_id);
+
+ALTER TABLE read_markers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Read markers are viewable by authenticated users"
+  ON read_markers FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Deliver marker changes over Supabase Realtime for live "Seen by" receipts
+ALTER PUBLICATION supabase_realtime ADD TABLE read_markers;
+
+-- Start everyone as caught up so existing history doesn't show as unread
+INSERT INTO read_markers (user_id, channel_id, last_read_message_id, last_read_at)
+SELECT cm.user_id, cm.channel_id, latest.id, latest.created_at
+FROM channel_members cm
+CROSS JOIN LATERAL (
+  SELECT id, created_at FROM messages
+  WHERE channel_id = cm.channel_id AND parent_message_id IS NULL
+  ORDER BY created_at DESC, id DESC
+  LIMIT 1
+) latest
+ON CONFLICT DO NOTHING;
+
+INSERT INTO read_markers (user_id, chat_id, last_read_message_id, last_read_at)
+SELECT cp.user_id, cp.chat_id, latest.id, latest.created_at
+FROM chat_participants cp
+CROSS JOIN LATERAL (
+  SELECT id, created_at FROM messages
+  WHERE chat_id = cp.chat_id AND parent_message_id IS NULL
+  ORDER BY created_at DESC, id DESC
+  LIMIT 1
+) latest
+ON CONFLICT DO NOTHING;
+
+-- Unread and mention counts for every channel the user has joined and every
+-- chat they participate in. Only top-level messages from others count; a
+-- mention is "@<display name>", @channel or @here, and every chat message
+-- counts as one since it is addressed to the participants directly.
+CREATE OR REPLACE FUNCTION conversation_unread_counts(p_user_id UUID)
+RETURNS TABLE (channel_id UUID, chat_id UUID, unread_count BIGINT, mention_count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH me AS (
+    SELECT name FROM profiles WHERE id = p_user_id
+  ),
+  conversations AS (
+    SELECT cm.channel_id, NULL::UUID AS chat_id FROM channel_members cm WHERE cm.user_id = p_user_id
+    UNION ALL
+    SELECT NULL::UUID, cp.chat_id FROM chat_participants cp WHERE cp.user_id = p_user_id
+  )
+  SELECT
+    c.channel_id,
+    c.chat_id,
+    count(m.id) AS unread_count,
+    count(m.id) FILTER (
+      WHERE c.chat_id IS NOT NULL
+         OR m.content ILIKE ('%@' || (SELECT name FROM me) || '%')
+         OR m.content ~* '@(channel|here)\M'
+    ) AS mention_count
+  FROM conversations c
+  LEFT JOIN read_markers rm
+    ON rm.user_id = p_user_id
+   AND rm.channel_id IS NOT DISTINCT FROM c.channel_id
+   AND rm.chat_id IS NOT DISTINCT FROM c.chat_id
+  LEFT JOIN messages m
+    ON (m.channel_id = c.channel_id OR m.chat_id = c.chat_id)
+   AND m.parent_message_id IS NULL
+   AND m.sender_id IS DISTINCT FROM p_user_id
+   AND (rm.last_read_at IS NULL OR m.created_at > rm.last_read_at)
+  GROUP BY c.channel_id, c.chat_id;
+$$;
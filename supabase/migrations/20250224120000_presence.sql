@@ -0,0 +1,14 @@
+-- Presence: profiles.status is written by the client presence heartbeat and
+-- last_seen_at records the latest heartbeat, so a tab that died without
+-- saying goodbye reads as offline once the heartbeat goes stale.
+-- manual_status / status_message are set by the user and stop applying at
+-- status_expires_at (NULL = until cleared).
+
+ALTER TABLE profiles
+  ADD COLUMN last_seen_at TIMESTAMPTZ,
+  ADD COLUMN manual_status TEXT CHECK (manual_status IN ('online', 'away', 'offline')),
+  ADD COLUMN status_message TEXT CHECK (char_length(status_message) <= 100),
+  ADD COLUMN status_expires_at TIMESTAMPTZ;
+
+-- Seeded statuses predate presence; start everyone offline
+UPDATE profiles SET status = 'offline';
@@ -0,0 +1,6 @@
+-- Messages can carry several attachments; position keeps them in the order
+-- they were attached so galleries render consistently
+
+ALTER TABLE file_attachments ADD COLUMN position SMALLINT NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_file_attachments_message ON file_attachments(message_id, position);
@@ -0,0 +1,26 @@
+-- Attachments are served through GET /api/files/download, which checks that
+-- the caller can read the conversation and redirects to a short-lived signed
+-- URL. The bucket is no longer public and storage objects can't be read
+-- directly.
+
+UPDATE storage.buckets SET public = false WHERE id = 'attachments';
+
+DROP POLICY IF EXISTS "Anyone can download attachments" ON storage.objects;
+
+-- Audit trail of every file served by the download route
+CREATE TABLE file_downloads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_attachment_id UUID REFERENCES file_attachments(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  storage_path TEXT NOT NULL,
+  disposition TEXT NOT NULL CHECK (disposition IN ('inline', 'attachment')),
+  downloaded_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_file_downloads_attachment ON file_downloads(file_attachment_id, downloaded_at DESC);
+CREATE INDEX idx_file_downloads_user ON file_downloads(user_id, downloaded_at DESC);
+
+-- Only the service role writes or reads the audit trail
+ALTER TABLE file_downloads ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_file_attachments_storage_path ON file_attachments(storage_path);
@@ -0,0 +1,27 @@
+-- Recurring calendar events
+--
+-- A series is a single row with an RFC 5545 RRULE in recurrence_rule; its
+-- event_date is the first occurrence and occurrences are expanded by the API.
+-- Cancelled occurrences are listed in excluded_dates. An occurrence edited on
+-- its own is stored as an override row pointing at the series through
+-- recurrence_parent_id, with recurrence_id holding the date it replaces.
+
+ALTER TABLE calendar_events
+  ADD COLUMN recurrence_rule TEXT,
+  ADD COLUMN excluded_dates DATE[] NOT NULL DEFAULT '{}',
+  ADD COLUMN recurrence_parent_id UUID REFERENCES calendar_events(id) ON DELETE CASCADE,
+  ADD COLUMN recurrence_id DATE,
+  ADD CONSTRAINT calendar_events_override_check
+    CHECK ((recurrence_parent_id IS NULL) = (recurrence_id IS NULL)),
+  ADD CONSTRAINT calendar_events_override_not_series_check
+    CHECK (recurrence_parent_id IS NULL OR recurrence_rule IS NULL);
+
+-- One override per occurrence
+CREATE UNIQUE INDEX idx_calendar_events_override
+  ON calendar_events(recurrence_parent_id, recurrence_id)
+  WHERE recurrence_parent_id IS NOT NULL;
+
+-- Series are fetched by start date regardless of the requested window
+CREATE INDEX idx_calendar_events_series
+  ON calendar_events(event_date)
+  WHERE recurrence_rule IS NOT NULL;
@@ -0,0 +1,13 @@
+-- iCalendar feed and import
+--
+-- Each user gets a secret token for their subscribable .ics feed (the feed is
+-- fetched by calendar clients without a session). Imported events remember
+-- their iCalendar UID so importing the same file twice doesn't duplicate them.
+
+ALTER TABLE profiles ADD COLUMN calendar_feed_token TEXT UNIQUE;
+
+ALTER TABLE calendar_events ADD COLUMN ical_uid TEXT;
+
+CREATE UNIQUE INDEX idx_calendar_events_ical_uid
+  ON calendar_events(created_by, ical_uid)
+  WHERE ical_uid IS NOT NULL AND recurrence_parent_id IS NULL;
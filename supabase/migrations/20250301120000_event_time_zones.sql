@@ -0,0 +1,32 @@
+-- Time-zone aware calendar events
+--
+-- event_date/start_time/end_time stay as the wall-clock time in the event's
+-- IANA zone (recurring events repeat at that clock time across DST changes);
+-- starts_at/ends_at hold the instants of the event, or of the first
+-- occurrence of a series. An end_time at or before start_time ends the next day.
+
+ALTER TABLE calendar_events
+  ADD COLUMN time_zone TEXT NOT NULL DEFAULT 'UTC',
+  ADD COLUMN starts_at TIMESTAMPTZ,
+  ADD COLUMN ends_at TIMESTAMPTZ;
+
+-- Existing events had no zone; read their times as UTC
+UPDATE calendar_events SET
+  starts_at = (event_date + start_time) AT TIME ZONE 'UTC',
+  ends_at = (
+    event_date + end_time
+    + CASE WHEN end_time <= start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END
+  ) AT TIME ZONE 'UTC';
+
+ALTER TABLE calendar_events
+  ALTER COLUMN starts_at SET NOT NULL,
+  ALTER COLUMN ends_at SET NOT NULL,
+  ADD CONSTRAINT calendar_events_ends_after_start CHECK (ends_at > starts_at);
+
+CREATE INDEX idx_calendar_events_starts_at ON calendar_events(starts_at);
+
+-- Preferred zone to show the calendar in (NULL = the browser's zone) and an
+-- optional second zone shown alongside it
+ALTER TABLE profiles
+  ADD COLUMN time_zone TEXT,
+  ADD COLUMN secondary_time_zone TEXT;
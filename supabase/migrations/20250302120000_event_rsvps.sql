@@ -0,0 +1,24 @@
+-- Event RSVPs
+--
+-- Each participant row records the invitee's response (RFC 5545 PARTSTAT
+-- values), an optional note with it, and whether attendance is optional.
+-- Organizers are added as accepted.
+
+ALTER TABLE event_participants
+  ADD COLUMN response TEXT NOT NULL DEFAULT 'needs-action'
+    CHECK (response IN ('needs-action', 'accepted', 'tentative', 'declined')),
+  ADD COLUMN response_comment TEXT,
+  ADD COLUMN responded_at TIMESTAMPTZ,
+  ADD COLUMN optional BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE event_participants ep
+SET response = 'accepted', responded_at = e.created_at
+FROM calendar_events e
+WHERE e.id = ep.event_id AND e.created_by = ep.user_id;
+
+-- Participants answer for themselves; the API routes use the service role
+CREATE POLICY "Participants can update their own response"
+  ON event_participants FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,43 @@
+-- In-app notifications: one row per recipient, written by the API routes that
+-- produce them (mentions, DMs, event invites, RSVPs, reminders, calls) and
+-- delivered live over Supabase Realtime.
+-- dedupe_key makes producers that may run more than once (reminders) deliver
+-- each notification once per user; NULL keys never conflict.
+
+CREATE TABLE notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN (
+    'mention', 'direct_message', 'event_invite', 'event_rsvp', 'event_reminder', 'incoming_call'
+  )),
+  actor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  channel_id UUID REFERENCES channels(id) ON DELETE CASCADE,
+  chat_id UUID REFERENCES chats(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+  event_id UUID REFERENCES calendar_events(id) ON DELETE CASCADE,
+  call_id UUID REFERENCES calls(id) ON DELETE CASCADE,
+  dedupe_key TEXT,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(user_id, dedupe_key)
+);
+
+CREATE INDEX idx_notifications_user_created ON notifications(user_id, created_at DESC, id DESC);
+CREATE INDEX idx_notifications_user_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+  ON notifications FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Deliver new and updated notifications over Supabase Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+ALTER TABLE notifications REPLICA IDENTITY FULL;
+
+-- Minutes before an event starts to remind the user; empty turns reminders off
+ALTER TABLE profiles
+  ADD COLUMN reminder_offsets INTEGER[] NOT NULL DEFAULT '{10}'
+    CHECK (cardinality(reminder_offsets) <= 5 AND 0 <= ALL(reminder_offsets) AND 10080 >= ALL(reminder_offsets));
@@ -0,0 +1,71 @@
+-- Structured mentions: who a message @mentions is resolved when it is sent
+-- and stored on the message, instead of matching "@<display name>" in the
+-- text at read time (which broke on renames and matched name prefixes).
+-- mentions holds [{"id": <profile id>, "name": <name as written>}];
+-- mention_broadcast records @channel / @here, which only apply in channels.
+
+ALTER TABLE messages
+  ADD COLUMN mentions JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN mention_broadcast TEXT CHECK (mention_broadcast IN ('channel', 'here'));
+
+CREATE INDEX idx_messages_mentions ON messages USING GIN (mentions jsonb_path_ops);
+CREATE INDEX idx_messages_mention_broadcast ON messages(channel_id, created_at DESC)
+  WHERE mention_broadcast IS NOT NULL;
+
+-- Backfill with the old text matching, limited to each conversation's members
+UPDATE messages m
+SET mentions = found.mentions
+FROM (
+  SELECT msg.id, jsonb_agg(jsonb_build_object('id', p.id, 'name', p.name)) AS mentions
+  FROM messages msg
+  JOIN profiles p
+    ON msg.content ILIKE ('%@' || p.name || '%')
+   AND (
+     EXISTS (SELECT 1 FROM channel_members cm WHERE cm.channel_id = msg.channel_id AND cm.user_id = p.id)
+     OR EXISTS (SELECT 1 FROM chat_participants cp WHERE cp.chat_id = msg.chat_id AND cp.user_id = p.id)
+   )
+  GROUP BY msg.id
+) found
+WHERE m.id = found.id;
+
+UPDATE messages
+SET mention_broadcast = lower((regexp_match(content, '@(channel|here)\M', 'i'))[1])
+WHERE channel_id IS NOT NULL
+  AND content ~* '@(channel|here)\M';
+
+-- Unread and mention counts for every channel the user has joined and every
+-- chat they participate in. Only top-level messages from others count; a
+-- mention is a message whose stored mentions include the user, or a channel
+-- message with @channel / @here. Every chat message counts as one since it
+-- is addressed to the participants directly.
+CREATE OR REPLACE FUNCTION conversation_unread_counts(p_user_id UUID)
+RETURNS TABLE (channel_id UUID, chat_id UUID, unread_count BIGINT, mention_count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH conversations AS (
+    SELECT cm.channel_id, NULL::UUID AS chat_id FROM channel_members cm WHERE cm.user_id = p_user_id
+    UNION ALL
+    SELECT NULL::UUID, cp.chat_id FROM chat_participants cp WHERE cp.user_id = p_user_id
+  )
+  SELECT
+    c.channel_id,
+    c.chat_id,
+    count(m.id) AS unread_count,
+    count(m.id) FILTER (
+      WHERE c.chat_id IS NOT NULL
+         OR m.mentions @> jsonb_build_array(jsonb_build_object('id', p_user_id))
+         OR m.mention_broadcast IS NOT NULL
+    ) AS mention_count
+  FROM conversations c
+  LEFT JOIN read_markers rm
+    ON rm.user_id = p_user_id
+   AND rm.channel_id IS NOT DISTINCT FROM c.channel_id
+   AND rm.chat_id IS NOT DISTINCT FROM c.chat_id
+  LEFT JOIN messages m
+    ON (m.channel_id = c.channel_id OR m.chat_id = c.chat_id)
+   AND m.parent_message_id IS NULL
+   AND m.sender_id IS DISTINCT FROM p_user_id
+   AND (rm.last_read_at IS NULL OR m.created_at > rm.last_read_at)
+  GROUP BY c.channel_id, c.chat_id;
+$$;
@@ -0,0 +1,25 @@
+-- Link previews. Metadata fetched for a URL is cached in link_unfurls so a
+-- link pasted in many messages is fetched once; failed fetches are cached
+-- too (with ok = false) so a dead link isn't retried on every message.
+-- Only the API routes read and write it, through the service role.
+
+CREATE TABLE link_unfurls (
+  url TEXT PRIMARY KEY,
+  ok BOOLEAN NOT NULL,
+  final_url TEXT,
+  title TEXT,
+  description TEXT,
+  site_name TEXT,
+  image_url TEXT,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_link_unfurls_fetched_at ON link_unfurls(fetched_at);
+
+ALTER TABLE link_unfurls ENABLE ROW LEVEL SECURITY;
+
+-- The previews shown under a message, in link order, and the links its author
+-- dismissed so editing the message doesn't bring them back
+ALTER TABLE messages
+  ADD COLUMN unfurls JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN dismissed_unfurls TEXT[] NOT NULL DEFAULT '{}';
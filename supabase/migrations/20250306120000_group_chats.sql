@@ -0,0 +1,7 @@
+-- Group chats. Any participant of a group can rename it and add or remove
+-- people; DMs keep exactly their two participants. Membership changes are
+-- recorded in the chat as system messages: system_event describes the change
+-- (see ChatSystemEvent in lib/types.ts) and content holds it as text for
+-- search and previews. sender_id is the person who made the change.
+
+ALTER TABLE messages ADD COLUMN system_event JSONB;
@@ -0,0 +1,20 @@
+-- Cloud recordings of calls. The call starter starts and stops recording
+-- through the API; rows are written by the Daily webhook handler as Daily
+-- reports each recording started, ready to download or failed.
+-- Only the API routes read and write it, through the service role.
+
+CREATE TABLE call_recordings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_id UUID NOT NULL REFERENCES calls(id) ON DELETE CASCADE,
+  daily_recording_id TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'recording' CHECK (status IN ('recording', 'ready', 'error')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  duration_seconds INTEGER,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_call_recordings_call ON call_recordings(call_id, started_at);
+
+ALTER TABLE call_recordings ENABLE ROW LEVEL SECURITY;
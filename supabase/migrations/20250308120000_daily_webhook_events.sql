@@ -0,0 +1,11 @@
+-- Daily webhook events already applied, by Daily's event id. Daily retries
+-- deliveries it doesn't see acknowledged, so the webhook handler skips events
+-- listed here. Only the API routes read and write it, through the service role.
+
+CREATE TABLE daily_webhook_events (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  processed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE daily_webhook_events ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,20 @@
+-- Ringing invitees. Each person invited when a call is created rings until
+-- they accept or decline, or until the ring times out or the call ends, at
+-- which point the call is recorded as missed for them. NULL for the starter
+-- and for people who joined without being rung (e.g. through a linked chat).
+
+ALTER TABLE call_participants
+  ADD COLUMN ring_status TEXT CHECK (ring_status IN ('ringing', 'accepted', 'declined', 'missed')),
+  ADD COLUMN ring_answered_at TIMESTAMPTZ;
+
+CREATE INDEX idx_call_participants_ringing ON call_participants(user_id) WHERE ring_status = 'ringing';
+
+-- Ring invitees, and show the caller who declined, over Supabase Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE call_participants;
+ALTER TABLE call_participants REPLICA IDENTITY FULL;
+
+-- Missed calls are recorded in each invitee's notifications
+ALTER TABLE notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'mention', 'direct_message', 'event_invite', 'event_rsvp', 'event_reminder', 'incoming_call', 'missed_call'
+));
@@ -0,0 +1,184 @@
+-- Realtime authenticates with Clerk session tokens
+--
+-- The browser client sends the signed-in user's Clerk session token (Clerk is
+-- configured as a third-party auth provider in Supabase), so Realtime checks
+-- row level security as that user instead of as anon. The token's subject is
+-- the Clerk user ID, not a Supabase auth user, so auth.uid() is NULL for
+-- these requests (and profile IDs never matched it anyway). Policies resolve
+-- the caller's profile with requesting_profile_id() instead.
+
+CREATE OR REPLACE FUNCTION requesting_profile_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM profiles WHERE clerk_user_id = auth.jwt() ->> 'sub'
+$$;
+
+-- Membership checks used by policies on tables that reference each other.
+-- They bypass RLS so that, e.g., the call_participants policy can look at
+-- calls without re-entering the calls policy (which looks at participants).
+
+CREATE OR REPLACE FUNCTION can_view_calendar_event(p_event_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM calendar_events e
+    WHERE e.id = p_event_id
+      AND (
+        e.created_by = requesting_profile_id()
+        OR EXISTS (
+          SELECT 1 FROM event_participants ep
+          WHERE ep.event_id = e.id AND ep.user_id = requesting_profile_id()
+        )
+      )
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION can_view_call(p_call_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM calls c
+    WHERE c.id = p_call_id
+      AND (
+        c.started_by = requesting_profile_id()
+        OR EXISTS (
+          SELECT 1 FROM call_participants cp
+          WHERE cp.call_id = c.id AND cp.user_id = requesting_profile_id()
+        )
+        OR (c.calendar_event_id IS NOT NULL AND can_view_calendar_event(c.calendar_event_id))
+        OR EXISTS (
+          SELECT 1 FROM chat_participants chp
+          WHERE chp.chat_id = c.chat_id AND chp.user_id = requesting_profile_id()
+        )
+      )
+  )
+$$;
+
+-- calendar_events
+
+DROP POLICY "Users can view events they created or participate in" ON calendar_events;
+CREATE POLICY "Users can view events they created or participate in"
+  ON calendar_events FOR SELECT
+  TO authenticated
+  USING (can_view_calendar_event(id));
+
+DROP POLICY "Only event creator can update" ON calendar_events;
+CREATE POLICY "Only event creator can update"
+  ON calendar_events FOR UPDATE
+  TO authenticated
+  USING (created_by = requesting_profile_id())
+  WITH CHECK (created_by = requesting_profile_id());
+
+DROP POLICY "Only event creator can delete" ON calendar_events;
+CREATE POLICY "Only event creator can delete"
+  ON calendar_events FOR DELETE
+  TO authenticated
+  USING (created_by = requesting_profile_id());
+
+-- event_participants
+
+DROP POLICY "Users can view participants for events they can see" ON event_participants;
+CREATE POLICY "Users can view participants for events they can see"
+  ON event_participants FOR SELECT
+  TO authenticated
+  USING (can_view_calendar_event(event_id));
+
+DROP POLICY "Event creator can add participants" ON event_participants;
+CREATE POLICY "Event creator can add participants"
+  ON event_participants FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM calendar_events e
+      WHERE e.id = event_participants.event_id
+        AND e.created_by = requesting_profile_id()
+    )
+  );
+
+DROP POLICY "Event creator can remove participants" ON event_participants;
+CREATE POLICY "Event creator can remove participants"
+  ON event_participants FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM calendar_events e
+      WHERE e.id = event_participants.event_id
+        AND e.created_by = requesting_profile_id()
+    )
+  );
+
+DROP POLICY "Participants can update their own response" ON event_participants;
+CREATE POLICY "Participants can update their own response"
+  ON event_participants FOR UPDATE
+  TO authenticated
+  USING (user_id = requesting_profile_id())
+  WITH CHECK (user_id = requesting_profile_id());
+
+-- calls
+
+DROP POLICY "Users can view calls they have access to" ON calls;
+CREATE POLICY "Users can view calls they have access to"
+  ON calls FOR SELECT
+  TO authenticated
+  USING (can_view_call(id));
+
+DROP POLICY "Call starter can update call" ON calls;
+CREATE POLICY "Call starter can update call"
+  ON calls FOR UPDATE
+  TO authenticated
+  USING (started_by = requesting_profile_id())
+  WITH CHECK (started_by = requesting_profile_id());
+
+DROP POLICY "Call starter can delete call" ON calls;
+CREATE POLICY "Call starter can delete call"
+  ON calls FOR DELETE
+  TO authenticated
+  USING (started_by = requesting_profile_id());
+
+-- call_participants: everyone on a call sees its participants, and invitees
+-- see their own row (for ringing) as soon as it is created
+
+DROP POLICY "Users can view participants for calls they have access to" ON call_participants;
+CREATE POLICY "Users can view participants for calls they have access to"
+  ON call_participants FOR SELECT
+  TO authenticated
+  USING (user_id = requesting_profile_id() OR can_view_call(call_id));
+
+DROP POLICY "Authenticated users can join calls" ON call_participants;
+CREATE POLICY "Authenticated users can join calls"
+  ON call_participants FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = requesting_profile_id());
+
+DROP POLICY "Users can update their own participation" ON call_participants;
+CREATE POLICY "Users can update their own participation"
+  ON call_participants FOR UPDATE
+  TO authenticated
+  USING (user_id = requesting_profile_id())
+  WITH CHECK (user_id = requesting_profile_id());
+
+DROP POLICY "Users can leave calls" ON call_participants;
+CREATE POLICY "Users can leave calls"
+  ON call_participants FOR DELETE
+  TO authenticated
+  USING (user_id = requesting_profile_id());
+
+-- notifications
+
+DROP POLICY "Users can view their own notifications" ON notifications;
+CREATE POLICY "Users can view their own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (user_id = requesting_profile_id());
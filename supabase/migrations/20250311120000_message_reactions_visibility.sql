@@ -0,0 +1,39 @@
+-- Only deliver reactions on messages the user can read
+--
+-- Reactions were readable by every authenticated user, so Realtime sent
+-- reactions from private channels and chats to everyone subscribed.
+
+-- Whether the requesting user can read a conversation: a public channel, a
+-- private channel they belong to, or a chat they participate in
+CREATE OR REPLACE FUNCTION can_read_conversation(p_channel_id UUID, p_chat_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_channel_id IS NOT NULL THEN EXISTS (
+      SELECT 1 FROM channels c
+      WHERE c.id = p_channel_id
+        AND (
+          NOT c.is_private
+          OR EXISTS (
+            SELECT 1 FROM channel_members cm
+            WHERE cm.channel_id = c.id AND cm.user_id = requesting_profile_id()
+          )
+        )
+    )
+    WHEN p_chat_id IS NOT NULL THEN EXISTS (
+      SELECT 1 FROM chat_participants cp
+      WHERE cp.chat_id = p_chat_id AND cp.user_id = requesting_profile_id()
+    )
+    ELSE false
+  END
+$$;
+
+DROP POLICY "Reactions are viewable by authenticated users" ON message_reactions;
+CREATE POLICY "Reactions are viewable by people who can read the message"
+  ON message_reactions FOR SELECT
+  TO authenticated
+  USING (can_read_conversation(channel_id, chat_id));
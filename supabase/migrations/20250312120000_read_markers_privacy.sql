@@ -0,0 +1,62 @@
+-- Read markers are private to their owner
+--
+-- Every authenticated user could read (and receive over Realtime) everyone's
+-- read positions. "Seen by" receipts are served by the API, which only
+-- returns markers to participants of the chat, so the table no longer needs
+-- to be published.
+
+DROP POLICY "Read markers are viewable by authenticated users" ON read_markers;
+CREATE POLICY "Users can view their own read markers"
+  ON read_markers FOR SELECT
+  TO authenticated
+  USING (user_id = requesting_profile_id());
+
+ALTER PUBLICATION supabase_realtime DROP TABLE read_markers;
+
+-- Same counts as before, with channels and chats counted separately so each
+-- join matches messages on a single indexed column instead of an OR
+CREATE OR REPLACE FUNCTION conversation_unread_counts(p_user_id UUID)
+RETURNS TABLE (channel_id UUID, chat_id UUID, unread_count BIGINT, mention_count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    cm.channel_id,
+    NULL::UUID AS chat_id,
+    count(m.id) AS unread_count,
+    count(m.id) FILTER (
+      WHERE m.mentions @> jsonb_build_array(jsonb_build_object('id', p_user_id))
+         OR m.mention_broadcast IS NOT NULL
+    ) AS mention_count
+  FROM channel_members cm
+  LEFT JOIN read_markers rm
+    ON rm.user_id = p_user_id
+   AND rm.channel_id = cm.channel_id
+  LEFT JOIN messages m
+    ON m.channel_id = cm.channel_id
+   AND m.parent_message_id IS NULL
+   AND m.sender_id IS DISTINCT FROM p_user_id
+   AND (rm.last_read_at IS NULL OR m.created_at > rm.last_read_at)
+  WHERE cm.user_id = p_user_id
+  GROUP BY cm.channel_id
+
+  UNION ALL
+
+  -- Every chat message counts as a mention
+  SELECT
+    NULL::UUID,
+    cp.chat_id,
+    count(m.id),
+    count(m.id)
+  FROM chat_participants cp
+  LEFT JOIN read_markers rm
+    ON rm.user_id = p_user_id
+   AND rm.chat_id = cp.chat_id
+  LEFT JOIN messages m
+    ON m.chat_id = cp.chat_id
+   AND m.parent_message_id IS NULL
+   AND m.sender_id IS DISTINCT FROM p_user_id
+   AND (rm.last_read_at IS NULL OR m.created_at > rm.last_read_at)
+  WHERE cp.user_id = p_user_id
+  GROUP BY cp.chat_id;
+$$;
@@ -0,0 +1,11 @@
+-- Only deliver messages the user can read
+--
+-- Now that Realtime connects as the signed-in user, the original "every
+-- authenticated user" policy would send messages from private channels and
+-- chats to anyone subscribed to the messages table.
+
+DROP POLICY "Messages are viewable by authenticated users" ON messages;
+CREATE POLICY "Messages are viewable by people in the conversation"
+  ON messages FOR SELECT
+  TO authenticated
+  USING (can_read_conversation(channel_id, chat_id));
@@ -0,0 +1,23 @@
+-- Calendar feed tokens move out of profiles
+--
+-- Every authenticated user can read profiles, so anyone could read another
+-- user's feed token and subscribe to their calendar. Tokens now live in a
+-- table where each user can only see their own.
+
+CREATE TABLE calendar_feed_tokens (
+  user_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar feed token"
+  ON calendar_feed_tokens FOR SELECT
+  TO authenticated
+  USING (user_id = requesting_profile_id());
+
+INSERT INTO calendar_feed_tokens (user_id, token)
+SELECT id, calendar_feed_token FROM profiles WHERE calendar_feed_token IS NOT NULL;
+
+ALTER TABLE profiles DROP COLUMN calendar_feed_token;
@@ -0,0 +1,33 @@
+-- Only show private channels, their members and attachments to members
+--
+-- Now that browsers connect as the signed-in user, the original "every
+-- authenticated user" policies let anyone list private channels, their
+-- members and the files sent in them by querying or subscribing directly.
+
+DROP POLICY "Channels are viewable by authenticated users" ON channels;
+CREATE POLICY "Channels are viewable by people who can read them"
+  ON channels FOR SELECT
+  TO authenticated
+  USING (can_read_conversation(id, NULL));
+
+DROP POLICY "Channel members are viewable by authenticated users" ON channel_members;
+CREATE POLICY "Channel members are viewable by people who can read the channel"
+  ON channel_members FOR SELECT
+  TO authenticated
+  USING (can_read_conversation(channel_id, NULL));
+
+DROP POLICY "Users can view file attachments" ON file_attachments;
+CREATE POLICY "File attachments are viewable by people who can read the message"
+  ON file_attachments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM messages m
+      WHERE m.id = file_attachments.message_id
+        AND can_read_conversation(m.channel_id, m.chat_id)
+    )
+  );
+
+-- Attachments are recorded by the API, which checks the uploader owns the
+-- file; a direct insert could attach someone else's upload to a message
+DROP POLICY "Users can insert file attachments" ON file_attachments;
@@ -0,0 +1,44 @@
+-- Reply count and latest reply per thread, computed in the database
+--
+-- Message pages used to load every reply of every thread on the page just to
+-- count them. Each lookup here walks idx_messages_parent for one parent.
+
+CREATE OR REPLACE FUNCTION thread_summaries(p_parent_ids UUID[])
+RETURNS TABLE (
+  parent_message_id UUID,
+  reply_count BIGINT,
+  last_reply_id UUID,
+  last_reply_content TEXT,
+  last_reply_created_at TIMESTAMPTZ,
+  sender_id UUID,
+  sender_name TEXT,
+  sender_avatar_url TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    p.id,
+    counts.reply_count,
+    latest.id,
+    latest.content,
+    latest.created_at,
+    pr.id,
+    pr.name,
+    pr.avatar_url
+  FROM unnest(p_parent_ids) AS p(id)
+  -- Parents without replies have no latest reply and drop out here
+  CROSS JOIN LATERAL (
+    SELECT r.id, r.content, r.created_at, r.sender_id
+    FROM messages r
+    WHERE r.parent_message_id = p.id
+    ORDER BY r.created_at DESC, r.id DESC
+    LIMIT 1
+  ) latest
+  CROSS JOIN LATERAL (
+    SELECT count(*) AS reply_count
+    FROM messages r
+    WHERE r.parent_message_id = p.id
+  ) counts
+  LEFT JOIN profiles pr ON pr.id = latest.sender_id;
+$$;
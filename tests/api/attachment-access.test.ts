@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from '@/app/api/files/download/route'
+import { POST } from '@/app/api/messages/route'
+import { createFakeSupabase, type FakeSupabase } from '../helpers/fake-supabase'
+
+const mocks = vi.hoisted(() => ({
+  db: null as unknown as FakeSupabase,
+  userId: 'clerk_reader' as string | null,
+}))
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: async () => ({ userId: mocks.userId }),
+  clerkClient: async () => ({ users: { getUser: async () => ({}) } }),
+}))
+vi.mock('@/lib/supabase-server', () => ({
+  get supabaseAdmin() {
+    return mocks.db.client
+  },
+}))
+
+function seed() {
+  return createFakeSupabase({
+    profiles: [
+      { id: 'reader', clerk_user_id: 'clerk_reader', name: 'Reader' },
+      { id: 'owner', clerk_user_id: 'clerk_owner', name: 'Owner' },
+    ],
+    channels: [
+      { id: 'general', name: 'general', is_private: false, archived_at: null },
+      { id: 'secret', name: 'secret', is_private: true, archived_at: null },
+    ],
+    channel_members: [{ channel_id: 'secret', user_id: 'owner', role: 'owner' }],
+    messages: [
+      { id: 'public-msg', channel_id: 'general', chat_id: null },
+      { id: 'private-msg', channel_id: 'secret', chat_id: null },
+    ],
+    file_attachments: [],
+  })
+}
+
+function download(path: string) {
+  return GET(new NextRequest(`http://localhost/api/files/download?path=${encodeURIComponent(path)}`))
+}
+
+describe('GET /api/files/download', () => {
+  beforeEach(() => {
+    mocks.db = seed()
+    mocks.userId = 'clerk_reader'
+  })
+
+  it('redirects to a signed URL when the file is on a readable message', async () => {
+    mocks.db.rows('file_attachments').push({ id: 'a1', name: 'plan.pdf', message_id: 'public-msg', storage_path: 'clerk_owner/1-plan.pdf' })
+
+    const res = await download('clerk_owner/1-plan.pdf')
+
+    expect(res.status).toBe(307)
+    expect(mocks.db.signedUrls).toEqual(['clerk_owner/1-plan.pdf'])
+  })
+
+  it('refuses a path that is also attached to a message the caller cannot read', async () => {
+    mocks.db.rows('file_attachments').push(
+      { id: 'a1', name: 'plan.pdf', message_id: 'public-msg', storage_path: 'clerk_owner/1-plan.pdf' },
+      { id: 'a2', name: 'plan.pdf', message_id: 'private-msg', storage_path: 'clerk_owner/1-plan.pdf' }
+    )
+
+    const res = await download('clerk_owner/1-plan.pdf')
+
+    expect(res.status).toBe(404)
+    expect(mocks.db.signedUrls).toEqual([])
+  })
+
+  it('lets only the uploader fetch a file that has not been sent yet', async () => {
+    expect((await download('clerk_reader/2-draft.png')).status).toBe(307)
+    expect((await download('clerk_owner/3-draft.png')).status).toBe(404)
+  })
+})
+
+describe('POST /api/messages attachments', () => {
+  beforeEach(() => {
+    mocks.db = seed()
+    mocks.userId = 'clerk_reader'
+  })
+
+  function send(storagePath: string) {
+    return POST(
+      new NextRequest('http://localhost/api/messages', {
+        method: 'POST',
+        body: JSON.stringify({
+          content: 'see attached',
+          channelId: 'general',
+          attachments: [{ storagePath, name: 'plan.pdf', type: 'pdf', size: '1 KB' }],
+        }),
+      })
+    )
+  }
+
+  it("rejects another user's upload", async () => {
+    const res = await send('clerk_owner/1-plan.pdf')
+
+    expect(res.status).toBe(403)
+    expect(mocks.db.rows('file_attachments')).toEqual([])
+    expect(mocks.db.rows('messages')).toHaveLength(2)
+  })
+})
@@ -0,0 +1,173 @@
+import { createHmac } from 'node:crypto'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST as recordingPOST } from '@/app/api/calls/[id]/recording/route'
+import { GET as recordingsGET } from '@/app/api/calls/[id]/recordings/route'
+import { POST as webhookPOST } from '@/app/api/webhooks/daily/route'
+import { createFakeSupabase, type FakeSupabase } from '../helpers/fake-supabase'
+
+const mocks = vi.hoisted(() => {
+  const secret = Buffer.from('test-webhook-secret').toString('base64')
+  process.env.DAILY_WEBHOOK_SECRET = secret
+  return {
+    secret,
+    db: null as unknown as FakeSupabase,
+    clerkUserId: 'clerk_starter',
+    // Calls made to the Daily REST API stand-in
+    daily: [] as string[],
+  }
+})
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: async () => ({ userId: mocks.clerkUserId }),
+}))
+vi.mock('@/lib/supabase-server', () => ({
+  get supabaseAdmin() {
+    return mocks.db.client
+  },
+}))
+vi.mock('@/lib/daily', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/daily')>()),
+  startDailyRecording: async (room: string) => {
+    mocks.daily.push(`start ${room}`)
+  },
+  stopDailyRecording: async (room: string) => {
+    mocks.daily.push(`stop ${room}`)
+  },
+}))
+
+const CALL_ID = 'call-1'
+const params = { params: Promise.resolve({ id: CALL_ID }) }
+
+function record(action: string) {
+  return recordingPOST(
+    new NextRequest(`http://localhost/api/calls/${CALL_ID}/recording`, {
+      method: 'POST',
+      body: JSON.stringify({ action }),
+    }),
+    params
+  )
+}
+
+function listRecordings() {
+  return recordingsGET(new NextRequest(`http://localhost/api/calls/${CALL_ID}/recordings`), params)
+}
+
+function deliver(event: object) {
+  const body = JSON.stringify(event)
+  const timestamp = String(Math.floor(Date.now() / 1000))
+  const signature = createHmac('sha256', Buffer.from(mocks.secret, 'base64'))
+    .update(`${timestamp}.${body}`)
+    .digest('base64')
+  return webhookPOST(
+    new NextRequest('http://localhost/api/webhooks/daily', {
+      method: 'POST',
+      body,
+      headers: { 'x-webhook-timestamp': timestamp, 'x-webhook-signature': signature },
+    })
+  )
+}
+
+beforeEach(() => {
+  mocks.daily = []
+  mocks.clerkUserId = 'clerk_starter'
+  mocks.db = createFakeSupabase(
+    {
+      profiles: [
+        { id: 'starter', clerk_user_id: 'clerk_starter' },
+        { id: 'guest', clerk_user_id: 'clerk_guest' },
+        { id: 'outsider', clerk_user_id: 'clerk_outsider' },
+      ],
+      calls: [{ id: CALL_ID, daily_room_name: 'room-1', started_by: 'starter', status: 'active', chat_id: null, calendar_event_id: null }],
+      call_participants: [
+        { call_id: CALL_ID, user_id: 'starter' },
+        { call_id: CALL_ID, user_id: 'guest' },
+      ],
+      call_recordings: [],
+      daily_webhook_events: [],
+    },
+    { unique: { call_recordings: [['daily_recording_id']] } }
+  )
+})
+
+describe('POST /api/calls/[id]/recording', () => {
+  it('lets the starter start and stop recording', async () => {
+    expect((await record('start')).status).toBe(200)
+    expect((await record('stop')).status).toBe(200)
+    expect(mocks.daily).toEqual(['start room-1', 'stop room-1'])
+  })
+
+  it('refuses anyone else in the call', async () => {
+    mocks.clerkUserId = 'clerk_guest'
+    expect((await record('start')).status).toBe(403)
+    expect((await record('stop')).status).toBe(403)
+    expect(mocks.daily).toEqual([])
+  })
+
+  it('refuses to record a call that has ended', async () => {
+    mocks.db.rows('calls')[0].status = 'ended'
+    expect((await record('start')).status).toBe(410)
+    expect(mocks.daily).toEqual([])
+  })
+})
+
+describe('recording webhooks', () => {
+  const started = {
+    id: 'evt-start',
+    type: 'recording.started',
+    payload: { room_name: 'room-1', recording_id: 'rec-1', start_ts: Date.parse('2025-03-10T11:00:00Z') / 1000 },
+  }
+  const ready = {
+    id: 'evt-ready',
+    type: 'recording.ready-to-download',
+    payload: { room_name: 'room-1', recording_id: 'rec-1', start_ts: started.payload.start_ts, duration: 421.6 },
+  }
+
+  it('records a recording when Daily starts it and marks it ready when Daily finishes', async () => {
+    await deliver(started)
+    expect(mocks.db.rows('call_recordings')).toMatchObject([
+      { call_id: CALL_ID, daily_recording_id: 'rec-1', status: 'recording', started_at: '2025-03-10T11:00:00.000Z' },
+    ])
+
+    await deliver(ready)
+    expect(mocks.db.rows('call_recordings')).toMatchObject([
+      { call_id: CALL_ID, daily_recording_id: 'rec-1', status: 'ready', duration_seconds: 422 },
+    ])
+  })
+
+  it('keeps a ready recording ready when the start event arrives late', async () => {
+    await deliver(ready)
+    await deliver(started)
+    expect(mocks.db.rows('call_recordings')).toMatchObject([{ daily_recording_id: 'rec-1', status: 'ready' }])
+  })
+
+  it('fails the recording in progress on an error', async () => {
+    await deliver(started)
+    await deliver({ id: 'evt-error', type: 'recording.error', payload: { room_name: 'room-1', error_msg: 'Disk full' } })
+    expect(mocks.db.rows('call_recordings')).toMatchObject([{ status: 'error', error: 'Disk full' }])
+  })
+})
+
+describe('GET /api/calls/[id]/recordings', () => {
+  beforeEach(() => {
+    mocks.db.rows('call_recordings').push(
+      { id: 'r2', call_id: CALL_ID, daily_recording_id: 'rec-2', status: 'recording', started_at: '2025-03-10T11:30:00Z' },
+      { id: 'r1', call_id: CALL_ID, daily_recording_id: 'rec-1', status: 'ready', started_at: '2025-03-10T11:00:00Z' },
+      { id: 'other', call_id: 'call-2', daily_recording_id: 'rec-3', status: 'ready', started_at: '2025-03-10T10:00:00Z' }
+    )
+  })
+
+  it("lists the call's recordings, oldest first, to people in the call", async () => {
+    mocks.clerkUserId = 'clerk_guest'
+    const res = await listRecordings()
+    expect(res.status).toBe(200)
+    const { recordings } = await res.json()
+    expect(recordings.map((r: { id: string }) => r.id)).toEqual(['r1', 'r2'])
+  })
+
+  it('hides the recordings from people who cannot see the call', async () => {
+    mocks.clerkUserId = 'clerk_outsider'
+    const res = await listRecordings()
+    expect(res.status).toBe(404)
+  })
+})
@@ -0,0 +1,114 @@
+import { createHmac } from 'node:crypto'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/webhooks/daily/route'
+import { verifyDailyWebhookSignature } from '@/lib/daily'
+import { createFakeSupabase, type FakeSupabase } from '../helpers/fake-supabase'
+
+const mocks = vi.hoisted(() => {
+  const secret = Buffer.from('test-webhook-secret').toString('base64')
+  process.env.DAILY_WEBHOOK_SECRET = secret
+  return { secret, db: null as unknown as FakeSupabase }
+})
+
+vi.mock('@/lib/supabase-server', () => ({
+  get supabaseAdmin() {
+    return mocks.db.client
+  },
+}))
+
+const CALL_ID = 'call-1'
+const USER_ID = '6f1c2a3b-4d5e-4f60-8a7b-9c0d1e2f3a4b'
+
+function sign(body: string, timestamp: string): string {
+  return createHmac('sha256', Buffer.from(mocks.secret, 'base64')).update(`${timestamp}.${body}`).digest('base64')
+}
+
+function deliver(event: object, sentAt = Date.now()) {
+  const body = JSON.stringify(event)
+  const timestamp = String(Math.floor(sentAt / 1000))
+  return POST(
+    new NextRequest('http://localhost/api/webhooks/daily', {
+      method: 'POST',
+      body,
+      headers: { 'x-webhook-timestamp': timestamp, 'x-webhook-signature': sign(body, timestamp) },
+    })
+  )
+}
+
+describe('verifyDailyWebhookSignature', () => {
+  const now = Date.parse('2025-03-10T12:00:00Z')
+  const body = '{"type":"meeting.ended"}'
+
+  it('accepts a recent, correctly signed request', () => {
+    const timestamp = String(now / 1000 - 30)
+    expect(verifyDailyWebhookSignature(body, timestamp, sign(body, timestamp), now)).toBe(true)
+  })
+
+  it('rejects a correctly signed request that is too old to be a first delivery', () => {
+    const timestamp = String(now / 1000 - 10 * 60)
+    expect(verifyDailyWebhookSignature(body, timestamp, sign(body, timestamp), now)).toBe(false)
+  })
+
+  it('rejects a signature over a different body', () => {
+    const timestamp = String(now / 1000)
+    expect(verifyDailyWebhookSignature(body, timestamp, sign('{}', timestamp), now)).toBe(false)
+  })
+})
+
+describe('POST /api/webhooks/daily', () => {
+  beforeEach(() => {
+    mocks.db = createFakeSupabase({
+      calls: [{ id: CALL_ID, daily_room_name: 'room-1', status: 'active', started_at: new Date().toISOString() }],
+      call_participants: [
+        { call_id: CALL_ID, user_id: USER_ID, joined_at: '2025-03-10T11:00:00.000Z', left_at: null },
+      ],
+      daily_webhook_events: [],
+    })
+  })
+
+  const left = {
+    id: 'evt-1',
+    type: 'participant.left',
+    payload: { room: 'room-1', user_id: USER_ID, joined_at: Date.parse('2025-03-10T11:00:00Z') / 1000, duration: 600 },
+  }
+
+  it('applies an event once and reports redeliveries as duplicates', async () => {
+    const first = await deliver(left)
+    expect(await first.json()).toEqual({ success: true })
+    expect(mocks.db.rows('call_participants')[0].left_at).toBe('2025-03-10T11:10:00.000Z')
+
+    // Pretend the participant rejoined; a redelivered leave must not close the new session
+    mocks.db.rows('call_participants')[0].left_at = null
+
+    const second = await deliver(left)
+    expect(await second.json()).toEqual({ success: true, duplicate: true })
+    expect(mocks.db.rows('call_participants')[0].left_at).toBeNull()
+  })
+
+  it('claims the event before applying it', async () => {
+    await deliver(left)
+    const tables = mocks.db.log.map((entry) => `${entry.mode} ${entry.table}`)
+    expect(tables.indexOf('insert daily_webhook_events')).toBeLessThan(tables.indexOf('update call_participants'))
+  })
+
+  it('accepts the ring of an invitee who joins, from whichever device', async () => {
+    const ring = mocks.db.rows('call_participants')[0]
+    Object.assign(ring, { joined_at: null, ring_status: 'ringing', ring_answered_at: null })
+
+    await deliver({
+      id: 'evt-2',
+      type: 'participant.joined',
+      payload: { room: 'room-1', user_id: USER_ID, joined_at: Date.parse('2025-03-10T11:00:05Z') / 1000 },
+    })
+
+    expect(ring).toMatchObject({ joined_at: '2025-03-10T11:00:05.000Z', ring_status: 'accepted' })
+    expect(ring.ring_answered_at).not.toBeNull()
+  })
+
+  it('refuses a replayed request', async () => {
+    const res = await deliver(left, Date.now() - 10 * 60 * 1000)
+    expect(res.status).toBe(401)
+    expect(mocks.db.rows('daily_webhook_events')).toEqual([])
+  })
+})
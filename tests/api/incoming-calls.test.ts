@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from '@/app/api/calls/incoming/route'
+import { POST as answerPOST } from '@/app/api/calls/[id]/answer/route'
+import { CALL_RING_TIMEOUT_MS } from '@/lib/call-ringing'
+import { createFakeSupabase, type FakeSupabase } from '../helpers/fake-supabase'
+
+const mocks = vi.hoisted(() => ({ db: null as unknown as FakeSupabase }))
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: async () => ({ userId: 'clerk_invitee' }),
+}))
+vi.mock('@/lib/supabase-server', () => ({
+  get supabaseAdmin() {
+    return mocks.db.client
+  },
+}))
+
+const CALLER = { id: 'caller', name: 'Caller', avatar_url: null }
+
+// Calls embed their participant rows, so both tables share the same objects
+function addCall(id: string, startedMsAgo: number) {
+  const ring = { call_id: id, user_id: 'invitee', ring_status: 'ringing', ring_answered_at: null }
+  mocks.db.rows('call_participants').push(ring)
+  mocks.db.rows('calls').push({
+    id,
+    title: `Call ${id}`,
+    status: 'active',
+    started_by: CALLER.id,
+    started_at: new Date(Date.now() - startedMsAgo).toISOString(),
+    starter: CALLER,
+    call_participants: [ring],
+  })
+  return ring
+}
+
+function answer(callId: string, response: string) {
+  return answerPOST(
+    new NextRequest(`http://localhost/api/calls/${callId}/answer`, {
+      method: 'POST',
+      body: JSON.stringify({ response }),
+    }),
+    { params: Promise.resolve({ id: callId }) }
+  )
+}
+
+beforeEach(() => {
+  mocks.db = createFakeSupabase({
+    profiles: [
+      { id: 'invitee', clerk_user_id: 'clerk_invitee', name: 'Invitee' },
+      { id: CALLER.id, clerk_user_id: 'clerk_caller', name: CALLER.name },
+    ],
+    notifications: [],
+  })
+})
+
+describe('GET /api/calls/incoming', () => {
+  it('returns a fresh ring with the time it has left by the server clock', async () => {
+    addCall('fresh', 10 * 1000)
+
+    const { calls } = await (await GET()).json()
+
+    expect(calls).toHaveLength(1)
+    expect(calls[0].call_id).toBe('fresh')
+    expect(calls[0].ring_remaining_ms).toBeGreaterThan(CALL_RING_TIMEOUT_MS - 12 * 1000)
+    expect(calls[0].ring_remaining_ms).toBeLessThanOrEqual(CALL_RING_TIMEOUT_MS - 10 * 1000)
+  })
+
+  it('marks a ring missed once it is older than the timeout, however many tabs were open', async () => {
+    const ring = addCall('stale', CALL_RING_TIMEOUT_MS + 5 * 1000)
+
+    const { calls } = await (await GET()).json()
+
+    expect(calls).toEqual([])
+    expect(ring.ring_status).toBe('missed')
+    expect(mocks.db.rows('notifications')).toMatchObject([
+      { user_id: 'invitee', type: 'missed_call', call_id: 'stale', dedupe_key: 'missed-call:stale' },
+    ])
+  })
+})
+
+describe('POST /api/calls/[id]/answer', () => {
+  it('accepts a ring that is still ringing', async () => {
+    const ring = addCall('fresh', 10 * 1000)
+
+    expect(await (await answer('fresh', 'accepted')).json()).toEqual({ success: true, answered: true })
+    expect(ring.ring_status).toBe('accepted')
+  })
+
+  it('marks a timed out ring missed instead of accepting it', async () => {
+    const ring = addCall('stale', CALL_RING_TIMEOUT_MS + 5 * 1000)
+
+    expect(await (await answer('stale', 'accepted')).json()).toEqual({ success: true, answered: false })
+    expect(ring.ring_status).toBe('missed')
+    expect(mocks.db.rows('notifications')).toMatchObject([{ type: 'missed_call', call_id: 'stale' }])
+  })
+})
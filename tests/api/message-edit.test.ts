@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { PATCH } from '@/app/api/messages/[id]/route'
+import { createFakeSupabase, type FakeSupabase } from '../helpers/fake-supabase'
+
+const mocks = vi.hoisted(() => ({ db: null as unknown as FakeSupabase }))
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: async () => ({ userId: 'clerk_author' }),
+}))
+vi.mock('@/lib/supabase-server', () => ({
+  get supabaseAdmin() {
+    return mocks.db.client
+  },
+}))
+vi.mock('next/server', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('next/server')>()),
+  after: () => {},
+}))
+vi.mock('@/lib/notifications', () => ({ notifyNewMessage: async () => {} }))
+
+function edit(content: string) {
+  return PATCH(
+    new NextRequest('http://localhost/api/messages/m1', {
+      method: 'PATCH',
+      body: JSON.stringify({ content }),
+    }),
+    { params: Promise.resolve({ id: 'm1' }) }
+  )
+}
+
+describe('PATCH /api/messages/[id]', () => {
+  beforeEach(() => {
+    mocks.db = createFakeSupabase({
+      profiles: [{ id: 'author', clerk_user_id: 'clerk_author', name: 'Author' }],
+      channels: [{ id: 'secret', name: 'secret', is_private: true, archived_at: null }],
+      channel_members: [{ channel_id: 'secret', user_id: 'author', role: 'member' }],
+      messages: [
+        { id: 'm1', sender_id: 'author', channel_id: 'secret', chat_id: null, content: 'original', mentions: [], system_event: null },
+      ],
+    })
+  })
+
+  const content = () => mocks.db.rows('messages')[0].content
+
+  it('lets a member edit their message', async () => {
+    const res = await edit('edited')
+    expect(res.status).toBe(200)
+    expect(content()).toBe('edited')
+  })
+
+  it('refuses an author who has left the private channel', async () => {
+    mocks.db.tables.channel_members = []
+
+    const res = await edit('edited')
+    expect(res.status).toBe(404)
+    expect(content()).toBe('original')
+  })
+
+  it('refuses edits in an archived channel', async () => {
+    mocks.db.rows('channels')[0].archived_at = '2025-03-01T00:00:00Z'
+
+    const res = await edit('edited')
+    expect(res.status).toBe(403)
+    expect(content()).toBe('original')
+  })
+
+  it('refuses an author removed from the chat', async () => {
+    Object.assign(mocks.db.rows('messages')[0], { channel_id: null, chat_id: 'group' })
+    mocks.db.rows('chats').push({ id: 'group', name: 'Group', is_group: true })
+
+    const res = await edit('edited')
+    expect(res.status).toBe(404)
+    expect(content()).toBe('original')
+  })
+})
@@ -0,0 +1,301 @@
+/**
+ * In-memory stand-in for the service role Supabase client, for tests of API
+ * routes and server helpers. Supports the query builder calls the app makes:
+ * filters (including on embedded relations, as an inner join), ordering,
+ * limits, single rows and insert/upsert/update/delete with `.select()`.
+ * Selects return whole rows; embedded relations are stored on the row.
+ *
+ * @example
+ * ```ts
+ * const db = createFakeSupabase({ calls: [{ id: 'c1', status: 'active' }] })
+ * vi.mock('@/lib/supabase-server', () => ({ supabaseAdmin: db.client }))
+ * ```
+ */
+
+type Row = Record<string, unknown>
+type Filter = (row: Row) => boolean
+
+interface FakeError {
+  code: string
+  message: string
+}
+
+interface FakeResult {
+  data: unknown
+  error: FakeError | null
+  count?: number
+}
+
+export interface FakeSupabaseOptions {
+  // Column sets that must be unique per table, e.g. { calls: [['daily_room_name']] }
+  unique?: Record<string, string[][]>
+}
+
+// "call_participants.ring_status" filters the embedded call_participants rows
+function matches(row: Row, column: string, test: (value: unknown) => boolean): boolean {
+  const dot = column.indexOf('.')
+  if (dot === -1) return test(row[column])
+  const relation = row[column.slice(0, dot)]
+  const nestedColumn = column.slice(dot + 1)
+  if (Array.isArray(relation)) return relation.some((r) => matches(r as Row, nestedColumn, test))
+  if (relation && typeof relation === 'object') return matches(relation as Row, nestedColumn, test)
+  return false
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === null || a === undefined) return -1
+  if (b === null || b === undefined) return 1
+  return String(a) < String(b) ? -1 : 1
+}
+
+class FakeQuery implements PromiseLike<FakeResult> {
+  private filters: Filter[] = []
+  private nestedFilters: { relation: string; filter: Filter }[] = []
+  private orderBy: { column: string; ascending: boolean }[] = []
+  private limitTo: number | null = null
+  private mode: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select'
+  private values: Row[] = []
+  private upsertOptions: { onConflict?: string; ignoreDuplicates?: boolean } = {}
+  private returning = false
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many'
+  private head = false
+
+  constructor(
+    private readonly db: FakeSupabase,
+    private readonly table: string
+  ) {}
+
+  select(_columns?: string, options?: { count?: string; head?: boolean }) {
+    if (this.mode !== 'select') this.returning = true
+    if (options?.head) this.head = true
+    return this
+  }
+
+  insert(values: Row | Row[]) {
+    this.mode = 'insert'
+    this.values = Array.isArray(values) ? values : [values]
+    return this
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.mode = 'upsert'
+    this.values = Array.isArray(values) ? values : [values]
+    this.upsertOptions = options
+    return this
+  }
+
+  update(values: Row) {
+    this.mode = 'update'
+    this.values = [values]
+    return this
+  }
+
+  delete() {
+    this.mode = 'delete'
+    return this
+  }
+
+  private where(column: string, test: (value: unknown) => boolean) {
+    this.filters.push((row) => matches(row, column, test))
+    const dot = column.indexOf('.')
+    if (dot !== -1) {
+      const nestedColumn = column.slice(dot + 1)
+      this.nestedFilters.push({
+        relation: column.slice(0, dot),
+        filter: (row) => matches(row, nestedColumn, test),
+      })
+    }
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    return this.where(column, (v) => v === value)
+  }
+
+  neq(column: string, value: unknown) {
+    return this.where(column, (v) => v !== value)
+  }
+
+  in(column: string, values: unknown[]) {
+    return this.where(column, (v) => values.includes(v))
+  }
+
+  is(column: string, value: null | boolean) {
+    return this.where(column, (v) => (value === null ? v === null || v === undefined : v === value))
+  }
+
+  not(column: string, operator: 'is', value: null) {
+    return this.where(column, (v) => (operator === 'is' && value === null ? v !== null && v !== undefined : true))
+  }
+
+  lt(column: string, value: unknown) {
+    return this.where(column, (v) => v !== null && v !== undefined && compare(v, value) < 0)
+  }
+
+  lte(column: string, value: unknown) {
+    return this.where(column, (v) => v !== null && v !== undefined && compare(v, value) <= 0)
+  }
+
+  gt(column: string, value: unknown) {
+    return this.where(column, (v) => v !== null && v !== undefined && compare(v, value) > 0)
+  }
+
+  gte(column: string, value: unknown) {
+    return this.where(column, (v) => v !== null && v !== undefined && compare(v, value) >= 0)
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orderBy.push({ column, ascending: options.ascending ?? true })
+    return this
+  }
+
+  limit(count: number) {
+    this.limitTo = count
+    return this
+  }
+
+  single() {
+    this.cardinality = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.cardinality = 'maybeSingle'
+    return this
+  }
+
+  then<TResult1 = FakeResult, TResult2 = never>(
+    onfulfilled?: ((value: FakeResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.run()).then(onfulfilled, onrejected)
+  }
+
+  private matching(): Row[] {
+    return this.db.rows(this.table).filter((row) => this.filters.every((f) => f(row)))
+  }
+
+  private run(): FakeResult {
+    this.db.log.push({ table: this.table, mode: this.mode, values: this.values })
+    switch (this.mode) {
+      case 'select':
+        return this.finish(this.matching())
+      case 'insert': {
+        const inserted: Row[] = []
+        for (const value of this.values) {
+          const conflict = this.db.findConflict(this.table, value)
+          if (conflict) return { data: null, error: { code: '23505', message: 'duplicate key value' } }
+          inserted.push(this.db.insertRow(this.table, value))
+        }
+        return this.finish(inserted)
+      }
+      case 'upsert': {
+        const written: Row[] = []
+        const keys = this.upsertOptions.onConflict?.split(',').map((k) => k.trim())
+        for (const value of this.values) {
+          const existing = keys
+            ? this.db.rows(this.table).find((row) => keys.every((k) => row[k] === value[k]))
+            : this.db.findConflict(this.table, value)
+          if (existing) {
+            if (this.upsertOptions.ignoreDuplicates) continue
+            Object.assign(existing, value)
+            written.push(existing)
+          } else {
+            written.push(this.db.insertRow(this.table, value))
+          }
+        }
+        return this.finish(written)
+      }
+      case 'update': {
+        const updated = this.matching()
+        for (const row of updated) Object.assign(row, this.values[0])
+        return this.finish(updated)
+      }
+      case 'delete': {
+        const deleted = this.matching()
+        this.db.tables[this.table] = this.db.rows(this.table).filter((row) => !deleted.includes(row))
+        return this.finish(deleted)
+      }
+    }
+  }
+
+  private finish(rows: Row[]): FakeResult {
+    if (this.mode !== 'select' && !this.returning) return { data: null, error: null }
+
+    let result = rows.map((row) => this.project(row))
+    for (const { column, ascending } of [...this.orderBy].reverse()) {
+      result = [...result].sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1))
+    }
+    if (this.limitTo !== null) result = result.slice(0, this.limitTo)
+    if (this.head) return { data: null, error: null, count: result.length }
+
+    if (this.cardinality === 'many') return { data: result, error: null, count: result.length }
+    if (result.length > 1) {
+      return { data: null, error: { code: 'PGRST116', message: 'multiple rows returned' } }
+    }
+    if (result.length === 0 && this.cardinality === 'single') {
+      return { data: null, error: { code: 'PGRST116', message: 'no rows returned' } }
+    }
+    return { data: result[0] ?? null, error: null }
+  }
+
+  // Filters on an embedded relation also narrow the embedded rows, as an inner join does
+  private project(row: Row): Row {
+    if (this.nestedFilters.length === 0) return { ...row }
+    const copy: Row = { ...row }
+    for (const { relation, filter } of this.nestedFilters) {
+      if (Array.isArray(copy[relation])) copy[relation] = (copy[relation] as Row[]).filter(filter)
+    }
+    return copy
+  }
+}
+
+export class FakeSupabase {
+  readonly tables: Record<string, Row[]>
+  readonly log: { table: string; mode: string; values: Row[] }[] = []
+  readonly signedUrls: string[] = []
+  private nextId = 1
+
+  constructor(
+    tables: Record<string, Row[]> = {},
+    private readonly options: FakeSupabaseOptions = {}
+  ) {
+    this.tables = Object.fromEntries(
+      Object.entries(tables).map(([name, rows]) => [name, rows.map((r) => ({ ...r }))])
+    )
+  }
+
+  rows(table: string): Row[] {
+    return (this.tables[table] ??= [])
+  }
+
+  findConflict(table: string, value: Row): Row | undefined {
+    const keySets = [['id'], ...(this.options.unique?.[table] ?? [])]
+    return this.rows(table).find((row) =>
+      keySets.some((keys) => keys.every((k) => value[k] !== undefined && row[k] === value[k]))
+    )
+  }
+
+  insertRow(table: string, value: Row): Row {
+    const row = { id: `${table}-${this.nextId++}`, ...value }
+    this.rows(table).push(row)
+    return row
+  }
+
+  readonly client = {
+    from: (table: string) => new FakeQuery(this, table),
+    storage: {
+      from: (_bucket: string) => ({
+        createSignedUrl: async (path: string) => {
+          this.signedUrls.push(path)
+          return { data: { signedUrl: `https://storage.test/${path}?token=signed` }, error: null }
+        },
+      }),
+    },
+  }
+}
+
+export function createFakeSupabase(tables?: Record<string, Row[]>, options?: FakeSupabaseOptions) {
+  return new FakeSupabase(tables, options)
+}
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { sendDueEventReminders } from '@/lib/notifications'
+import { createFakeSupabase, type FakeSupabase } from '../helpers/fake-supabase'
+
+const mocks = vi.hoisted(() => ({ db: null as unknown as FakeSupabase }))
+
+vi.mock('@/lib/supabase-server', () => ({
+  get supabaseAdmin() {
+    return mocks.db.client
+  },
+}))
+
+const NOW = new Date('2025-03-10T08:50:00Z')
+
+function participant(id: string, response: string) {
+  return { user_id: id, response, profiles: { id, name: id, email: `${id}@example.com`, avatar_url: null } }
+}
+
+describe('sendDueEventReminders', () => {
+  beforeEach(() => {
+    mocks.db = createFakeSupabase({
+      profiles: [
+        { id: 'organizer', reminder_offsets: [10] },
+        { id: 'going', reminder_offsets: [10, 60] },
+        { id: 'declined', reminder_offsets: [10] },
+        { id: 'later', reminder_offsets: [5] },
+        { id: 'elsewhere', reminder_offsets: [10] },
+      ],
+      calendar_events: [
+        {
+          id: 'standup',
+          title: 'Standup',
+          event_date: '2025-03-10',
+          start_time: '09:00',
+          end_time: '09:15',
+          time_zone: 'UTC',
+          starts_at: '2025-03-10T09:00:00Z',
+          ends_at: '2025-03-10T09:15:00Z',
+          created_by: 'organizer',
+          call_id: null,
+          recurrence_rule: null,
+          recurrence_parent_id: null,
+          recurrence_id: null,
+          event_participants: [
+            participant('organizer', 'accepted'),
+            participant('going', 'accepted'),
+            participant('declined', 'declined'),
+            participant('later', 'needs-action'),
+          ],
+        },
+      ],
+      notifications: [],
+    })
+  })
+
+  it("reminds each participant who hasn't declined at their own offsets", async () => {
+    expect(await sendDueEventReminders(NOW)).toBe(2)
+
+    const reminders = mocks.db.rows('notifications').map((n) => [n.user_id, n.dedupe_key])
+    expect(reminders).toEqual([
+      ['organizer', 'reminder:standup::10'],
+      ['going', 'reminder:standup::10'],
+    ])
+  })
+
+  it('skips reminder preferences entirely when no events are coming up', async () => {
+    mocks.db.tables.calendar_events = []
+
+    expect(await sendDueEventReminders(NOW)).toBe(0)
+    expect(mocks.db.log.filter((entry) => entry.table === 'profiles')).toEqual([])
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import { buildICalendar, parseICalendar, type ICalEventInput } from '@/lib/ical'
+
+const standup: ICalEventInput = {
+  uid: 'event-1@devcollab',
+  summary: 'Standup; daily, short',
+  description: 'Line one\nLine two',
+  date: '2025-03-10',
+  startTime: '09:30',
+  endTime: '09:45',
+  timeZone: 'Europe/Berlin',
+  location: null,
+  rrule: 'FREQ=WEEKLY;BYDAY=MO,WE',
+  exdates: ['2025-03-12'],
+  recurrenceId: null,
+  created: '2025-03-01T08:00:00Z',
+  organizer: { email: 'ana@example.com', name: 'Ana' },
+  attendees: [
+    { email: 'ben@example.com', name: 'Ben, PM', response: 'accepted' },
+    { email: 'cy@example.com', name: null, optional: true },
+  ],
+}
+
+describe('buildICalendar', () => {
+  it('writes zoned times, escaped text and attendee parameters', () => {
+    const ics = buildICalendar([standup], 'Ana')
+    const lines = ics.replace(/\r\n /g, '').split('\r\n')
+
+    expect(lines).toContain('DTSTART;TZID=Europe/Berlin:20250310T093000')
+    expect(lines).toContain('DTEND;TZID=Europe/Berlin:20250310T094500')
+    expect(lines).toContain('EXDATE;TZID=Europe/Berlin:20250312T093000')
+    expect(lines).toContain('SUMMARY:Standup\\; daily\\, short')
+    expect(lines).toContain('DESCRIPTION:Line one\\nLine two')
+    expect(lines).toContain('ATTENDEE;CN="Ben, PM";ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:ben@example.com')
+    expect(lines).toContain('ATTENDEE;ROLE=OPT-PARTICIPANT;PARTSTAT=NEEDS-ACTION:mailto:cy@example.com')
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+  })
+
+  it('ends an event that crosses midnight on the next day, in UTC as Z times', () => {
+    const ics = buildICalendar([{ ...standup, startTime: '23:00', endTime: '01:00', timeZone: 'UTC' }], 'Ana')
+    expect(ics).toContain('DTSTART:20250310T230000Z')
+    expect(ics).toContain('DTEND:20250311T010000Z')
+  })
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const ics = buildICalendar([{ ...standup, description: 'Überprüfung '.repeat(20) }], 'Ana')
+    for (const line of ics.split('\r\n')) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75)
+    }
+    expect(parseICalendar(ics)[0].description).toBe('Überprüfung '.repeat(20).trim())
+  })
+})
+
+describe('parseICalendar', () => {
+  it('reads back what buildICalendar writes', () => {
+    const [event] = parseICalendar(buildICalendar([standup], 'Ana'))
+
+    expect(event).toMatchObject({
+      uid: 'event-1@devcollab',
+      summary: 'Standup; daily, short',
+      description: 'Line one\nLine two',
+      start: { date: '2025-03-10', time: '09:30', utc: false, tzid: 'Europe/Berlin' },
+      end: { date: '2025-03-10', time: '09:45', utc: false, tzid: 'Europe/Berlin' },
+      rrule: 'FREQ=WEEKLY;BYDAY=MO,WE',
+      exdates: ['2025-03-12'],
+      recurrenceId: null,
+    })
+    expect(event.attendees).toEqual([
+      { email: 'ben@example.com', name: 'Ben, PM', response: 'accepted', optional: false },
+      { email: 'cy@example.com', name: null, response: 'needs-action', optional: true },
+    ])
+  })
+
+  it('handles all-day events, durations and nested components', () => {
+    const events = parseICalendar(
+      [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:holiday',
+        'SUMMARY:Holiday',
+        'DTSTART;VALUE=DATE:20250418',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:review',
+        'SUMMARY:Review',
+        'DTSTART:20250310T140000Z',
+        'DURATION:PT1H30M',
+        'BEGIN:VALARM',
+        'SUMMARY:Not the event title',
+        'END:VALARM',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'SUMMARY:No start, skipped',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\n')
+    )
+
+    expect(events.map((e) => e.uid)).toEqual(['holiday', 'review'])
+    expect(events[0].start).toEqual({ date: '2025-04-18', time: null, utc: false, tzid: null })
+    expect(events[1]).toMatchObject({
+      summary: 'Review',
+      start: { date: '2025-03-10', time: '14:00', utc: true },
+      end: null,
+      durationMinutes: 90,
+    })
+  })
+})
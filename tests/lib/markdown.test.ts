@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import {
+  applyMarkdownFormat,
+  isInsideCodeFence,
+  markdownToPlainText,
+  parseInline,
+  parseMarkdown,
+  safeHref,
+} from '@/lib/markdown'
+
+describe('safeHref', () => {
+  it('allows http(s) and mailto links only', () => {
+    expect(safeHref('https://example.com/a?b=1')).toBe('https://example.com/a?b=1')
+    expect(safeHref('mailto:ana@example.com')).toBe('mailto:ana@example.com')
+    expect(safeHref('javascript:alert(1)')).toBeNull()
+    expect(safeHref(' JavaScript:alert(1)')).toBeNull()
+    expect(safeHref('data:text/html,<b>hi</b>')).toBeNull()
+    expect(safeHref('/relative')).toBeNull()
+  })
+})
+
+describe('parseInline', () => {
+  it('parses emphasis, code and links', () => {
+    expect(parseInline('**bold** _em_ ~~gone~~ `a*b*`')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+      { type: 'text', text: ' ' },
+      { type: 'em', children: [{ type: 'text', text: 'em' }] },
+      { type: 'text', text: ' ' },
+      { type: 'strike', children: [{ type: 'text', text: 'gone' }] },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: 'a*b*' },
+    ])
+  })
+
+  it('links only safe targets and leaves the rest as text', () => {
+    expect(parseInline('[docs](https://example.com)')).toEqual([
+      { type: 'link', href: 'https://example.com/', children: [{ type: 'text', text: 'docs' }] },
+    ])
+    expect(parseInline('[click](javascript:alert(1))').some((n) => n.type === 'link')).toBe(false)
+  })
+
+  it('links bare URLs without trailing punctuation', () => {
+    const nodes = parseInline('see https://example.com/page.')
+    expect(nodes).toContainEqual({
+      type: 'link',
+      href: 'https://example.com/page',
+      children: [{ type: 'text', text: 'https://example.com/page' }],
+    })
+    expect(markdownToPlainText('see https://example.com/page.')).toBe('see https://example.com/page.')
+  })
+
+  it('keeps raw HTML and escaped markers as text', () => {
+    expect(markdownToPlainText('<b>hi</b> \\*not em\\*')).toBe('<b>hi</b> *not em*')
+    expect(parseInline('snake_case_name')).toEqual([{ type: 'text', text: 'snake_case_name' }])
+  })
+})
+
+describe('parseMarkdown', () => {
+  it('parses fenced code, quotes and nested lists', () => {
+    const blocks = parseMarkdown('```ts\nconst a = 1\n```\n> quoted\n- one\n  1. nested\n- two')
+    expect(blocks[0]).toEqual({ type: 'code', lang: 'ts', text: 'const a = 1' })
+    expect(blocks[1]).toMatchObject({ type: 'blockquote', children: [{ type: 'paragraph' }] })
+    expect(blocks[2]).toMatchObject({
+      type: 'list',
+      ordered: false,
+      items: [
+        [{ type: 'paragraph' }, { type: 'list', ordered: true, start: 1 }],
+        [{ type: 'paragraph' }],
+      ],
+    })
+  })
+
+  it('treats single newlines as line breaks', () => {
+    expect(parseMarkdown('one\ntwo')).toEqual([
+      {
+        type: 'paragraph',
+        children: [{ type: 'text', text: 'one' }, { type: 'break' }, { type: 'text', text: 'two' }],
+      },
+    ])
+  })
+})
+
+describe('markdownToPlainText', () => {
+  it('drops formatting for previews', () => {
+    expect(markdownToPlainText('**Deploy** done, see [notes](https://example.com)\n- `v2`')).toBe(
+      'Deploy done, see notes\nv2'
+    )
+  })
+})
+
+describe('applyMarkdownFormat', () => {
+  it('wraps the selection and unwraps it again', () => {
+    const wrapped = applyMarkdownFormat('make this bold', 5, 9, 'bold')
+    expect(wrapped).toEqual({ value: 'make **this** bold', selectionStart: 7, selectionEnd: 11 })
+    expect(applyMarkdownFormat(wrapped.value, wrapped.selectionStart, wrapped.selectionEnd, 'bold')).toEqual({
+      value: 'make this bold',
+      selectionStart: 5,
+      selectionEnd: 9,
+    })
+  })
+
+  it('selects the URL placeholder of a new link', () => {
+    const result = applyMarkdownFormat('docs', 0, 4, 'link')
+    expect(result.value).toBe('[docs](https://)')
+    expect(result.value.slice(result.selectionStart, result.selectionEnd)).toBe('https://')
+  })
+
+  it('numbers every selected line and toggles the list off again', () => {
+    const listed = applyMarkdownFormat('a\nb', 0, 3, 'numberedList')
+    expect(listed.value).toBe('1. a\n2. b')
+    expect(applyMarkdownFormat(listed.value, 0, listed.value.length, 'numberedList').value).toBe('a\nb')
+  })
+
+  it('fences the selected lines as a code block', () => {
+    expect(applyMarkdownFormat('run\nnpm test', 4, 12, 'codeBlock').value).toBe('run\n```\nnpm test\n```')
+  })
+})
+
+describe('isInsideCodeFence', () => {
+  it('is true only between an opening fence and its close', () => {
+    expect(isInsideCodeFence('```js\nconst a', 13)).toBe(true)
+    expect(isInsideCodeFence('```js\nconst a\n```\n', 18)).toBe(false)
+    expect(isInsideCodeFence('plain', 5)).toBe(false)
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from '@/app/api/messages/route'
+import { decodeMessageCursor, encodeMessageCursor } from '@/lib/message-cursor'
+
+vi.mock('@clerk/nextjs/server', () => ({ auth: async () => ({ userId: null }) }))
+vi.mock('@/lib/supabase-server', () => ({ supabaseAdmin: {} }))
+
+const MESSAGE = { created_at: '2025-03-10T12:00:00.123456+00:00', id: '6f1c2a3b-4d5e-4f60-8a7b-9c0d1e2f3a4b' }
+
+describe('message cursors', () => {
+  it('round-trip the timestamp, microseconds included, and the ID', () => {
+    expect(decodeMessageCursor(encodeMessageCursor(MESSAGE))).toEqual({
+      createdAt: MESSAGE.created_at,
+      id: MESSAGE.id,
+    })
+  })
+
+  it('reject anything that is not a timestamp and UUID pair', () => {
+    expect(decodeMessageCursor('not base64!')).toBeNull()
+    expect(decodeMessageCursor(btoa('{"createdAt":"2025-03-10T12:00:00Z"}'))).toBeNull()
+    expect(decodeMessageCursor(btoa(JSON.stringify([MESSAGE.created_at, `${MESSAGE.id},id.gt.0`])))).toBeNull()
+    expect(decodeMessageCursor(btoa(JSON.stringify(['2025-03-10"),or(true', MESSAGE.id])))).toBeNull()
+  })
+
+  it('make GET /api/messages refuse a malformed cursor', async () => {
+    const res = await GET(new NextRequest('http://localhost/api/messages?channelId=c1&before=garbage'))
+    expect(res.status).toBe(400)
+    expect(await res.json()).toEqual({ error: 'Invalid cursor' })
+  })
+})
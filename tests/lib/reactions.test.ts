@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { QUICK_REACTIONS, isValidEmoji } from '@/lib/reactions'
+
+describe('isValidEmoji', () => {
+  it('accepts the quick reactions', () => {
+    for (const emoji of QUICK_REACTIONS) expect(isValidEmoji(emoji)).toBe(true)
+  })
+
+  it('accepts skin tones, joined sequences, flags and keycaps', () => {
+    expect(isValidEmoji('👍🏽')).toBe(true)
+    expect(isValidEmoji('👩‍💻')).toBe(true)
+    expect(isValidEmoji('👨‍👩‍👧‍👦')).toBe(true)
+    expect(isValidEmoji('🏳️‍🌈')).toBe(true)
+    expect(isValidEmoji('🇯🇵')).toBe(true)
+    expect(isValidEmoji('1️⃣')).toBe(true)
+  })
+
+  it('rejects text, markup and more than one emoji', () => {
+    expect(isValidEmoji('lol')).toBe(false)
+    expect(isValidEmoji('<b>')).toBe(false)
+    expect(isValidEmoji('👍 ')).toBe(false)
+    expect(isValidEmoji('👍👍')).toBe(false)
+    expect(isValidEmoji('')).toBe(false)
+    expect(isValidEmoji(null)).toBe(false)
+  })
+})
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { reapStaleCalls } from '@/lib/calls'
+import type { DailyRoom } from '@/lib/daily'
+import { createFakeSupabase, type FakeSupabase } from '../helpers/fake-supabase'
+
+const mocks = vi.hoisted(() => ({
+  db: null as unknown as FakeSupabase,
+  rooms: [] as DailyRoom[],
+  deleted: [] as string[],
+}))
+
+vi.mock('@/lib/supabase-server', () => ({
+  get supabaseAdmin() {
+    return mocks.db.client
+  },
+}))
+vi.mock('@/lib/daily', () => ({
+  getDailyRoom: async (name: string) => mocks.rooms.find((room) => room.name === name) ?? null,
+  getDailyRoomPresence: async () => 0,
+  listDailyRooms: async () => mocks.rooms,
+  deleteDailyRoom: async (name: string) => {
+    mocks.deleted.push(name)
+  },
+}))
+
+const NOW = new Date('2025-03-10T12:00:00Z')
+const HOUR_AGO = Math.floor(NOW.getTime() / 1000) - 60 * 60
+const TOMORROW = Math.floor(NOW.getTime() / 1000) + 24 * 60 * 60
+
+function room(name: string, exp?: number): DailyRoom {
+  return { id: name, name, url: `https://example.daily.co/${name}`, created_at: '2025-03-01T00:00:00Z', config: { exp } }
+}
+
+describe('reapStaleCalls room cleanup', () => {
+  beforeEach(() => {
+    mocks.deleted = []
+    mocks.db = createFakeSupabase({
+      calls: [
+        { id: 'ended', daily_room_name: 'ended-room', status: 'ended', started_at: '2025-03-09T10:00:00Z' },
+        { id: 'event', daily_room_name: 'event-room', status: 'ended', started_at: '2025-03-01T10:00:00Z' },
+        { id: 'live', daily_room_name: 'live-room', status: 'active', started_at: '2025-03-10T11:58:00Z', call_participants: [] },
+      ],
+      call_participants: [],
+    })
+    mocks.rooms = [
+      room('ended-room', TOMORROW),
+      room('event-room', HOUR_AGO),
+      room('live-room', TOMORROW),
+      room('other-app-expired', HOUR_AGO),
+      room('other-app-room'),
+    ]
+  })
+
+  it('deletes rooms of ended or expired calls and leaves other rooms on the account alone', async () => {
+    const report = await reapStaleCalls(NOW)
+
+    expect(report.errors).toEqual([])
+    expect(report.rooms_deleted).toEqual(['ended-room', 'event-room'])
+    expect(mocks.deleted).toEqual(['ended-room', 'event-room'])
+  })
+})
+
+describe('reapStaleCalls scheduled event calls', () => {
+  const event = (id: string, eventDate: string, recurrenceRule: string | null = null) => ({
+    id,
+    event_date: eventDate,
+    start_time: '09:00',
+    end_time: '10:00',
+    time_zone: 'UTC',
+    starts_at: `${eventDate}T09:00:00Z`,
+    ends_at: `${eventDate}T10:00:00Z`,
+    recurrence_rule: recurrenceRule,
+  })
+  const eventCall = (id: string, eventId: string) => ({
+    id,
+    daily_room_name: `${id}-room`,
+    status: 'active',
+    started_at: '2025-03-01T10:00:00Z',
+    calendar_event_id: eventId,
+    call_participants: [],
+  })
+
+  beforeEach(() => {
+    mocks.deleted = []
+    mocks.db = createFakeSupabase({
+      calendar_events: [
+        event('next-week', '2025-03-17'),
+        event('weekly', '2025-03-03', 'FREQ=WEEKLY;COUNT=4'),
+        event('last-week', '2025-03-03'),
+      ],
+      calls: [eventCall('upcoming', 'next-week'), eventCall('series', 'weekly'), eventCall('over', 'last-week')],
+      call_participants: [],
+    })
+    mocks.rooms = [room('upcoming-room', TOMORROW), room('series-room', TOMORROW), room('over-room', TOMORROW)]
+  })
+
+  it('keeps the room of an event that has not happened yet, or whose series has not ended', async () => {
+    const report = await reapStaleCalls(NOW)
+
+    expect(report.errors).toEqual([])
+    expect(report.calls_ended).toEqual([{ call_id: 'over', room_name: 'over-room', reason: 'empty' }])
+    expect(mocks.deleted).toEqual(['over-room'])
+    expect(mocks.db.rows('calls').find((c) => c.id === 'upcoming')).toMatchObject({ status: 'active' })
+  })
+})
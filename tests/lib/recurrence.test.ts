@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import {
+  continueRule,
+  describeRRule,
+  expandOccurrences,
+  formatRRule,
+  nthWeekdayOf,
+  parseRRule,
+  truncateRule,
+  type RecurrenceRule,
+} from '@/lib/recurrence'
+
+function rule(input: string): RecurrenceRule {
+  const parsed = parseRRule(input)
+  if (!parsed) throw new Error(`unsupported rule ${input}`)
+  return parsed
+}
+
+describe('parseRRule and formatRRule', () => {
+  it('round-trips a rule in canonical form', () => {
+    const parsed = rule('RRULE:freq=weekly;byday=WE,MO;COUNT=4')
+    expect(parsed).toMatchObject({ freq: 'WEEKLY', byDay: ['MO', 'WE'], count: 4 })
+    expect(formatRRule(parsed)).toBe('FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4')
+  })
+
+  it('reads UNTIL as a date, with or without a time', () => {
+    expect(rule('FREQ=DAILY;UNTIL=20250331T235959Z').until).toBe('2025-03-31')
+    expect(rule('FREQ=DAILY;UNTIL=20250331').until).toBe('2025-03-31')
+  })
+
+  it('rejects rules the calendar cannot represent', () => {
+    expect(parseRRule('FREQ=YEARLY')).toBeNull()
+    expect(parseRRule('FREQ=DAILY;BYSETPOS=1')).toBeNull()
+    expect(parseRRule('FREQ=DAILY;COUNT=3;UNTIL=20250101')).toBeNull()
+    expect(parseRRule('FREQ=MONTHLY;BYDAY=MO,TU')).toBeNull()
+    expect(parseRRule('FREQ=DAILY;INTERVAL=0')).toBeNull()
+  })
+})
+
+describe('expandOccurrences', () => {
+  it('expands weekly days and spends COUNT from the start of the series', () => {
+    const weekly = rule('FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4')
+    expect(expandOccurrences(weekly, '2025-03-03', '2025-03-01', '2025-03-31')).toEqual([
+      '2025-03-03',
+      '2025-03-05',
+      '2025-03-10',
+      '2025-03-12',
+    ])
+    expect(expandOccurrences(weekly, '2025-03-03', '2025-03-06', '2025-03-31')).toEqual(['2025-03-10', '2025-03-12'])
+  })
+
+  it('skips months without the day of the month', () => {
+    expect(expandOccurrences(rule('FREQ=MONTHLY'), '2025-01-31', '2025-01-01', '2025-06-30')).toEqual([
+      '2025-01-31',
+      '2025-03-31',
+      '2025-05-31',
+    ])
+  })
+
+  it('finds the last weekday of each month', () => {
+    expect(expandOccurrences(rule('FREQ=MONTHLY;BYDAY=-1FR'), '2025-01-31', '2025-01-01', '2025-04-30')).toEqual([
+      '2025-01-31',
+      '2025-02-28',
+      '2025-03-28',
+      '2025-04-25',
+    ])
+  })
+
+  it('stops at UNTIL', () => {
+    expect(expandOccurrences(rule('FREQ=DAILY;INTERVAL=2;UNTIL=20250307'), '2025-03-01', '2025-03-01', '2025-03-31')).toEqual([
+      '2025-03-01',
+      '2025-03-03',
+      '2025-03-05',
+      '2025-03-07',
+    ])
+  })
+})
+
+describe('splitting a series', () => {
+  const daily = rule('FREQ=DAILY;COUNT=10')
+
+  it('ends the earlier part the day before the split', () => {
+    expect(truncateRule(daily, '2025-03-01', '2025-03-05')).toMatchObject({ count: null, until: '2025-03-04' })
+    expect(truncateRule(daily, '2025-03-01', '2025-03-01')).toBeNull()
+  })
+
+  it('carries the remaining COUNT into the later part', () => {
+    expect(continueRule(daily, '2025-03-01', '2025-03-05').count).toBe(6)
+  })
+})
+
+describe('nthWeekdayOf', () => {
+  it('numbers weekdays within the month, with -1 for the last', () => {
+    expect(nthWeekdayOf('2025-03-11')).toBe(2)
+    expect(nthWeekdayOf('2025-03-28')).toBe(-1)
+  })
+})
+
+describe('describeRRule', () => {
+  it('summarizes a rule', () => {
+    expect(describeRRule(rule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10'))).toBe('Every 2 weeks on Mon, Wed, 10 times')
+    expect(describeRRule(rule('FREQ=MONTHLY;BYMONTHDAY=-1'))).toBe('Every month on the last day')
+  })
+})
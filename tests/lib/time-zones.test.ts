@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import {
+  eventInstants,
+  formatTimeZoneCity,
+  getTimeZoneOffset,
+  isTimeString,
+  isValidTimeZone,
+  toZonedParts,
+  zonedTimeToUtc,
+} from '@/lib/time-zones'
+
+describe('zonedTimeToUtc', () => {
+  it("follows each zone's DST rules", () => {
+    expect(zonedTimeToUtc('2025-03-07', '09:00', 'America/New_York').toISOString()).toBe('2025-03-07T14:00:00.000Z')
+    expect(zonedTimeToUtc('2025-03-10', '09:00', 'America/New_York').toISOString()).toBe('2025-03-10T13:00:00.000Z')
+    expect(zonedTimeToUtc('2025-07-01', '09:00', 'Asia/Kolkata').toISOString()).toBe('2025-07-01T03:30:00.000Z')
+  })
+
+  it('moves a clock time skipped by a DST jump to after the jump, east or west of UTC', () => {
+    // 02:30 doesn't exist on these days; it reads as 03:30 in summer time
+    expect(zonedTimeToUtc('2025-03-09', '02:30', 'America/New_York').toISOString()).toBe('2025-03-09T07:30:00.000Z')
+    expect(zonedTimeToUtc('2025-03-30', '02:30', 'Europe/Berlin').toISOString()).toBe('2025-03-30T01:30:00.000Z')
+  })
+
+  it('is the inverse of toZonedParts away from DST changes', () => {
+    const instant = zonedTimeToUtc('2025-03-10', '08:30', 'Asia/Tokyo')
+    expect(toZonedParts(instant, 'Asia/Tokyo')).toEqual({ date: '2025-03-10', time: '08:30', minutes: 510 })
+  })
+})
+
+describe('eventInstants', () => {
+  it('ends an event whose end time is at or before its start on the next day', () => {
+    expect(eventInstants('2025-03-08', '23:00', '01:00', 'America/New_York')).toEqual({
+      starts_at: '2025-03-09T04:00:00.000Z',
+      ends_at: '2025-03-09T06:00:00.000Z',
+    })
+  })
+
+  it('keeps the wall-clock times of an event across a DST change', () => {
+    const { starts_at, ends_at } = eventInstants('2025-03-09', '09:00', '10:00', 'America/New_York')
+    expect([starts_at, ends_at]).toEqual(['2025-03-09T13:00:00.000Z', '2025-03-09T14:00:00.000Z'])
+  })
+})
+
+describe('getTimeZoneOffset', () => {
+  it('returns minutes east of UTC', () => {
+    expect(getTimeZoneOffset(Date.parse('2025-07-01T00:00:00Z'), 'Asia/Kolkata')).toBe(330)
+    expect(getTimeZoneOffset(Date.parse('2025-01-15T12:00:00Z'), 'America/Los_Angeles')).toBe(-480)
+  })
+})
+
+describe('validation and labels', () => {
+  it('accepts IANA zones and 24-hour times only', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true)
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false)
+    expect(isTimeString('23:59')).toBe(true)
+    expect(isTimeString('09:30:15')).toBe(true)
+    expect(isTimeString('24:00')).toBe(false)
+    expect(isTimeString('9:30')).toBe(false)
+  })
+
+  it('names a zone by its city', () => {
+    expect(formatTimeZoneCity('America/Argentina/Buenos_Aires')).toBe('Buenos Aires')
+  })
+})
@@ -0,0 +1,95 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { PUBLIC_NETWORK, isBlockedAddress, unfurlUrl, type UnfurlNetwork } from '@/lib/unfurl'
+import { createFakeSupabase, type FakeSupabase } from '../helpers/fake-supabase'
+
+const mocks = vi.hoisted(() => ({ db: null as unknown as FakeSupabase }))
+
+vi.mock('@/lib/supabase-server', () => ({
+  get supabaseAdmin() {
+    return mocks.db.client
+  },
+}))
+
+describe('isBlockedAddress', () => {
+  it('blocks 6to4 and Teredo addresses, which tunnel to IPv4', () => {
+    expect(isBlockedAddress('2002:c0a8:101::1')).toBe(true)
+    expect(isBlockedAddress('2002:7f00:1::')).toBe(true)
+    expect(isBlockedAddress('2001:0:4136:e378:8000:63bf:3fff:fdd2')).toBe(true)
+  })
+
+  it('allows ordinary public addresses', () => {
+    expect(isBlockedAddress('2001:4860:4860::8888')).toBe(false)
+    expect(isBlockedAddress('2606:4700:4700::1111')).toBe(false)
+    expect(isBlockedAddress('93.184.216.34')).toBe(false)
+  })
+})
+
+describe('unfurlUrl', () => {
+  let server: http.Server
+  let origin: string
+  const requests: string[] = []
+
+  // Lets the stub server on loopback through; every other rule still applies
+  const stubNetwork: UnfurlNetwork = {
+    isBlockedAddress: (address) => address !== '127.0.0.1' && isBlockedAddress(address),
+    isAllowedPort: () => true,
+  }
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req.url ?? '')
+      if (req.url === '/internal-redirect') {
+        res.writeHead(302, { Location: 'http://10.0.0.1/admin' })
+        res.end()
+        return
+      }
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' })
+      res.end(`<html><head>
+        <title>Fallback title</title>
+        <meta property="og:title" content="Release notes &amp; roadmap">
+        <meta property="og:description" content="What shipped this week">
+        <meta property="og:image" content="/cover.png">
+      </head><body>ignored</body></html>`)
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    mocks.db = createFakeSupabase({ link_unfurls: [] })
+    requests.length = 0
+  })
+
+  it('builds a preview from the page metadata and caches it', async () => {
+    const unfurl = await unfurlUrl(`${origin}/post`, stubNetwork)
+
+    expect(unfurl).toEqual({
+      url: `${origin}/post`,
+      title: 'Release notes & roadmap',
+      description: 'What shipped this week',
+      site_name: '127.0.0.1',
+      image_url: `${origin}/cover.png`,
+    })
+    expect(mocks.db.rows('link_unfurls')).toMatchObject([{ url: `${origin}/post`, ok: true }])
+
+    await unfurlUrl(`${origin}/post`, stubNetwork)
+    expect(requests).toEqual(['/post'])
+  })
+
+  it('never connects to a loopback server under the public policy', async () => {
+    expect(await unfurlUrl(`${origin}/post`, PUBLIC_NETWORK)).toBeNull()
+    expect(requests).toEqual([])
+  })
+
+  it('refuses to follow a redirect to a private address', async () => {
+    expect(await unfurlUrl(`${origin}/internal-redirect`, stubNetwork)).toBeNull()
+    expect(requests).toEqual(['/internal-redirect'])
+    expect(mocks.db.rows('link_unfurls')).toMatchObject([{ url: `${origin}/internal-redirect`, ok: false }])
+  })
+})